@@ -11,10 +11,10 @@ import {
   buildStockMap, findStockKey, getMealMultiple, getMealFractionalRatio,
   getEarliestIngredientExpiration, getExpiringIngredientName, getExpiredIngredientNames,
   getMaxIngredientCounter, getCounterIngredientNames, getMissingIngredients,
-  formatExpirationLabel, compareExpirationWithCounter, buildScaledMealForRatio,
+  formatExpirationLabel, compareExpirationWithCounter, buildScaledMealForRatio, getMealIngredientGroups,
 } from "@/lib/stockUtils";
 import {
-  normalizeForMatch, strictNameMatch, parseQty, formatNumeric, getFoodItemTotalGrams, parseIngredientGroups, computeIngredientCalories,
+  normalizeForMatch, strictNameMatch, parseQty, formatNumeric, getFoodItemTotalGrams, computeIngredientCalories,
 } from "@/lib/ingredientUtils";
 import { format, parseISO } from "date-fns";
 import { fr } from "date-fns/locale";
@@ -193,7 +193,7 @@ export function AvailableList({ category, meals, foodItems, allMeals, sortMode,
     }
     const usedIngredientKeys = new Set<string>();
     for (const meal of globalAvailableMeals) {
-      const groups = parseIngredientGroups(meal.ingredients!);
+      const groups = getMealIngredientGroups(meal);
       for (const group of groups) {
         for (const alt of group) {
           const key = findStockKey(stockMap, alt.name);
@@ -0,0 +1,137 @@
+import { useRef, useState } from "react";
+import { Download, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "@/hooks/use-toast";
+import { useBackup } from "@/hooks/useBackup";
+import { BACKUP_TABLE_LABELS, parseBackup, type Backup, type RestoreMode, type RestorePlan } from "@/lib/backup";
+
+const sectionTitle = "text-[10px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+const MODE_HINTS: Record<RestoreMode, string> = {
+  merge: "Ajoute ce qui manque, garde ce qui existe déjà.",
+  replace: "Efface les données du foyer puis remet celles de la sauvegarde.",
+};
+
+/** Full JSON backup of the household, and restoring one after a dry run */
+export function BackupRestore({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { exportBackup, previewRestore, applyRestore } = useBackup();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [backup, setBackup] = useState<{ name: string; data: Backup } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [busy, setBusy] = useState<"export" | "preview" | "restore" | null>(null);
+  // Replacing takes a second click
+  const [confirming, setConfirming] = useState(false);
+
+  const reset = () => { setBackup(null); setPlan(null); setConfirming(false); setMode("merge"); };
+
+  const run = async (step: NonNullable<typeof busy>, action: () => Promise<void>) => {
+    setBusy(step);
+    try {
+      await action();
+    } catch (e) {
+      toast({ title: "Erreur", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const preview = (data: Backup, nextMode: RestoreMode) =>
+    run("preview", async () => { setConfirming(false); setPlan(await previewRestore(data, nextMode)); });
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    run("preview", async () => {
+      const data = parseBackup(await file.text());
+      setBackup({ name: file.name, data });
+      setPlan(await previewRestore(data, mode));
+    });
+  };
+
+  const handleExport = () => run("export", async () => {
+    const { tables } = await exportBackup();
+    const count = Object.values(tables).reduce((sum, rows) => sum + (rows?.length ?? 0), 0);
+    toast({ title: `✅ Sauvegarde exportée (${count} lignes)` });
+  });
+
+  const handleRestore = () => {
+    if (!plan) return;
+    if (plan.mode === "replace" && !confirming) { setConfirming(true); return; }
+    run("restore", async () => {
+      await applyRestore(plan);
+      const added = plan.report.reduce((sum, r) => sum + r.added, 0);
+      toast({ title: `✅ Sauvegarde restaurée (${added} lignes)` });
+      reset();
+      onOpenChange(false);
+    });
+  };
+
+  const changes = plan?.report.filter((r) => r.total > 0 || r.removed > 0) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (busy === "restore") return; onOpenChange(o); if (!o) reset(); }}>
+      <DialogContent className="max-w-sm rounded-[24px] sm:rounded-[34px] border-0 bg-card/95 backdrop-blur-xl shadow-2xl p-4 space-y-3 max-h-[90vh] overflow-y-auto" aria-describedby={undefined}>
+        <DialogTitle className="text-base">Sauvegarde</DialogTitle>
+
+        <div className="space-y-1.5">
+          <p className={sectionTitle}>Exporter</p>
+          <p className="text-xs text-muted-foreground">Toutes les données du foyer : repas, stock, planning, courses, magasins, préférences…</p>
+          <Button size="sm" variant="secondary" className="w-full h-8 text-xs" disabled={busy !== null} onClick={handleExport}>
+            {busy === "export" ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <><Download className="h-3.5 w-3.5 mr-1" /> Télécharger (.json)</>}
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-1.5">
+          <p className={sectionTitle}>Restaurer</p>
+          <input ref={fileInput} type="file" accept=".json,application/json" className="hidden"
+            onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ""; }} />
+          <Button size="sm" variant="secondary" className="w-full h-8 text-xs" disabled={busy !== null} onClick={() => fileInput.current?.click()}>
+            <Upload className="h-3.5 w-3.5 mr-1" /> {backup ? backup.name : "Choisir une sauvegarde"}
+          </Button>
+
+          {backup && (
+            <>
+              <p className="text-[10px] text-muted-foreground">Exportée le {new Date(backup.data.exported_at).toLocaleString("fr-FR")}</p>
+              <div className="flex gap-1">
+                {(["merge", "replace"] as const).map((m) => (
+                  <button key={m} onClick={() => { setMode(m); preview(backup.data, m); }} disabled={busy !== null}
+                    className={`flex-1 text-xs rounded-lg px-2 py-1.5 transition-colors ${mode === m ? "bg-primary text-primary-foreground font-semibold" : "bg-muted hover:bg-muted/80"}`}>
+                    {m === "merge" ? "Fusionner" : "Remplacer"}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-muted-foreground">{MODE_HINTS[mode]}</p>
+            </>
+          )}
+
+          {busy === "preview" && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground mx-auto" />}
+
+          {plan && busy !== "preview" && (
+            <div className="space-y-1">
+              <p className="text-[10px] text-muted-foreground">Aperçu, rien n'est encore modifié :</p>
+              {changes.length === 0 && <p className="text-xs text-muted-foreground">Sauvegarde vide</p>}
+              {changes.map((r) => (
+                <div key={r.table} className="flex items-center gap-1.5 text-xs">
+                  <span className="flex-1 min-w-0 truncate">{BACKUP_TABLE_LABELS[r.table]}</span>
+                  {r.removed > 0 && <span className="text-[10px] text-destructive shrink-0">−{r.removed}</span>}
+                  {r.added > 0 && <span className="text-[10px] text-primary font-semibold shrink-0">+{r.added}</span>}
+                  {r.kept > 0 && <span className="text-[10px] text-muted-foreground shrink-0">{r.kept} déjà là</span>}
+                  {r.invalid > 0 && <span className="text-[10px] text-amber-600 shrink-0">{r.invalid} invalide{r.invalid > 1 ? "s" : ""}</span>}
+                </div>
+              ))}
+              {plan.warnings.map((w) => <p key={w} className="text-[10px] text-amber-600">{w}</p>)}
+              <Button size="sm" variant={plan.mode === "replace" ? "destructive" : "default"} className="w-full h-8 text-xs"
+                disabled={busy !== null} onClick={handleRestore} onBlur={() => setConfirming(false)}>
+                {busy === "restore" ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : confirming ? "Confirmer le remplacement ?" : "Restaurer"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
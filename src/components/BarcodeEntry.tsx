@@ -0,0 +1,200 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { Camera, CameraOff } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { NutritionSuggestions } from "@/components/NutritionSuggestions";
+import { useProductCatalog, type CatalogProduct } from "@/hooks/useProductCatalog";
+import type { StorageType } from "@/hooks/useFoodItems";
+import { normalizeBarcode } from "@/lib/barcode";
+import { entryNutrition, type NutritionEntry } from "@/lib/nutritionDb";
+import { MACRO_KEYS, type Nutrition } from "@/lib/ingredientUtils";
+
+// Shape Detection API (Chromium, Android): not in the TS DOM lib yet
+interface DetectedBarcode { rawValue: string }
+interface BarcodeDetectorLike { detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]> }
+type BarcodeDetectorCtor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+const getDetectorCtor = () => (window as unknown as { BarcodeDetector?: BarcodeDetectorCtor }).BarcodeDetector;
+
+const STORAGE_OPTIONS: { value: StorageType; label: string }[] = [
+  { value: "frigo", label: "Frigo" },
+  { value: "sec", label: "Placard sec" },
+  { value: "surgele", label: "Surgelés" },
+  { value: "toujours", label: "Toujours présent" },
+];
+
+const NONE = "__none__";
+
+const toNumber = (v: string) => {
+  const n = parseFloat(v.replace(",", "."));
+  return isNaN(n) || n < 0 ? null : n;
+};
+
+/** Barcode lookup in the product catalog (typed or camera); unknown codes open a form that learns the product */
+export function BarcodeEntry({ onProduct, children }: { onProduct: (product: CatalogProduct) => void; children: ReactNode }) {
+  const { findByEan, saveProduct } = useProductCatalog();
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [learning, setLearning] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [brand, setBrand] = useState("");
+  const [netGrams, setNetGrams] = useState("");
+  const [kcal, setKcal] = useState("");
+  const [protein, setProtein] = useState("");
+  const [picked, setPicked] = useState<Nutrition | null>(null);
+  const [storage, setStorage] = useState<StorageType | null>(null);
+  const [nameFocused, setNameFocused] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  const reset = () => {
+    setCode(""); setError(null); setLearning(null); setName(""); setBrand(""); setNetGrams("");
+    setKcal(""); setProtein(""); setPicked(null); setStorage(null); setScanning(false);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) reset();
+  };
+
+  const lookup = (raw: string) => {
+    const ean = normalizeBarcode(raw);
+    if (!ean) { setError("Code EAN-13 invalide"); return; }
+    setError(null);
+    const product = findByEan(ean);
+    if (product) {
+      onProduct(product);
+      handleOpenChange(false);
+    } else {
+      setCode(ean);
+      setLearning(ean);
+    }
+  };
+
+  // Camera scan: poll the detector on the video stream until a valid code shows up
+  useEffect(() => {
+    if (!scanning) return;
+    const Detector = getDetectorCtor();
+    if (!Detector) return;
+    const detector = new Detector({ formats: ["ean_13", "upc_a"] });
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } }).then(s => {
+      if (cancelled) { s.getTracks().forEach(t => t.stop()); return; }
+      stream = s;
+      if (videoRef.current) { videoRef.current.srcObject = s; videoRef.current.play().catch(() => {}); }
+      timer = setInterval(async () => {
+        if (!videoRef.current || videoRef.current.readyState < 2) return;
+        const found = (await detector.detect(videoRef.current).catch(() => [])).map(b => normalizeBarcode(b.rawValue)).find(Boolean);
+        if (found && !cancelled) { setScanning(false); lookup(found); }
+      }, 300);
+    }).catch(() => { setScanning(false); setError("Caméra indisponible"); });
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scanning]);
+
+  const pickNutrition = (entry: NutritionEntry) => {
+    const values = entryNutrition(entry);
+    if (!name.trim()) setName(entry.label);
+    setKcal(String(values.kcal));
+    setProtein(values.protein ? String(values.protein) : "");
+    setPicked(values);
+    setNameFocused(false);
+  };
+
+  const learn = async () => {
+    if (!learning || !name.trim()) return;
+    const macros = Object.fromEntries(MACRO_KEYS.filter(k => k !== "protein").map(k => [k, picked?.[k] ?? null]));
+    const product = await saveProduct.mutateAsync({
+      ean: learning,
+      name: name.trim(),
+      brand: brand.trim() || null,
+      net_grams: toNumber(netGrams),
+      kcal: toNumber(kcal),
+      protein: toNumber(protein),
+      ...macros,
+      storage_type: storage,
+    });
+    onProduct(product);
+    handleOpenChange(false);
+  };
+
+  const canScan = typeof window !== "undefined" && !!getDetectorCtor() && !!navigator.mediaDevices?.getUserMedia;
+  const fieldClass = "h-7 text-xs rounded-lg";
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-72 p-3 space-y-2" align="end">
+        <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Code-barres</p>
+        <div className="flex gap-1">
+          <Input
+            autoFocus
+            placeholder="EAN-13 (13 chiffres)"
+            inputMode="numeric"
+            value={code}
+            onChange={e => { setCode(e.target.value); setLearning(null); setError(null); }}
+            onKeyDown={e => e.key === "Enter" && lookup(code)}
+            className={fieldClass}
+          />
+          {canScan && (
+            <button
+              onClick={() => setScanning(s => !s)}
+              className={`h-7 w-7 shrink-0 flex items-center justify-center rounded-lg border transition-colors ${scanning ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
+              title={scanning ? "Arrêter la caméra" : "Scanner avec la caméra"}
+            >
+              {scanning ? <CameraOff className="h-3.5 w-3.5" /> : <Camera className="h-3.5 w-3.5" />}
+            </button>
+          )}
+        </div>
+        {scanning && <video ref={videoRef} muted playsInline className="w-full rounded-lg bg-black aspect-video object-cover" />}
+        {error && <p className="text-[11px] text-destructive">{error}</p>}
+
+        {learning && (
+          <div className="space-y-1.5 border-t pt-2">
+            <p className="text-[11px] text-muted-foreground">Produit inconnu : il sera retenu pour les prochaines fois.</p>
+            <div className="relative">
+              <Input
+                placeholder="Nom du produit"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                onFocus={() => setNameFocused(true)}
+                onBlur={() => setNameFocused(false)}
+                className={fieldClass}
+              />
+              {nameFocused && !picked && <NutritionSuggestions query={name} onPick={pickNutrition} />}
+            </div>
+            <div className="flex gap-1">
+              <Input placeholder="Marque" value={brand} onChange={e => setBrand(e.target.value)} className={fieldClass} />
+              <Input placeholder="Poids net (g)" inputMode="decimal" value={netGrams} onChange={e => setNetGrams(e.target.value)} className={`${fieldClass} w-24 shrink-0`} />
+            </div>
+            <div className="flex gap-1">
+              <Input placeholder="kcal/100g" inputMode="decimal" value={kcal} onChange={e => setKcal(e.target.value)} className={fieldClass} />
+              <Input placeholder="Prot./100g" inputMode="decimal" value={protein} onChange={e => setProtein(e.target.value)} className={fieldClass} />
+            </div>
+            <Select value={storage ?? NONE} onValueChange={v => setStorage(v === NONE ? null : v as StorageType)}>
+              <SelectTrigger className={fieldClass}><SelectValue placeholder="Rangement" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Rangement : demander</SelectItem>
+                {STORAGE_OPTIONS.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <button
+              onClick={learn}
+              disabled={!name.trim() || saveProduct.isPending}
+              className="w-full text-xs font-semibold bg-primary text-primary-foreground rounded-md py-1 hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              Enregistrer le produit
+            </button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,300 @@
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Minus, Pause, Pencil, Play, Plus, RotateCcw, Thermometer, Timer, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useMeals, type Meal } from "@/hooks/useMeals";
+import { useKitchenTimers } from "@/hooks/useKitchenTimers";
+import { formatMinutes, parseSteps, totalMinutes, type RecipeStep } from "@/lib/recipe";
+import { formatChrono, isExpired, timerRemaining } from "@/lib/kitchenTimers";
+import { scaleIngredientStringExact } from "@/lib/stockUtils";
+import { stripNutritionSuffix } from "@/lib/ingredientUtils";
+
+const inputClass = "h-8 text-sm bg-muted/50 border border-border rounded-lg px-2 focus:outline-none focus:ring-1 focus:ring-primary";
+
+/** Countdown of a step: a kitchen timer linked to the meal and step, so it also rings outside the cooking mode */
+function StepTimer({ meal, index, minutes, active }: { meal: Meal; index: number; minutes: number; active: boolean }) {
+  const { timers, addTimer, startTimer, pauseTimer, deleteTimer } = useKitchenTimers();
+  const timer = timers.find(t => t.meal_id === meal.id && t.step_index === index);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!timer?.running) return;
+    const id = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(id);
+  }, [timer?.running]);
+
+  const remaining = timer ? timerRemaining(timer, now) ?? 0 : minutes * 60000;
+  const done = !!timer && isExpired(timer, now);
+
+  if (!active && !timer?.running && !done) return null;
+
+  const start = () => timer
+    ? startTimer(timer)
+    : addTimer.mutate({ name: `${meal.name} · étape ${index + 1}`, kind: "countdown", duration_seconds: minutes * 60, meal_id: meal.id, step_index: index, start: true });
+
+  return (
+    <div className={`flex items-center gap-2 rounded-2xl px-3 py-2 ${done ? "bg-orange-500/20 animate-pulse" : "bg-muted/60"}`}>
+      <Timer className={`h-4 w-4 shrink-0 ${done ? "text-orange-500" : "text-muted-foreground"}`} />
+      <span className={`font-mono font-black tabular-nums ${active ? "text-2xl" : "text-sm"} ${done ? "text-orange-500" : "text-foreground"}`}>
+        {done ? "Terminé !" : formatChrono(remaining, true)}
+      </span>
+      {!active && <span className="text-xs text-muted-foreground">Étape {index + 1}</span>}
+      <div className="flex-1" />
+      {timer?.running ? (
+        !done && <Button size="icon" variant="secondary" onClick={() => pauseTimer(timer)} className="rounded-full h-9 w-9"><Pause className="h-4 w-4" /></Button>
+      ) : (
+        <Button size="icon" onClick={start} disabled={addTimer.isPending} className="rounded-full h-9 w-9"><Play className="h-4 w-4 ml-0.5" /></Button>
+      )}
+      {timer && (
+        <Button size="icon" variant="outline" onClick={() => deleteTimer.mutate(timer.id)} className="rounded-full h-9 w-9"><RotateCcw className="h-4 w-4" /></Button>
+      )}
+    </div>
+  );
+}
+
+/** Times and steps of a meal, saved as they are edited */
+function RecipeEditor({ meal }: { meal: Meal }) {
+  const { updateRecipe } = useMeals();
+  const steps = parseSteps(meal.steps);
+  const [newStep, setNewStep] = useState("");
+
+  const saveSteps = (next: RecipeStep[]) => updateRecipe.mutate({ id: meal.id, steps: next });
+  const saveNumber = (field: "prep_minutes" | "cook_minutes" | "rest_minutes" | "yield_servings" | "yield_grams", raw: string) => {
+    const val = parseFloat(raw.replace(",", "."));
+    const value = val > 0 ? val : null;
+    if (value !== (meal[field] ?? null)) updateRecipe.mutate({ id: meal.id, [field]: value });
+  };
+  const move = (index: number, delta: number) => {
+    const next = [...steps];
+    const [step] = next.splice(index, 1);
+    next.splice(index + delta, 0, step);
+    saveSteps(next);
+  };
+  const addStep = () => {
+    const text = newStep.trim();
+    if (!text) return;
+    saveSteps([...steps, { text, timer_minutes: null }]);
+    setNewStep("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 flex-wrap">
+        {([["prep_minutes", "Préparation"], ["cook_minutes", "Cuisson"], ["rest_minutes", "Repos"]] as const).map(([field, label]) => (
+          <label key={field} className="flex items-center gap-1 text-xs text-muted-foreground">
+            {label}
+            <input
+              key={`${field}-${meal[field]}`}
+              type="number"
+              inputMode="numeric"
+              defaultValue={meal[field] ?? ""}
+              onBlur={(e) => saveNumber(field, e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter") (e.target as HTMLInputElement).blur(); }}
+              className={`${inputClass} w-16`}
+            />
+            min
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+        Pour
+        {([["yield_servings", "pers.", "1"], ["yield_grams", "g", "—"]] as const).map(([field, unit, placeholder], i) => (
+          <label key={field} className="flex items-center gap-1">
+            {i > 0 && "ou "}
+            <input
+              key={`${field}-${meal[field]}`}
+              type="number"
+              inputMode="decimal"
+              placeholder={placeholder}
+              defaultValue={meal[field] ?? ""}
+              onBlur={(e) => saveNumber(field, e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter") (e.target as HTMLInputElement).blur(); }}
+              className={`${inputClass} w-16`}
+            />
+            {unit}
+          </label>
+        ))}
+      </div>
+      {steps.map((step, i) => (
+        <div key={`${i}-${step.text}`} className="flex items-start gap-1.5">
+          <span className="text-sm font-black text-muted-foreground w-5 pt-1.5 shrink-0">{i + 1}</span>
+          <textarea
+            defaultValue={step.text}
+            rows={2}
+            onBlur={(e) => {
+              const text = e.target.value.trim();
+              if (!text) saveSteps(steps.filter((_, j) => j !== i));
+              else if (text !== step.text) saveSteps(steps.map((s, j) => j === i ? { ...s, text } : s));
+            }}
+            className="flex-1 min-w-0 text-sm bg-muted/50 border border-border rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary resize-none"
+          />
+          <input
+            type="number"
+            inputMode="numeric"
+            placeholder="⏱ min"
+            defaultValue={step.timer_minutes ?? ""}
+            onBlur={(e) => {
+              const val = parseInt(e.target.value);
+              const timer_minutes = val > 0 ? val : null;
+              if (timer_minutes !== step.timer_minutes) saveSteps(steps.map((s, j) => j === i ? { ...s, timer_minutes } : s));
+            }}
+            className={`${inputClass} w-16 text-xs`}
+            title="Minuteur de l'étape"
+          />
+          <div className="flex flex-col">
+            <button onClick={() => move(i, -1)} disabled={i === 0} className="text-muted-foreground hover:text-foreground disabled:opacity-20"><ChevronUp className="h-4 w-4" /></button>
+            <button onClick={() => move(i, 1)} disabled={i === steps.length - 1} className="text-muted-foreground hover:text-foreground disabled:opacity-20"><ChevronDown className="h-4 w-4" /></button>
+          </div>
+          <button onClick={() => saveSteps(steps.filter((_, j) => j !== i))} className="text-muted-foreground hover:text-destructive pt-1.5" title="Supprimer l'étape">
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-1.5">
+        <input
+          value={newStep}
+          onChange={(e) => setNewStep(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") addStep(); }}
+          placeholder="Nouvelle étape…"
+          className={`${inputClass} flex-1 min-w-0`}
+        />
+        <Button size="sm" onClick={addStep} disabled={!newStep.trim()} className="h-8 rounded-lg gap-1"><Plus className="h-3.5 w-3.5" /> Étape</Button>
+      </div>
+    </div>
+  );
+}
+
+interface CookingModeProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  meal: Meal;
+  /** Ingredients to cook with (a possible meal's override); defaults to the meal's */
+  ingredients?: string | null;
+  /** Initial multiplier of the ingredients (a possible meal's quantity) */
+  scale?: number;
+}
+
+/** Full-screen cooking mode: scaled ingredients, one step at a time, shared step timers */
+export function CookingMode({ open, onOpenChange, meal, ingredients, scale = 1 }: CookingModeProps) {
+  const steps = parseSteps(meal.steps);
+  const [current, setCurrent] = useState(0);
+  const [factor, setFactor] = useState(scale);
+  const [editing, setEditing] = useState(false);
+  const [done, setDone] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    if (!open) return;
+    setCurrent(0);
+    setFactor(scale);
+    setDone(new Set());
+    setEditing(steps.length === 0);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const raw = ingredients ?? meal.ingredients;
+  const scaled = factor === 1 ? raw : scaleIngredientStringExact(raw, factor);
+  const lines = (scaled ?? "").split(/(?:\n|,(?!\d))/).map(s => stripNutritionSuffix(s.trim())).filter(Boolean);
+  const total = totalMinutes(meal);
+  const step = steps[Math.min(current, steps.length - 1)];
+
+  const times = [
+    meal.prep_minutes ? `Préparation ${formatMinutes(meal.prep_minutes)}` : null,
+    meal.cook_minutes ? `Cuisson ${formatMinutes(meal.cook_minutes)}` : null,
+    meal.rest_minutes ? `Repos ${formatMinutes(meal.rest_minutes)}` : null,
+    total ? `Total ${formatMinutes(total)}` : null,
+  ].filter(Boolean);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-none w-screen h-[100dvh] sm:rounded-none rounded-none p-0 gap-0 flex flex-col" aria-describedby={undefined}>
+        <div className="px-4 pt-4 pb-3 pr-12 border-b border-border space-y-1.5" style={{ borderTopColor: meal.color, borderTopWidth: 6 }}>
+          <div className="flex items-center gap-2">
+            <DialogTitle className="text-xl font-black flex-1 min-w-0 break-words">{meal.name}</DialogTitle>
+            <Button size="sm" variant={editing ? "default" : "outline"} onClick={() => setEditing(e => !e)} className="rounded-full gap-1 h-8 text-xs shrink-0">
+              <Pencil className="h-3.5 w-3.5" /> {editing ? "Cuisiner" : "Modifier"}
+            </Button>
+          </div>
+          {(times.length > 0 || meal.oven_temp) && (
+            <div className="flex items-center gap-1.5 flex-wrap text-xs text-muted-foreground">
+              {times.map((t) => <span key={t} className="bg-muted rounded-full px-2 py-0.5">{t}</span>)}
+              {meal.oven_temp && (
+                <span className="bg-muted rounded-full px-2 py-0.5 flex items-center gap-1">
+                  <Thermometer className="h-3 w-3" />{meal.oven_temp}°C{meal.oven_minutes ? ` · ${meal.oven_minutes} min` : ""}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 grid gap-6 sm:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <h3 className="text-xs font-extrabold text-muted-foreground uppercase tracking-widest flex-1">Ingrédients</h3>
+              <Button size="icon" variant="outline" onClick={() => setFactor(f => Math.max(0.5, f - 0.5))} className="h-7 w-7 rounded-full"><Minus className="h-3 w-3" /></Button>
+              <span className="text-sm font-bold w-10 text-center">×{factor}</span>
+              <Button size="icon" variant="outline" onClick={() => setFactor(f => f + 0.5)} className="h-7 w-7 rounded-full"><Plus className="h-3 w-3" /></Button>
+            </div>
+            {lines.length === 0 ? (
+              <p className="text-sm text-muted-foreground italic">Aucun ingrédient.</p>
+            ) : lines.map((line, i) => (
+              <label key={`${i}-${line}`} className="flex items-start gap-2 text-base cursor-pointer">
+                <Checkbox className="mt-1" />
+                <span className="break-words">{line.replace(/^\?/, "").replace(/\s*\|\s*/g, " ou ")}{line.startsWith("?") ? " (facultatif)" : ""}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-xs font-extrabold text-muted-foreground uppercase tracking-widest">Étapes</h3>
+            {editing ? (
+              <RecipeEditor meal={meal} />
+            ) : steps.length === 0 ? (
+              <p className="text-sm text-muted-foreground italic">Pas encore d'étapes : « Modifier » pour les écrire.</p>
+            ) : (
+              <>
+                <div className="rounded-3xl bg-card border border-border p-5 space-y-4">
+                  <p className="text-xs font-bold text-muted-foreground">Étape {current + 1} / {steps.length}</p>
+                  <p className="text-2xl leading-snug font-semibold">{step.text}</p>
+                  {step.timer_minutes && <StepTimer key={current} meal={meal} index={current} minutes={step.timer_minutes} active />}
+                </div>
+                {steps.map((s, i) => i !== current && s.timer_minutes ? (
+                  <StepTimer key={i} meal={meal} index={i} minutes={s.timer_minutes} active={false} />
+                ) : null)}
+                <ol className="space-y-1">
+                  {steps.map((s, i) => (
+                    <li key={i}>
+                      <button
+                        onClick={() => setCurrent(i)}
+                        className={`w-full text-left flex items-start gap-2 rounded-xl px-2 py-1.5 text-sm transition-colors ${i === current ? "bg-primary/10 font-semibold" : "hover:bg-muted/60"} ${done.has(i) ? "text-muted-foreground line-through" : ""}`}
+                      >
+                        <span className="font-black w-5 shrink-0">{i + 1}</span>
+                        <span className="flex-1 min-w-0">{s.text}</span>
+                        {s.timer_minutes && <span className="text-xs text-muted-foreground shrink-0">⏱ {formatMinutes(s.timer_minutes)}</span>}
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+          </div>
+        </div>
+
+        {!editing && steps.length > 0 && (
+          <div className="flex items-center gap-3 p-4 border-t border-border">
+            <Button variant="outline" size="lg" onClick={() => setCurrent(c => Math.max(0, c - 1))} disabled={current === 0} className="rounded-full flex-1 gap-1">
+              <ChevronLeft className="h-5 w-5" /> Précédent
+            </Button>
+            {current < steps.length - 1 ? (
+              <Button size="lg" onClick={() => { setDone(d => new Set(d).add(current)); setCurrent(c => c + 1); }} className="rounded-full flex-1 gap-1">
+                Suivant <ChevronRight className="h-5 w-5" />
+              </Button>
+            ) : (
+              <Button size="lg" onClick={() => onOpenChange(false)} className="rounded-full flex-1">Bon appétit !</Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
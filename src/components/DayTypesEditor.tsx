@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Plus, Trash2, UtensilsCrossed } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useDayTypes } from "@/hooks/useDayTypes";
+import { useMeals } from "@/hooks/useMeals";
+import type { DayType } from "@/lib/dayTypes";
+
+const inputClass = "h-7 text-xs bg-muted/50 border border-border rounded-lg px-2 focus:outline-none focus:ring-1 focus:ring-primary";
+
+/** Day types of the planning: label, emoji, daily goals, days per week and required plats */
+export function DayTypesEditor() {
+  const { dayTypes, addDayType, updateDayType, deleteDayType } = useDayTypes();
+  const { getMealsByCategory } = useMeals();
+  const plats = getMealsByCategory("plat");
+  const [newLabel, setNewLabel] = useState("");
+
+  const submitNew = () => {
+    const label = newLabel.trim();
+    if (!label) return;
+    addDayType.mutate({ label });
+    setNewLabel("");
+  };
+
+  const saveTarget = (type: DayType, field: "calorie_target" | "protein_target", raw: string) => {
+    const val = parseInt(raw) || 0;
+    const target = val > 0 ? val : null;
+    if (target !== type[field]) updateDayType.mutate({ id: type.id, [field]: target });
+  };
+
+  const toggleMeal = (type: DayType, mealId: string, checked: boolean) => {
+    const ids = type.required_meal_ids.filter(id => id !== mealId);
+    updateDayType.mutate({ id: type.id, required_meal_ids: checked ? [...ids, mealId] : ids });
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Types de jour</p>
+      {dayTypes.map((type) => (
+        <div key={type.id} className="space-y-1">
+          <div className="flex items-center gap-1">
+            <input
+              key={`emoji-${type.id}-${type.emoji}`}
+              defaultValue={type.emoji ?? ''}
+              placeholder="📅"
+              onBlur={(e) => {
+                const emoji = e.target.value.trim() || null;
+                if (emoji !== type.emoji) updateDayType.mutate({ id: type.id, emoji });
+              }}
+              className={`${inputClass} w-7 px-0 text-center`}
+            />
+            <input
+              key={`label-${type.id}-${type.label}`}
+              defaultValue={type.label}
+              onBlur={(e) => {
+                const label = e.target.value.trim();
+                if (label && label !== type.label) updateDayType.mutate({ id: type.id, label });
+                else e.target.value = type.label;
+              }}
+              onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+              className={`${inputClass} flex-1 min-w-0`}
+            />
+            <select
+              value={type.days_per_week}
+              onChange={(e) => updateDayType.mutate({ id: type.id, days_per_week: parseInt(e.target.value) })}
+              className="h-7 bg-muted/50 text-foreground rounded-lg px-1 text-[10px] border border-border outline-none"
+              title="Jours par semaine (générateur de menu)"
+            >
+              {[0, 1, 2, 3, 4, 5, 6, 7].map((n) => <option key={n} value={n}>{n} j/sem</option>)}
+            </select>
+            <button onClick={() => deleteDayType.mutate(type.id)} className="text-muted-foreground hover:text-destructive shrink-0" title="Supprimer le type de jour">
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          <div className="flex items-center gap-1 pl-8">
+            <input
+              key={`kcal-${type.id}-${type.calorie_target}`}
+              type="number"
+              inputMode="numeric"
+              placeholder="kcal/j"
+              defaultValue={type.calorie_target ?? ''}
+              onBlur={(e) => saveTarget(type, "calorie_target", e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+              className={`${inputClass} w-16 px-1 text-[10px]`}
+              title="Objectif calorique de ces jours"
+            />
+            <input
+              key={`prot-${type.id}-${type.protein_target}`}
+              type="number"
+              inputMode="numeric"
+              placeholder="🍗/j"
+              defaultValue={type.protein_target ?? ''}
+              onBlur={(e) => saveTarget(type, "protein_target", e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+              className={`${inputClass} w-14 px-1 text-[10px]`}
+              title="Objectif protéines de ces jours"
+            />
+            <Popover>
+              <PopoverTrigger asChild>
+                <button className="h-7 flex-1 min-w-0 flex items-center gap-1 rounded-lg border border-border bg-muted/50 px-1.5 text-[10px] text-muted-foreground hover:text-foreground" title="Plats imposés chaque jour de ce type">
+                  <UtensilsCrossed className="h-3 w-3 shrink-0" />
+                  <span className="truncate">
+                    {type.required_meal_ids.length === 0
+                      ? "Aucun plat imposé"
+                      : plats.filter(m => type.required_meal_ids.includes(m.id)).map(m => m.name).join(", ")}
+                  </span>
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="w-64 p-2 max-h-72 overflow-y-auto" align="end">
+                {plats.map((m) => (
+                  <label key={m.id} className="flex items-center gap-2 px-1 py-1 rounded-md text-xs hover:bg-muted cursor-pointer">
+                    <Checkbox
+                      checked={type.required_meal_ids.includes(m.id)}
+                      onCheckedChange={(checked) => toggleMeal(type, m.id, !!checked)}
+                      className="h-3.5 w-3.5"
+                    />
+                    <span className="truncate">{m.name}</span>
+                  </label>
+                ))}
+              </PopoverContent>
+            </Popover>
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center gap-1 pt-1">
+        <input
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') submitNew(); }}
+          placeholder="Entraînement, repos, invités…"
+          className={`${inputClass} flex-1 min-w-0`}
+        />
+        <button onClick={submitNew} disabled={!newLabel.trim()} className="h-7 px-2 rounded-lg bg-primary text-primary-foreground text-xs font-semibold flex items-center gap-1 disabled:opacity-40">
+          <Plus className="h-3 w-3" /> Ajouter
+        </button>
+      </div>
+    </div>
+  );
+}
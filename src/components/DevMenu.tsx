@@ -1,7 +1,9 @@
-import { Download, Upload, ShieldAlert } from "lucide-react";
+import { Download, Upload, ShieldAlert, DatabaseBackup } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { toast } from "@/hooks/use-toast";
 import { colorFromName } from "@/lib/foodColors";
+import { ingredientStringToRows } from "@/lib/ingredientRows";
 import type { MealCategory, Meal } from "@/hooks/useMeals";
 import type { ShoppingGroup, ShoppingItem } from "@/hooks/useShoppingList";
 
@@ -18,10 +20,11 @@ interface DevMenuProps {
   shoppingGroups: ShoppingGroup[];
   shoppingItems: ShoppingItem[];
   blockedCount: number | null;
-  setBlockedCount: (n: number) => void;
+  onOpenSecurity: () => void;
+  onOpenBackup: () => void;
 }
 
-export function DevMenu({ onClose, getMealsByCategory, shoppingGroups, shoppingItems, blockedCount, setBlockedCount }: DevMenuProps) {
+export function DevMenu({ onClose, getMealsByCategory, shoppingGroups, shoppingItems, blockedCount, onOpenSecurity, onOpenBackup }: DevMenuProps) {
   const handleExportMeals = () => {
     const allCats: MealCategory[] = ["plat", "entree", "dessert", "bonus", "petit_dejeuner"];
     const lines = allCats.flatMap((cat) => getMealsByCategory(cat)).map((m) => {
@@ -65,11 +68,16 @@ export function DevMenu({ onClose, getMealsByCategory, shoppingGroups, shoppingI
         const cat = (params.cat as MealCategory) || 'plat';
         const { data: inserted, error: insertErr } = await supabase.from("meals").insert({
           name: name.trim(), category: cat, color: colorFromName(name.trim()), sort_order: count, is_available: true,
-          calories: params.cal || null, protein: params.prot || null, grams: params.grams || null, ingredients: params.ing || null,
+          calories: params.cal || null, protein: params.prot || null, grams: params.grams || null,
           oven_temp: params.oven_temp || null, oven_minutes: params.oven_minutes || null, is_favorite: params.fav === '1',
         } as any).select().single();
         if (insertErr) { skipped++; continue; }
         if (inserted) await supabase.from("meals").update({ color: colorFromName(inserted.id) }).eq("id", inserted.id);
+        if (inserted && params.ing) {
+          await supabase.rpc("replace_meal_ingredients", {
+            p_meal_id: inserted.id, p_possible_meal_id: null, p_rows: ingredientStringToRows(params.ing) as unknown as Json,
+          });
+        }
         count++;
       }
       toast({ title: skipped > 0 ? `✅ ${count} repas importés (${skipped} ignorés)` : `✅ ${count} repas importés` });
@@ -168,6 +176,7 @@ export function DevMenu({ onClose, getMealsByCategory, shoppingGroups, shoppingI
       <div className="bg-card rounded-2xl p-6 space-y-3 w-72 shadow-xl" onClick={(e) => e.stopPropagation()}>
         <h3 className="font-bold text-foreground">🛠 Outils cachés</h3>
         <p className="text-xs text-muted-foreground">Ces outils permettent d'exporter/importer vos données.</p>
+        <button onClick={() => { onOpenBackup(); onClose(); }} className="w-full flex items-center gap-2 text-sm px-3 py-2 rounded-lg bg-primary/10 hover:bg-primary/20 text-primary font-semibold"><DatabaseBackup className="h-4 w-4" /> Sauvegarde complète (.json)</button>
         <div className="space-y-1">
           <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-widest pt-1">Catalogue repas</p>
           <button onClick={handleExportMeals} className="w-full flex items-center gap-2 text-sm px-3 py-2 rounded-lg bg-muted hover:bg-muted/80 text-foreground"><Download className="h-4 w-4" /> Exporter repas (.txt)</button>
@@ -181,15 +190,8 @@ export function DevMenu({ onClose, getMealsByCategory, shoppingGroups, shoppingI
         <p className="text-[10px] text-muted-foreground/50">Format repas: NOM (cat=plat; cal=350kcal; ing=riz, légumes)</p>
         <div className="space-y-1">
           <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-widest pt-1">Sécurité</p>
-          <button onClick={async () => {
-            try {
-              const { data } = await supabase.functions.invoke("verify-pin", { body: { reset_blocked: true } });
-              if (data?.success) { setBlockedCount(0); toast({ title: "✅ Score PIN réinitialisé" }); }
-              else toast({ title: "❌ Erreur", variant: "destructive" });
-            } catch { toast({ title: "❌ Erreur", variant: "destructive" }); }
-            onClose();
-          }} className="w-full flex items-center gap-2 text-sm px-3 py-2 rounded-lg bg-destructive/10 hover:bg-destructive/20 text-destructive">
-            <ShieldAlert className="h-4 w-4" /> Réinitialiser score PIN ({blockedCount ?? 0})
+          <button onClick={() => { onOpenSecurity(); onClose(); }} className="w-full flex items-center gap-2 text-sm px-3 py-2 rounded-lg bg-destructive/10 hover:bg-destructive/20 text-destructive">
+            <ShieldAlert className="h-4 w-4" /> Tentatives et blocages ({blockedCount ?? 0})
           </button>
         </div>
         <button onClick={onClose} className="text-xs text-muted-foreground w-full text-center hover:text-foreground">Fermer</button>
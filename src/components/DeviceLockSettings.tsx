@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Fingerprint, KeyRound, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { useDeviceLock } from "@/hooks/useDeviceLock";
+import { getSessionLengthHours, PIN_PATTERN, SESSION_LENGTH_OPTIONS, setSessionLengthHours } from "@/lib/deviceLock";
+import { passkeysSupported } from "@/lib/webauthn";
+
+const inputClass = "h-8 text-sm bg-muted/50 border border-border rounded-lg px-2 focus:outline-none focus:ring-1 focus:ring-primary";
+const sectionTitle = "text-[10px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+const digits = (value: string) => value.replace(/\D/g, "").slice(0, 8);
+const lastUsed = (date: string | null) => date ? `utilisé le ${format(parseISO(date), "d MMM", { locale: fr })}` : "jamais utilisé";
+
+/** How long this device stays signed in, its PIN and passkeys, and the other devices of the account */
+export function DeviceLockSettings({ enabled, userName }: { enabled: boolean; userName: string }) {
+  const { deviceId, devices, thisDevice, setPin, removePin, addPasskey, removePasskey } = useDeviceLock({ enabled });
+  const [sessionHours, setSessionHours] = useState(getSessionLengthHours);
+  const [editingPin, setEditingPin] = useState(false);
+  const [currentPin, setCurrentPin] = useState("");
+  const [newPin, setNewPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  // Device whose PIN is being removed, and that PIN
+  const [removingPin, setRemovingPin] = useState<string | null>(null);
+  const [removalCode, setRemovalCode] = useState("");
+
+  const resetPinForm = () => { setEditingPin(false); setCurrentPin(""); setNewPin(""); setConfirmPin(""); };
+  const pinReady = PIN_PATTERN.test(newPin) && newPin === confirmPin && (!thisDevice.pin || PIN_PATTERN.test(currentPin));
+
+  const submitPin = () => {
+    if (!pinReady) return;
+    setPin.mutate({ pin: newPin, currentPin: thisDevice.pin ? currentPin : undefined }, {
+      onSuccess: () => { resetPinForm(); toast({ title: thisDevice.pin ? "Code modifié" : "Code enregistré" }); },
+    });
+  };
+
+  const startPinRemoval = (id: string) => { setRemovingPin(id); setRemovalCode(""); };
+  const submitPinRemoval = () => {
+    if (!removingPin || !PIN_PATTERN.test(removalCode)) return;
+    removePin.mutate({ id: removingPin, currentPin: removalCode }, {
+      onSuccess: () => { setRemovingPin(null); toast({ title: "Code supprimé" }); },
+      onSettled: () => setRemovalCode(""),
+    });
+  };
+
+  const pinRemovalForm = (
+    <div className="flex gap-1.5">
+      <input type="password" inputMode="numeric" value={removalCode} onChange={(e) => setRemovalCode(digits(e.target.value))}
+        onKeyDown={(e) => e.key === "Enter" && submitPinRemoval()}
+        placeholder={removingPin === deviceId ? "Code actuel" : "Code de l'appareil"} className={`${inputClass} flex-1 min-w-0 font-mono`} autoFocus />
+      <Button size="sm" variant="destructive" className="h-8 text-xs" disabled={!PIN_PATTERN.test(removalCode) || removePin.isPending} onClick={submitPinRemoval}>Supprimer</Button>
+      <Button size="sm" variant="ghost" className="h-8 text-xs" onClick={() => setRemovingPin(null)}>Annuler</Button>
+    </div>
+  );
+
+  const otherDevices = [
+    ...devices.pins.filter(p => p.device_id !== deviceId).map(p => ({ key: `pin-${p.device_id}`, pinOf: p.device_id, icon: KeyRound, label: p.label, used: p.last_used_at, remove: () => startPinRemoval(p.device_id) })),
+    ...devices.passkeys.filter(p => p.device_id !== deviceId).map(p => ({ key: `passkey-${p.id}`, pinOf: null, icon: Fingerprint, label: p.label, used: p.last_used_at, remove: () => removePasskey.mutate(p.id) })),
+  ];
+
+  return (
+    <div className="space-y-1.5">
+      <p className={sectionTitle}>Cet appareil</p>
+      <div className="flex items-center gap-1.5 text-xs">
+        <span className="flex-1">Rester connecté</span>
+        <Select value={String(sessionHours)} onValueChange={(v) => { setSessionLengthHours(Number(v)); setSessionHours(Number(v)); }}>
+          <SelectTrigger className="h-8 w-40 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {SESSION_LENGTH_OPTIONS.map(o => <SelectItem key={o.hours} value={String(o.hours)}>{o.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-[10px] text-muted-foreground">Appliqué par cet appareil ; « Déconnexion » ferme les sessions de tous tes appareils.</p>
+
+      {editingPin ? (
+        <div className="space-y-1.5">
+          {thisDevice.pin && (
+            <input type="password" inputMode="numeric" value={currentPin} onChange={(e) => setCurrentPin(digits(e.target.value))}
+              placeholder="Code actuel" className={`${inputClass} w-full font-mono`} autoFocus />
+          )}
+          <div className="flex gap-1.5">
+            <input type="password" inputMode="numeric" value={newPin} onChange={(e) => setNewPin(digits(e.target.value))}
+              placeholder="Nouveau code" className={`${inputClass} flex-1 min-w-0 font-mono`} autoFocus={!thisDevice.pin} />
+            <input type="password" inputMode="numeric" value={confirmPin} onChange={(e) => setConfirmPin(digits(e.target.value))}
+              onKeyDown={(e) => e.key === "Enter" && submitPin()}
+              placeholder="Confirmer" className={`${inputClass} flex-1 min-w-0 font-mono ${confirmPin && confirmPin !== newPin ? "border-destructive" : ""}`} />
+          </div>
+          <div className="flex gap-1.5">
+            <Button size="sm" className="flex-1 h-8 text-xs" disabled={!pinReady || setPin.isPending} onClick={submitPin}>Enregistrer</Button>
+            <Button size="sm" variant="ghost" className="h-8 text-xs" onClick={resetPinForm}>Annuler</Button>
+          </div>
+          <p className="text-[10px] text-muted-foreground">4 à 8 chiffres, demandés à l'ouverture de l'app sur cet appareil.</p>
+        </div>
+      ) : removingPin === deviceId ? pinRemovalForm : (
+        <div className="flex items-center gap-1.5">
+          <Button size="sm" variant="secondary" className="flex-1 h-8 text-xs" onClick={() => setEditingPin(true)}>
+            <KeyRound className="h-3.5 w-3.5 mr-1" /> {thisDevice.pin ? "Changer le code" : "Code de déverrouillage"}
+          </Button>
+          {thisDevice.pin && (
+            <button onClick={() => startPinRemoval(deviceId)} className="text-muted-foreground hover:text-destructive" title="Supprimer le code">
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          )}
+        </div>
+      )}
+
+      {passkeysSupported() && (
+        <Button size="sm" variant="secondary" className="w-full h-8 text-xs" disabled={addPasskey.isPending}
+          onClick={() => addPasskey.mutate(userName, { onSuccess: () => toast({ title: "Clé d'accès ajoutée" }) })}>
+          <Fingerprint className="h-3.5 w-3.5 mr-1" /> {thisDevice.passkey ? "Ajouter une autre clé d'accès" : "Déverrouiller avec une clé d'accès"}
+        </Button>
+      )}
+
+      {otherDevices.length > 0 && (
+        <div className="pt-1 space-y-1">
+          <p className="text-[10px] text-muted-foreground">Autres appareils</p>
+          {otherDevices.map(({ key, pinOf, icon: Icon, label, used, remove }) => (
+            <div key={key} className="space-y-1">
+              <div className="flex items-center gap-1.5 text-xs">
+                <Icon className="h-3 w-3 text-muted-foreground shrink-0" />
+                <span className="flex-1 min-w-0 truncate">{label ?? "Appareil"}</span>
+                <span className="text-[10px] text-muted-foreground shrink-0">{lastUsed(used)}</span>
+                <button onClick={remove} className="text-muted-foreground hover:text-destructive shrink-0" title="Retirer">
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+              {pinOf && removingPin === pinOf && pinRemovalForm}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
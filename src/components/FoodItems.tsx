@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 import { z } from "zod";
-import { Plus, Copy, Trash2, Timer, Flame, Weight, Calendar, ArrowUpDown, CalendarDays, Infinity as InfinityIcon, UtensilsCrossed, Refrigerator, Package, Snowflake, Hash, ChevronDown, ChevronRight, Minus, Search, Wheat, Drumstick, Lock } from "lucide-react";
+import { Plus, Copy, Trash2, Timer, Flame, Weight, Calendar, ArrowUpDown, CalendarDays, Infinity as InfinityIcon, UtensilsCrossed, Refrigerator, Package, Snowflake, Hash, ChevronDown, ChevronRight, Minus, Search, Wheat, Drumstick, Lock, History, ScanBarcode } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
@@ -11,6 +11,15 @@ import { fr } from "date-fns/locale";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { StockHistory } from "@/components/StockHistory";
+import { MacroEditor } from "@/components/MacroEditor";
+import { NutritionSuggestions } from "@/components/NutritionSuggestions";
+import { BarcodeEntry } from "@/components/BarcodeEntry";
+import { productNutrition, type CatalogProduct } from "@/hooks/useProductCatalog";
+import { useUndoable, rowsById } from "@/hooks/useUndoRedo";
+import { withStockReason, type StockMovementReason } from "@/lib/stockMovements";
+import { formatMacroSummary, MACRO_COLUMNS, type MacroValues, type Nutrition } from "@/lib/ingredientUtils";
+import { entryNutrition, type NutritionEntry } from "@/lib/nutritionDb";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -23,6 +32,11 @@ export interface FoodItem {
   grams: string | null;
   calories: string | null;
   protein: string | null;
+  carbs?: number | null;
+  fat?: number | null;
+  fibre?: number | null;
+  sugar?: number | null;
+  salt?: number | null;
   expiration_date: string | null;
   counter_start_date: string | null;
   sort_order: number;
@@ -36,6 +50,9 @@ export interface FoodItem {
   food_type: FoodType;
 }
 
+/** Nutrition picked for the add form (table entry or scanned product), per 100 g */
+type PickedNutrition = { source: string; values: Nutrition };
+
 // ─── Colors ─────────────────────────────────────────────────────────────────
 
 const FOOD_COLORS = [
@@ -158,6 +175,7 @@ function isExpiredDate(d: string | null) {
 
 export function useFoodItems() {
   const qc = useQueryClient();
+  const withUndo = useUndoable();
   const invalidate = () => qc.invalidateQueries({ queryKey: ["food_items"] });
 
   useEffect(() => {
@@ -194,9 +212,9 @@ export function useFoodItems() {
   });
 
   const addItem = useMutation({
-    mutationFn: async ({ name, storage_type, quantity, grams, food_type, expiration_date }: { name: string; storage_type: StorageType; quantity?: number | null; grams?: string | null; food_type?: FoodType; expiration_date?: string | null }) => {
+    mutationFn: ({ name, storage_type, quantity, grams, food_type, expiration_date, nutrition }: { name: string; storage_type: StorageType; quantity?: number | null; grams?: string | null; food_type?: FoodType; expiration_date?: string | null; nutrition?: Pick<FoodItem, "calories" | "protein"> & MacroValues }) => withUndo("Ajout au stock", [], async () => {
       const maxOrder = items.reduce((m, i) => Math.max(m, i.sort_order), -1);
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from("food_items")
         .insert({
           name,
@@ -207,35 +225,42 @@ export function useFoodItems() {
           ...(grams ? { grams } : {}),
           ...(food_type ? { food_type } : {}),
           ...(expiration_date ? { expiration_date } : {}),
-        } as any);
+          ...(nutrition ?? {}),
+        } as any)
+        .select("id")
+        .single();
       if (error) throw error;
-    },
+      return data.id as string;
+    }, { created: (id) => [rowsById("food_items", id)], silent: true }),
     onSuccess: invalidate,
   });
 
   const updateItem = useMutation({
-    mutationFn: async ({ id, ...updates }: Partial<FoodItem> & { id: string }) => {
-      const { error } = await supabase
+    mutationFn: ({ id, reason, ...updates }: Partial<FoodItem> & { id: string; reason?: StockMovementReason }) => withUndo(reason === "consume" ? "Consommation" : "Modification de l'aliment", [rowsById("food_items", id)], async () => {
+      const query = supabase
         .from("food_items")
         .update(updates as any)
         .eq("id", id);
+      const { error } = await (reason ? withStockReason(query, reason) : query);
       if (error) throw error;
-    },
+    }, { silent: reason !== "consume" }),
     onSuccess: invalidate,
   });
 
   const deleteItem = useMutation({
-    mutationFn: async (id: string) => {
-      const { error } = await supabase.from("food_items").delete().eq("id", id);
+    mutationFn: (arg: string | { id: string; reason: StockMovementReason }) => withUndo("Suppression de l'aliment", [rowsById("food_items", typeof arg === "string" ? arg : arg.id)], async () => {
+      const { id, reason } = typeof arg === "string" ? { id: arg, reason: undefined } : arg;
+      const query = supabase.from("food_items").delete().eq("id", id);
+      const { error } = await (reason ? withStockReason(query, reason) : query);
       if (error) throw error;
-    },
+    }),
     onSuccess: invalidate,
   });
 
   const duplicateItem = useMutation({
-    mutationFn: async (id: string) => {
+    mutationFn: (id: string) => withUndo("Duplication de l'aliment", [], async () => {
       const source = items.find(i => i.id === id);
-      if (!source) return;
+      if (!source) return null;
       const maxOrder = items.reduce((m, i) => Math.max(m, i.sort_order), -1);
       const { data: inserted, error } = await supabase.from("food_items").insert({
         name: source.name,
@@ -248,11 +273,12 @@ export function useFoodItems() {
         is_dry: source.is_dry,
         storage_type: source.storage_type,
         quantity: source.quantity,
+        ...Object.fromEntries(MACRO_COLUMNS.map(k => [k, source[k] ?? null])),
         sort_order: maxOrder + 1,
       } as any).select().single();
       if (error) throw error;
       return { newId: inserted.id, sourceId: source.id };
-    },
+    }, { created: (result) => [rowsById("food_items", result?.newId)] }),
     onSuccess: (result) => {
       if (result) {
         const overrides = JSON.parse(sessionStorage.getItem('color_overrides') || '{}');
@@ -264,11 +290,11 @@ export function useFoodItems() {
   });
 
   const reorderItems = useMutation({
-    mutationFn: async (ordered: { id: string; sort_order: number }[]) => {
+    mutationFn: (ordered: { id: string; sort_order: number }[]) => withUndo("Réordonnancement", [rowsById("food_items", ...ordered.map(o => o.id))], async () => {
       await Promise.all(ordered.map(({ id, sort_order }) =>
         supabase.from("food_items").update({ sort_order } as any).eq("id", id)
       ));
-    },
+    }, { silent: true }),
     onSuccess: invalidate,
   });
 
@@ -280,8 +306,8 @@ export function useFoodItems() {
 interface FoodItemCardProps {
   item: FoodItem;
   color: string;
-  onUpdate: (updates: Partial<FoodItem>) => void;
-  onDelete: () => void;
+  onUpdate: (updates: Partial<FoodItem>, reason?: StockMovementReason) => void;
+  onDelete: (reason?: StockMovementReason) => void;
   onDuplicate: () => void;
   onDragStart: (e: React.DragEvent) => void;
   onDragOver: (e: React.DragEvent) => void;
@@ -308,6 +334,8 @@ function FoodItemCard({ item, color, onUpdate, onDelete, onDuplicate, onDragStar
   const effectiveQty = item.quantity === 1 ? null : item.quantity;
   const canEditPartial = !item.is_infinite && gramsData.unit !== null && (effectiveQty ? effectiveQty > 1 : true);
   const showPartialLabel = gramsData.remainder !== null;
+  const macros: MacroValues = Object.fromEntries(MACRO_COLUMNS.map(k => [k, item[k]]));
+  const macroSummary = formatMacroSummary(macros);
 
   const saveEdit = () => {
     const val = editValue.trim();
@@ -366,9 +394,9 @@ function FoodItemCard({ item, color, onUpdate, onDelete, onDuplicate, onDragStar
     e.stopPropagation();
     const currentQty = item.quantity ?? 1;
     if (currentQty <= 1) {
-      onDelete();
+      onDelete('consume');
     } else {
-      onUpdate({ quantity: currentQty - 1 });
+      onUpdate({ quantity: currentQty - 1 }, 'consume');
     }
   };
 
@@ -528,6 +556,15 @@ function FoodItemCard({ item, color, onUpdate, onDelete, onDuplicate, onDragStar
             </button>
           ) : null}
 
+          {/* Macros (per 100 g) */}
+          {macroSummary && (
+            <MacroEditor values={macros} unitLabel="pour 100 g" onSave={m => onUpdate(m)}>
+              <button className="text-[10px] text-white/70 bg-emerald-500/30 px-1.5 py-0.5 rounded-full hover:bg-emerald-500/40 shrink-0 font-semibold">
+                {macroSummary}
+              </button>
+            </MacroEditor>
+          )}
+
           {/* Indivisible toggle */}
           {item.grams && !item.is_infinite && (
             <button
@@ -568,7 +605,7 @@ function FoodItemCard({ item, color, onUpdate, onDelete, onDuplicate, onDragStar
           <Button size="icon" variant="ghost" onClick={onDuplicate} className="h-6 w-6 shrink-0 text-white/70 hover:text-white hover:bg-white/20" title="Dupliquer">
             <Copy className="h-3 w-3" />
           </Button>
-          <Button size="icon" variant="ghost" onClick={onDelete} className="h-6 w-6 shrink-0 text-white/70 hover:text-white hover:bg-white/20" title="Supprimer">
+          <Button size="icon" variant="ghost" onClick={() => onDelete()} className="h-6 w-6 shrink-0 text-white/70 hover:text-white hover:bg-white/20" title="Supprimer">
             <Trash2 className="h-3 w-3" />
           </Button>
         </div>
@@ -605,6 +642,13 @@ function FoodItemCard({ item, color, onUpdate, onDelete, onDuplicate, onDragStar
             P + protéines
           </button>
         )}
+        {!macroSummary && (
+          <MacroEditor values={macros} unitLabel="pour 100 g" onSave={m => onUpdate(m)}>
+            <button className="text-[10px] text-white/40 bg-white/10 hover:bg-white/20 px-1.5 py-0.5 rounded-full flex items-center gap-0.5">
+              + macros
+            </button>
+          </MacroEditor>
+        )}
 
         <Popover open={calOpen} onOpenChange={setCalOpen}>
           <PopoverTrigger asChild>
@@ -682,7 +726,12 @@ export function FoodItems() {
   const [pendingGrams, setPendingGrams] = useState("");
   const [pendingFoodType, setPendingFoodType] = useState<FoodType>(null);
   const [pendingExpiration, setPendingExpiration] = useState<string | null>(null);
+  const [newNutrition, setNewNutrition] = useState<PickedNutrition | null>(null);
+  const [pendingNutrition, setPendingNutrition] = useState<PickedNutrition | null>(null);
+  const [newStorage, setNewStorage] = useState<StorageType | null>(null);
+  const [nameFocused, setNameFocused] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
 
   // Independent sort per section
   const [sortModes, setSortModes] = useState<Record<StorageType, SortMode>>(() => {
@@ -788,19 +837,53 @@ export function FoodItems() {
       toast({ title: "Données invalides", description: result.error.issues[0].message, variant: "destructive" });
       return;
     }
+    const expiration = newExpiration ? format(newExpiration, 'yyyy-MM-dd') : null;
+    // Scanned products know where they go
+    if (newStorage) {
+      submitAdd({ name: result.data.name, quantity: newQuantity, grams: newGrams, foodType: newFoodType, expiration, nutrition: newNutrition }, newStorage);
+      return;
+    }
     setPendingName(result.data.name);
     setPendingQuantity(newQuantity);
     setPendingGrams(newGrams);
     setPendingFoodType(newFoodType);
-    setPendingExpiration(newExpiration ? format(newExpiration, 'yyyy-MM-dd') : null);
+    setPendingExpiration(expiration);
+    setPendingNutrition(newNutrition);
     setShowStoragePrompt(true);
   };
 
-  const confirmAdd = (storageType: StorageType) => {
-    const qty = pendingQuantity ? parseInt(pendingQuantity) || null : null;
-    const grams = pendingGrams.trim() || null;
-    addItem.mutate({ name: pendingName, storage_type: storageType, quantity: qty, grams, food_type: pendingFoodType, expiration_date: pendingExpiration }, {
-      onSuccess: () => { setNewName(""); setNewQuantity(""); setNewGrams(""); setNewFoodType(null); setNewExpiration(undefined); setPendingName(""); setPendingQuantity(""); setPendingGrams(""); setPendingFoodType(null); setPendingExpiration(null); setShowStoragePrompt(false); toast({ title: "Aliment ajouté 🥕", duration: 800 }); },
+  /** Picked from the nutrition table: name, default unit weight and per-100 g values */
+  const pickNutrition = (entry: NutritionEntry) => {
+    setNewName(entry.label);
+    setNewNutrition({ source: entry.name, values: entryNutrition(entry) });
+    if (!newGrams.trim() && entry.unitGrams) setNewGrams(String(entry.unitGrams));
+  };
+
+  /** Scanned product: name, net weight, nutrition and default storage */
+  const pickProduct = (product: CatalogProduct) => {
+    setNewName(product.name);
+    if (product.net_grams) setNewGrams(String(product.net_grams));
+    setNewNutrition(product.kcal != null ? { source: [product.name, product.brand].filter(Boolean).join(" — "), values: productNutrition(product) } : null);
+    setNewStorage(product.storage_type);
+  };
+
+  const resetAddForm = () => {
+    setNewName(""); setNewQuantity(""); setNewGrams(""); setNewFoodType(null); setNewExpiration(undefined); setNewNutrition(null); setNewStorage(null);
+    setPendingName(""); setPendingQuantity(""); setPendingGrams(""); setPendingFoodType(null); setPendingExpiration(null); setPendingNutrition(null);
+    setShowStoragePrompt(false);
+  };
+
+  const submitAdd = (fields: { name: string; quantity: string; grams: string; foodType: FoodType; expiration: string | null; nutrition: PickedNutrition | null }, storageType: StorageType) => {
+    const qty = fields.quantity ? parseInt(fields.quantity) || null : null;
+    const grams = fields.grams.trim() || null;
+    const values = fields.nutrition?.values;
+    const nutrition = values ? {
+      calories: values.kcal != null ? String(values.kcal) : null,
+      protein: values.protein ? String(values.protein) : null,
+      ...Object.fromEntries(MACRO_COLUMNS.map(k => [k, values[k] ?? null])),
+    } : undefined;
+    addItem.mutate({ name: fields.name, storage_type: storageType, quantity: qty, grams, food_type: fields.foodType, expiration_date: fields.expiration, nutrition }, {
+      onSuccess: () => { resetAddForm(); toast({ title: "Aliment ajouté 🥕", duration: 800 }); },
       onError: (err: unknown) => {
         const msg = err instanceof Error ? err.message : String(err);
         toast({ title: "Erreur lors de l'ajout", description: msg, variant: "destructive" });
@@ -808,6 +891,10 @@ export function FoodItems() {
     });
   };
 
+  const confirmAdd = (storageType: StorageType) => {
+    submitAdd({ name: pendingName, quantity: pendingQuantity, grams: pendingGrams, foodType: pendingFoodType, expiration: pendingExpiration, nutrition: pendingNutrition }, storageType);
+  };
+
   const handleReorder = (storageType: StorageType, fromIndex: number, toIndex: number) => {
     const sectionItems = getSortedItems(storageType);
     const reordered = [...sectionItems];
@@ -829,13 +916,18 @@ export function FoodItems() {
     <div className="max-w-6xl mx-auto">
       {/* Add form + search */}
       <div className="flex gap-2 mb-2">
-        <Input
-          placeholder="Nom de l'aliment (ex : Crème fraîche)"
-          value={newName}
-          onChange={e => setNewName(e.target.value)}
-          onKeyDown={e => e.key === "Enter" && handleAdd()}
-          className="flex-1 rounded-xl"
-        />
+        <div className="relative flex-1">
+          <Input
+            placeholder="Nom de l'aliment (ex : Crème fraîche)"
+            value={newName}
+            onChange={e => { setNewName(e.target.value); setNewNutrition(null); setNewStorage(null); }}
+            onKeyDown={e => e.key === "Enter" && handleAdd()}
+            onFocus={() => setNameFocused(true)}
+            onBlur={() => setNameFocused(false)}
+            className="rounded-xl"
+          />
+          {nameFocused && !newNutrition && <NutritionSuggestions query={newName} onPick={pickNutrition} />}
+        </div>
         <div className="relative shrink-0">
           <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground pointer-events-none" />
           <Input
@@ -845,10 +937,18 @@ export function FoodItems() {
             className="w-28 sm:w-36 rounded-xl pl-7 h-10"
           />
         </div>
+        <BarcodeEntry onProduct={pickProduct}>
+          <Button variant="ghost" size="icon" className="rounded-full shrink-0" title="Code-barres">
+            <ScanBarcode className="h-4 w-4" />
+          </Button>
+        </BarcodeEntry>
         <Button onClick={handleAdd} disabled={!newName.trim()} className="rounded-full gap-1 shrink-0">
           <Plus className="h-4 w-4" />
           <span className="hidden sm:inline">Ajouter</span>
         </Button>
+        <Button onClick={() => setShowHistory(v => !v)} variant={showHistory ? "secondary" : "ghost"} size="icon" className="rounded-full shrink-0" title="Historique du stock">
+          <History className="h-4 w-4" />
+        </Button>
       </div>
 
       {/* Quantity + Grams + Expiration + Food type inputs */}
@@ -910,8 +1010,22 @@ export function FoodItems() {
             <Drumstick className="h-3 w-3" />Via
           </button>
         </div>
+        {newNutrition && (
+          <span className="text-[10px] px-2 py-1 rounded-full flex items-center gap-1 border bg-emerald-500/10 text-emerald-500 border-emerald-500/30 shrink-0" title={newNutrition.source}>
+            <Flame className="h-3 w-3" />{newNutrition.values.kcal} kcal/100g
+            <button onClick={() => setNewNutrition(null)} className="hover:text-destructive" title="Ne pas utiliser ces valeurs">×</button>
+          </span>
+        )}
+        {newStorage && (
+          <span className="text-[10px] px-2 py-1 rounded-full flex items-center gap-1 border bg-muted text-muted-foreground border-border shrink-0">
+            {STORAGE_SECTIONS.find(s => s.type === newStorage)?.emoji}
+            <button onClick={() => setNewStorage(null)} className="hover:text-destructive" title="Demander le rangement">×</button>
+          </span>
+        )}
       </div>
 
+      {showHistory && <StockHistory onClose={() => setShowHistory(false)} />}
+
       {/* Storage type prompt */}
       {showStoragePrompt && (
         <div className="mb-4 rounded-2xl bg-card border p-4 shadow-lg">
@@ -950,8 +1064,8 @@ export function FoodItems() {
             storageType={section.type}
             items={getSortedItems(section.type)}
             colorMap={colorMap}
-            onUpdate={(id, updates) => updateItem.mutate({ id, ...updates })}
-            onDelete={(id) => deleteItem.mutate(id)}
+            onUpdate={(id, updates, reason) => updateItem.mutate({ id, reason, ...updates })}
+            onDelete={(id, reason) => deleteItem.mutate(reason ? { id, reason } : id)}
             onDuplicate={(id) => duplicateItem.mutate(id)}
             sortMode={sortModes[section.type]}
             onToggleSort={() => setSortModes(prev => ({ ...prev, [section.type]: prev[section.type] === "manual" ? "expiration" : "manual" }))}
@@ -973,8 +1087,8 @@ export function FoodItems() {
               storageType={section.type}
               items={getSortedItems(section.type)}
               colorMap={colorMap}
-              onUpdate={(id, updates) => updateItem.mutate({ id, ...updates })}
-              onDelete={(id) => deleteItem.mutate(id)}
+              onUpdate={(id, updates, reason) => updateItem.mutate({ id, reason, ...updates })}
+              onDelete={(id, reason) => deleteItem.mutate(reason ? { id, reason } : id)}
               onDuplicate={(id) => duplicateItem.mutate(id)}
               sortMode={sortModes[section.type]}
               onToggleSort={() => setSortModes(prev => ({ ...prev, [section.type]: prev[section.type] === "manual" ? "expiration" : "manual" }))}
@@ -999,8 +1113,8 @@ interface FoodSectionProps {
   storageType: StorageType;
   items: FoodItem[];
   colorMap: (item: FoodItem) => string;
-  onUpdate: (id: string, updates: Partial<FoodItem>) => void;
-  onDelete: (id: string) => void;
+  onUpdate: (id: string, updates: Partial<FoodItem>, reason?: StockMovementReason) => void;
+  onDelete: (id: string, reason?: StockMovementReason) => void;
   onDuplicate: (id: string) => void;
   sortMode: SortMode;
   onToggleSort: () => void;
@@ -1173,8 +1287,8 @@ function FoodSection({ emoji, title, storageType, items, colorMap, onUpdate, onD
                 <FoodItemCard
                   item={item}
                   color={colorMap(item)}
-                  onUpdate={(updates) => onUpdate(item.id, updates)}
-                  onDelete={() => onDelete(item.id)}
+                  onUpdate={(updates, reason) => onUpdate(item.id, updates, reason)}
+                  onDelete={(reason) => onDelete(item.id, reason)}
                   onDuplicate={() => onDuplicate(item.id)}
                   draggableEnabled={!isTouchDevice}
                   onDragStart={(e) => {
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Check, Copy, Crown, LogOut, Plus, Trash2, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Separator } from "@/components/ui/separator";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { useHouseholdAccount } from "@/hooks/useHouseholdAccount";
+import { DeviceLockSettings } from "@/components/DeviceLockSettings";
+import { canManageHousehold, formatInviteCode, ROLE_LABELS, sortPeople } from "@/lib/householdAccounts";
+
+const inputClass = "h-8 text-sm bg-muted/50 border border-border rounded-lg px-2 focus:outline-none focus:ring-1 focus:ring-primary";
+const sectionTitle = "text-[10px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+/** The signed-in account, its households and, for owners, the people and invites of the active one */
+export function HouseholdAccount({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const account = useHouseholdAccount({ enabled: open });
+  const { activeHousehold, households, people, userId } = account;
+  const isOwner = canManageHousehold(activeHousehold?.role);
+  const [invite, setInvite] = useState<string | null>(null);
+  const [joinCode, setJoinCode] = useState("");
+  const [newHousehold, setNewHousehold] = useState("");
+  // Leaving takes a second click: the last one out deletes the household and its data
+  const [leaving, setLeaving] = useState<string | null>(null);
+
+  const copyInvite = async () => {
+    if (!invite) return;
+    try {
+      await navigator.clipboard.writeText(formatInviteCode(invite));
+      toast({ title: "Code copié" });
+    } catch {/* shown on screen anyway */}
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { onOpenChange(o); if (!o) setInvite(null); }}>
+      <DialogContent className="max-w-sm rounded-[24px] sm:rounded-[34px] border-0 bg-card/95 backdrop-blur-xl shadow-2xl p-4 space-y-3 max-h-[90vh] overflow-y-auto" aria-describedby={undefined}>
+        <DialogTitle className="text-base">Compte</DialogTitle>
+
+        <div className="space-y-1.5">
+          <p className={sectionTitle}>Moi</p>
+          <div className="flex items-center gap-1.5">
+            <input
+              key={`name-${account.displayName}`}
+              defaultValue={account.displayName ?? ""}
+              placeholder="Prénom"
+              onBlur={(e) => { const v = e.target.value.trim(); if (v && v !== account.displayName) account.updateDisplayName.mutate(v); }}
+              onKeyDown={(e) => { if (e.key === "Enter") (e.target as HTMLInputElement).blur(); }}
+              className={`${inputClass} flex-1 min-w-0`}
+            />
+            <Button size="sm" variant="outline" className="h-8 text-xs" onClick={() => supabase.auth.signOut()}>
+              <LogOut className="h-3.5 w-3.5 mr-1" /> Déconnexion
+            </Button>
+          </div>
+          {account.email && <p className="text-[10px] text-muted-foreground truncate">{account.email}</p>}
+        </div>
+
+        <Separator />
+
+        <DeviceLockSettings enabled={open} userName={account.email ?? account.displayName ?? ""} />
+
+        <Separator />
+
+        {activeHousehold && (
+          <div className="space-y-1.5">
+            <p className={sectionTitle}>Foyer</p>
+            {isOwner ? (
+              <input
+                key={`household-${activeHousehold.id}-${activeHousehold.name}`}
+                defaultValue={activeHousehold.name}
+                onBlur={(e) => { const v = e.target.value.trim(); if (v && v !== activeHousehold.name) account.renameHousehold.mutate(v); }}
+                onKeyDown={(e) => { if (e.key === "Enter") (e.target as HTMLInputElement).blur(); }}
+                className={`${inputClass} w-full font-semibold`}
+              />
+            ) : (
+              <p className="text-sm font-semibold">{activeHousehold.name}</p>
+            )}
+            {sortPeople(people, userId).map((p) => (
+              <div key={p.user_id} className="flex items-center gap-1.5 text-xs">
+                {p.role === "owner" && <Crown className="h-3 w-3 text-amber-500 shrink-0" />}
+                <span className="flex-1 min-w-0 truncate">{p.label}</span>
+                {isOwner && p.user_id !== userId ? (
+                  <>
+                    <button
+                      onClick={() => account.setPersonRole.mutate({ userId: p.user_id, role: p.role === "owner" ? "member" : "owner" })}
+                      className="text-[10px] text-muted-foreground hover:text-foreground bg-muted/60 rounded-full px-2 py-0.5"
+                      title="Changer le rôle"
+                    >
+                      {ROLE_LABELS[p.role]}
+                    </button>
+                    <button onClick={() => account.removePerson.mutate(p.user_id)} className="text-muted-foreground hover:text-destructive" title="Retirer du foyer">
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-[10px] text-muted-foreground">{ROLE_LABELS[p.role]}</span>
+                )}
+              </div>
+            ))}
+            {isOwner && (
+              invite ? (
+                <button onClick={copyInvite} className="w-full flex items-center justify-center gap-2 rounded-xl bg-primary/10 text-primary py-2 font-mono font-black tracking-widest" title="Copier">
+                  {formatInviteCode(invite)} <Copy className="h-3.5 w-3.5" />
+                </button>
+              ) : (
+                <Button size="sm" variant="secondary" className="w-full h-8 text-xs" disabled={account.createInvite.isPending}
+                  onClick={() => account.createInvite.mutate("member", { onSuccess: setInvite })}>
+                  <UserPlus className="h-3.5 w-3.5 mr-1" /> Inviter quelqu'un
+                </Button>
+              )
+            )}
+            {invite && <p className="text-[10px] text-muted-foreground">Valable 7 jours, une seule fois : à saisir à l'inscription ou dans « Rejoindre un foyer ».</p>}
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="space-y-1.5">
+          <p className={sectionTitle}>Mes foyers</p>
+          {households.map((h) => (
+            <div key={h.id} className="flex items-center gap-1.5 text-xs">
+              <button
+                onClick={() => h.id !== activeHousehold?.id && account.switchHousehold.mutate(h.id)}
+                className={`flex-1 min-w-0 text-left truncate rounded-md px-2 py-1 hover:bg-muted transition-colors ${h.id === activeHousehold?.id ? "font-bold text-primary" : ""}`}
+              >
+                {h.id === activeHousehold?.id && <Check className="h-3 w-3 inline mr-1" />}{h.name}
+              </button>
+              <button
+                onClick={() => {
+                  if (leaving !== h.id) { setLeaving(h.id); return; }
+                  setLeaving(null);
+                  account.leaveHousehold.mutate(h.id);
+                }}
+                onBlur={() => setLeaving(null)}
+                className={`text-[10px] shrink-0 ${leaving === h.id ? "text-destructive font-bold" : "text-muted-foreground hover:text-destructive"}`}
+              >
+                {leaving === h.id ? "Confirmer ?" : "Quitter"}
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-1.5">
+            <input
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value)}
+              placeholder="Code d'invitation"
+              className={`${inputClass} flex-1 min-w-0 font-mono uppercase`}
+            />
+            <Button size="sm" className="h-8 text-xs" disabled={!joinCode.trim() || account.joinHousehold.isPending}
+              onClick={() => account.joinHousehold.mutate(joinCode, { onSuccess: () => { setJoinCode(""); toast({ title: "Foyer rejoint 🎉" }); } })}>
+              Rejoindre
+            </Button>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <input
+              value={newHousehold}
+              onChange={(e) => setNewHousehold(e.target.value)}
+              placeholder="Nouveau foyer"
+              className={`${inputClass} flex-1 min-w-0`}
+            />
+            <Button size="sm" variant="secondary" className="h-8 text-xs" disabled={!newHousehold.trim() || account.createHousehold.isPending}
+              onClick={() => account.createHousehold.mutate(newHousehold.trim(), { onSuccess: () => setNewHousehold("") })}>
+              <Plus className="h-3.5 w-3.5 mr-1" /> Créer
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
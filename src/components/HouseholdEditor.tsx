@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { useHousehold } from "@/hooks/useHousehold";
+import { colorFromName } from "@/lib/foodColors";
+import type { HouseholdMember } from "@/lib/household";
+
+const inputClass = "h-7 text-xs bg-muted/50 border border-border rounded-lg px-2 focus:outline-none focus:ring-1 focus:ring-primary";
+
+/** Household members of the planning: name, daily goals and plate size */
+export function HouseholdEditor() {
+  const { members, addMember, updateMember, deleteMember } = useHousehold();
+  const [newName, setNewName] = useState("");
+
+  const submitNew = () => {
+    const name = newName.trim();
+    if (!name) return;
+    addMember.mutate({ name, color: colorFromName(name) });
+    setNewName("");
+  };
+
+  const saveNumber = (member: HouseholdMember, field: "calorie_goal" | "protein_goal" | "portion_ratio", raw: string) => {
+    const val = parseFloat(raw.replace(",", "."));
+    if (val > 0 && val !== member[field]) updateMember.mutate({ id: member.id, [field]: field === "portion_ratio" ? val : Math.round(val) });
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Foyer</p>
+      {members.map((m) => (
+        <div key={m.id} className="flex items-center gap-1">
+          <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: m.color ?? undefined }} />
+          <input
+            key={`name-${m.id}-${m.name}`}
+            defaultValue={m.name}
+            onBlur={(e) => {
+              const name = e.target.value.trim();
+              if (name && name !== m.name) updateMember.mutate({ id: m.id, name });
+              else e.target.value = m.name;
+            }}
+            onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+            className={`${inputClass} flex-1 min-w-0`}
+          />
+          {([["calorie_goal", "kcal/j", "w-14"], ["protein_goal", "🍗/j", "w-11"], ["portion_ratio", "part", "w-10"]] as const).map(([field, title, width]) => (
+            <input
+              key={`${field}-${m.id}-${m[field]}`}
+              type="number"
+              inputMode="decimal"
+              defaultValue={m[field]}
+              onBlur={(e) => saveNumber(m, field, e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+              className={`${inputClass} ${width} px-1 text-[10px]`}
+              title={field === "portion_ratio" ? "Taille de l'assiette (1 = part égale)" : title}
+              placeholder={title}
+            />
+          ))}
+          <button onClick={() => deleteMember.mutate(m.id)} className="text-muted-foreground hover:text-destructive shrink-0" title="Retirer du foyer">
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-1 pt-1">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') submitNew(); }}
+          placeholder="Prénom"
+          className={`${inputClass} flex-1 min-w-0`}
+        />
+        <button onClick={submitNew} disabled={!newName.trim()} className="h-7 px-2 rounded-lg bg-primary text-primary-foreground text-xs font-semibold flex items-center gap-1 disabled:opacity-40">
+          <Plus className="h-3 w-3" /> Ajouter
+        </button>
+      </div>
+      {members.length > 0 && (
+        <p className="text-[10px] text-muted-foreground">Chaque repas est partagé entre les personnes du créneau selon leur part.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState, useEffect } from "react";
+import { Play, Pause, RotateCcw, Plus, Timer, Trash2, Thermometer, Hourglass } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useKitchenTimers } from "@/hooks/useKitchenTimers";
+import { useMeals } from "@/hooks/useMeals";
+import { formatChrono, isExpired, parseOvenMinutes, timerElapsed, timerRemaining, type KitchenTimer } from "@/lib/kitchenTimers";
+
+const inputClass = "h-8 text-sm bg-muted/50 border border-border rounded-lg px-2 focus:outline-none focus:ring-1 focus:ring-primary";
+
+/** Re-renders every `ms` while enabled, for the running clocks */
+function useNow(enabled: boolean, ms = 250) {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!enabled) return;
+    const id = setInterval(() => setNow(Date.now()), ms);
+    return () => clearInterval(id);
+  }, [enabled, ms]);
+  return now;
+}
+
+function TimerRow({ timer, now, mealColor }: { timer: KitchenTimer; now: number; mealColor?: string }) {
+  const { startTimer, pauseTimer, resetTimer, deleteTimer } = useKitchenTimers();
+  const remaining = timerRemaining(timer, now);
+  const expired = isExpired(timer, now);
+  const started = timer.running || timer.accumulated_ms > 0;
+
+  return (
+    <div className={`flex items-center gap-2 rounded-2xl px-3 py-2 ${expired ? "bg-orange-500/20 animate-pulse" : "bg-muted/60"}`}>
+      {mealColor && <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: mealColor }} />}
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-semibold text-muted-foreground truncate flex items-center gap-1">
+          {timer.kind === "countdown" ? <Hourglass className="h-3 w-3 shrink-0" /> : <Timer className="h-3 w-3 shrink-0" />}
+          {timer.name}
+        </p>
+        <p className={`text-2xl font-mono font-black tabular-nums ${expired ? "text-orange-500" : "text-foreground"}`}>
+          {expired ? "Terminé !" : remaining != null ? formatChrono(remaining, true) : formatChrono(timerElapsed(timer, now))}
+        </p>
+      </div>
+      {timer.running ? (
+        !expired && <Button size="icon" variant="secondary" onClick={() => pauseTimer(timer)} className="rounded-full h-9 w-9"><Pause className="h-4 w-4" /></Button>
+      ) : (
+        <Button size="icon" onClick={() => startTimer(timer)} className="rounded-full h-9 w-9"><Play className="h-4 w-4 ml-0.5" /></Button>
+      )}
+      {started && (
+        <Button size="icon" variant="outline" onClick={() => resetTimer(timer)} className="rounded-full h-9 w-9"><RotateCcw className="h-4 w-4" /></Button>
+      )}
+      <button onClick={() => deleteTimer.mutate(timer.id)} className="text-muted-foreground hover:text-destructive shrink-0" title="Supprimer">
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
+
+/** All kitchen timers: countdowns (optionally from a meal's oven time) and count-ups, shared across devices */
+export function KitchenTimers({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { timers, addTimer } = useKitchenTimers({ enabled: open });
+  const { meals } = useMeals({ enabled: open });
+  const now = useNow(open && timers.some(t => t.running));
+  const [name, setName] = useState("");
+  const [minutes, setMinutes] = useState("");
+  const [mealId, setMealId] = useState<string | null>(null);
+
+  const ovenMeals = meals.filter(m => parseOvenMinutes(m.oven_minutes) != null);
+  const colorOf = (id: string | null) => meals.find(m => m.id === id)?.color;
+
+  const pickMeal = (id: string) => {
+    const meal = meals.find(m => m.id === id);
+    if (!meal) { setMealId(null); return; }
+    setMealId(meal.id);
+    setName(meal.name);
+    setMinutes(String(parseOvenMinutes(meal.oven_minutes) ?? ""));
+  };
+
+  const submit = (kind: "countdown" | "countup") => {
+    const duration = parseFloat(minutes.replace(",", "."));
+    if (kind === "countdown" && !(duration > 0)) return;
+    addTimer.mutate({
+      name: name.trim() || (kind === "countdown" ? `Minuteur ${minutes} min` : "Chrono"),
+      kind,
+      duration_seconds: kind === "countdown" ? Math.round(duration * 60) : null,
+      meal_id: mealId,
+      start: true,
+    });
+    setName(""); setMinutes(""); setMealId(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm rounded-[24px] sm:rounded-[34px] border-0 bg-card/95 backdrop-blur-xl shadow-2xl p-4 space-y-3" aria-describedby={undefined}>
+        <DialogTitle className="text-base">Minuteurs</DialogTitle>
+        {timers.length === 0 ? (
+          <p className="text-xs text-muted-foreground italic">Aucun minuteur.</p>
+        ) : (
+          <div className="space-y-1.5 max-h-[50vh] overflow-y-auto">
+            {timers.map(t => <TimerRow key={t.id} timer={t} now={now} mealColor={colorOf(t.meal_id)} />)}
+          </div>
+        )}
+        <div className="space-y-1.5 border-t pt-3">
+          {ovenMeals.length > 0 && (
+            <Select value={mealId ?? "none"} onValueChange={(v) => pickMeal(v === "none" ? "" : v)}>
+              <SelectTrigger className="h-8 text-xs"><Thermometer className="h-3.5 w-3.5 mr-1" /><SelectValue placeholder="Temps de four d'un repas" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Sans repas</SelectItem>
+                {ovenMeals.map(m => (
+                  <SelectItem key={m.id} value={m.id}>{m.name} · {parseOvenMinutes(m.oven_minutes)} min</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <div className="flex items-center gap-1.5">
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Nom" className={`${inputClass} flex-1 min-w-0`} />
+            <input
+              value={minutes}
+              onChange={(e) => setMinutes(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter") submit("countdown"); }}
+              inputMode="decimal"
+              placeholder="min"
+              className={`${inputClass} w-14`}
+            />
+          </div>
+          <div className="flex gap-1.5">
+            <Button size="sm" className="flex-1 h-8 text-xs" disabled={!(parseFloat(minutes.replace(",", ".")) > 0)} onClick={() => submit("countdown")}>
+              <Plus className="h-3.5 w-3.5 mr-1" /> Minuteur
+            </Button>
+            <Button size="sm" variant="secondary" className="flex-1 h-8 text-xs" onClick={() => submit("countup")}>
+              <Plus className="h-3.5 w-3.5 mr-1" /> Chrono
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { MACRO_COLUMNS, MACRO_INFO, formatNumeric, type MacroValues } from "@/lib/ingredientUtils";
+
+/** Carbs, fat, fibre, sugar and salt in grams; empty fields are saved as null */
+export function MacroEditor({ values, unitLabel, onSave, open, onOpenChange, children }: {
+  values: MacroValues;
+  unitLabel: string;
+  onSave: (macros: MacroValues) => void;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  children: ReactNode;
+}) {
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [localOpen, setLocalOpen] = useState(false);
+  const isOpen = open ?? localOpen;
+
+  useEffect(() => {
+    if (isOpen) setInputs(Object.fromEntries(MACRO_COLUMNS.map(k => [k, values[k] != null ? formatNumeric(values[k]!) : ""])));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const handleOpenChange = (next: boolean) => {
+    setLocalOpen(next);
+    onOpenChange?.(next);
+  };
+
+  const save = () => {
+    const macros: MacroValues = {};
+    for (const k of MACRO_COLUMNS) {
+      const n = parseFloat((inputs[k] ?? "").replace(",", "."));
+      macros[k] = isNaN(n) || n < 0 ? null : n;
+    }
+    onSave(macros);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-56 p-3 space-y-1.5" align="end">
+        <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Macros ({unitLabel})</p>
+        {MACRO_COLUMNS.map(k => (
+          <label key={k} className="flex items-center gap-2 text-xs">
+            <span className="flex-1 text-foreground">{MACRO_INFO[k].label}</span>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={inputs[k] ?? ""}
+              onChange={e => setInputs(prev => ({ ...prev, [k]: e.target.value }))}
+              onKeyDown={e => e.key === "Enter" && save()}
+              className="w-16 h-6 text-xs bg-muted border border-border rounded px-1.5 text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+            <span className="text-muted-foreground w-3">g</span>
+          </label>
+        ))}
+        <button onClick={save} className="w-full mt-1 text-xs font-semibold bg-primary text-primary-foreground rounded-md py-1 hover:bg-primary/90 transition-colors">
+          Enregistrer
+        </button>
+      </PopoverContent>
+    </Popover>
+  );
+}
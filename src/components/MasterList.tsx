@@ -7,7 +7,7 @@ import { MealCard } from "@/components/MealCard";
 import type { Meal } from "@/hooks/useMeals";
 import type { FoodItem } from "@/components/FoodItems";
 import { buildStockMap, getMissingIngredients } from "@/lib/stockUtils";
-import { normalizeForMatch } from "@/lib/ingredientUtils";
+import { normalizeForMatch, type MacroValues } from "@/lib/ingredientUtils";
 
 export type MasterSortMode = "manual" | "calories" | "protein" | "favorites" | "ingredients";
 
@@ -26,6 +26,7 @@ interface MasterListProps {
   onDelete: (id: string) => void;
   onUpdateCalories: (id: string, cal: string | null) => void;
   onUpdateProtein: (id: string, prot: string | null) => void;
+  onUpdateMacros: (id: string, macros: MacroValues) => void;
   onUpdateGrams: (id: string, g: string | null) => void;
   onUpdateIngredients: (id: string, ing: string | null) => void;
   onToggleFavorite: (id: string) => void;
@@ -34,7 +35,7 @@ interface MasterListProps {
   onReorder: (fromIndex: number, toIndex: number) => void;
 }
 
-export function MasterList({ category, meals, foodItems, sortMode, sortAsc, onToggleSort, onToggleSortDirection, collapsed, onToggleCollapse, onMoveToPossible, onRename, onDelete, onUpdateCalories, onUpdateProtein, onUpdateGrams, onUpdateIngredients, onToggleFavorite, onUpdateOvenTemp, onUpdateOvenMinutes, onReorder }: MasterListProps) {
+export function MasterList({ category, meals, foodItems, sortMode, sortAsc, onToggleSort, onToggleSortDirection, collapsed, onToggleCollapse, onMoveToPossible, onRename, onDelete, onUpdateCalories, onUpdateProtein, onUpdateMacros, onUpdateGrams, onUpdateIngredients, onToggleFavorite, onUpdateOvenTemp, onUpdateOvenMinutes, onReorder }: MasterListProps) {
   const [dragIndex, setDragIndex] = useState<number | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const stockMap = buildStockMap(foodItems);
@@ -104,6 +105,7 @@ export function MasterList({ category, meals, foodItems, sortMode, sortAsc, onTo
                 onDelete={() => onDelete(meal.id)}
                 onUpdateCalories={(cal) => onUpdateCalories(meal.id, cal)}
                 onUpdateProtein={(prot) => onUpdateProtein(meal.id, prot)}
+                onUpdateMacros={(macros) => onUpdateMacros(meal.id, macros)}
                 onUpdateGrams={(g) => onUpdateGrams(meal.id, g)}
                 onUpdateIngredients={(ing) => onUpdateIngredients(meal.id, ing)}
                 onToggleFavorite={() => onToggleFavorite(meal.id)}
@@ -1,5 +1,5 @@
 import { useState, useRef, forwardRef } from "react";
-import { ArrowRight, MoreVertical, Pencil, Trash2, Flame, Weight, List, Star, Thermometer, Hash, Link2 } from "lucide-react";
+import { ArrowRight, MoreVertical, Pencil, Trash2, Flame, Weight, List, Star, Thermometer, Hash, Link2, ChefHat, Timer } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -9,8 +9,19 @@ import type { Meal } from "@/hooks/useMeals";
 import {
   type IngLine, parseIngredientLineDisplay, formatQtyDisplay,
   parseIngredientsToLines, serializeIngredients, normalizeKey,
-  computeIngredientCalories,
+  computeIngredientCalories, computeIngredientNutrition, stripNutritionSuffix,
+  formatMacroSummary, formatNutritionSuffix, MACRO_COLUMNS, type MacroValues,
 } from "@/lib/ingredientUtils";
+import { entryNutrition, type NutritionEntry } from "@/lib/nutritionDb";
+import { MacroEditor } from "@/components/MacroEditor";
+import { NutritionSuggestions } from "@/components/NutritionSuggestions";
+import { usePrices } from "@/hooks/usePrices";
+import { formatEuros, mealCost } from "@/lib/prices";
+import { formatMinutes, totalMinutes } from "@/lib/recipe";
+import { CookingMode } from "@/components/CookingMode";
+import { useKitchenTimers } from "@/hooks/useKitchenTimers";
+import { parseOvenMinutes } from "@/lib/kitchenTimers";
+import { toast } from "@/hooks/use-toast";
 
 interface MealCardProps {
   meal: Meal;
@@ -19,6 +30,7 @@ interface MealCardProps {
   onDelete: () => void;
   onUpdateCalories: (calories: string | null) => void;
   onUpdateProtein?: (protein: string | null) => void;
+  onUpdateMacros?: (macros: MacroValues) => void;
   onUpdateGrams: (grams: string | null) => void;
   onUpdateIngredients: (ingredients: string | null) => void;
   onToggleFavorite?: () => void;
@@ -41,14 +53,19 @@ interface MealCardProps {
 
 // Ingredient parsing utilities imported from @/lib/ingredientUtils
 
-export const MealCard = forwardRef<HTMLDivElement, MealCardProps>(function MealCard({ meal, onMoveToPossible, onRename, onDelete, onUpdateCalories, onUpdateProtein, onUpdateGrams, onUpdateIngredients, onToggleFavorite, onUpdateOvenTemp, onUpdateOvenMinutes, onDragStart, onDragOver, onDrop, isHighlighted, hideDelete, expirationLabel, expirationDate, expirationIsToday, expiringIngredientName, expiredIngredientNames, maxIngredientCounter, missingIngredientNames, counterIngredientNames }, _ref) {
+export const MealCard = forwardRef<HTMLDivElement, MealCardProps>(function MealCard({ meal, onMoveToPossible, onRename, onDelete, onUpdateCalories, onUpdateProtein, onUpdateMacros, onUpdateGrams, onUpdateIngredients, onToggleFavorite, onUpdateOvenTemp, onUpdateOvenMinutes, onDragStart, onDragOver, onDrop, isHighlighted, hideDelete, expirationLabel, expirationDate, expirationIsToday, expiringIngredientName, expiredIngredientNames, maxIngredientCounter, missingIngredientNames, counterIngredientNames }, _ref) {
   const parseIngredientLine = parseIngredientLineDisplay;
   const formatQty = formatQtyDisplay;
   const [editing, setEditing] = useState<"name" | "calories" | "protein" | "grams" | "oven_temp" | "oven_minutes" | null>(null);
   const [editValue, setEditValue] = useState("");
   const [editingIngredients, setEditingIngredients] = useState(false);
+  const [macrosOpen, setMacrosOpen] = useState(false);
+  const [cookingOpen, setCookingOpen] = useState(false);
+  const [suggestIdx, setSuggestIdx] = useState<number | null>(null);
   const [ingLines, setIngLines] = useState<IngLine[]>([]);
   const qtyRefs = useRef<(HTMLInputElement | null)[]>([]);
+  const { prices } = usePrices();
+  const cost = prices.length > 0 ? mealCost(meal, prices) : null;
   const countRefs = useRef<(HTMLInputElement | null)[]>([]);
   const nameRefs = useRef<(HTMLInputElement | null)[]>([]);
 
@@ -85,6 +102,18 @@ export const MealCard = forwardRef<HTMLDivElement, MealCardProps>(function MealC
     });
   };
 
+  /** Fill name and nutrition from the table; without grams the values are per piece */
+  const pickNutrition = (idx: number, entry: NutritionEntry) => {
+    setIngLines(prev => {
+      const next = [...prev];
+      const perUnit = !next[idx].qty.trim() && !!entry.unitGrams;
+      next[idx] = { ...next[idx], name: entry.label, cal: formatNutritionSuffix(entryNutrition(entry, perUnit)) };
+      if (idx === next.length - 1) next.push({ qty: "", count: "", name: "", cal: "", isOr: false, isOptional: false });
+      return next;
+    });
+    setSuggestIdx(null);
+  };
+
   const toggleOr = (idx: number) => {
     if (idx === 0) return;
     setIngLines(prev => {
@@ -115,6 +144,15 @@ export const MealCard = forwardRef<HTMLDivElement, MealCardProps>(function MealC
   const ovenTemp = (meal as any).oven_temp;
   const ovenMinutes = (meal as any).oven_minutes;
   const hasCuisson = ovenTemp || ovenMinutes;
+  const recipeMinutes = totalMinutes(meal);
+
+  const { addTimer } = useKitchenTimers({ enabled: false });
+  const startOvenTimer = () => {
+    const minutes = parseOvenMinutes(ovenMinutes);
+    if (!minutes) return;
+    addTimer.mutate({ name: meal.name, kind: "countdown", duration_seconds: minutes * 60, meal_id: meal.id, start: true });
+    toast({ title: `⏲️ ${meal.name}`, description: `Minuteur de ${minutes} min lancé` });
+  };
 
   return (
     <div
@@ -203,17 +241,24 @@ export const MealCard = forwardRef<HTMLDivElement, MealCardProps>(function MealC
                 onKeyDown={e => handleIngKeyDown(idx, "count", e)}
                 className="h-7 border-white/30 bg-white/20 text-white placeholder:text-white/40 text-xs px-1"
               />
-              <Input
-                ref={el => { nameRefs.current[idx] = el; }}
-                placeholder={`Ingrédient ${idx + 1}`}
-                value={line.name}
-                onChange={e => updateLine(idx, "name", e.target.value)}
-                onKeyDown={e => handleIngKeyDown(idx, "name", e)}
-                className="h-7 border-white/30 bg-white/20 text-white placeholder:text-white/40 text-xs px-2"
-              />
+              <div className="relative">
+                <Input
+                  ref={el => { nameRefs.current[idx] = el; }}
+                  placeholder={`Ingrédient ${idx + 1}`}
+                  value={line.name}
+                  onChange={e => updateLine(idx, "name", e.target.value)}
+                  onKeyDown={e => handleIngKeyDown(idx, "name", e)}
+                  onFocus={() => setSuggestIdx(idx)}
+                  onBlur={() => setSuggestIdx(null)}
+                  className="h-7 border-white/30 bg-white/20 text-white placeholder:text-white/40 text-xs px-2"
+                />
+                {suggestIdx === idx && !line.cal.trim() && (
+                  <NutritionSuggestions query={line.name} onPick={entry => pickNutrition(idx, entry)} />
+                )}
+              </div>
               <Input
                 placeholder="cal"
-                inputMode="decimal"
+                title="kcal/100g, macros en option : 165;p31;g0;l3;f0;s0;sel0.2"
                 value={line.cal}
                 onChange={e => updateLine(idx, "cal", e.target.value)}
                 onKeyDown={e => { if (e.key === "Enter") commitIngredients(); if (e.key === "Escape") commitIngredients(); }}
@@ -258,16 +303,55 @@ export const MealCard = forwardRef<HTMLDivElement, MealCardProps>(function MealC
                   </span>
                 ) : null;
               })()}
+              {cost && (
+                <span
+                  className="text-xs text-white/70 bg-white/20 px-1.5 py-0.5 rounded-full shrink-0"
+                  title={cost.missing.length > 0 ? `Par portion, sans prix : ${cost.missing.join(", ")}` : "Par portion"}
+                >
+                  {formatEuros(cost.cost)}{cost.missing.length > 0 ? "+" : ""}
+                </span>
+              )}
               {meal.protein && (
                 <span className="text-xs text-white/70 bg-blue-500/30 px-1.5 py-0.5 rounded-full flex items-center gap-1 shrink-0 font-semibold">
                   🍗 {meal.protein}
                 </span>
               )}
+              {(() => {
+                const mealMacros: MacroValues = Object.fromEntries(MACRO_COLUMNS.map(k => [k, meal[k]]));
+                const computed = computeIngredientNutrition(meal.ingredients);
+                const hasComputed = !!computed && MACRO_COLUMNS.some(k => computed[k]);
+                const summary = formatMacroSummary(hasComputed ? computed : mealMacros);
+                const chip = summary ? (
+                  <button className={`text-xs text-white/70 px-1.5 py-0.5 rounded-full shrink-0 ${hasComputed ? 'bg-emerald-500/40 font-bold' : 'bg-white/20'}`}>
+                    {summary}
+                  </button>
+                ) : <span />;
+                if (!onUpdateMacros) return summary ? chip : null;
+                return (
+                  <MacroEditor values={mealMacros} unitLabel="repas entier" onSave={onUpdateMacros} open={macrosOpen} onOpenChange={setMacrosOpen}>
+                    {chip}
+                  </MacroEditor>
+                );
+              })()}
               {hasCuisson && (
-                <span className="text-xs text-white/70 bg-white/20 px-1.5 py-0.5 rounded-full flex items-center gap-1 shrink-0">
+                <button
+                  onClick={startOvenTimer}
+                  disabled={!parseOvenMinutes(ovenMinutes)}
+                  className="text-xs text-white/70 bg-white/20 px-1.5 py-0.5 rounded-full flex items-center gap-1 shrink-0 enabled:hover:bg-white/30"
+                  title={parseOvenMinutes(ovenMinutes) ? "Lancer un minuteur" : undefined}
+                >
                   <Thermometer className="h-3 w-3" />
                   {ovenTemp ? `${ovenTemp}°C` : ''}{ovenTemp && ovenMinutes ? ' · ' : ''}{ovenMinutes ? `${ovenMinutes}min` : ''}
-                </span>
+                </button>
+              )}
+              {recipeMinutes != null && (
+                <button
+                  onClick={() => setCookingOpen(true)}
+                  className="text-xs text-white/70 bg-white/20 px-1.5 py-0.5 rounded-full flex items-center gap-1 shrink-0 hover:bg-white/30"
+                  title="Mode cuisine"
+                >
+                  <Timer className="h-3 w-3" />{formatMinutes(recipeMinutes)}
+                </button>
               )}
               {onToggleFavorite && (
                 <button
@@ -299,12 +383,20 @@ export const MealCard = forwardRef<HTMLDivElement, MealCardProps>(function MealC
                       <Weight className="mr-2 h-4 w-4" /> Protéines
                     </DropdownMenuItem>
                   )}
+                  {onUpdateMacros && (
+                    <DropdownMenuItem onClick={() => setMacrosOpen(true)}>
+                      <Weight className="mr-2 h-4 w-4" /> Macros
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem onClick={() => { setEditValue(meal.grams || ""); setEditing("grams"); }}>
                     <Weight className="mr-2 h-4 w-4" /> Grammes
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={openIngredients}>
                     <List className="mr-2 h-4 w-4" /> Ingrédients
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setCookingOpen(true)}>
+                    <ChefHat className="mr-2 h-4 w-4" /> Mode cuisine
+                  </DropdownMenuItem>
                   {onUpdateOvenTemp && (
                     <DropdownMenuItem onClick={() => { setEditValue(ovenTemp || ""); setEditing("oven_temp"); }}>
                       <Thermometer className="mr-2 h-4 w-4" /> Température (°C)
@@ -322,6 +414,7 @@ export const MealCard = forwardRef<HTMLDivElement, MealCardProps>(function MealC
                   )}
                 </DropdownMenuContent>
               </DropdownMenu>
+              <CookingMode open={cookingOpen} onOpenChange={setCookingOpen} meal={meal} />
             </div>
           </div>
 
@@ -367,8 +460,7 @@ function renderIngredientDisplay(
     const groupIsOptional = alts[0]?.startsWith("?");
     alts.forEach((alt, ai) => {
       const cleanAlt = alt.startsWith("?") ? alt.slice(1).trim() : alt;
-      // Strip {cal} suffix from display
-      const displayAlt = cleanAlt.replace(/\{\d+(?:[.,]\d+)?\}\s*$/, "").trim();
+      const displayAlt = stripNutritionSuffix(cleanAlt);
       const parsed = parseIngredientLineDisplay(cleanAlt);
       const normalizedName = normalizeKey(parsed.name);
       const isExpired = expiredIngredientNames?.has(normalizedName);
@@ -2,16 +2,40 @@ import { useState, useMemo, useEffect, useRef } from "react";
 import { useMeals, type Meal } from "@/hooks/useMeals";
 import { useShoppingList } from "@/hooks/useShoppingList";
 import { useFoodItems } from "@/hooks/useFoodItems";
-import { Dice5, Flame, Weight, HelpCircle, ArrowUpDown, CalendarDays } from "lucide-react";
+import { useMealSlots } from "@/hooks/useMealSlots";
+import { useDayTypes } from "@/hooks/useDayTypes";
+import { Dice5, Flame, Weight, ArrowUpDown, SlidersHorizontal, RotateCcw } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { usePreferences } from "@/hooks/usePreferences";
 import { Separator } from "@/components/ui/separator";
-import { normalizeKey, parseIngredientLineRaw, smartFoodContains } from "@/lib/ingredientUtils";
+import { normalizeKey, smartFoodContains } from "@/lib/ingredientUtils";
+import { buildStockMap } from "@/lib/stockUtils";
+import { getRecipeUsage, optimizeMenu, parseNbValue, type PackInventory } from "@/lib/menuOptimizer";
+import { DEFAULT_DAILY_GOAL, DEFAULT_PROTEIN_GOAL, platTargets } from "@/lib/planningGoals";
+import { todayKey } from "@/lib/planningDates";
+import { averageWeekGoals, requiredWeekMeals } from "@/lib/dayTypes";
+import { groupStorageType } from "@/lib/shoppingCheckout";
+import { usePrices } from "@/hooks/usePrices";
+import { formatEuros, mealCost } from "@/lib/prices";
 
 const MENU_PREF_KEY = "menu_generator_selected_ids_v1";
 const MENU_NEEDS_KEY = "menu_generator_needs_v1";
 const MENU_SORT_KEY = "menu_generator_sort_v1";
-const MENU_GRIMPE_COUNT_KEY = "menu_generator_grimpe_count_v1";
+const MENU_REASONS_KEY = "menu_generator_reasons_v1";
+const MENU_SEED_KEY = "menu_generator_seed_v1";
+const MENU_CONSTRAINTS_KEY = "menu_generator_constraints_v1";
+
+/** Constraints set by the user; meals of the day types are added on top as required */
+interface MenuSettings {
+  size: number;
+  maxRepeats: number;
+  required: Record<string, number>;
+  excluded: string[];
+}
+
+const DEFAULT_SETTINGS: MenuSettings = { size: 20, maxRepeats: 1, required: {}, excluded: [] };
 
 type MenuSortMode = "manual" | "calories" | "alphabetical";
 
@@ -26,42 +50,14 @@ function parseStoredIds(value: unknown): string[] {
   return value.filter((id): id is string => typeof id === "string" && id.length > 0);
 }
 
-function parseNbValue(nb: string | null, type: string | null): { grams: number; count: number } | null {
-  if (!nb) return null;
-  const val = parseFloat(nb.replace(/[^0-9.,]/g, '').replace(',', '.'));
-  if (isNaN(val) || val <= 0) return null;
-  if (type === 'g' || (!type && /g/i.test(nb))) return { grams: val, count: 0 };
-  return { grams: 0, count: val };
-}
-
-/** Get recipe ingredient usage. No-ingredient meals → use meal's grams or name as ingredient */
-function getRecipeUsage(recipe: Meal): Map<string, { grams: number; count: number; rawName: string }> {
-  const usage = new Map<string, { grams: number; count: number; rawName: string }>();
-  if (!recipe.ingredients) {
-    const key = normalizeKey(recipe.name);
-    const mealGrams = parseFloat((recipe.grams || "0").replace(/[^0-9.,]/g, '').replace(',', '.')) || 0;
-    usage.set(key, { grams: mealGrams, count: mealGrams > 0 ? 0 : 1, rawName: recipe.name });
-    return usage;
-  }
-  const groups = recipe.ingredients.split(/(?:\n|,(?!\d))/).map((s) => s.trim()).filter(Boolean);
-  for (const group of groups) {
-    const alts = group.split(/\|/);
-    const first = alts[0]?.trim();
-    if (!first) continue;
-    const parsed = parseIngredientLineRaw(first);
-    if (!parsed.name) continue;
-    const key = normalizeKey(parsed.name);
-    const prev = usage.get(key) || { grams: 0, count: 0, rawName: parsed.rawName };
-    usage.set(key, { grams: prev.grams + parsed.qty, count: prev.count + parsed.count, rawName: prev.rawName });
-  }
-  return usage;
-}
-
 export function MealPlanGenerator() {
   const { getMealsByCategory } = useMeals();
   const { items: shoppingItems, groups: shoppingGroups, toggleSecondaryCheck, updateItemQuantity } = useShoppingList();
   const { items: foodItems } = useFoodItems();
   const { getPreference, setPreference } = usePreferences();
+  const { slots } = useMealSlots();
+  const { dayTypes, updateDayType } = useDayTypes();
+  const { prices } = usePrices();
 
   const allPlats = getMealsByCategory("plat");
   const persistedRaw = getPreference<unknown>(MENU_PREF_KEY, null);
@@ -69,46 +65,48 @@ export function MealPlanGenerator() {
   const persistedNeeds = getPreference<Record<string, { grams: number; count: number }>>(MENU_NEEDS_KEY, {});
 
   const [selectedMealIds, setSelectedMealIds] = useState<string[]>([]);
-  const persistedGrimpeCount = getPreference<number>(MENU_GRIMPE_COUNT_KEY, 4);
-  const [grimpeCount, setGrimpeCount] = useState<number>(4);
+  const pickReasons = getPreference<string[][]>(MENU_REASONS_KEY, []);
+  const persistedSeed = getPreference<number>(MENU_SEED_KEY, 0);
+  const [seedInput, setSeedInput] = useState("");
+  useEffect(() => { if (persistedSeed) setSeedInput(String(persistedSeed)); }, [persistedSeed]);
+  const settings: MenuSettings = { ...DEFAULT_SETTINGS, ...getPreference<Partial<MenuSettings>>(MENU_CONSTRAINTS_KEY, {}) };
+  const saveSettings = (patch: Partial<MenuSettings>) => {
+    setPreference.mutate({ key: MENU_CONSTRAINTS_KEY, value: { ...settings, ...patch } });
+  };
 
-  useEffect(() => {
-    if (typeof persistedGrimpeCount === 'number') setGrimpeCount(persistedGrimpeCount);
-  }, [persistedGrimpeCount]);
+  // Click cycles a plat through: free → imposé → exclu → free
+  const cycleMealConstraint = (id: string) => {
+    const required = { ...settings.required };
+    let excluded = settings.excluded.filter(x => x !== id);
+    if (required[id]) {
+      delete required[id];
+      excluded = [...excluded, id];
+    } else if (!settings.excluded.includes(id)) {
+      required[id] = 1;
+    }
+    saveSettings({ required, excluded });
+  };
   useEffect(() => {
     if (persistedIds.length === 0) return;
     setSelectedMealIds((prev) => (prev.length === 0 ? persistedIds : prev));
   }, [persistedIds.join("|")]);
 
-  const selectedMeals = useMemo(() => {
+  const selectedEntries = useMemo(() => {
     if (selectedMealIds.length === 0 || allPlats.length === 0) return [];
     return selectedMealIds
-      .map((mealId) => allPlats.find((meal) => meal.id === mealId))
-      .filter((meal): meal is Meal => !!meal);
-  }, [selectedMealIds, allPlats]);
+      .map((mealId, i) => ({ meal: allPlats.find((meal) => meal.id === mealId), reasons: pickReasons[i] ?? [] }))
+      .filter((e): e is { meal: Meal; reasons: string[] } => !!e.meal);
+  }, [selectedMealIds, allPlats, pickReasons]);
+  const selectedMeals = useMemo(() => selectedEntries.map(e => e.meal), [selectedEntries]);
 
   // Identify frozen group IDs (surgelés/congelés)
   const frozenGroupIds = useMemo(() => {
-    return new Set(
-      shoppingGroups
-        .filter(g => {
-          const n = normalizeKey(g.name);
-          return n.includes('surgele') || n.includes('congele');
-        })
-        .map(g => g.id)
-    );
+    return new Set(shoppingGroups.filter(g => groupStorageType(g) === "surgele").map(g => g.id));
   }, [shoppingGroups]);
 
   // Identify "Toujours présents" group IDs
   const toujoursPresentGroupIds = useMemo(() => {
-    return new Set(
-      shoppingGroups
-        .filter(g => {
-          const n = normalizeKey(g.name);
-          return n.includes('toujours present') || n.includes('toujours la');
-        })
-        .map(g => g.id)
-    );
+    return new Set(shoppingGroups.filter(g => groupStorageType(g) === "toujours").map(g => g.id));
   }, [shoppingGroups]);
 
   // Build set of normalized keys for "Toujours présent" food items
@@ -120,7 +118,7 @@ export function MealPlanGenerator() {
 
   // Build shopping inventory from items with Nb, excluding frozen
   const shoppingInventory = useMemo(() => {
-    const inv = new Map<string, { grams: number; count: number; pkgGrams: number; pkgCount: number }>();
+    const inv = new Map<string, PackInventory>();
     for (const item of shoppingItems) {
       if (item.group_id && frozenGroupIds.has(item.group_id)) continue;
       const nb = parseNbValue(item.content_quantity, item.content_quantity_type);
@@ -213,215 +211,40 @@ export function MealPlanGenerator() {
     initialMenuSyncDone.current = true;
   }, [shoppingItems.length, persistedNeeds]);
 
-  const generatePlan = () => {
-    const avantGrimpe = allPlats.find((m) => m.name.toLowerCase().includes("avant grimpe"));
-    const painFuet = allPlats.find((m) => {
-      const n = m.name.toLowerCase().replace(/\s+/g, ' ');
-      return n.includes("pain + fuet") || n.includes("pain+fuet");
-    });
-    const excludeIds = new Set([avantGrimpe?.id, painFuet?.id].filter(Boolean) as string[]);
-    const candidatePlats = allPlats.filter((m) => !excludeIds.has(m.id));
+  const generatePlan = (seed: number) => {
+    if (allPlats.length === 0) return;
 
-    if (candidatePlats.length === 0) return;
-
-    const hasInventory = shoppingInventory.size > 0;
-
-    const selectedIds: string[] = [];
-    const counts = new Map<string, number>();
-    // Track cumulative usage per ingredient across all selected recipes
-    const totalUsage = new Map<string, { grams: number; count: number }>();
-
-    // Shuffle candidates for better diversity
-    const shuffled = [...candidatePlats].sort(() => Math.random() - 0.5);
-
-    // Helper: find matching inventory key
-    const findInvKey = (ingKey: string): string | null => {
-      for (const rk of shoppingInventory.keys()) {
-        if (rk === ingKey || keyMatch(rk, ingKey)) return rk;
-      }
-      return null;
-    };
-
-    // Score how close cumulative usage is to a whole multiple of package size
-    const multipleScore = (cumGrams: number, pkgGrams: number): number => {
-      if (pkgGrams <= 0 || cumGrams <= 0) return 0;
-      const remainder = cumGrams % pkgGrams;
-      const dist = Math.min(remainder, pkgGrams - remainder);
-      const ratio = dist / pkgGrams; // 0 = perfect multiple, 0.5 = worst
-      if (ratio < 0.02) return 15;   // exact multiple → massive bonus
-      if (ratio < 0.1) return 8;     // close to multiple
-      if (ratio < 0.2) return 2;     // acceptable
-      return -ratio * 12;            // very strong penalty (300g/200g pot → -6)
-    };
-
-    // Greedy selection: 16 recipes optimizing for whole-multiple consumption
-    // Priorité forte: fermer les ingrédients en grammes entamés
-    const mainTarget = 20 - grimpeCount;
-    for (let i = 0; i < mainTarget; i++) {
-      const isLateRound = i >= 10;
-
-      const openGramKeys = new Set<string>();
-      for (const [k, used] of totalUsage) {
-        const inv = shoppingInventory.get(k);
-        if (!inv || inv.pkgGrams <= 0) continue;
-        if (used.grams > 0 && used.grams < inv.grams - 1) openGramKeys.add(k);
-      }
-
-      const recipeTouchesOpenKey = (recipe: typeof shuffled[0]) => {
-        if (openGramKeys.size === 0) return false;
-        const usage = getRecipeUsage(recipe);
-        for (const [ingKey, used] of usage) {
-          if (used.grams <= 0) continue;
-          const matchKey = findInvKey(ingKey);
-          if (matchKey && openGramKeys.has(matchKey)) return true;
-        }
-        return false;
-      };
-
-      const scoreRecipe = (recipe: typeof shuffled[0]) => {
-        let score = 0;
-
-        if (hasInventory) {
-          const usage = getRecipeUsage(recipe);
-          let usesConstrainedItem = false;
-          let touchesOpen = false;
-
-          for (const [ingKey, used] of usage) {
-            const matchKey = findInvKey(ingKey);
-            if (!matchKey) continue;
-            const inv = shoppingInventory.get(matchKey)!;
-            if (inv.grams <= 0 && inv.count <= 0) continue;
-            usesConstrainedItem = true;
-
-            const prevUsage = totalUsage.get(matchKey) || { grams: 0, count: 0 };
-            const isOpenKey = openGramKeys.has(matchKey);
-            if (isOpenKey) touchesOpen = true;
-
-            if (used.grams > 0 && inv.pkgGrams > 0) {
-              const newCumGrams = prevUsage.grams + used.grams;
-              if (newCumGrams > inv.grams * 1.05) {
-                score -= 3;
-              } else if (isOpenKey) {
-                // Light bonus for closing an open ingredient
-                const newDeficit = Math.max(0, inv.grams - Math.min(newCumGrams, inv.grams));
-                score += newDeficit <= 1 ? 4 : 2;
-              }
-            }
-          }
-
-          if (usesConstrainedItem) score += 1;
-          // Mild preference for recipes touching open ingredients
-          if (openGramKeys.size > 0 && touchesOpen) score += 2;
-        }
-
-        // Large random factor for maximum variety
-        score += Math.random() * 8;
-        return score;
-      };
-
-      // Pool: UNIQUEMENT des recettes uniques
-      const uniquePool: { id: string; score: number }[] = [];
-      for (const r of shuffled.filter(r => !counts.has(r.id))) {
-        uniquePool.push({ id: r.id, score: scoreRecipe(r) });
-      }
-
-      if (uniquePool.length > 0) {
-        uniquePool.sort((a, b) => b.score - a.score);
-        // Pick from top 6 for more diversity
-        const topN = uniquePool.slice(0, Math.min(6, uniquePool.length));
-        const pick = topN[Math.floor(Math.random() * topN.length)];
-        selectedIds.push(pick.id);
-        counts.set(pick.id, 1);
-      } else {
-        break;
-      }
-
-      // Update cumulative usage
-      const pickedId = selectedIds[selectedIds.length - 1];
-      const recipe = candidatePlats.find(r => r.id === pickedId);
-      if (recipe && hasInventory) {
-        const usage = getRecipeUsage(recipe);
-        for (const [ingKey, used] of usage) {
-          const matchKey = findInvKey(ingKey);
-          if (!matchKey) continue;
-          const prev = totalUsage.get(matchKey) || { grams: 0, count: 0 };
-          totalUsage.set(matchKey, {
-            grams: prev.grams + used.grams,
-            count: prev.count + used.count,
-          });
-        }
-      }
-    }
-
-    // ── Repair pass: force exact multiples of package sizes ──
-    const mainCount = selectedIds.length;
-    const computeRepairUsage = (ids: string[]) => {
-      const usage = new Map<string, number>();
-      for (const id of ids) {
-        const recipe = candidatePlats.find(r => r.id === id);
-        if (!recipe) continue;
-        for (const [ingKey, used] of getRecipeUsage(recipe)) {
-          if (used.grams <= 0) continue;
-          const matchKey = findInvKey(ingKey);
-          if (!matchKey) continue;
-          usage.set(matchKey, (usage.get(matchKey) || 0) + used.grams);
-        }
-      }
-      return usage;
-    };
-
-    const getMisaligned = (ids: string[]) => {
-      const usage = computeRepairUsage(ids);
-      const bad: { key: string }[] = [];
-      for (const [k, totalG] of usage) {
-        const inv = shoppingInventory.get(k);
-        if (!inv || inv.pkgGrams <= 0) continue;
-        const remainder = totalG % inv.pkgGrams;
-        if (remainder > 1 && inv.pkgGrams - remainder > 1) {
-          bad.push({ key: k });
-        }
-      }
-      return bad;
-    };
-
-    for (let attempt = 0; attempt < 5; attempt++) {
-      const misaligned = getMisaligned(selectedIds);
-      if (misaligned.length === 0) break;
-
-      let swapped = false;
-      for (const mis of misaligned) {
-        if (swapped) break;
-        for (let idx = 0; idx < mainCount; idx++) {
-          if (swapped) break;
-          const cur = candidatePlats.find(r => r.id === selectedIds[idx]);
-          if (!cur) continue;
-          let usesIt = false;
-          for (const [ingKey, used] of getRecipeUsage(cur)) {
-            if (used.grams > 0 && findInvKey(ingKey) === mis.key) { usesIt = true; break; }
-          }
-          if (!usesIt) continue;
-
-          for (const cand of candidatePlats) {
-            if (cand.id === selectedIds[idx]) continue;
-            // Do not introduce new duplicates during repair swaps
-            if (selectedIds.includes(cand.id)) continue;
-            const testIds = [...selectedIds];
-            testIds[idx] = cand.id;
-            const newMis = getMisaligned(testIds);
-            if (!newMis.some(m => m.key === mis.key) && newMis.length <= misaligned.length) {
-              selectedIds[idx] = cand.id;
-              swapped = true;
-              break;
-            }
-          }
-        }
-      }
-      if (!swapped) break;
-    }
-
-    if (avantGrimpe && grimpeCount > 0) {
-      for (let j = 0; j < grimpeCount; j++) selectedIds.push(avantGrimpe.id);
+    const required = { ...settings.required };
+    for (const [id, n] of Object.entries(requiredWeekMeals(dayTypes, allPlats.map(m => m.id)))) {
+      required[id] = (required[id] ?? 0) + n;
     }
+    const week = averageWeekGoals(dayTypes, {
+      kcal: getPreference<number>('planning_daily_goal', DEFAULT_DAILY_GOAL),
+      protein: getPreference<number>('planning_protein_goal', DEFAULT_PROTEIN_GOAL),
+    });
+    const targets = platTargets(week.kcal, week.protein, slots);
+
+    const picks = optimizeMenu({
+      meals: allPlats,
+      foodItems,
+      stockMap: buildStockMap(foodItems),
+      inventory: shoppingInventory,
+      constraints: {
+        size: settings.size,
+        required,
+        excluded: settings.excluded,
+        maxRepeats: settings.maxRepeats,
+        kcalTarget: targets.kcal,
+        proteinTarget: targets.protein,
+      },
+      seed,
+      today: todayKey(),
+      costs: new Map(allPlats.flatMap(m => {
+        const cost = mealCost(m, prices);
+        return cost ? [[m.id, cost.cost] as const] : [];
+      })),
+    });
+    const selectedIds = picks.map(p => p.mealId);
 
     // Build total needs map for shopping check persistence
     const needsMap = new Map<string, { grams: number; count: number }>();
@@ -442,6 +265,9 @@ export function MealPlanGenerator() {
     setSelectedMealIds(selectedIds);
     setPreference.mutate({ key: MENU_PREF_KEY, value: selectedIds });
     setPreference.mutate({ key: MENU_NEEDS_KEY, value: needsObj });
+    setPreference.mutate({ key: MENU_REASONS_KEY, value: picks.map(p => p.reasons) });
+    setPreference.mutate({ key: MENU_SEED_KEY, value: seed });
+    setSeedInput(String(seed));
 
     // Update shopping list checkboxes & quantities
     updateShoppingChecks(needsMap);
@@ -516,6 +342,10 @@ export function MealPlanGenerator() {
     return sum + c;
   }, 0);
 
+  const mealCosts = useMemo(() => new Map(selectedMeals.map(m => [m.id, mealCost(m, prices)?.cost ?? null])), [selectedMeals, prices]);
+  const costOf = (meal: Meal) => mealCosts.get(meal.id) ?? null;
+  const totalCost = selectedMeals.reduce((sum, m) => sum + (costOf(m) ?? 0), 0);
+
   // Sorting
   const persistedSort = getPreference<string>(MENU_SORT_KEY, "manual");
   const [menuSort, setMenuSort] = useState<MenuSortMode>("manual");
@@ -529,26 +359,23 @@ export function MealPlanGenerator() {
     setPreference.mutate({ key: MENU_SORT_KEY, value: next });
   };
 
-  // Separate avant grimpe from main meals
-  const avantGrimpeMeal = allPlats.find((m) => m.name.toLowerCase().includes("avant grimpe"));
-  const avantGrimpeId = avantGrimpeMeal?.id;
-  const mainMenuMeals = selectedMeals.filter((_, i) => {
-    const id = selectedMealIds[i];
-    return id !== avantGrimpeId;
-  });
-  const avantGrimpeMeals = selectedMeals.filter((_, i) => {
-    const id = selectedMealIds[i];
-    return id === avantGrimpeId;
-  });
+  // Meals required by a day type get their own section
+  const activeDayTypes = dayTypes.filter((t) => t.days_per_week > 0 && t.required_meal_ids.length > 0);
+  const dayTypeOfMeal = (mealId: string) => activeDayTypes.find((t) => t.required_meal_ids.includes(mealId));
+  const mainMenuEntries = selectedEntries.filter((e) => !dayTypeOfMeal(e.meal.id));
+  const dayTypeSections = activeDayTypes
+    .map((t) => ({ type: t, meals: selectedMeals.filter((m) => dayTypeOfMeal(m.id) === t) }))
+    .filter((section) => section.meals.length > 0);
 
   // Sort main meals
-  let sortedMainMeals = [...mainMenuMeals];
+  const sortedMainEntries = [...mainMenuEntries];
   if (menuSort === "calories") {
     const parseCal = (cal: string | null) => parseFloat((cal || "0").replace(/[^0-9.]/g, "")) || 0;
-    sortedMainMeals.sort((a, b) => parseCal(a.calories) - parseCal(b.calories));
+    sortedMainEntries.sort((a, b) => parseCal(a.meal.calories) - parseCal(b.meal.calories));
   } else if (menuSort === "alphabetical") {
-    sortedMainMeals.sort((a, b) => a.name.localeCompare(b.name, "fr"));
+    sortedMainEntries.sort((a, b) => a.meal.name.localeCompare(b.meal.name, "fr"));
   }
+  const parsedSeed = parseInt(seedInput);
 
   const SortIcon = menuSort === "calories" ? Flame : menuSort === "alphabetical" ? ArrowUpDown : ArrowUpDown;
   const sortLabel = menuSort === "calories" ? "Calories" : menuSort === "alphabetical" ? "A-Z" : "Manuel";
@@ -564,23 +391,87 @@ export function MealPlanGenerator() {
               {Math.round(totalCal)} kcal
             </span>
           )}
-          <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
-            <span>🧗</span>
-            <select
-              value={grimpeCount}
-              onChange={(e) => {
-                const val = parseInt(e.target.value);
-                setGrimpeCount(val);
-                setPreference.mutate({ key: MENU_GRIMPE_COUNT_KEY, value: val });
-              }}
-              className="bg-muted text-foreground rounded-md px-1.5 py-0.5 text-xs border-0 outline-none"
-            >
-              {[0, 1, 2, 3, 4, 5, 6].map((n) => (
-                <option key={n} value={n}>{n}</option>
-              ))}
-            </select>
-          </div>
-          <Button onClick={generatePlan} className="rounded-full gap-1.5 text-xs">
+          {totalCost > 0 && (
+            <span className="text-sm font-black text-emerald-600" title="Coût estimé du menu">{formatEuros(totalCost)}</span>
+          )}
+          {dayTypes.filter((t) => t.required_meal_ids.length > 0).map((t) => (
+            <div key={t.id} className="flex items-center gap-1 text-[10px] text-muted-foreground" title={`Jours « ${t.label} » par semaine`}>
+              <span>{t.emoji || t.label}</span>
+              <select
+                value={t.days_per_week}
+                onChange={(e) => updateDayType.mutate({ id: t.id, days_per_week: parseInt(e.target.value) })}
+                className="bg-muted text-foreground rounded-md px-1.5 py-0.5 text-xs border-0 outline-none"
+              >
+                {[0, 1, 2, 3, 4, 5, 6, 7].map((n) => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button size="icon" variant="ghost" className="h-8 w-8 rounded-full" title="Contraintes du menu">
+                <SlidersHorizontal className="h-3.5 w-3.5" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 p-3 space-y-2" align="end">
+              <div className="flex items-center gap-2 text-xs">
+                <span className="flex-1 text-muted-foreground">Nombre de plats</span>
+                <Input
+                  type="number" min={1} max={40}
+                  value={settings.size}
+                  onChange={(e) => { const n = parseInt(e.target.value); if (n > 0) saveSettings({ size: n }); }}
+                  className="h-7 w-16 text-xs rounded-lg"
+                />
+              </div>
+              <div className="flex items-center gap-2 text-xs">
+                <span className="flex-1 text-muted-foreground">Répétitions max par plat</span>
+                <select
+                  value={settings.maxRepeats}
+                  onChange={(e) => saveSettings({ maxRepeats: parseInt(e.target.value) })}
+                  className="bg-muted text-foreground rounded-md px-1.5 py-0.5 text-xs border-0 outline-none"
+                >
+                  {[1, 2, 3].map((n) => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </div>
+              <Separator className="opacity-30" />
+              <p className="text-[10px] text-muted-foreground">Clic : imposé → exclu → libre</p>
+              <div className="max-h-60 overflow-y-auto space-y-0.5">
+                {allPlats.map((m) => {
+                  const state = settings.required[m.id] ? "required" : settings.excluded.includes(m.id) ? "excluded" : null;
+                  return (
+                    <button
+                      key={m.id}
+                      onClick={() => cycleMealConstraint(m.id)}
+                      className={`w-full flex items-center gap-2 px-2 py-1 rounded-lg text-left text-xs transition-colors hover:bg-muted ${state === "excluded" ? "line-through text-muted-foreground" : ""}`}
+                    >
+                      <span className="flex-1 min-w-0 truncate">{m.name}</span>
+                      {state === "required" && <span className="text-[10px] font-semibold text-primary">imposé</span>}
+                      {state === "excluded" && <span className="text-[10px] font-semibold text-destructive no-underline">exclu</span>}
+                    </button>
+                  );
+                })}
+              </div>
+            </PopoverContent>
+          </Popover>
+          <Input
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value.replace(/\D/g, ""))}
+            onKeyDown={(e) => e.key === "Enter" && !isNaN(parsedSeed) && generatePlan(parsedSeed)}
+            placeholder="graine"
+            title="Graine : la même graine redonne le même menu"
+            inputMode="numeric"
+            className="h-7 w-20 text-xs rounded-lg"
+          />
+          <Button
+            size="icon" variant="ghost" className="h-8 w-8 rounded-full"
+            disabled={isNaN(parsedSeed)}
+            onClick={() => generatePlan(parsedSeed)}
+            title="Recalculer avec cette graine"
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+          </Button>
+          <Button onClick={() => generatePlan(Math.floor(Math.random() * 1_000_000))} className="rounded-full gap-1.5 text-xs">
             <Dice5 className="h-3.5 w-3.5" />
             Générer
           </Button>
@@ -589,7 +480,7 @@ export function MealPlanGenerator() {
 
       {selectedMeals.length === 0 ? (
         <p className="text-muted-foreground text-sm text-center py-8 italic">
-          Clique sur "Générer" pour créer un menu aléatoire de 20 plats
+          Clique sur "Générer" pour composer un menu de {settings.size} plats
         </p>
       ) : (
         <>
@@ -606,10 +497,10 @@ export function MealPlanGenerator() {
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
               {(() => {
                 // Column-first order: all items in col1, then col2
-                const half = Math.ceil(sortedMainMeals.length / 2);
-                const col1 = sortedMainMeals.slice(0, half);
-                const col2 = sortedMainMeals.slice(half);
-                const renderMealCard = (meal: Meal, prefix: string, i: number) => (
+                const half = Math.ceil(sortedMainEntries.length / 2);
+                const col1 = sortedMainEntries.slice(0, half);
+                const col2 = sortedMainEntries.slice(half);
+                const renderMealCard = ({ meal, reasons }: { meal: Meal; reasons: string[] }, prefix: string, i: number) => (
                   <div
                     key={`${meal.id}-${prefix}-${i}`}
                     className="rounded-2xl px-3 py-2 shadow-md text-white"
@@ -627,37 +518,47 @@ export function MealPlanGenerator() {
                           <Weight className="h-2.5 w-2.5" />{meal.grams}
                         </span>
                       )}
+                      {costOf(meal) != null && (
+                        <span className="text-[10px] text-white/70 bg-white/20 px-1.5 py-0.5 rounded-full shrink-0">{formatEuros(costOf(meal)!)}</span>
+                      )}
                     </div>
                     {meal.ingredients && (
                       <p className="text-[10px] text-white/50 mt-0.5 break-words">
                         {meal.ingredients.split(/[,\n]+/).filter(Boolean).map((s) => s.trim()).join(" • ")}
                       </p>
                     )}
+                    {reasons.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {reasons.map((r) => (
+                          <span key={r} className="text-[9px] text-white/80 bg-black/20 px-1.5 py-0.5 rounded-full">{r}</span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 );
                 return (
                   <>
                     <div className="flex flex-col gap-2">
-                      {col1.map((meal, i) => renderMealCard(meal, "c1", i))}
+                      {col1.map((entry, i) => renderMealCard(entry, "c1", i))}
                     </div>
                     <div className="flex flex-col gap-2">
-                      {col2.map((meal, i) => renderMealCard(meal, "c2", i))}
+                      {col2.map((entry, i) => renderMealCard(entry, "c2", i))}
                     </div>
                   </>
                 );
               })()}
             </div>
 
-            {avantGrimpeMeals.length > 0 && (
-              <>
+            {dayTypeSections.map(({ type, meals }) => (
+              <div key={type.id}>
                 <Separator className="my-3 opacity-30" />
                 <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest mb-2">
-                  🧗 Avant grimpe ({avantGrimpeMeals.length})
+                  {type.emoji} {type.label} ({meals.length})
                 </p>
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-                  {avantGrimpeMeals.map((meal, i) => (
+                  {meals.map((meal, i) => (
                     <div
-                      key={`${meal.id}-ag-${i}`}
+                      key={`${meal.id}-dt-${i}`}
                       className="rounded-2xl px-3 py-2 shadow-md text-white"
                       style={{ backgroundColor: meal.color }}
                     >
@@ -672,8 +573,8 @@ export function MealPlanGenerator() {
                     </div>
                   ))}
                 </div>
-              </>
-            )}
+              </div>
+            ))}
           </div>
 
           <div className="rounded-3xl bg-card/80 backdrop-blur-sm p-4 max-w-[85%] sm:max-w-[50%] mx-auto">
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { ChevronDown, ChevronUp, Plus, Trash2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMealSlots } from "@/hooks/useMealSlots";
+
+const CATEGORY_OPTIONS = [
+  { value: "petit_dejeuner", label: "🥐 Petit déj" },
+  { value: "entree", label: "🥗 Entrées" },
+  { value: "plat", label: "🍽️ Plats" },
+  { value: "dessert", label: "🍰 Desserts" },
+  { value: "bonus", label: "⭐ Bonus" },
+];
+
+const NONE = "__none__";
+
+/** Slot list of the planning: label, emoji, default category, calorie target and order */
+export function MealSlotsEditor() {
+  const { slots, addSlot, updateSlot, deleteSlot, moveSlot } = useMealSlots();
+  const [newLabel, setNewLabel] = useState("");
+
+  const submitNew = () => {
+    const label = newLabel.trim();
+    if (!label) return;
+    addSlot.mutate({ label });
+    setNewLabel("");
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Créneaux</p>
+      {slots.map((slot, i) => (
+        <div key={slot.id} className="flex items-center gap-1">
+          <div className="flex flex-col">
+            <button onClick={() => moveSlot.mutate({ id: slot.id, direction: -1 })} disabled={i === 0} className="text-muted-foreground hover:text-foreground disabled:opacity-20" title="Monter">
+              <ChevronUp className="h-3 w-3" />
+            </button>
+            <button onClick={() => moveSlot.mutate({ id: slot.id, direction: 1 })} disabled={i === slots.length - 1} className="text-muted-foreground hover:text-foreground disabled:opacity-20" title="Descendre">
+              <ChevronDown className="h-3 w-3" />
+            </button>
+          </div>
+          <input
+            key={`emoji-${slot.id}-${slot.emoji}`}
+            defaultValue={slot.emoji ?? ''}
+            placeholder="🍴"
+            onBlur={(e) => {
+              const emoji = e.target.value.trim() || null;
+              if (emoji !== slot.emoji) updateSlot.mutate({ id: slot.id, emoji });
+            }}
+            className="w-7 h-7 text-center text-xs bg-muted/50 border border-border rounded-lg focus:outline-none focus:ring-1 focus:ring-primary"
+          />
+          <input
+            key={`label-${slot.id}-${slot.label}`}
+            defaultValue={slot.label}
+            onBlur={(e) => {
+              const label = e.target.value.trim();
+              if (label && label !== slot.label) updateSlot.mutate({ id: slot.id, label });
+              else e.target.value = slot.label;
+            }}
+            onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+            className="flex-1 min-w-0 h-7 text-xs bg-muted/50 border border-border rounded-lg px-2 focus:outline-none focus:ring-1 focus:ring-primary"
+          />
+          <Select value={slot.default_category ?? NONE} onValueChange={(v) => updateSlot.mutate({ id: slot.id, default_category: v === NONE ? null : v })}>
+            <SelectTrigger className="h-7 w-[96px] rounded-lg text-[10px] px-1.5"><SelectValue placeholder="Catégorie" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>— Aucune</SelectItem>
+              {CATEGORY_OPTIONS.map(c => <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <input
+            key={`target-${slot.id}-${slot.calorie_target}`}
+            type="number"
+            inputMode="numeric"
+            placeholder="kcal"
+            defaultValue={slot.calorie_target ?? ''}
+            onBlur={(e) => {
+              const val = parseInt(e.target.value) || 0;
+              const calorie_target = val > 0 ? val : null;
+              if (calorie_target !== slot.calorie_target) updateSlot.mutate({ id: slot.id, calorie_target });
+            }}
+            onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+            className="w-14 h-7 text-[10px] bg-muted/50 border border-border rounded-lg px-1 focus:outline-none focus:ring-1 focus:ring-primary"
+            title="Objectif calorique du créneau"
+          />
+          <button onClick={() => deleteSlot.mutate(slot.id)} className="text-muted-foreground hover:text-destructive shrink-0" title="Supprimer le créneau">
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-1 pt-1">
+        <input
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') submitNew(); }}
+          placeholder="Collation, goûter…"
+          className="flex-1 min-w-0 h-7 text-xs bg-muted/50 border border-border rounded-lg px-2 focus:outline-none focus:ring-1 focus:ring-primary"
+        />
+        <button onClick={submitNew} disabled={!newLabel.trim()} className="h-7 px-2 rounded-lg bg-primary text-primary-foreground text-xs font-semibold flex items-center gap-1 disabled:opacity-40">
+          <Plus className="h-3 w-3" /> Ajouter
+        </button>
+      </div>
+    </div>
+  );
+}
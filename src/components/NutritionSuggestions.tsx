@@ -0,0 +1,32 @@
+import { searchNutrition, type NutritionEntry } from "@/lib/nutritionDb";
+import { formatNumeric } from "@/lib/ingredientUtils";
+
+/** Dropdown of nutrition table matches under a name field; mouse down keeps the field focused */
+export function NutritionSuggestions({ query, onPick, className = "" }: {
+  query: string;
+  onPick: (entry: NutritionEntry) => void;
+  className?: string;
+}) {
+  const results = searchNutrition(query, 6);
+  if (results.length === 0) return null;
+
+  return (
+    <div className={`absolute left-0 top-full mt-1 z-50 min-w-[14rem] w-full rounded-xl border bg-popover text-popover-foreground shadow-lg overflow-hidden ${className}`}>
+      {results.map(entry => (
+        <button
+          key={entry.name}
+          type="button"
+          tabIndex={-1}
+          onMouseDown={e => { e.preventDefault(); onPick(entry); }}
+          className="w-full flex items-center gap-2 px-2 py-1.5 text-left text-xs hover:bg-muted transition-colors"
+        >
+          <span className="flex-1 truncate">{entry.name}</span>
+          <span className="text-muted-foreground shrink-0">
+            {entry.nutrition.kcal} kcal · P{formatNumeric(entry.nutrition.protein)}
+            {entry.unitGrams ? ` · ${formatNumeric(entry.unitGrams)}g/u` : ""}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -2,49 +2,89 @@ import { useState, forwardRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Lock, Loader2 } from "lucide-react";
+import { Lock, Loader2, Fingerprint } from "lucide-react";
+import { isValidEmail, MIN_PASSWORD_LENGTH, normalizeInviteCode } from "@/lib/householdAccounts";
+import { getLockMethods, markSignedIn, PIN_PATTERN } from "@/lib/deviceLock";
+import { passkeysSupported } from "@/lib/webauthn";
+import { unlockWithPasskey, unlockWithPin } from "@/hooks/useDeviceLock";
 
-export const PinLock = forwardRef<HTMLDivElement, { onUnlock: () => void }>(function PinLock({ onUnlock }, _ref) {
+type Mode = "signin" | "signup";
+
+/**
+ * Sign-in screen: each person has their own account; signing up creates a household or joins one with an invite code.
+ * `locked`: still signed in, the device opens with its PIN or passkey (or the password, after signing out).
+ */
+export const PinLock = forwardRef<HTMLDivElement, { onUnlock: () => void; locked?: boolean }>(function PinLock({ onUnlock, locked = false }, _ref) {
+  const [mode, setMode] = useState<Mode>("signin");
   const [pin, setPin] = useState("");
+  const lockMethods = getLockMethods();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
   const [error, setError] = useState(false);
-  const [errorMsg, setErrorMsg] = useState("Code incorrect");
+  const [errorMsg, setErrorMsg] = useState("Identifiants incorrects");
+  const [notice, setNotice] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
-  const showError = (msg = "Code incorrect") => {
+  const showError = (msg = "Identifiants incorrects") => {
     setErrorMsg(msg);
     setError(true);
+    setPassword("");
     setPin("");
     setTimeout(() => setError(false), 2000);
   };
 
+  const canSubmit = isValidEmail(email) && password.length >= (mode === "signup" ? MIN_PASSWORD_LENGTH : 1) && !loading;
+
+  // Through verify-pin so failed attempts count towards the per-IP lockout
+  const signIn = async () => {
+    const projectId = import.meta.env.VITE_SUPABASE_PROJECT_ID;
+    const anonKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+    const res = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/verify-pin`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "apikey": anonKey, "Authorization": `Bearer ${anonKey}` },
+        body: JSON.stringify({ email: email.trim(), password }),
+      }
+    );
+    let data: Record<string, unknown> = {};
+    try { data = await res.json(); } catch { /* ignore */ }
+
+    if (data.success && data.access_token && data.refresh_token) {
+      await supabase.auth.setSession({
+        access_token: data.access_token as string,
+        refresh_token: data.refresh_token as string,
+      });
+      markSignedIn();
+      onUnlock();
+    } else if (res.status === 401 && data.error?.toString().includes("Accès refusé")) {
+      showError((data.error as string) || "Accès refusé");
+    } else {
+      showError((data.error as string) || "Identifiants incorrects");
+    }
+  };
+
+  const signUp = async () => {
+    const { data, error } = await supabase.auth.signUp({
+      email: email.trim().toLowerCase(),
+      password,
+      options: { data: { display_name: displayName.trim() || null, invite_code: normalizeInviteCode(inviteCode) || null } },
+    });
+    if (error) { showError(error.message); return; }
+    if (data.session) { markSignedIn(); onUnlock(); return; }
+    setNotice("Compte créé : confirme ton email puis connecte-toi.");
+    setMode("signin");
+    setPassword("");
+  };
+
   const handleSubmit = async () => {
-    if (pin.length !== 4 || loading) return;
+    if (!canSubmit) return;
     setLoading(true);
+    setNotice(null);
     try {
-      const projectId = import.meta.env.VITE_SUPABASE_PROJECT_ID;
-      const anonKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
-      const res = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/verify-pin`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json", "apikey": anonKey, "Authorization": `Bearer ${anonKey}` },
-          body: JSON.stringify({ pin }),
-        }
-      );
-      let data: Record<string, unknown> = {};
-      try { data = await res.json(); } catch { /* ignore */ }
-
-      if (data.success && data.access_token && data.refresh_token) {
-        await supabase.auth.setSession({
-          access_token: data.access_token as string,
-          refresh_token: data.refresh_token as string,
-        });
-        onUnlock();
-      } else if (res.status === 401 && data.error?.toString().includes("Accès refusé")) {
-        showError((data.error as string) || "Accès refusé");
-      } else {
-        showError((data.error as string) || "Code incorrect");
-      }
+      await (mode === "signin" ? signIn() : signUp());
     } catch {
       showError("Service indisponible, réessaie");
     } finally {
@@ -52,26 +92,109 @@ export const PinLock = forwardRef<HTMLDivElement, { onUnlock: () => void }>(func
     }
   };
 
+  const onEnter = (e: React.KeyboardEvent) => e.key === "Enter" && handleSubmit();
+
+  const unlock = async (method: () => Promise<unknown>) => {
+    if (loading) return;
+    setLoading(true);
+    try {
+      await method();
+      onUnlock();
+    } catch (e) {
+      showError(e instanceof Error ? e.message : "Code incorrect");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (locked) return (
+    <div className="fixed inset-0 z-50 bg-background flex items-center justify-center">
+      <div className="flex flex-col items-center gap-3 p-8 w-72">
+        <Lock className="h-10 w-10 text-muted-foreground" />
+        <h2 className="text-lg font-bold text-foreground">Déverrouiller</h2>
+        {lockMethods.pin && (
+          <>
+            <Input
+              type="password"
+              inputMode="numeric"
+              maxLength={8}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 8))}
+              onKeyDown={(e) => e.key === "Enter" && PIN_PATTERN.test(pin) && unlock(() => unlockWithPin(pin))}
+              placeholder="••••"
+              className={`w-40 text-center text-2xl tracking-[0.5em] font-mono rounded-xl ${error ? 'border-destructive animate-shake' : ''}`}
+              autoFocus
+              disabled={loading}
+            />
+            <Button onClick={() => unlock(() => unlockWithPin(pin))} disabled={!PIN_PATTERN.test(pin) || loading} className="w-40 rounded-xl">
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Entrer"}
+            </Button>
+          </>
+        )}
+        {lockMethods.passkey && passkeysSupported() && (
+          <Button variant={lockMethods.pin ? "outline" : "default"} onClick={() => unlock(unlockWithPasskey)} disabled={loading} className="w-40 rounded-xl">
+            <Fingerprint className="h-4 w-4 mr-1" /> Clé d'accès
+          </Button>
+        )}
+        {error && <p className="text-xs text-destructive text-center">{errorMsg}</p>}
+        <button onClick={() => supabase.auth.signOut({ scope: "local" })} className="text-xs text-muted-foreground hover:text-foreground" disabled={loading}>
+          Se connecter avec le mot de passe
+        </button>
+      </div>
+    </div>
+  );
+
   return (
     <div className="fixed inset-0 z-50 bg-background flex items-center justify-center">
-      <div className="flex flex-col items-center gap-4 p-8">
+      <div className="flex flex-col items-center gap-3 p-8 w-72">
         <Lock className="h-10 w-10 text-muted-foreground" />
-        <h2 className="text-lg font-bold text-foreground">Code d'accès</h2>
+        <h2 className="text-lg font-bold text-foreground">{mode === "signin" ? "Connexion" : "Créer un compte"}</h2>
+        {mode === "signup" && (
+          <Input value={displayName} onChange={(e) => setDisplayName(e.target.value)} onKeyDown={onEnter} placeholder="Prénom" className="rounded-xl" disabled={loading} />
+        )}
         <Input
-          type="password"
-          inputMode="numeric"
-          maxLength={4}
-          value={pin}
-          onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 4))}
-          onKeyDown={(e) => e.key === "Enter" && handleSubmit()}
-          placeholder="••••"
-          className={`w-32 text-center text-2xl tracking-[0.5em] font-mono rounded-xl ${error ? 'border-destructive animate-shake' : ''}`}
+          type="email"
+          autoComplete="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          onKeyDown={onEnter}
+          placeholder="Email"
+          className="rounded-xl"
           autoFocus
           disabled={loading}
         />
-        <Button onClick={handleSubmit} disabled={pin.length !== 4 || loading} className="w-32 rounded-xl">
-          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Entrer"}
+        <Input
+          type="password"
+          autoComplete={mode === "signin" ? "current-password" : "new-password"}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          onKeyDown={onEnter}
+          placeholder={mode === "signin" ? "Mot de passe" : `Mot de passe (${MIN_PASSWORD_LENGTH} caractères min.)`}
+          className={`rounded-xl ${error ? 'border-destructive animate-shake' : ''}`}
+          disabled={loading}
+        />
+        {mode === "signup" && (
+          <Input
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value)}
+            onKeyDown={onEnter}
+            placeholder="Code d'invitation (facultatif)"
+            className="rounded-xl font-mono uppercase"
+            disabled={loading}
+          />
+        )}
+        {error && <p className="text-xs text-destructive text-center">{errorMsg}</p>}
+        {notice && <p className="text-xs text-muted-foreground text-center">{notice}</p>}
+        <Button onClick={handleSubmit} disabled={!canSubmit} className="w-full rounded-xl">
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : mode === "signin" ? "Entrer" : "Créer le compte"}
         </Button>
+        <button
+          onClick={() => { setMode(mode === "signin" ? "signup" : "signin"); setError(false); setNotice(null); }}
+          className="text-xs text-muted-foreground hover:text-foreground"
+          disabled={loading}
+        >
+          {mode === "signin" ? "Pas encore de compte ? S'inscrire" : "Déjà un compte ? Se connecter"}
+        </button>
       </div>
     </div>
   );
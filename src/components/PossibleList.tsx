@@ -21,12 +21,13 @@ interface PossibleListProps {
   onDelete: (id: string) => void;
   onDuplicate: (id: string) => void;
   onUpdateExpiration: (id: string, d: string | null) => void;
-  onUpdatePlanning: (id: string, day: string | null, time: string | null) => void;
+  onUpdatePlanning: (id: string, date: string | null, time: string | null) => void;
   onUpdateCounter: (id: string, d: string | null) => void;
   onUpdateCalories: (id: string, cal: string | null) => void;
   onUpdateGrams: (id: string, g: string | null) => void;
   onUpdateIngredients: (id: string, ing: string | null) => void;
   onUpdatePossibleIngredients: (pmId: string, newIngredients: string | null) => void;
+  onUpdateServings?: (pmId: string, servings: number) => void;
   onUpdateQuantity: (id: string, qty: number) => void;
   onReorder: (fromIndex: number, toIndex: number) => void;
   onExternalDrop: (mealId: string, source: string) => void;
@@ -37,7 +38,7 @@ interface PossibleListProps {
   unParUnSourcePmIds: Set<string>;
 }
 
-export function PossibleList({ category, items, sortMode, onToggleSort, onRandomPick, onRemove, onReturnWithoutDeduction, onReturnToMaster, onDelete, onDuplicate, onUpdateExpiration, onUpdatePlanning, onUpdateCounter, onUpdateCalories, onUpdateGrams, onUpdateIngredients, onUpdatePossibleIngredients, onUpdateQuantity, onReorder, onExternalDrop, highlightedId, foodItems, onAddDirectly, masterSourcePmIds, unParUnSourcePmIds }: PossibleListProps) {
+export function PossibleList({ category, items, sortMode, onToggleSort, onRandomPick, onRemove, onReturnWithoutDeduction, onReturnToMaster, onDelete, onDuplicate, onUpdateExpiration, onUpdatePlanning, onUpdateCounter, onUpdateCalories, onUpdateGrams, onUpdateIngredients, onUpdatePossibleIngredients, onUpdateServings, onUpdateQuantity, onReorder, onExternalDrop, highlightedId, foodItems, onAddDirectly, masterSourcePmIds, unParUnSourcePmIds }: PossibleListProps) {
   const [dragIndex, setDragIndex] = useState<number | null>(null);
   const sortLabel = sortMode === "manual" ? "Manuel" : sortMode === "expiration" ? "Péremption" : "Planning";
   const SortIcon = sortMode === "expiration" ? CalendarDays : sortMode === "planning" ? CalendarClock : ArrowUpDown;
@@ -110,12 +111,13 @@ export function PossibleList({ category, items, sortMode, onToggleSort, onRandom
           onDelete={() => onDelete(pm.id)}
           onDuplicate={() => onDuplicate(pm.id)}
           onUpdateExpiration={(d) => onUpdateExpiration(pm.id, d)}
-          onUpdatePlanning={(day, time) => onUpdatePlanning(pm.id, day, time)}
+          onUpdatePlanning={(date, time) => onUpdatePlanning(pm.id, date, time)}
           onUpdateCounter={(d) => onUpdateCounter(pm.id, d)}
           onUpdateCalories={(cal) => onUpdateCalories(pm.meal_id, cal)}
           onUpdateGrams={(g) => onUpdateGrams(pm.meal_id, g)}
           onUpdateIngredients={(ing) => onUpdateIngredients(pm.meal_id, ing)}
           onUpdatePossibleIngredients={(newIng) => onUpdatePossibleIngredients(pm.id, newIng)}
+          onUpdateServings={onUpdateServings ? (servings) => onUpdateServings(pm.id, servings) : undefined}
           onUpdateQuantity={unParUnSourcePmIds.has(pm.id) ? (qty) => onUpdateQuantity(pm.id, qty) : undefined}
           onDragStart={(e) => { e.dataTransfer.setData("mealId", pm.meal_id); e.dataTransfer.setData("pmId", pm.id); e.dataTransfer.setData("source", "possible"); setDragIndex(index); }}
           onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); }}
@@ -1,5 +1,5 @@
 import { useState, useRef } from "react";
-import { ArrowLeft, Copy, MoreVertical, Trash2, Calendar, Timer, Flame, Weight, Hash, List, Undo2, Percent } from "lucide-react";
+import { ArrowLeft, Copy, MoreVertical, Trash2, Calendar, Timer, Flame, Weight, Hash, List, Undo2, Percent, ChefHat, Users } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -9,13 +9,15 @@ import {
   DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import type { PossibleMeal } from "@/hooks/useMeals";
-import { DAYS, TIMES } from "@/hooks/useMeals";
+import { useMealSlots } from "@/hooks/useMealSlots";
 import { format, parseISO } from "date-fns";
 import {
   type IngLine, parseIngredientLineDisplay, formatQtyDisplay,
-  parseIngredientsToLines, serializeIngredients, computeIngredientCalories,
+  parseIngredientsToLines, serializeIngredients, computeIngredientCalories, stripNutritionSuffix,
 } from "@/lib/ingredientUtils";
 import { scaleIngredientStringExact } from "@/lib/stockUtils";
+import { CookingMode } from "@/components/CookingMode";
+import { formatServings, recipeYield } from "@/lib/servings";
 import { fr } from "date-fns/locale";
 
 interface PossibleMealCardProps {
@@ -27,24 +29,21 @@ interface PossibleMealCardProps {
   onDelete: () => void;
   onDuplicate: () => void;
   onUpdateExpiration: (date: string | null) => void;
-  onUpdatePlanning: (day: string | null, time: string | null) => void;
+  onUpdatePlanning: (date: string | null, time: string | null) => void;
   onUpdateCounter: (date: string | null) => void;
   onUpdateCalories: (cal: string | null) => void;
   onUpdateGrams: (g: string | null) => void;
   onUpdateQuantity?: (qty: number) => void;
   onUpdateIngredients: (ing: string | null) => void;
   onUpdatePossibleIngredients?: (newIngredients: string | null) => void;
+  /** Rescale the ingredients (and stock) for this many servings */
+  onUpdateServings?: (servings: number) => void;
   onDragStart: (e: React.DragEvent) => void;
   onDragOver: (e: React.DragEvent) => void;
   onDrop: (e: React.DragEvent) => void;
   isHighlighted?: boolean;
 }
 
-const DAY_LABELS: Record<string, string> = {
-  lundi: 'Lun', mardi: 'Mar', mercredi: 'Mer', jeudi: 'Jeu',
-  vendredi: 'Ven', samedi: 'Sam', dimanche: 'Dim',
-};
-
 function getCounterDays(startDate: string | null): number | null {
   if (!startDate) return null;
   const diff = Date.now() - new Date(startDate).getTime();
@@ -53,12 +52,15 @@ function getCounterDays(startDate: string | null): number | null {
 
 // Ingredient parsing utilities imported from @/lib/ingredientUtils
 
-export function PossibleMealCard({ pm, onRemove, onReturnWithoutDeduction, onReturnWithoutDeductionLabel, onReturnToMaster, onDelete, onDuplicate, onUpdateExpiration, onUpdatePlanning, onUpdateCounter, onUpdateCalories, onUpdateGrams, onUpdateQuantity, onUpdateIngredients, onUpdatePossibleIngredients, onDragStart, onDragOver, onDrop, isHighlighted }: PossibleMealCardProps) {
+export function PossibleMealCard({ pm, onRemove, onReturnWithoutDeduction, onReturnWithoutDeductionLabel, onReturnToMaster, onDelete, onDuplicate, onUpdateExpiration, onUpdatePlanning, onUpdateCounter, onUpdateCalories, onUpdateGrams, onUpdateQuantity, onUpdateIngredients, onUpdatePossibleIngredients, onUpdateServings, onDragStart, onDragOver, onDrop, isHighlighted }: PossibleMealCardProps) {
   const parseIngredientLine = parseIngredientLineDisplay;
   const formatQty = formatQtyDisplay;
-  const [editing, setEditing] = useState<"calories" | "grams" | "quantity" | "ratio" | null>(null);
+  const [editing, setEditing] = useState<"calories" | "grams" | "quantity" | "ratio" | "servings" | null>(null);
   const [editValue, setEditValue] = useState("");
   const [calOpen, setCalOpen] = useState(false);
+  const [planOpen, setPlanOpen] = useState(false);
+  const [cookingOpen, setCookingOpen] = useState(false);
+  const { slots } = useMealSlots();
   const [editingIngredients, setEditingIngredients] = useState(false);
   const [ingLines, setIngLines] = useState<IngLine[]>([]);
   const qtyRefs = useRef<(HTMLInputElement | null)[]>([]);
@@ -69,6 +71,7 @@ export function PossibleMealCard({ pm, onRemove, onReturnWithoutDeduction, onRet
   if (!meal) return null;
 
   const displayIngredients = pm.ingredients_override ?? meal.ingredients;
+  const currentServings = pm.servings ?? recipeYield(meal);
 
   const isExpired = pm.expiration_date && new Date(pm.expiration_date) < new Date();
   const expIsToday = pm.expiration_date ? (() => {
@@ -87,6 +90,10 @@ export function PossibleMealCard({ pm, onRemove, onReturnWithoutDeduction, onRet
       const qty = parseInt(editValue.trim());
       if (!isNaN(qty) && qty >= 1) onUpdateQuantity(qty);
     }
+    if (editing === "servings" && onUpdateServings) {
+      const servings = parseFloat(editValue.trim().replace(",", "."));
+      if (servings > 0 && servings !== currentServings) onUpdateServings(servings);
+    }
     if (editing === "ratio" && meal.ingredients && onUpdatePossibleIngredients) {
       const trimmed = editValue.trim().toLowerCase();
       let ratio: number | null = null;
@@ -196,6 +203,15 @@ export function PossibleMealCard({ pm, onRemove, onReturnWithoutDeduction, onRet
             <Hash className="h-2.5 w-2.5" />{pm.quantity}
           </button>
         )}
+        {(pm.servings != null || onUpdateServings) && (
+          <button
+            onClick={() => { if (onUpdateServings) { setEditValue(String(currentServings)); setEditing("servings"); } }}
+            className={`text-[10px] text-white/90 bg-black/30 px-1 py-0.5 rounded-full flex items-center gap-0.5 shrink-0 ${onUpdateServings ? 'hover:bg-black/40 cursor-pointer' : ''}`}
+            title="Portions"
+          >
+            <Users className="h-2.5 w-2.5" />{formatServings(currentServings)}
+          </button>
+        )}
         {meal.grams && (
           <button onClick={() => { setEditValue(meal.grams || ""); setEditing("grams"); }} className="text-[10px] text-white/90 bg-black/30 px-1 py-0.5 rounded-full flex items-center gap-0.5 hover:bg-black/40 shrink-0">
             <Weight className="h-2.5 w-2.5" />{meal.grams}
@@ -249,6 +265,9 @@ export function PossibleMealCard({ pm, onRemove, onReturnWithoutDeduction, onRet
             <DropdownMenuItem onClick={openIngredients}>
               <List className="mr-2 h-4 w-4" /> Ingrédients
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setCookingOpen(true)}>
+              <ChefHat className="mr-2 h-4 w-4" /> Mode cuisine
+            </DropdownMenuItem>
             <DropdownMenuItem onClick={() => onUpdateCounter(pm.counter_start_date ? null : new Date().toISOString())}>
               <Timer className="mr-2 h-4 w-4" /> {pm.counter_start_date ? 'Arrêter compteur' : 'Démarrer compteur'}
             </DropdownMenuItem>
@@ -262,11 +281,12 @@ export function PossibleMealCard({ pm, onRemove, onReturnWithoutDeduction, onRet
             )}
           </DropdownMenuContent>
         </DropdownMenu>
+        <CookingMode open={cookingOpen} onOpenChange={setCookingOpen} meal={meal} ingredients={displayIngredients} scale={pm.quantity || 1} />
       </div>
 
       {/* Editing overlay */}
       {editing ? (
-        <Input autoFocus placeholder={editing === "ratio" ? "75% ou x2" : editing === "calories" ? "Ex: 350 kcal" : "Ex: 150g"} value={editValue}
+        <Input autoFocus placeholder={editing === "ratio" ? "75% ou x2" : editing === "servings" ? "Nombre de personnes" : editing === "calories" ? "Ex: 350 kcal" : "Ex: 150g"} value={editValue}
           onChange={(e) => setEditValue(e.target.value)} onBlur={handleSaveEdit}
           onKeyDown={(e) => e.key === "Enter" && handleSaveEdit()}
           className="mt-1.5 h-6 border-white/30 bg-white/20 text-white placeholder:text-white/60 text-xs" />
@@ -346,7 +366,7 @@ export function PossibleMealCard({ pm, onRemove, onReturnWithoutDeduction, onRet
               />
               <Input
                 placeholder="cal"
-                inputMode="decimal"
+                title="kcal/100g, macros en option : 165;p31;g0;l3;f0;s0;sel0.2"
                 value={line.cal}
                 onChange={e => updateLine(idx, "cal", e.target.value)}
                 onKeyDown={e => { if (e.key === "Enter") commitIngredients(); if (e.key === "Escape") commitIngredients(); }}
@@ -398,26 +418,47 @@ export function PossibleMealCard({ pm, onRemove, onReturnWithoutDeduction, onRet
           </PopoverContent>
         </Popover>
 
-        <Select value={pm.day_of_week || "none"} onValueChange={(val) => onUpdatePlanning(val === "none" ? null : val, pm.meal_time)}>
-          <SelectTrigger className="h-5 w-[58px] border-white/20 bg-white/10 text-white text-[10px] px-1">
-            <SelectValue placeholder="Jour" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="none">—</SelectItem>
-            {DAYS.map((d) => (
-              <SelectItem key={d} value={d}>{DAY_LABELS[d]}</SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        <Popover open={planOpen} onOpenChange={setPlanOpen}>
+          <PopoverTrigger asChild>
+            <button className="h-5 min-w-[58px] border border-white/20 bg-white/10 text-white text-[10px] px-1.5 rounded-md flex items-center hover:bg-white/20 transition-colors">
+              {pm.planned_date
+                ? format(parseISO(pm.planned_date), 'EEE d MMM', { locale: fr })
+                : <span className="text-white/40">Jour</span>
+              }
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <CalendarPicker
+              mode="single"
+              weekStartsOn={1}
+              selected={pm.planned_date ? parseISO(pm.planned_date) : undefined}
+              onSelect={(date) => {
+                onUpdatePlanning(date ? format(date, 'yyyy-MM-dd') : null, pm.meal_time);
+                setPlanOpen(false);
+              }}
+              initialFocus
+            />
+            {pm.planned_date && (
+              <div className="p-2 border-t">
+                <button
+                  onClick={() => { onUpdatePlanning(null, pm.meal_time); setPlanOpen(false); }}
+                  className="text-xs text-muted-foreground hover:text-destructive w-full text-center"
+                >
+                  Retirer du planning
+                </button>
+              </div>
+            )}
+          </PopoverContent>
+        </Popover>
 
-        <Select value={pm.meal_time || "none"} onValueChange={(val) => onUpdatePlanning(pm.day_of_week, val === "none" ? null : val)}>
-          <SelectTrigger className="h-5 w-[50px] border-white/20 bg-white/10 text-white text-[10px] px-1">
+        <Select value={pm.meal_time || "none"} onValueChange={(val) => onUpdatePlanning(pm.planned_date, val === "none" ? null : val)}>
+          <SelectTrigger className="h-5 w-auto min-w-[50px] gap-0.5 border-white/20 bg-white/10 text-white text-[10px] px-1">
             <SelectValue placeholder="Quand" />
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="none">—</SelectItem>
-            {TIMES.map((t) => (
-              <SelectItem key={t} value={t}>{t.charAt(0).toUpperCase() + t.slice(1)}</SelectItem>
+            {slots.map((s) => (
+              <SelectItem key={s.key} value={s.key}>{s.emoji ? `${s.emoji} ` : ''}{s.label}</SelectItem>
             ))}
           </SelectContent>
         </Select>
@@ -429,7 +470,7 @@ export function PossibleMealCard({ pm, onRemove, onReturnWithoutDeduction, onRet
           {displayIngredients.split(/[,\n]+/).filter(Boolean).map((ing, i, arr) => {
             const isOpt = ing.trim().startsWith("?");
             const raw = isOpt ? ing.trim().slice(1).trim() : ing.trim();
-            const display = raw.replace(/\{\d+(?:[.,]\d+)?\}\s*$/g, "").trim();
+            const display = stripNutritionSuffix(raw);
             return (
               <span key={i} className={isOpt ? 'italic text-white/40' : ''}>
                 {isOpt ? '?' : ''}{display}{i < arr.length - 1 ? ' •' : ''}
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Trash2 } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { usePrices } from "@/hooks/usePrices";
+import { useStores } from "@/hooks/useStores";
+import type { ShoppingItem } from "@/hooks/useShoppingList";
+import { strictNameMatch } from "@/lib/ingredientUtils";
+import { formatEuros, itemCost, type PriceEntry } from "@/lib/prices";
+import { todayKey } from "@/lib/planningDates";
+
+const inputClass = "h-7 text-xs bg-muted/50 border border-border rounded-lg px-2 focus:outline-none focus:ring-1 focus:ring-primary";
+
+const formatPack = (p: Pick<PriceEntry, "content_quantity" | "content_quantity_type">) =>
+  p.content_quantity ? `${p.content_quantity}${p.content_quantity_type === "g" ? " g" : ""}` : null;
+
+/** Price history of a shopping item, and a form to record what it cost this time (in the chosen store by default) */
+export function PricePopover({ item, defaultStore }: { item: ShoppingItem; defaultStore?: string | null }) {
+  const { prices, stores: priceStores, addPrice, deletePrice } = usePrices();
+  const { stores: knownStores } = useStores();
+  const stores = [...new Set([...knownStores.map(s => s.name), ...priceStores])];
+  const [price, setPrice] = useState("");
+  const [store, setStore] = useState("");
+  const [date, setDate] = useState(todayKey());
+
+  const history = prices.filter(p => strictNameMatch(p.name, item.name));
+  const cost = itemCost(item, prices);
+
+  const submit = () => {
+    const value = parseFloat(price.replace(",", "."));
+    if (isNaN(value) || value < 0) return;
+    addPrice.mutate({
+      name: item.name, price: value, store: store.trim() || null, bought_on: date,
+      content_quantity: item.content_quantity, content_quantity_type: item.content_quantity_type,
+    });
+    setPrice("");
+  };
+
+  return (
+    <Popover onOpenChange={(open) => { if (open) { setStore(defaultStore ?? history[0]?.store ?? ""); setDate(todayKey()); } }}>
+      <PopoverTrigger asChild>
+        <button
+          className={`shrink-0 px-0.5 rounded hover:bg-muted/60 transition-colors ${cost != null ? "text-[10px] text-muted-foreground" : "text-[9px] text-muted-foreground/20"}`}
+          title="Prix"
+        >
+          {cost != null ? formatEuros(cost) : "€"}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-2 space-y-2" align="end">
+        <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Prix · {item.name}</p>
+        <div className="flex items-center gap-1">
+          <input
+            autoFocus
+            inputMode="decimal"
+            placeholder="Prix €"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter") submit(); }}
+            className={`${inputClass} w-16`}
+          />
+          <input
+            list="price-stores"
+            placeholder="Magasin"
+            value={store}
+            onChange={(e) => setStore(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter") submit(); }}
+            className={`${inputClass} flex-1 min-w-0`}
+          />
+          <datalist id="price-stores">
+            {stores.map((s) => <option key={s} value={s} />)}
+          </datalist>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={`${inputClass} w-[6.5rem] px-1 text-[10px]`} />
+        </div>
+        <button
+          onClick={submit}
+          disabled={!price.trim() || addPrice.isPending}
+          className="w-full h-7 rounded-lg bg-primary text-primary-foreground text-xs font-semibold disabled:opacity-40"
+        >
+          Enregistrer{formatPack(item) ? ` (paquet de ${formatPack(item)})` : ""}
+        </button>
+        {history.length === 0 ? (
+          <p className="text-[10px] text-muted-foreground italic">Aucun prix enregistré.</p>
+        ) : (
+          <div className="max-h-40 overflow-y-auto">
+            {history.map((p) => (
+              <div key={p.id} className="flex items-center gap-1.5 py-0.5 text-[10px]">
+                <span className="text-muted-foreground w-14 shrink-0">{format(parseISO(p.bought_on), "d MMM yy", { locale: fr })}</span>
+                <span className="flex-1 min-w-0 truncate">{p.store ?? "—"}</span>
+                {formatPack(p) && <span className="text-muted-foreground shrink-0">{formatPack(p)}</span>}
+                <span className="font-bold shrink-0">{formatEuros(p.price)}</span>
+                <button onClick={() => deletePrice.mutate(p.id)} className="text-muted-foreground hover:text-destructive shrink-0" title="Supprimer ce prix">
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
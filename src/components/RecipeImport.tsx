@@ -0,0 +1,166 @@
+import { useRef, useState } from "react";
+import { FileUp, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { MealCategory } from "@/hooks/useMeals";
+import { formatQtyDisplay, parseIngredientLineDisplay, serializeIngredients } from "@/lib/ingredientUtils";
+import { formatMinutes } from "@/lib/recipe";
+import { findRecipes, ingredientLines, mealFieldsFromRecipe, type ImportedRecipe } from "@/lib/recipeImport";
+import { formatServings } from "@/lib/servings";
+
+const inputClass = "h-8 text-sm bg-muted/50 border border-border rounded-lg px-2 focus:outline-none focus:ring-1 focus:ring-primary";
+const sectionTitle = "text-[10px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+export type ImportedMeal = { name: string; category: MealCategory; ingredients: string | null } & ReturnType<typeof mealFieldsFromRecipe>;
+
+/** Review of a recipe found in a page before it becomes a meal */
+function RecipeReview({ recipe, categories, defaultCategory, creating, onBack, onCreate }: {
+  recipe: ImportedRecipe;
+  categories: { value: MealCategory; label: string; emoji: string }[];
+  defaultCategory: MealCategory;
+  creating: boolean;
+  onBack: () => void;
+  onCreate: (meal: ImportedMeal) => void;
+}) {
+  const [name, setName] = useState(recipe.name);
+  const [category, setCategory] = useState<MealCategory>(recipe.category ?? defaultCategory);
+  const [ingredients, setIngredients] = useState(recipe.ingredients);
+  const fields = mealFieldsFromRecipe(recipe);
+  const times = [
+    fields.prep_minutes && `Préparation ${formatMinutes(fields.prep_minutes)}`,
+    fields.cook_minutes && `Cuisson ${formatMinutes(fields.cook_minutes)}`,
+    fields.rest_minutes && `Repos ${formatMinutes(fields.rest_minutes)}`,
+  ].filter(Boolean);
+  const nutrition = [
+    fields.calories && `${fields.calories} kcal`,
+    fields.protein && `P ${fields.protein} g`,
+    fields.carbs != null && `G ${fields.carbs} g`,
+    fields.fat != null && `L ${fields.fat} g`,
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-1.5">
+        <input value={name} onChange={(e) => setName(e.target.value)} className={`${inputClass} flex-1 min-w-0 font-semibold`} />
+        <Select value={category} onValueChange={(v) => setCategory(v as MealCategory)}>
+          <SelectTrigger className="h-8 w-32 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>{categories.map((c) => <SelectItem key={c.value} value={c.value}>{c.emoji} {c.label}</SelectItem>)}</SelectContent>
+        </Select>
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        {[fields.yield_servings && formatServings(fields.yield_servings), ...times].filter(Boolean).join(" · ") || "Ni portions ni durées"}
+      </p>
+
+      <div className="space-y-1">
+        <p className={sectionTitle}>Ingrédients ({ingredients.length})</p>
+        {ingredients.map((text, i) => {
+          const line = parseIngredientLineDisplay(text);
+          return (
+            <div key={i} className="flex items-center gap-1.5">
+              <input value={text} onChange={(e) => setIngredients(ingredients.map((t, j) => j === i ? e.target.value : t))}
+                className={`${inputClass} flex-1 min-w-0 text-xs`} />
+              <span className="w-28 shrink-0 truncate text-[10px] text-muted-foreground" title="Quantité · nombre · nom">
+                {[formatQtyDisplay(line.qty), line.count && `×${line.count}`, line.name].filter(Boolean).join(" · ")}
+              </span>
+              <button onClick={() => setIngredients(ingredients.filter((_, j) => j !== i))} className="text-muted-foreground hover:text-destructive shrink-0" title="Retirer">
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {fields.steps.length > 0 && (
+        <div className="space-y-1">
+          <p className={sectionTitle}>Étapes ({fields.steps.length})</p>
+          <ol className="list-decimal pl-4 space-y-0.5 text-xs text-muted-foreground max-h-32 overflow-y-auto">
+            {fields.steps.map((s, i) => <li key={i} className="line-clamp-2">{s.text}{s.timer_minutes ? ` ⏱ ${s.timer_minutes} min` : ""}</li>)}
+          </ol>
+        </div>
+      )}
+
+      {nutrition.length > 0 && (
+        <p className="text-[10px] text-muted-foreground">
+          {nutrition.join(" · ")} pour la recette entière{fields.yield_servings ? ` (${formatServings(fields.yield_servings)})` : ""}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="ghost" className="text-xs rounded-xl" onClick={onBack} disabled={creating}>Retour</Button>
+        <Button className="flex-1 text-xs rounded-xl" disabled={!name.trim() || creating}
+          onClick={() => onCreate({ ...fields, name: name.trim(), category, ingredients: serializeIngredients(ingredientLines(ingredients)) })}>
+          Créer le repas
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/** schema.org recipe import from a saved page (.html file or pasted source) */
+export function RecipeImport({ open, onOpenChange, categories, defaultCategory, creating, onCreate }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  categories: { value: MealCategory; label: string; emoji: string }[];
+  defaultCategory: MealCategory;
+  creating: boolean;
+  onCreate: (meal: ImportedMeal) => void;
+}) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState("");
+  const [recipes, setRecipes] = useState<ImportedRecipe[] | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const reset = () => { setSource(""); setRecipes(null); setSelected(null); };
+
+  const analyze = (html: string) => {
+    const found = findRecipes(html);
+    setRecipes(found);
+    setSelected(found.length === 1 ? 0 : null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { onOpenChange(o); if (!o) reset(); }}>
+      <DialogContent className="max-w-md rounded-[24px] sm:rounded-[34px] border-0 bg-card/95 backdrop-blur-xl shadow-2xl p-4 space-y-3 max-h-[90vh] overflow-y-auto" aria-describedby={undefined}>
+        <DialogTitle className="text-base">Importer une recette</DialogTitle>
+
+        {recipes && selected !== null ? (
+          <RecipeReview
+            key={selected}
+            recipe={recipes[selected]}
+            categories={categories}
+            defaultCategory={defaultCategory}
+            creating={creating}
+            onBack={() => { setSelected(null); if (recipes.length === 1) setRecipes(null); }}
+            onCreate={onCreate}
+          />
+        ) : recipes && recipes.length > 1 ? (
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">{recipes.length} recettes dans cette page :</p>
+            {recipes.map((r, i) => (
+              <button key={i} onClick={() => setSelected(i)} className="w-full text-left text-sm px-3 py-2 rounded-lg bg-muted hover:bg-muted/80 truncate">
+                {r.name} <span className="text-[10px] text-muted-foreground">· {r.ingredients.length} ingrédients</span>
+              </button>
+            ))}
+            <Button variant="ghost" className="text-xs rounded-xl" onClick={() => setRecipes(null)}>Retour</Button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Enregistre la page de la recette (Ctrl+S) ou colle son code source : la recette est lue dans ses données schema.org, sans connexion.
+            </p>
+            <input ref={fileInput} type="file" accept=".html,.htm,text/html" className="hidden"
+              onChange={async (e) => { const file = e.target.files?.[0]; e.target.value = ""; if (file) analyze(await file.text()); }} />
+            <Button variant="secondary" size="sm" className="w-full h-8 text-xs" onClick={() => fileInput.current?.click()}>
+              <FileUp className="h-3.5 w-3.5 mr-1" /> Ouvrir une page (.html)
+            </Button>
+            <textarea value={source} onChange={(e) => { setSource(e.target.value); setRecipes(null); }} rows={5} placeholder="…ou colle le code HTML ici"
+              className="w-full text-xs font-mono bg-muted/50 border border-border rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary" />
+            {recipes?.length === 0 && <p className="text-xs text-destructive">Aucune recette schema.org dans cette page</p>}
+            <Button size="sm" className="w-full h-8 text-xs" disabled={!source.trim()} onClick={() => analyze(source)}>Analyser</Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Ban, Loader2, LockOpen, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "@/hooks/use-toast";
+import { useSecurityDashboard } from "@/hooks/useSecurityDashboard";
+import {
+  activeLockouts, attemptsByDay, formatRemaining, isValidIp, parseIpList, summarizeByIp,
+  type SecurityConfig, type SecurityOverview,
+} from "@/lib/securityDashboard";
+
+const DAYS = 14;
+
+const inputClass = "h-8 text-sm bg-muted/50 border border-border rounded-lg px-2 focus:outline-none focus:ring-1 focus:ring-primary";
+const sectionTitle = "text-[10px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+function ConfigForm({ config, defaults, saving, onSave }: {
+  config: SecurityConfig;
+  defaults: SecurityOverview["defaults"];
+  saving: boolean;
+  onSave: (config: SecurityConfig) => void;
+}) {
+  const [maxAttempts, setMaxAttempts] = useState(String(config.max_attempts));
+  const [lockMinutes, setLockMinutes] = useState(String(config.lock_minutes));
+  const [allowText, setAllowText] = useState(config.allow_ips.join("\n"));
+  const [denyText, setDenyText] = useState(config.deny_ips.join("\n"));
+
+  const allow = parseIpList(allowText);
+  const deny = parseIpList(denyText);
+  const invalid = [...allow, ...deny].filter((ip) => !isValidIp(ip));
+  const max = Number(maxAttempts);
+  const minutes = Number(lockMinutes);
+  const valid = invalid.length === 0 && Number.isInteger(max) && max >= 1 && max <= 20 && Number.isInteger(minutes) && minutes >= 1 && minutes <= 1440;
+
+  return (
+    <div className="space-y-1.5">
+      <p className={sectionTitle}>Réglages</p>
+      <div className="grid grid-cols-2 gap-1.5 text-xs">
+        <label className="space-y-0.5">
+          <span className="text-muted-foreground">Essais avant blocage</span>
+          <input type="number" min={1} max={20} value={maxAttempts} onChange={(e) => setMaxAttempts(e.target.value)} className={`${inputClass} w-full`} />
+        </label>
+        <label className="space-y-0.5">
+          <span className="text-muted-foreground">Premier blocage (min)</span>
+          <input type="number" min={1} max={1440} value={lockMinutes} onChange={(e) => setLockMinutes(e.target.value)} className={`${inputClass} w-full`} />
+        </label>
+      </div>
+      <p className="text-[10px] text-muted-foreground">Par défaut : {defaults.max_attempts} essais, {defaults.lock_minutes} min. Chaque nouvel échec double ensuite le blocage.</p>
+      <label className="block space-y-0.5 text-xs">
+        <span className="text-muted-foreground">Adresses autorisées (jamais bloquées)</span>
+        <textarea value={allowText} onChange={(e) => setAllowText(e.target.value)} rows={2} placeholder="Une adresse par ligne"
+          className="w-full text-xs font-mono bg-muted/50 border border-border rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary" />
+      </label>
+      <label className="block space-y-0.5 text-xs">
+        <span className="text-muted-foreground">Adresses refusées (toujours bloquées)</span>
+        <textarea value={denyText} onChange={(e) => setDenyText(e.target.value)} rows={2} placeholder="Une adresse par ligne"
+          className="w-full text-xs font-mono bg-muted/50 border border-border rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary" />
+      </label>
+      {invalid.length > 0 && <p className="text-[10px] text-destructive">Adresses invalides : {invalid.join(", ")}</p>}
+      <Button size="sm" className="w-full h-8 text-xs" disabled={!valid || saving}
+        onClick={() => onSave({ max_attempts: max, lock_minutes: minutes, allow_ips: allow, deny_ips: deny })}>
+        Enregistrer
+      </Button>
+    </div>
+  );
+}
+
+/** Sign-in and PIN attempts over time by IP, running lockouts and the lockout settings */
+export function SecurityDashboard({ open, onOpenChange, onBlockedCountChange }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onBlockedCountChange: (count: number) => void;
+}) {
+  const { overview, isLoading, error, unlockIp, saveConfig, resetBlockedCount } = useSecurityDashboard({ enabled: open, days: DAYS });
+
+  useEffect(() => {
+    if (overview) onBlockedCountChange(overview.blocked_count);
+  }, [overview, onBlockedCountChange]);
+
+  const saveLists = (config: SecurityConfig) =>
+    saveConfig.mutate(config, { onSuccess: () => toast({ title: "Réglages enregistrés" }) });
+
+  // Moves an IP to one list (or off both)
+  const setIpStatus = (ip: string, status: "allow" | "deny" | null) => {
+    if (!overview) return;
+    const { config } = overview;
+    saveLists({
+      ...config,
+      allow_ips: status === "allow" ? [...config.allow_ips, ip] : config.allow_ips.filter((x) => x !== ip),
+      deny_ips: status === "deny" ? [...config.deny_ips, ip] : config.deny_ips.filter((x) => x !== ip),
+    });
+  };
+
+  const days = overview ? attemptsByDay(overview.attempts, DAYS) : [];
+  const dayMax = Math.max(1, ...days.map((d) => d.success + d.failed));
+  const ips = overview ? summarizeByIp(overview.attempts) : [];
+  const locked = overview ? activeLockouts(overview.lockouts) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md rounded-[24px] sm:rounded-[34px] border-0 bg-card/95 backdrop-blur-xl shadow-2xl p-4 space-y-3 max-h-[90vh] overflow-y-auto" aria-describedby={undefined}>
+        <DialogTitle className="text-base">Sécurité</DialogTitle>
+        <p className="text-[10px] text-amber-600">
+          Indicatif pour les mots de passe : ces règles s'appliquent aux connexions et aux codes passés par l'app, mais
+          Supabase Auth reste joignable directement avec la clé publique et n'y applique que ses propres limites de débit.
+        </p>
+
+        {isLoading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />}
+        {error && <p className="text-xs text-destructive">{error.message}</p>}
+
+        {overview && (
+          <>
+            <div className="flex items-center gap-1.5 text-xs">
+              <span className="flex-1">{overview.blocked_count} blocage{overview.blocked_count > 1 ? "s" : ""} depuis la création</span>
+              <Button size="sm" variant="outline" className="h-7 text-xs" disabled={resetBlockedCount.isPending || overview.blocked_count === 0}
+                onClick={() => resetBlockedCount.mutate()}>
+                Remettre à zéro
+              </Button>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-1.5">
+              <p className={sectionTitle}>Blocages en cours</p>
+              {locked.length === 0 && <p className="text-xs text-muted-foreground">Aucune adresse bloquée</p>}
+              {locked.map((l) => (
+                <div key={l.ip} className="flex items-center gap-1.5 text-xs">
+                  <span className="flex-1 min-w-0 truncate font-mono">{l.ip}</span>
+                  <span className="text-[10px] text-muted-foreground shrink-0">niveau {l.lock_count}</span>
+                  <span className="text-[10px] font-semibold text-destructive shrink-0">{formatRemaining(l.remaining_minutes)}</span>
+                  <Button size="sm" variant="secondary" className="h-7 text-xs shrink-0" disabled={unlockIp.isPending}
+                    onClick={() => unlockIp.mutate(l.ip, { onSuccess: () => toast({ title: `${l.ip} débloquée` }) })}>
+                    <LockOpen className="h-3.5 w-3.5 mr-1" /> Débloquer
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-1.5">
+              <p className={sectionTitle}>Tentatives · {DAYS} jours</p>
+              <div className="flex items-end gap-0.5 h-16">
+                {days.map((d) => (
+                  <div key={d.date} className="flex-1 flex flex-col justify-end h-full"
+                    title={`${format(parseISO(d.date), "EEE d MMM", { locale: fr })} : ${d.success} réussie${d.success > 1 ? "s" : ""}, ${d.failed} échec${d.failed > 1 ? "s" : ""}`}>
+                    <div className="bg-destructive/70 rounded-t-sm" style={{ height: `${(d.failed / dayMax) * 100}%` }} />
+                    <div className="bg-primary/60" style={{ height: `${(d.success / dayMax) * 100}%` }} />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-[9px] text-muted-foreground">
+                <span>{days[0] && format(parseISO(days[0].date), "d MMM", { locale: fr })}</span>
+                <span>aujourd'hui</span>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <p className={sectionTitle}>Par adresse IP</p>
+              {ips.length === 0 && <p className="text-xs text-muted-foreground">Aucune tentative</p>}
+              {ips.map((a) => {
+                const status = overview.config.allow_ips.includes(a.ip) ? "allow" : overview.config.deny_ips.includes(a.ip) ? "deny" : null;
+                return (
+                  <div key={a.ip} className="flex items-center gap-1.5 text-xs">
+                    <span className={`flex-1 min-w-0 truncate font-mono ${status === "deny" ? "line-through text-muted-foreground" : ""}`}>{a.ip}</span>
+                    <span className={`text-[10px] shrink-0 ${a.failed > 0 ? "text-destructive" : "text-muted-foreground"}`}>{a.failed}/{a.total} échec{a.failed > 1 ? "s" : ""}</span>
+                    <span className="text-[10px] text-muted-foreground shrink-0">{format(parseISO(a.lastAt), "d MMM HH:mm", { locale: fr })}</span>
+                    <button onClick={() => setIpStatus(a.ip, status === "allow" ? null : "allow")} disabled={saveConfig.isPending}
+                      className={`shrink-0 ${status === "allow" ? "text-primary" : "text-muted-foreground hover:text-primary"}`}
+                      title={status === "allow" ? "Retirer des adresses autorisées" : "Autoriser"}>
+                      <ShieldCheck className="h-3.5 w-3.5" />
+                    </button>
+                    <button onClick={() => setIpStatus(a.ip, status === "deny" ? null : "deny")} disabled={saveConfig.isPending}
+                      className={`shrink-0 ${status === "deny" ? "text-destructive" : "text-muted-foreground hover:text-destructive"}`}
+                      title={status === "deny" ? "Retirer des adresses refusées" : "Refuser"}>
+                      <Ban className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+
+            <Separator />
+
+            <ConfigForm
+              key={JSON.stringify(overview.config)}
+              config={overview.config}
+              defaults={overview.defaults}
+              saving={saveConfig.isPending}
+              onSave={saveLists}
+            />
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
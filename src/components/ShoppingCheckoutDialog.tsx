@@ -0,0 +1,108 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useFoodItems, type StorageType } from "@/hooks/useFoodItems";
+import { useShoppingList } from "@/hooks/useShoppingList";
+import { canIncrement, checkoutLines, planCheckout, type CheckoutLine } from "@/lib/shoppingCheckout";
+import { formatNumeric } from "@/lib/ingredientUtils";
+
+const STORAGE_OPTIONS: { value: StorageType; label: string }[] = [
+  { value: "frigo", label: "Frigo" },
+  { value: "sec", label: "Placard sec" },
+  { value: "surgele", label: "Surgelés" },
+  { value: "toujours", label: "Toujours présent" },
+];
+
+const formatPurchase = ({ purchase }: CheckoutLine) =>
+  purchase.unitGrams ? `${purchase.quantity} × ${formatNumeric(purchase.unitGrams)} g` : `×${purchase.quantity}`;
+
+interface LineChoice { include: boolean; storage: StorageType; expiration: string; }
+
+/** "Ranger les courses": checked shopping items go into the stock, then leave the list */
+export function ShoppingCheckoutDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { items: foodItems } = useFoodItems();
+  const { items, groups, checkoutShopping } = useShoppingList();
+  const [choices, setChoices] = useState<Record<string, LineChoice>>({});
+
+  const lines = useMemo(() => open ? planCheckout(items, groups, foodItems) : [], [open, items, groups, foodItems]);
+
+  useEffect(() => { if (open) setChoices({}); }, [open]);
+
+  const choiceOf = (line: CheckoutLine): LineChoice =>
+    choices[line.shoppingItemId] ?? { include: true, storage: line.storage_type, expiration: "" };
+  const setChoice = (line: CheckoutLine, patch: Partial<LineChoice>) =>
+    setChoices(prev => ({ ...prev, [line.shoppingItemId]: { ...choiceOf(line), ...patch } }));
+
+  const selected = lines.filter(l => choiceOf(l).include);
+
+  const confirm = async () => {
+    const entries = selected.map(l => {
+      const choice = choiceOf(l);
+      return { ...l, storage_type: choice.storage, expiration_date: choice.expiration || null };
+    });
+    await checkoutShopping.mutateAsync({ lines: checkoutLines(entries), itemIds: selected.map(l => l.shoppingItemId) });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>Ranger les courses</DialogTitle>
+          <DialogDescription>
+            Les articles cochés passent dans le stock puis sont décochés de la liste.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[55vh] overflow-y-auto space-y-1">
+          {lines.length === 0 && (
+            <p className="text-xs text-muted-foreground italic text-center py-4">Aucun article coché.</p>
+          )}
+          {lines.map((line) => {
+            const choice = choiceOf(line);
+            const increments = canIncrement(line, choice.expiration || null);
+            return (
+              <div key={line.shoppingItemId} className={`rounded-lg px-1.5 py-1 space-y-1 ${choice.include ? "" : "opacity-50"}`}>
+                <label className="flex items-center gap-2 text-xs cursor-pointer">
+                  <Checkbox checked={choice.include} onCheckedChange={(checked) => setChoice(line, { include: !!checked })} className="h-3.5 w-3.5 shrink-0" />
+                  <span className="flex-1 min-w-0 truncate font-medium">{line.name}</span>
+                  <span className="text-[10px] text-muted-foreground shrink-0">{formatPurchase(line)}</span>
+                  <span className={`text-[10px] shrink-0 rounded-full px-1.5 ${increments ? "bg-green-500/15 text-green-600" : "bg-primary/10 text-primary"}`}>
+                    {increments ? `+ ${line.match!.name}` : "Nouveau"}
+                  </span>
+                </label>
+                {choice.include && (
+                  <div className="flex items-center gap-1 pl-5">
+                    <select
+                      value={choice.storage}
+                      onChange={(e) => setChoice(line, { storage: e.target.value as StorageType })}
+                      disabled={increments}
+                      className="h-7 bg-muted/50 text-foreground rounded-lg px-1 text-[10px] border border-border outline-none disabled:opacity-50"
+                      title={increments ? "Ajouté à l'aliment existant" : "Rangement"}
+                    >
+                      {STORAGE_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                    <input
+                      type="date"
+                      value={choice.expiration}
+                      onChange={(e) => setChoice(line, { expiration: e.target.value })}
+                      className="h-7 flex-1 min-w-0 text-[10px] bg-muted/50 border border-border rounded-lg px-1.5 focus:outline-none focus:ring-1 focus:ring-primary"
+                      title="Date de péremption"
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={confirm} disabled={selected.length === 0 || checkoutShopping.isPending} className="rounded-full text-xs">
+            Ranger ({selected.length})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
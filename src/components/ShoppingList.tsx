@@ -1,7 +1,7 @@
 import { useState, useRef, useEffect, useMemo, forwardRef } from "react";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { z } from "zod";
-import { Plus, Trash2, Pencil, ChevronDown, ChevronRight, Search, HelpCircle } from "lucide-react";
+import { Plus, Trash2, Pencil, ChevronDown, ChevronRight, Search, HelpCircle, ScanBarcode, ListPlus, PackageCheck, Copy, Ban } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -10,6 +10,16 @@ import { usePreferences } from "@/hooks/usePreferences";
 import { toast } from "@/hooks/use-toast";
 import { normalizeForMatch, normalizeKey, smartFoodContains } from "@/lib/ingredientUtils";
 import { useFoodItems } from "@/hooks/useFoodItems";
+import type { CatalogProduct } from "@/hooks/useProductCatalog";
+import { BarcodeEntry } from "@/components/BarcodeEntry";
+import { ShoppingPlanDialog } from "@/components/ShoppingPlanDialog";
+import { ShoppingCheckoutDialog } from "@/components/ShoppingCheckoutDialog";
+import { PricePopover } from "@/components/PricePopover";
+import { usePrices } from "@/hooks/usePrices";
+import { formatEuros, listTotal } from "@/lib/prices";
+import { StoreSelector } from "@/components/StoreSelector";
+import { useStores } from "@/hooks/useStores";
+import { exportShoppingList, orderGroups, orderItems, storeLayout } from "@/lib/storeLayout";
 
 // ─── Validation schemas ───────────────────────────────────────────────────────
 const shoppingItemSchema = z.object({
@@ -30,12 +40,34 @@ export const ShoppingList = forwardRef<HTMLDivElement>(function ShoppingList(_pr
     groups, ungroupedItems, items,
     addGroup, renameGroup, deleteGroup,
     addItem, toggleItem, updateItemQuantity, updateItemBrand, updateItemContentQuantity, toggleSecondaryCheck, updateItemContentQuantityType, renameItem, deleteItem,
-    getItemsByGroup, reorderItems, reorderGroups,
+    getItemsByGroup, reorderItems, reorderGroups, moveItem,
   } = useShoppingList();
   const isMobile = useIsMobile();
   const { getPreference, setPreference } = usePreferences();
 
   const { items: foodItems } = useFoodItems();
+  const [planOpen, setPlanOpen] = useState(false);
+  const [checkoutOpen, setCheckoutOpen] = useState(false);
+  const { prices } = usePrices();
+  const estimate = useMemo(() => listTotal(items, prices), [items, prices]);
+
+  // Chosen store: its walking order replaces the list's own order
+  const { stores, storeGroups, storeItems, reorderStoreGroups, reorderStoreItems, setItemAvailable } = useStores();
+  const storeId = getPreference<string | null>('shopping_store_id', null);
+  const store = stores.find(s => s.id === storeId) ?? null;
+  const layout = useMemo(() => storeLayout(store?.id ?? null, storeGroups, storeItems), [store?.id, storeGroups, storeItems]);
+  const orderedGroups = useMemo(() => orderGroups(groups, layout), [groups, layout]);
+  const itemsOf = (groupId: string | null) =>
+    orderItems(groupId ? getItemsByGroup(groupId) : ungroupedItems, layout);
+
+  const copyList = async () => {
+    try {
+      await navigator.clipboard.writeText(exportShoppingList(items, groups, layout, store?.name));
+      toast({ title: store ? `Liste copiée (ordre ${store.name})` : "Liste copiée" });
+    } catch (err) {
+      toast({ title: "Copie impossible", description: (err as Error)?.message, variant: "destructive" });
+    }
+  };
 
   // Color palette for paired ambiguous groups
   const ambiguousColors = [
@@ -283,6 +315,17 @@ export const ShoppingList = forwardRef<HTMLDivElement>(function ShoppingList(_pr
     setNewItemTexts(prev => ({ ...prev, [key]: "" }));
   };
 
+  /** Scanned product: brand and net weight fill the item's details */
+  const addScannedItem = (product: CatalogProduct, groupId: string | null) => {
+    addItem.mutate({
+      name: product.name,
+      group_id: groupId,
+      brand: product.brand,
+      content_quantity: product.net_grams ? String(product.net_grams) : null,
+      content_quantity_type: product.net_grams ? "g" : null,
+    });
+  };
+
   // ── Drag & Drop ────────────────────────────────────────────────────────────
 
   const handleItemDragStart = (e: React.DragEvent, item: ShoppingItem) => {
@@ -305,24 +348,26 @@ export const ShoppingList = forwardRef<HTMLDivElement>(function ShoppingList(_pr
     if (!payload || payload.kind !== "item") return;
 
     const targetGroupId = targetItem.group_id;
-    const targetGroupItems = (targetGroupId
-      ? getItemsByGroup(targetGroupId)
-      : ungroupedItems
-    ).filter(i => i.id !== payload.id);
+    const targetGroupItems = itemsOf(targetGroupId).filter(i => i.id !== payload.id);
 
     const targetIdx = targetGroupItems.findIndex(i => i.id === targetItem.id);
     const insertAt = targetIdx === -1 ? targetGroupItems.length : targetIdx;
 
     targetGroupItems.splice(insertAt, 0, { id: payload.id } as ShoppingItem);
-    const updates = targetGroupItems.map((i, idx) => ({
-      id: i.id,
-      sort_order: idx,
-      group_id: targetGroupId,
-    }));
-    reorderItems.mutate(updates);
+    placeItems(payload, targetGroupId, targetGroupItems.map(i => i.id));
     dragPayload.current = null;
   };
 
+  // With a store, the order is the store's; moving to another group stays a change of the list
+  const placeItems = (payload: { id: string; groupId: string | null }, groupId: string | null, orderedIds: string[]) => {
+    if (!store) {
+      reorderItems.mutate(orderedIds.map((id, idx) => ({ id, sort_order: idx, group_id: groupId })));
+      return;
+    }
+    if (payload.groupId !== groupId) moveItem.mutate({ id: payload.id, group_id: groupId });
+    reorderStoreItems.mutate({ storeId: store.id, itemIds: orderedIds });
+  };
+
   // Drop on group header / container → append to end of that group
   const handleDropOnGroup = (e: React.DragEvent, targetGroupId: string | null) => {
     e.preventDefault();
@@ -332,22 +377,17 @@ export const ShoppingList = forwardRef<HTMLDivElement>(function ShoppingList(_pr
     if (!payload) return;
 
     if (payload.kind === "item") {
-      const groupItems = (targetGroupId ? getItemsByGroup(targetGroupId) : ungroupedItems)
-        .filter(i => i.id !== payload.id);
-      const updates = [...groupItems, { id: payload.id } as ShoppingItem].map((i, idx) => ({
-        id: i.id,
-        sort_order: idx,
-        group_id: targetGroupId,
-      }));
-      reorderItems.mutate(updates);
+      const groupItems = itemsOf(targetGroupId).filter(i => i.id !== payload.id);
+      placeItems(payload, targetGroupId, [...groupItems.map(i => i.id), payload.id]);
     } else if (payload.kind === "group" && targetGroupId && payload.id !== targetGroupId) {
-      const fromIdx = groups.findIndex(g => g.id === payload.id);
-      const toIdx = groups.findIndex(g => g.id === targetGroupId);
+      const fromIdx = orderedGroups.findIndex(g => g.id === payload.id);
+      const toIdx = orderedGroups.findIndex(g => g.id === targetGroupId);
       if (fromIdx !== -1 && toIdx !== -1) {
-        const reordered = [...groups];
+        const reordered = [...orderedGroups];
         const [moved] = reordered.splice(fromIdx, 1);
         reordered.splice(toIdx, 0, moved);
-        reorderGroups.mutate(reordered.map((g, i) => ({ id: g.id, sort_order: i })));
+        if (store) reorderStoreGroups.mutate({ storeId: store.id, groupIds: reordered.map(g => g.id) });
+        else reorderGroups.mutate(reordered.map((g, i) => ({ id: g.id, sort_order: i })));
       }
     }
     dragPayload.current = null;
@@ -365,6 +405,7 @@ export const ShoppingList = forwardRef<HTMLDivElement>(function ShoppingList(_pr
     const isNbEditing = fieldEditing === "nb";
     const isOver = dragOverKey === `item:${item.id}`;
     const isAmbiguous = ambiguousItemIds.has(item.id);
+    const isUnavailable = !!layout?.unavailable.has(item.id);
 
     return (
       <div key={item.id}
@@ -373,7 +414,8 @@ export const ShoppingList = forwardRef<HTMLDivElement>(function ShoppingList(_pr
         onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); setDragOverKey(`item:${item.id}`); }}
         onDragLeave={() => setDragOverKey(null)}
         onDrop={(e) => handleDropOnItem(e, item)}
-        className={`flex items-center gap-0.5 py-1.5 pl-0.5 pr-1 rounded-lg transition-colors cursor-grab active:cursor-grabbing ${isOver ? 'ring-2 ring-primary/60 bg-primary/5' : ''} ${!item.checked ? 'opacity-40' : ''}`}
+        className={`flex items-center gap-0.5 py-1.5 pl-0.5 pr-1 rounded-lg transition-colors cursor-grab active:cursor-grabbing ${isOver ? 'ring-2 ring-primary/60 bg-primary/5' : ''} ${!item.checked || isUnavailable ? 'opacity-40' : ''}`}
+        title={isUnavailable ? `Pas chez ${store?.name}` : undefined}
       >
         {/* Secondary checkbox OR ambiguous indicator (clickable with group color) */}
         {isAmbiguous ? (() => {
@@ -633,6 +675,16 @@ export const ShoppingList = forwardRef<HTMLDivElement>(function ShoppingList(_pr
         )}
 
         <div className="flex-1" />
+        {store && (
+          <button
+            onClick={() => setItemAvailable.mutate({ storeId: store.id, itemId: item.id, available: isUnavailable })}
+            className={`shrink-0 px-0.5 rounded hover:bg-muted/60 transition-colors ${isUnavailable ? 'text-destructive' : 'text-muted-foreground/20'}`}
+            title={isUnavailable ? `Disponible chez ${store.name}` : `Pas chez ${store.name}`}
+          >
+            <Ban className="h-3 w-3" />
+          </button>
+        )}
+        <PricePopover item={item} defaultStore={store?.name ?? null} />
         <Button size="icon" variant="ghost" onClick={() => deleteItem.mutate(item.id)} className="h-5 w-5 text-muted-foreground hover:text-destructive shrink-0">
           <Trash2 className="h-3 w-3" />
         </Button>
@@ -654,21 +706,53 @@ export const ShoppingList = forwardRef<HTMLDivElement>(function ShoppingList(_pr
         <Button size="sm" variant="ghost" onClick={() => handleAddItem(groupId)} className="h-6 shrink-0 px-1.5 opacity-60">
           <Plus className="h-3 w-3" />
         </Button>
+        <BarcodeEntry onProduct={(product) => addScannedItem(product, groupId)}>
+          <Button size="sm" variant="ghost" className="h-6 shrink-0 px-1.5 opacity-60" title="Code-barres">
+            <ScanBarcode className="h-3 w-3" />
+          </Button>
+        </BarcodeEntry>
       </div>
     );
   };
 
   return (
     <div className="max-w-2xl mx-auto space-y-3">
-      <div className="relative">
-        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground pointer-events-none" />
-        <Input
-          placeholder="Rechercher dans les courses…"
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-          className="h-8 rounded-xl pl-7"
-        />
+      <div className="flex gap-1.5">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground pointer-events-none" />
+          <Input
+            placeholder="Rechercher dans les courses…"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="h-8 rounded-xl pl-7"
+          />
+        </div>
+        <Button size="sm" variant="outline" onClick={() => setPlanOpen(true)} className="h-8 rounded-xl gap-1 text-xs shrink-0" title="Ajouter ce qu'il manque pour les repas planifiés">
+          <ListPlus className="h-3.5 w-3.5" />
+          <span className="hidden sm:inline">Construire ma liste</span>
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setCheckoutOpen(true)} disabled={!items.some(i => i.checked)} className="h-8 rounded-xl gap-1 text-xs shrink-0" title="Mettre les articles cochés dans le stock">
+          <PackageCheck className="h-3.5 w-3.5" />
+          <span className="hidden sm:inline">Ranger les courses</span>
+        </Button>
+      </div>
+      <div className="flex items-center gap-1.5">
+        <div className="flex-1 min-w-0">
+          <StoreSelector selectedId={store?.id ?? null} onSelect={(id) => setPreference.mutate({ key: 'shopping_store_id', value: id })} />
+        </div>
+        <Button size="sm" variant="ghost" onClick={copyList} disabled={!items.some(i => i.checked)} className="h-7 rounded-xl gap-1 text-xs shrink-0" title="Copier les articles cochés dans l'ordre du magasin">
+          <Copy className="h-3.5 w-3.5" />
+          <span className="hidden sm:inline">Copier</span>
+        </Button>
       </div>
+      <ShoppingPlanDialog open={planOpen} onOpenChange={setPlanOpen} />
+      <ShoppingCheckoutDialog open={checkoutOpen} onOpenChange={setCheckoutOpen} />
+      {estimate.total > 0 && (
+        <p className="text-xs text-muted-foreground px-1">
+          Total estimé : <span className="font-bold text-foreground">{formatEuros(estimate.total)}</span>
+          {estimate.missing.length > 0 && <span title={estimate.missing.join(", ")}> · {estimate.missing.length} sans prix</span>}
+        </p>
+      )}
       {/* Ungrouped items */}
       <div
         draggable
@@ -681,18 +765,18 @@ export const ShoppingList = forwardRef<HTMLDivElement>(function ShoppingList(_pr
         <button onClick={() => toggleCollapse("__ungrouped")} className="flex items-center gap-2 w-full text-left mb-1.5">
           {collapsedGroups.has("__ungrouped") ? <ChevronRight className="h-4 w-4 text-muted-foreground shrink-0" /> : <ChevronDown className="h-4 w-4 text-muted-foreground shrink-0" />}
           <h3 className="text-xs font-extrabold text-foreground/60 uppercase tracking-widest">Articles</h3>
-          <span className="text-[10px] font-bold text-foreground bg-foreground/10 rounded-full px-2 py-0.5 shrink-0">{ungroupedItems.filter(matchesSearch).length}</span>
+          <span className="text-[10px] font-bold text-foreground bg-foreground/10 rounded-full px-2 py-0.5 shrink-0">{itemsOf(null).filter(matchesSearch).length}</span>
         </button>
         {collapsedGroups.has("__ungrouped")
-          ? ungroupedItems.filter(matchesSearch).filter(i => i.checked).map(renderItem)
-          : ungroupedItems.filter(matchesSearch).map(renderItem)
+          ? itemsOf(null).filter(matchesSearch).filter(i => i.checked).map(renderItem)
+          : itemsOf(null).filter(matchesSearch).map(renderItem)
         }
         {!collapsedGroups.has("__ungrouped") && renderAddInput(null)}
       </div>
 
       {/* Groups */}
-      {groups.map((group) => {
-        const groupItems = getItemsByGroup(group.id).filter(matchesSearch);
+      {orderedGroups.map((group) => {
+        const groupItems = itemsOf(group.id).filter(matchesSearch);
         const isCollapsed = collapsedGroups.has(group.id);
         const isGroupOver = dragOverKey === `group:${group.id}`;
         return (
@@ -0,0 +1,117 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useMeals } from "@/hooks/useMeals";
+import { useFoodItems } from "@/hooks/useFoodItems";
+import { useShoppingList } from "@/hooks/useShoppingList";
+import { buildStockMap } from "@/lib/stockUtils";
+import { aggregatePlannedNeeds, planShoppingChanges, type ShoppingChange } from "@/lib/shoppingPlan";
+import { todayKey, weekDateKeys, weekStart } from "@/lib/planningDates";
+
+type PlanRange = "week" | "all";
+
+const formatNeed = (c: ShoppingChange) =>
+  [c.grams > 0 ? `${Math.round(c.grams)} g` : null, c.count > 0 ? `×${Math.round(c.count * 10) / 10}` : null].filter(Boolean).join(" + ");
+
+/** "Construire ma liste": planned cards minus stock, previewed as a diff of the shopping list */
+export function ShoppingPlanDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { possibleMeals } = useMeals();
+  const { items: foodItems } = useFoodItems();
+  const { items, groups, applyShoppingChanges } = useShoppingList();
+  const [range, setRange] = useState<PlanRange>("week");
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+
+  useEffect(() => { if (open) setSkipped(new Set()); }, [open]);
+
+  const { changes, optional, cardCount } = useMemo(() => {
+    if (!open) return { changes: [], optional: [], cardCount: 0 };
+    const today = todayKey();
+    const sunday = weekDateKeys(weekStart(new Date()))[6];
+    const planned = possibleMeals.filter(pm =>
+      pm.planned_date && pm.planned_date >= today && (range === "all" || pm.planned_date <= sunday));
+    const { needs, optional } = aggregatePlannedNeeds(planned, buildStockMap(foodItems));
+    return { changes: planShoppingChanges(needs, items, groups, foodItems), optional, cardCount: planned.length };
+  }, [open, range, possibleMeals, foodItems, items, groups]);
+
+  const selected = changes.filter(c => !skipped.has(c.key));
+  const toggle = (key: string, checked: boolean) => setSkipped(prev => {
+    const next = new Set(prev);
+    if (checked) next.delete(key); else next.add(key);
+    return next;
+  });
+
+  const apply = async () => {
+    await applyShoppingChanges.mutateAsync(selected);
+    onOpenChange(false);
+  };
+
+  const groupName = (id: string | null) => groups.find(g => g.id === id)?.name ?? "Articles";
+  const creates = changes.filter(c => !c.itemId);
+  const updates = changes.filter(c => c.itemId);
+
+  const renderRow = (c: ShoppingChange) => (
+    <label key={c.key} className="flex items-center gap-2 py-1 px-1.5 rounded-lg text-xs hover:bg-muted/60 cursor-pointer">
+      <Checkbox checked={!skipped.has(c.key)} onCheckedChange={(checked) => toggle(c.key, !!checked)} className="h-3.5 w-3.5 shrink-0" />
+      <span className="flex-1 min-w-0 truncate font-medium">{c.name}</span>
+      <span className="text-[10px] text-muted-foreground shrink-0">{formatNeed(c)}</span>
+      <span className="text-[10px] text-muted-foreground/60 shrink-0 max-w-[5rem] truncate">{groupName(c.groupId)}</span>
+      <span className="text-xs font-bold shrink-0 w-12 text-right">
+        {c.fromQty ? <><span className="text-muted-foreground line-through font-normal">×{c.fromQty}</span> </> : null}×{c.packs}
+      </span>
+    </label>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>Construire ma liste</DialogTitle>
+          <DialogDescription>
+            Ingrédients des repas planifiés, moins ce qu'il y a déjà en stock, arrondis aux paquets.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-1">
+          {([["week", "Cette semaine"], ["all", "Tout le planning"]] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setRange(value)}
+              className={`text-xs rounded-full px-3 py-1 font-semibold transition-colors ${range === value ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground hover:bg-muted/80"}`}
+            >
+              {label}
+            </button>
+          ))}
+          <span className="ml-auto self-center text-[10px] text-muted-foreground">{cardCount} repas</span>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto space-y-2">
+          {changes.length === 0 && (
+            <p className="text-xs text-muted-foreground italic text-center py-4">Rien à acheter : tout est en stock ou déjà sur la liste.</p>
+          )}
+          {creates.length > 0 && (
+            <div>
+              <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest mb-1">À ajouter ({creates.length})</p>
+              {creates.map(renderRow)}
+            </div>
+          )}
+          {updates.length > 0 && (
+            <div>
+              <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest mb-1">À mettre à jour ({updates.length})</p>
+              {updates.map(renderRow)}
+            </div>
+          )}
+          {optional.length > 0 && (
+            <p className="text-[10px] text-muted-foreground">Facultatifs non ajoutés : {optional.join(", ")}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={apply} disabled={selected.length === 0 || applyShoppingChanges.isPending} className="rounded-full text-xs">
+            Appliquer ({selected.length})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Calendar, History, X } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar as CalendarPicker } from "@/components/ui/calendar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useStockMovements, type StockMovement } from "@/hooks/useStockMovements";
+import { STOCK_MOVEMENT_REASONS, type StockMovementReason } from "@/lib/stockMovements";
+import { formatNumeric } from "@/lib/ingredientUtils";
+
+const ALL = "__all__";
+
+function formatDelta(m: StockMovement): string {
+  const parts: string[] = [];
+  if (m.grams_delta !== 0) parts.push(`${m.grams_delta > 0 ? "+" : "−"}${formatNumeric(Math.abs(m.grams_delta))}g`);
+  if (m.quantity_delta !== 0) parts.push(`${m.quantity_delta > 0 ? "+" : "−"}${formatNumeric(Math.abs(m.quantity_delta))} u.`);
+  return parts.join(" · ") || "±0";
+}
+
+function DateFilter({ label, value, onChange }: { label: string; value: Date | undefined; onChange: (d: Date | undefined) => void }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button className={`h-8 min-w-[110px] border rounded-xl text-xs px-2 flex items-center gap-1 transition-colors ${
+          value ? 'bg-muted text-foreground border-border font-medium' : 'bg-muted/50 text-muted-foreground border-border'
+        }`}>
+          <Calendar className="h-3.5 w-3.5 shrink-0" />
+          {value ? `${label} ${format(value, 'd MMM yy', { locale: fr })}` : label}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <CalendarPicker
+          mode="single"
+          selected={value}
+          onSelect={(date) => { onChange(date || undefined); setOpen(false); }}
+          initialFocus
+          className="p-3 pointer-events-auto"
+        />
+        {value && (
+          <div className="p-2 border-t">
+            <button onClick={() => { onChange(undefined); setOpen(false); }} className="text-xs text-muted-foreground hover:text-destructive w-full text-center">
+              Effacer la date
+            </button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/** Stock movement ledger, filterable by food, date range and reason */
+export function StockHistory({ onClose }: { onClose: () => void }) {
+  const [foodName, setFoodName] = useState<string | null>(null);
+  const [reason, setReason] = useState<StockMovementReason | null>(null);
+  const [from, setFrom] = useState<Date | undefined>(undefined);
+  const [to, setTo] = useState<Date | undefined>(undefined);
+
+  const { movements, foodNames, isLoading } = useStockMovements({
+    foodName,
+    reason,
+    from: from ? format(from, 'yyyy-MM-dd') : null,
+    to: to ? format(to, 'yyyy-MM-dd') : null,
+  });
+
+  const reasonInfo = (r: StockMovementReason) => STOCK_MOVEMENT_REASONS.find(x => x.value === r);
+
+  return (
+    <div className="mb-4 rounded-2xl bg-card border p-4 shadow-lg">
+      <div className="flex items-center gap-2 mb-3">
+        <History className="h-4 w-4 text-muted-foreground" />
+        <p className="text-sm font-semibold text-foreground flex-1">Historique du stock</p>
+        <button onClick={onClose} className="text-muted-foreground hover:text-foreground" title="Fermer">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-3 items-center flex-wrap">
+        <Select value={foodName ?? ALL} onValueChange={v => setFoodName(v === ALL ? null : v)}>
+          <SelectTrigger className="h-8 w-40 rounded-xl text-xs"><SelectValue placeholder="Aliment" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Tous les aliments</SelectItem>
+            {foodNames.map(n => <SelectItem key={n} value={n}>{n}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={reason ?? ALL} onValueChange={v => setReason(v === ALL ? null : v as StockMovementReason)}>
+          <SelectTrigger className="h-8 w-40 rounded-xl text-xs"><SelectValue placeholder="Motif" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Tous les motifs</SelectItem>
+            {STOCK_MOVEMENT_REASONS.map(r => <SelectItem key={r.value} value={r.value}>{r.emoji} {r.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <DateFilter label="Depuis" value={from} onChange={setFrom} />
+        <DateFilter label="Jusqu'au" value={to} onChange={setTo} />
+      </div>
+
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground text-center py-4">Chargement…</p>
+      ) : movements.length === 0 ? (
+        <p className="text-xs text-muted-foreground text-center py-4">Aucun mouvement</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto divide-y divide-border">
+          {movements.map(m => {
+            const info = reasonInfo(m.reason);
+            const positive = m.grams_delta > 0 || (m.grams_delta === 0 && m.quantity_delta > 0);
+            return (
+              <div key={m.id} className="flex items-center gap-2 py-1.5 text-xs">
+                <span className="text-muted-foreground w-24 shrink-0">{format(parseISO(m.created_at), 'd MMM HH:mm', { locale: fr })}</span>
+                <span className="font-medium text-foreground flex-1 truncate">{m.food_name}</span>
+                <span className="text-muted-foreground shrink-0">{info ? `${info.emoji} ${info.label}` : m.reason}</span>
+                <span className={`w-24 text-right font-bold shrink-0 ${positive ? 'text-green-500' : 'text-red-400'}`}>{formatDelta(m)}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Plus, Settings2, Store as StoreIcon, Trash2 } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useStores } from "@/hooks/useStores";
+
+const inputClass = "h-7 text-xs bg-muted/50 border border-border rounded-lg px-2 focus:outline-none focus:ring-1 focus:ring-primary";
+
+/** Store chips above the shopping list; the chosen store's walking order applies to the list */
+export function StoreSelector({ selectedId, onSelect }: { selectedId: string | null; onSelect: (id: string | null) => void }) {
+  const { stores, addStore, renameStore, deleteStore } = useStores();
+  const [newName, setNewName] = useState("");
+
+  const submitNew = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    setNewName("");
+    const store = await addStore.mutateAsync(name);
+    onSelect(store.id);
+  };
+
+  const chipClass = (active: boolean) =>
+    `text-xs rounded-full px-3 py-1 font-semibold transition-colors shrink-0 ${active ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground hover:bg-muted/80"}`;
+
+  return (
+    <div className="flex items-center gap-1 overflow-x-auto">
+      <StoreIcon className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+      <button onClick={() => onSelect(null)} className={chipClass(!selectedId)} title="Ordre de la liste">Par défaut</button>
+      {stores.map((s) => (
+        <button key={s.id} onClick={() => onSelect(s.id)} className={chipClass(s.id === selectedId)}>{s.name}</button>
+      ))}
+      <Popover>
+        <PopoverTrigger asChild>
+          <button className="p-1 rounded-full hover:bg-muted transition-colors text-muted-foreground shrink-0" title="Magasins">
+            <Settings2 className="h-3.5 w-3.5" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-2 space-y-1.5" align="end">
+          <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Magasins</p>
+          {stores.map((s) => (
+            <div key={s.id} className="flex items-center gap-1">
+              <input
+                key={`${s.id}-${s.name}`}
+                defaultValue={s.name}
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== s.name) renameStore.mutate({ id: s.id, name });
+                  else e.target.value = s.name;
+                }}
+                onKeyDown={(e) => { if (e.key === "Enter") (e.target as HTMLInputElement).blur(); }}
+                className={`${inputClass} flex-1 min-w-0`}
+              />
+              <button
+                onClick={() => { if (s.id === selectedId) onSelect(null); deleteStore.mutate(s.id); }}
+                className="text-muted-foreground hover:text-destructive shrink-0"
+                title="Supprimer le magasin et son ordre de rayons"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-1 pt-1">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter") submitNew(); }}
+              placeholder="Leclerc, marché…"
+              className={`${inputClass} flex-1 min-w-0`}
+            />
+            <button onClick={submitNew} disabled={!newName.trim()} className="h-7 px-2 rounded-lg bg-primary text-primary-foreground text-xs font-semibold flex items-center gap-1 disabled:opacity-40">
+              <Plus className="h-3 w-3" /> Ajouter
+            </button>
+          </div>
+          <p className="text-[10px] text-muted-foreground">Glisser les groupes et articles range la liste dans l'ordre du magasin choisi.</p>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
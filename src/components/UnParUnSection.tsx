@@ -5,8 +5,8 @@ import { Input } from "@/components/ui/input";
 import { usePreferences } from "@/hooks/usePreferences";
 import type { Meal } from "@/hooks/useMeals";
 import { colorFromName, type FoodItem } from "@/components/FoodItems";
-import { buildStockMap, findStockKey, getMealMultiple } from "@/lib/stockUtils";
-import { normalizeForMatch, strictNameMatch, parseIngredientGroups, formatNumeric, getFoodItemTotalGrams } from "@/lib/ingredientUtils";
+import { buildStockMap, findStockKey, getMealMultiple, getMealIngredientGroups } from "@/lib/stockUtils";
+import { normalizeForMatch, strictNameMatch, formatNumeric, getFoodItemTotalGrams } from "@/lib/ingredientUtils";
 import { format, parseISO } from "date-fns";
 import { fr } from "date-fns/locale";
 
@@ -41,7 +41,7 @@ export function UnParUnSection({ category, foodItems, allMeals, collapsed, onTog
 
   const usedIngredientKeys = new Set<string>();
   for (const meal of globalAvailableMeals) {
-    const groups = parseIngredientGroups(meal.ingredients!);
+    const groups = getMealIngredientGroups(meal);
     for (const group of groups) {
       for (const alt of group) {
         const key = findStockKey(stockMap, alt.name);
@@ -1,12 +1,25 @@
 import { useState, useRef, useEffect } from "react";
-import { useMeals, DAYS, TIMES, type PossibleMeal } from "@/hooks/useMeals";
+import { useMeals, type Meal, type PossibleMeal } from "@/hooks/useMeals";
+import { useMealSlots } from "@/hooks/useMealSlots";
+import { MealSlotsEditor } from "@/components/MealSlotsEditor";
+import { useDayTypes } from "@/hooks/useDayTypes";
+import { DayTypesEditor } from "@/components/DayTypesEditor";
+import { useHousehold } from "@/hooks/useHousehold";
+import { HouseholdEditor } from "@/components/HouseholdEditor";
 import { usePreferences } from "@/hooks/usePreferences";
-import { Timer, Flame, Weight, Calendar, Lock } from "lucide-react";
-import { computeIngredientCalories } from "@/lib/ingredientUtils";
+import { Timer, Flame, Weight, Calendar, Lock, ChevronLeft, ChevronRight, Plus, Settings2, Repeat, X } from "lucide-react";
+import { computeIngredientCalories, computeIngredientNutrition, parseQty, stripNutritionSuffix, MACRO_COLUMNS, MACRO_INFO, type MacroColumn } from "@/lib/ingredientUtils";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { format, parseISO } from "date-fns";
+import { Separator } from "@/components/ui/separator";
+import { addWeeks, format, parseISO } from "date-fns";
 import { fr } from "date-fns/locale";
 import { Checkbox } from "@/components/ui/checkbox";
+import { getDayValue, setDayValue, todayKey, weekDateKeys, weekStart, weekdayOf } from "@/lib/planningDates";
+import { DEFAULT_DAILY_GOAL, DEFAULT_PROTEIN_GOAL } from "@/lib/planningGoals";
+import { dayGoals, dayTypeOf } from "@/lib/dayTypes";
+import { usePrices } from "@/hooks/usePrices";
+import { formatEuros, plannedCost } from "@/lib/prices";
+import { formatPlateSplit, memberDayGoals, slotEaters, splitDayTotals, SLOT_MEMBERS_PREF_KEY } from "@/lib/household";
 
 const DAY_LABELS: Record<string, string> = {
   lundi: "Lundi",
@@ -18,36 +31,6 @@ const DAY_LABELS: Record<string, string> = {
   dimanche: "Dimanche",
 };
 
-const TIME_LABELS: Record<string, string> = { midi: "Midi", soir: "Soir" };
-
-const JS_DAY_TO_KEY: Record<number, string> = {
-  1: "lundi",
-  2: "mardi",
-  3: "mercredi",
-  4: "jeudi",
-  5: "vendredi",
-  6: "samedi",
-  0: "dimanche",
-};
-
-const DAY_KEY_TO_INDEX: Record<string, number> = {
-  lundi: 0, mardi: 1, mercredi: 2, jeudi: 3, vendredi: 4, samedi: 5, dimanche: 6,
-};
-
-/** Get the date for a given day key in the current week (Mon-Sun) */
-function getDateForDayKey(dayKey: string): Date {
-  const today = new Date();
-  const todayDow = today.getDay(); // 0=Sun
-  const todayIdx = todayDow === 0 ? 6 : todayDow - 1; // 0=Mon
-  const targetIdx = DAY_KEY_TO_INDEX[dayKey] ?? 0;
-  const diff = targetIdx - todayIdx;
-  const d = new Date(today);
-  d.setDate(d.getDate() + diff);
-  d.setHours(0, 0, 0, 0);
-  return d;
-}
-
-const DEFAULT_DAILY_GOAL = 2750;
 const DEFAULT_WEEKLY_MULTIPLIER = 7;
 
 // Calorie override key for planning cards
@@ -73,12 +56,12 @@ function getCounterDays(startDate: string | null): number | null {
   return Math.floor((Date.now() - new Date(startDate).getTime()) / 86400000);
 }
 
-/** Counter days adapted: adds offset based on the difference between target day and today */
-function getAdaptedCounterDays(startDate: string | null, dayKey: string | null): number | null {
+/** Counter days adapted: adds offset based on the difference between the planned date and today */
+function getAdaptedCounterDays(startDate: string | null, dateKey: string | null): number | null {
   if (!startDate) return null;
   const baseDays = Math.floor((Date.now() - new Date(startDate).getTime()) / 86400000);
-  if (!dayKey) return baseDays;
-  const targetDate = getDateForDayKey(dayKey);
+  if (!dateKey) return baseDays;
+  const targetDate = parseISO(dateKey);
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   const dayOffset = Math.round((targetDate.getTime() - today.getTime()) / 86400000);
@@ -90,12 +73,11 @@ function isExpiredDate(d: string | null) {
   return new Date(d) < new Date(new Date().toDateString());
 }
 
-/** Check if expired relative to target day */
-function isExpiredOnDay(d: string | null, dayKey: string | null) {
+/** Check if expired relative to the planned date */
+function isExpiredOnDay(d: string | null, dateKey: string | null) {
   if (!d) return false;
-  if (!dayKey) return isExpiredDate(d);
-  const targetDate = getDateForDayKey(dayKey);
-  return new Date(d) < targetDate;
+  if (!dateKey) return isExpiredDate(d);
+  return new Date(d) < parseISO(dateKey);
 }
 
 function parseCalories(cal: string | null | undefined): number {
@@ -110,7 +92,17 @@ function parseProtein(prot: string | null | undefined): number {
   return isNaN(n) ? 0 : n;
 }
 
-const DAILY_PROTEIN_GOAL = 110;
+/** Calories of a meal: ingredient suffixes first, then the calories column */
+function mealCalories(meal: Meal | undefined): number {
+  return computeIngredientCalories(meal?.ingredients ?? null) ?? parseCalories(meal?.calories);
+}
+
+function mealProtein(meal: Meal | undefined): number {
+  return parseProtein(meal?.protein) || computeIngredientNutrition(meal?.ingredients)?.protein || 0;
+}
+
+// Reference intakes (g/day) for an adult
+const DEFAULT_MACRO_GOALS: Record<MacroColumn, number> = { carbs: 260, fat: 70, fibre: 30, sugar: 90, salt: 6 };
 
 interface TouchDragState {
   pmId: string;
@@ -122,8 +114,10 @@ interface TouchDragState {
 }
 
 // ─── PlanningMiniCard ────────────────────────────────────────────────────────
-function PlanningMiniCard({ pm, meal, expired, counterDays, counterUrgent, displayCal, isComputedCal, compact, isTouchDevice, touchDragActive, slotDragOver, onDragStart, onDragOver, onDragLeave, onDrop, onTouchStart, onTouchMove, onTouchEnd, onTouchCancel, onRemove, onCalorieChange }: {
+function PlanningMiniCard({ pm, meal, expired, counterDays, counterUrgent, displayCal, isComputedCal, compact, isTouchDevice, touchDragActive, slotDragOver, onDragStart, onDragOver, onDragLeave, onDrop, onTouchStart, onTouchMove, onTouchEnd, onTouchCancel, onRemove, onCalorieChange, plateSplit }: {
   pm: PossibleMeal; meal: any; expired: boolean; counterDays: number | null; counterUrgent: boolean; displayCal: string | null; isComputedCal: boolean; compact: boolean;
+  /** "Léa 180g · Tom 270g" when the slot is shared */
+  plateSplit?: string | null;
   isTouchDevice: boolean; touchDragActive: boolean; slotDragOver: string | null;
   onDragStart: (e: React.DragEvent) => void; onDragOver: (e: React.DragEvent) => void; onDragLeave: () => void; onDrop: (e: React.DragEvent) => void;
   onTouchStart: (e: React.TouchEvent) => void; onTouchMove: (e: React.TouchEvent) => void; onTouchEnd: (e: React.TouchEvent) => void; onTouchCancel: () => void;
@@ -224,6 +218,7 @@ function PlanningMiniCard({ pm, meal, expired, counterDays, counterUrgent, displ
                   <Weight className="h-2 w-2" />
                   {meal.grams}
                 </span>
+                {plateSplit && <span className="text-[9px] text-white/50">{plateSplit}</span>}
               </div>
             )}
             {(meal.ingredients || pm.expiration_date) && (
@@ -237,7 +232,7 @@ function PlanningMiniCard({ pm, meal, expired, counterDays, counterUrgent, displ
                 {meal.ingredients && meal.ingredients
                   .split(/[,\n]+/)
                   .filter(Boolean)
-                  .map((s: string) => s.trim().replace(/\{\d+(?:[.,]\d+)?\}\s*$/g, "").trim())
+                  .map((s: string) => stripNutritionSuffix(s.trim()))
                   .join(" • ")}
               </div>
             )}
@@ -260,6 +255,7 @@ function PlanningMiniCard({ pm, meal, expired, counterDays, counterUrgent, displ
                     <Weight className="h-2 w-2" />
                     {meal.grams}
                   </span>
+                  {plateSplit && <span className="text-[9px] text-white/50">{plateSplit}</span>}
                 </div>
               )}
               {pm.expiration_date && (
@@ -276,7 +272,7 @@ function PlanningMiniCard({ pm, meal, expired, counterDays, counterUrgent, displ
                     .split(/[,\n]+/)
                     .filter(Boolean)
                     .map((s: string) => s.trim())
-                    .map((s: string) => s.replace(/\{\d+(?:[.,]\d+)?\}\s*/g, "").trim())
+                    .map((s: string) => stripNutritionSuffix(s))
                     .map((item, i, arr) => (
                       <span key={i} className="whitespace-nowrap">
                         {item}{i < arr.length - 1 ? " •" : ""}
@@ -347,36 +343,73 @@ function PlanningMiniCard({ pm, meal, expired, counterDays, counterUrgent, displ
 }
 
 export function WeeklyPlanning() {
-  const { possibleMeals, updatePlanning, reorderPossibleMeals, getMealsByCategory } = useMeals();
+  const { meals, possibleMeals, updatePlanning, planMeal, reorderPossibleMeals, getMealsByCategory } = useMeals();
   const { getPreference, setPreference } = usePreferences();
+  const { slots } = useMealSlots();
+  const { dayTypes } = useDayTypes();
+  const { prices } = usePrices();
+  const { members } = useHousehold();
+  const slotKeys = slots.map((s) => s.key);
+
+  const [monday, setMonday] = useState(() => weekStart(new Date()));
+  const weekDays = weekDateKeys(monday);
+  const today = todayKey();
+  const isCurrentWeek = weekDays.includes(today);
 
-  // Breakfast selections per day
-  const breakfastSelections = getPreference<Record<string, string>>('planning_breakfast', {});
-  const petitDejMeals = getMealsByCategory('petit_dejeuner');
+  // Per-day values are keyed by date, or by weekday when they repeat every week
   const manualCalories = getPreference<Record<string, number>>('planning_manual_calories', {});
   const extraCalories = getPreference<Record<string, number>>('planning_extra_calories', {});
   const calOverrides = getPreference<Record<string, string>>('planning_cal_overrides', {});
-  const keepOnReset = getPreference<Record<string, boolean>>('planning_keep_on_reset', {});
+  // Meal id repeated every week in a slot ("lundi-petit_dejeuner"), shown while the slot has no card
+  const recurringMeals = getPreference<Record<string, string>>('planning_recurring_meals', {});
+  // "manual-lundi-midi", "extra-lundi": the value repeats every week
+  const weeklyFlags = getPreference<Record<string, boolean>>('planning_keep_on_reset', {});
   const DAILY_GOAL = getPreference<number>('planning_daily_goal', DEFAULT_DAILY_GOAL);
-  const WEEKLY_GOAL = DAILY_GOAL * DEFAULT_WEEKLY_MULTIPLIER;
-  const DAILY_PROTEIN_GOAL_PREF = getPreference<number>('planning_protein_goal', DAILY_PROTEIN_GOAL);
+  const DAILY_PROTEIN_GOAL_PREF = getPreference<number>('planning_protein_goal', DEFAULT_PROTEIN_GOAL);
+  // Day type per date ("2026-03-16") or per weekday ("lundi") when it repeats
+  const dayTypeAssignments = getPreference<Record<string, string>>('planning_day_types', {});
+  // Member ids eating at a slot ("2026-03-16-midi" or "lundi-midi"); everyone when unset
+  const slotMembers = getPreference<Record<string, string[]>>(SLOT_MEMBERS_PREF_KEY, {});
+  const getSlotEaters = (day: string, time: string) => slotEaters(members, getDayValue(slotMembers, day, `-${time}`));
+  const getDayGoals = (day: string) =>
+    dayGoals(dayTypeOf(dayTypes, dayTypeAssignments, day), { kcal: DAILY_GOAL, protein: DAILY_PROTEIN_GOAL_PREF });
+  const WEEKLY_GOAL = weekDays.reduce((sum, day) => sum + getDayGoals(day).kcal, 0);
+  const WEEKLY_PROTEIN_GOAL = weekDays.reduce((sum, day) => sum + getDayGoals(day).protein, 0);
   const [editingGoal, setEditingGoal] = useState(false);
   const [goalInput, setGoalInput] = useState("");
   const [editingProteinGoal, setEditingProteinGoal] = useState(false);
   const [proteinGoalInput, setProteinGoalInput] = useState("");
+  // Weekly budget in euros; 0 = no budget
+  const WEEKLY_BUDGET = getPreference<number>('planning_weekly_budget', 0);
+  const [editingBudget, setEditingBudget] = useState(false);
+  const [budgetInput, setBudgetInput] = useState("");
+  const macroGoals = { ...DEFAULT_MACRO_GOALS, ...getPreference<Partial<Record<MacroColumn, number>>>('planning_macro_goals', {}) };
+  const [macroGoalInputs, setMacroGoalInputs] = useState<Record<string, string>>({});
+
+  const weeklyFlagKey = (flag: string, dateKey: string, suffix = '') => `${flag}-${weekdayOf(dateKey)}${suffix}`;
 
-  const getBreakfastForDay = (day: string) => {
-    const mealId = breakfastSelections[day];
-    if (!mealId) return null;
-    return petitDejMeals.find(m => m.id === mealId) || null;
+  /** Write a per-day value, on the weekday key when its weekly flag is set */
+  const writeDayValue = <T,>(prefKey: string, map: Record<string, T>, flag: string, dateKey: string, value: T | undefined, suffix = '') => {
+    const weekly = !!weeklyFlags[weeklyFlagKey(flag, dateKey, suffix)];
+    let updated = setDayValue(map, dateKey, value, { weekly, suffix });
+    // A dated value would hide the weekly one
+    if (weekly) updated = setDayValue(updated, dateKey, undefined, { suffix });
+    setPreference.mutate({ key: prefKey, value: updated });
   };
 
-  const setBreakfastForDay = (day: string, mealId: string | null) => {
-    const updated = { ...breakfastSelections };
-    if (mealId) updated[day] = mealId;
-    else delete updated[day];
-    setPreference.mutate({ key: 'planning_breakfast', value: updated });
+  /** Toggle "Répéter chaque semaine": the day's value moves between its date and its weekday */
+  const toggleWeekly = <T,>(prefKey: string, map: Record<string, T>, flag: string, dateKey: string, weekly: boolean, suffix = '') => {
+    const value = getDayValue(map, dateKey, suffix);
+    let updated = setDayValue(map, dateKey, undefined, { suffix });
+    updated = setDayValue(updated, dateKey, undefined, { weekly: true, suffix });
+    updated = setDayValue(updated, dateKey, value, { weekly, suffix });
+    setPreference.mutate({ key: prefKey, value: updated });
+    const flags = { ...weeklyFlags };
+    if (weekly) flags[weeklyFlagKey(flag, dateKey, suffix)] = true;
+    else delete flags[weeklyFlagKey(flag, dateKey, suffix)];
+    setPreference.mutate({ key: 'planning_keep_on_reset', value: flags });
   };
+
   const [dragOverSlot, setDragOverSlot] = useState<string | null>(null);
   const [dragOverUnplanned, setDragOverUnplanned] = useState(false);
 
@@ -389,7 +422,6 @@ export function WeeklyPlanning() {
   const [touchHighlight, setTouchHighlight] = useState<string | null>(null);
 
   const todayRef = useRef<HTMLDivElement | null>(null);
-  const todayKey = JS_DAY_TO_KEY[new Date().getDay()];
   const isTouchDevice = typeof window !== "undefined" && (navigator.maxTouchPoints > 0 || "ontouchstart" in window);
 
   useEffect(() => {
@@ -407,59 +439,221 @@ export function WeeklyPlanning() {
   const planningMeals = possibleMeals.filter((pm) => {
     if (pm.meals?.category === "plat") return true;
     // Non-plat categories: only show if they have a planning date assigned
-    return !!pm.day_of_week && !!pm.meal_time;
+    return !!pm.planned_date && !!pm.meal_time;
   });
 
-  const getMealsForSlot = (day: string, time: string): PossibleMeal[] =>
+  const getMealsForSlot = (dateKey: string, time: string): PossibleMeal[] =>
     planningMeals
-      .filter((pm) => pm.day_of_week === day && pm.meal_time === time)
+      .filter((pm) => pm.planned_date === dateKey && pm.meal_time === time)
       .sort((a, b) => a.sort_order - b.sort_order);
 
-  const unplanned = planningMeals.filter((pm) => !pm.day_of_week || !pm.meal_time);
+  /** The slot's weekly meal, unless a card is planned there */
+  const getRecurringMeal = (day: string, time: string): Meal | undefined => {
+    if (getMealsForSlot(day, time).length > 0) return undefined;
+    const mealId = recurringMeals[`${weekdayOf(day)}-${time}`];
+    return mealId ? meals.find((m) => m.id === mealId) : undefined;
+  };
+
+  const setRecurringMeal = (day: string, time: string, mealId: string | undefined) =>
+    setPreference.mutate({ key: 'planning_recurring_meals', value: setDayValue(recurringMeals, day, mealId, { weekly: true, suffix: `-${time}` }) });
+
+  // Cards on a deleted slot come back here
+  const unplanned = planningMeals.filter((pm) => !pm.planned_date || !pm.meal_time || !slotKeys.includes(pm.meal_time));
 
-  const breakfastManualCalories = getPreference<Record<string, number>>('planning_breakfast_manual_calories', {});
   const drinkChecks = getPreference<Record<string, boolean>>('planning_drink_checks', {});
   const DRINK_CALORIES = 150;
 
+  const getSlotCalories = (day: string, time: string): number => {
+    const slotMeals = getMealsForSlot(day, time);
+    if (slotMeals.length === 0) {
+      const recurring = getRecurringMeal(day, time);
+      return recurring ? mealCalories(recurring) : getDayValue(manualCalories, day, `-${time}`) || 0;
+    }
+    return slotMeals.reduce((s, pm) => {
+      const override = calOverrides[pm.id];
+      if (override) return s + parseCalories(override);
+      return s + mealCalories(pm.meals);
+    }, 0);
+  };
+
   const getDayCalories = (day: string): number => {
-    const mealCals = TIMES.reduce(
-      (total, time) => {
-        const slotMeals = getMealsForSlot(day, time);
-        if (slotMeals.length > 0) {
-          return total + slotMeals.reduce((s, pm) => {
-            const override = calOverrides[pm.id];
-            if (override) return s + parseCalories(override);
-            const ingCal = computeIngredientCalories(pm.meals?.ingredients);
-            if (ingCal !== null) return s + ingCal;
-            return s + parseCalories(pm.meals?.calories);
-          }, 0);
-        }
-        return total + (manualCalories[`${day}-${time}`] || 0);
-      },
-      0,
+    const mealCals = slotKeys.reduce((total, time) => total + getSlotCalories(day, time), 0);
+    const extra = getDayValue(extraCalories, day) || 0;
+    const drinkCal = slotKeys.reduce((sum, time) => sum + (drinkChecks[`${day}-${time}`] ? DRINK_CALORIES : 0), 0);
+    return mealCals + extra + drinkCal;
+  };
+
+  const getSlotProtein = (day: string, time: string): number => {
+    const recurring = getRecurringMeal(day, time);
+    if (recurring) return mealProtein(recurring);
+    return getMealsForSlot(day, time).reduce((s, pm) => s + mealProtein(pm.meals), 0);
+  };
+
+  const getDayProtein = (day: string): number =>
+    slotKeys.reduce((total, time) => total + getSlotProtein(day, time), 0);
+
+  /** Each member's share of the day: slots split between their eaters, the day's extra between everyone */
+  const getMemberDayTotals = (day: string) => splitDayTotals(members, [
+    ...slotKeys.map((time) => ({
+      kcal: getSlotCalories(day, time) + (drinkChecks[`${day}-${time}`] ? DRINK_CALORIES : 0),
+      protein: getSlotProtein(day, time),
+      eaters: getSlotEaters(day, time),
+    })),
+    { kcal: getDayValue(extraCalories, day) || 0, protein: 0, eaters: members },
+  ]);
+
+  /** Macros of a planned meal: ingredient suffixes first, then the meal columns */
+  const getMealMacros = (meal: Meal | undefined): Record<MacroColumn, number> => {
+    const computed = computeIngredientNutrition(meal?.ingredients);
+    return Object.fromEntries(MACRO_COLUMNS.map(k => [k, computed?.[k] ?? meal?.[k] ?? 0])) as Record<MacroColumn, number>;
+  };
+
+  const getDayMacros = (day: string): Record<MacroColumn, number> => {
+    const totals = Object.fromEntries(MACRO_COLUMNS.map(k => [k, 0])) as Record<MacroColumn, number>;
+    for (const time of slotKeys) {
+      const recurring = getRecurringMeal(day, time);
+      const slotMeals = recurring ? [recurring] : getMealsForSlot(day, time).map((pm) => pm.meals);
+      for (const meal of slotMeals) {
+        const macros = getMealMacros(meal);
+        for (const k of MACRO_COLUMNS) totals[k] += macros[k];
+      }
+    }
+    return totals;
+  };
+
+  const saveMacroGoals = () => {
+    const goals: Partial<Record<MacroColumn, number>> = {};
+    for (const k of MACRO_COLUMNS) {
+      const val = parseFloat((macroGoalInputs[k] ?? "").replace(",", "."));
+      if (val > 0) goals[k] = val;
+    }
+    setPreference.mutate({ key: 'planning_macro_goals', value: goals });
+  };
+
+  const renderMacroGoalsEditor = () => (
+    <PopoverContent className="w-56 p-3 space-y-1.5" align="end">
+      <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Objectifs par jour</p>
+      {MACRO_COLUMNS.map(k => (
+        <label key={k} className="flex items-center gap-2 text-xs">
+          <span className="flex-1 text-foreground">{MACRO_INFO[k].label}</span>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={macroGoalInputs[k] ?? ""}
+            onChange={(e) => setMacroGoalInputs(prev => ({ ...prev, [k]: e.target.value }))}
+            onBlur={saveMacroGoals}
+            onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+            className="w-16 h-6 text-xs bg-muted border border-border rounded px-1.5 text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+          />
+          <span className="text-muted-foreground w-3">g</span>
+        </label>
+      ))}
+    </PopoverContent>
+  );
+
+  /** "G 120/260" chips; each opens the goals editor */
+  const renderMacroChips = (totals: Record<MacroColumn, number>, multiplier: number) => (
+    <Popover onOpenChange={(open) => open && setMacroGoalInputs(Object.fromEntries(MACRO_COLUMNS.map(k => [k, String(macroGoals[k])])))}>
+      <PopoverTrigger asChild>
+        <button className="flex items-center gap-1 flex-wrap" title="Cliquer pour modifier les objectifs">
+          {MACRO_COLUMNS.filter(k => totals[k] > 0).map(k => {
+            const goal = macroGoals[k] * multiplier;
+            // Fibre is a minimum, the others are maximums
+            const off = k === 'fibre' ? totals[k] < goal : totals[k] > goal;
+            return (
+              <span key={k} className={`text-[10px] font-bold rounded-full px-1.5 py-0.5 whitespace-nowrap ${off ? 'bg-orange-500/15 text-orange-500' : 'bg-emerald-500/10 text-emerald-500'}`}>
+                {MACRO_INFO[k].short} {Math.round(totals[k] * 10) / 10} <span className="opacity-50 font-normal">/ {Math.round(goal)}</span>
+              </span>
+            );
+          })}
+        </button>
+      </PopoverTrigger>
+      {renderMacroGoalsEditor()}
+    </Popover>
+  );
+
+  /** One kcal and protein bar per member, against their own goals for the day */
+  const renderMemberProgress = (day: string, goals: { kcal: number; protein: number }) => {
+    const totals = getMemberDayTotals(day);
+    return (
+      <div className="grid gap-x-3 gap-y-1 mb-2" style={{ gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))' }}>
+        {members.map((m) => {
+          const eaten = totals.get(m.id) ?? { kcal: 0, protein: 0 };
+          const goal = memberDayGoals(m, goals, { kcal: DAILY_GOAL, protein: DAILY_PROTEIN_GOAL_PREF });
+          const over = eaten.kcal > goal.kcal;
+          return (
+            <div key={m.id} className="min-w-0">
+              <div className="flex items-center gap-1 text-[10px]">
+                <span className="h-2 w-2 rounded-full shrink-0" style={{ backgroundColor: m.color ?? undefined }} />
+                <span className="font-semibold truncate">{m.name}</span>
+                <span className={`ml-auto font-bold whitespace-nowrap ${over ? 'text-orange-500' : 'text-muted-foreground'}`}>
+                  {Math.round(eaten.kcal)} <span className="font-normal opacity-60">/ {goal.kcal}</span>
+                </span>
+                <span className="font-bold text-blue-400 whitespace-nowrap">
+                  🍗 {Math.round(eaten.protein)} <span className="font-normal opacity-60">/ {goal.protein}</span>
+                </span>
+              </div>
+              <div className="h-1.5 rounded-full bg-muted overflow-hidden mt-0.5">
+                <div
+                  className={`h-full rounded-full transition-all ${over ? 'bg-orange-500' : 'bg-primary'}`}
+                  style={{ width: `${Math.min(100, (eaten.kcal / goal.kcal) * 100)}%` }}
+                />
+              </div>
+              <div className="h-0.5 rounded-full bg-muted overflow-hidden mt-px">
+                <div className="h-full rounded-full bg-blue-400" style={{ width: `${Math.min(100, (eaten.protein / goal.protein) * 100)}%` }} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
     );
-    const breakfast = getBreakfastForDay(day);
-    const extra = extraCalories[day] || 0;
-    const breakfastCal = breakfast ? parseCalories(breakfast.calories) : (breakfastManualCalories[day] || 0);
-    const drinkCal = TIMES.reduce((sum, time) => sum + (drinkChecks[`${day}-${time}`] ? DRINK_CALORIES : 0), 0);
-    return mealCals + breakfastCal + extra + drinkCal;
   };
 
-  const getDayProtein = (day: string): number => {
-    const mealProt = TIMES.reduce((total, time) => {
-      const slotMeals = getMealsForSlot(day, time);
-      return total + slotMeals.reduce((s, pm) => s + parseProtein(pm.meals?.protein), 0);
-    }, 0);
-    const breakfast = getBreakfastForDay(day);
-    const breakfastProt = breakfast ? parseProtein(breakfast.protein) : 0;
-    return mealProt + breakfastProt;
+  /** Who eats at a slot: everyone by default, or the ticked members */
+  const renderSlotEaters = (day: string, time: string) => {
+    const eaters = getSlotEaters(day, time);
+    const toggle = (id: string) => {
+      const ids = eaters.some(m => m.id === id) ? eaters.filter(m => m.id !== id).map(m => m.id) : [...eaters.map(m => m.id), id];
+      // Everyone ticked is the default: nothing stored
+      writeDayValue(SLOT_MEMBERS_PREF_KEY, slotMembers, 'members', day, ids.length === members.length ? undefined : ids, `-${time}`);
+    };
+    return (
+      <Popover>
+        <PopoverTrigger asChild>
+          <button className="flex items-center -space-x-0.5 rounded-full px-0.5 py-px hover:bg-muted/60 transition-colors" title="Qui mange ?">
+            {eaters.length === 0 ? (
+              <span className="text-[8px] text-muted-foreground/40">personne</span>
+            ) : eaters.map(m => (
+              <span key={m.id} className="h-2 w-2 rounded-full ring-1 ring-background" style={{ backgroundColor: m.color ?? undefined }} />
+            ))}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-44 p-2 space-y-1" align="start">
+          {members.map(m => (
+            <label key={m.id} className="flex items-center gap-1.5 text-xs cursor-pointer">
+              <Checkbox checked={eaters.some(e => e.id === m.id)} onCheckedChange={() => toggle(m.id)} className="h-3.5 w-3.5" />
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: m.color ?? undefined }} />
+              {m.name}
+            </label>
+          ))}
+          <label className="flex items-center gap-1.5 pt-1.5 mt-1 border-t text-[10px] text-muted-foreground cursor-pointer">
+            <Checkbox
+              checked={!!weeklyFlags[weeklyFlagKey('members', day, `-${time}`)]}
+              onCheckedChange={(checked) => toggleWeekly(SLOT_MEMBERS_PREF_KEY, slotMembers, 'members', day, !!checked, `-${time}`)}
+              className="h-3 w-3"
+            />
+            Répéter chaque semaine
+          </label>
+        </PopoverContent>
+      </Popover>
+    );
   };
 
   const handleDrop = async (e: React.DragEvent, day: string, time: string) => {
     e.preventDefault();
     setDragOverSlot(null);
     const pmId = e.dataTransfer.getData("pmId");
-    if (pmId) updatePlanning.mutate({ id: pmId, day_of_week: day, meal_time: time });
+    if (pmId) updatePlanning.mutate({ id: pmId, planned_date: day, meal_time: time });
   };
 
   const handleDropOnCard = (e: React.DragEvent, targetPm: PossibleMeal) => {
@@ -468,7 +662,7 @@ export function WeeklyPlanning() {
     setSlotDragOver(null);
     const draggedPmId = e.dataTransfer.getData("pmId");
     if (!draggedPmId || draggedPmId === targetPm.id) return;
-    const slot = getMealsForSlot(targetPm.day_of_week!, targetPm.meal_time!);
+    const slot = getMealsForSlot(targetPm.planned_date!, targetPm.meal_time!);
     const filtered = slot.filter((p) => p.id !== draggedPmId);
     const targetIdx = filtered.findIndex((p) => p.id === targetPm.id);
     const insertAt = targetIdx === -1 ? filtered.length : targetIdx;
@@ -480,7 +674,7 @@ export function WeeklyPlanning() {
     e.preventDefault();
     setDragOverUnplanned(false);
     const pmId = e.dataTransfer.getData("pmId");
-    if (pmId) updatePlanning.mutate({ id: pmId, day_of_week: null, meal_time: null });
+    if (pmId) updatePlanning.mutate({ id: pmId, planned_date: null, meal_time: null });
   };
 
   const handleTouchStart = (e: React.TouchEvent, pm: PossibleMeal) => {
@@ -581,9 +775,9 @@ export function WeeklyPlanning() {
     if (slotEl) {
       const day = slotEl.getAttribute("data-day")!;
       const time = slotEl.getAttribute("data-time")!;
-      updatePlanning.mutate({ id: state.pmId, day_of_week: day, meal_time: time });
+      updatePlanning.mutate({ id: state.pmId, planned_date: day, meal_time: time });
     } else if (el?.closest("[data-unplanned]")) {
-      updatePlanning.mutate({ id: state.pmId, day_of_week: null, meal_time: null });
+      updatePlanning.mutate({ id: state.pmId, planned_date: null, meal_time: null });
     }
   };
 
@@ -603,14 +797,14 @@ export function WeeklyPlanning() {
   };
 
   const handleRemoveFromSlot = (pm: PossibleMeal) => {
-    updatePlanning.mutate({ id: pm.id, day_of_week: null, meal_time: null });
+    updatePlanning.mutate({ id: pm.id, planned_date: null, meal_time: null });
   };
 
   const renderMiniCard = (pm: PossibleMeal, compact = false) => {
     const meal = pm.meals;
     if (!meal) return null;
-    const expired = isExpiredOnDay(pm.expiration_date, pm.day_of_week);
-    const counterDays = getAdaptedCounterDays(pm.counter_start_date, pm.day_of_week);
+    const expired = isExpiredOnDay(pm.expiration_date, pm.planned_date);
+    const counterDays = getAdaptedCounterDays(pm.counter_start_date, pm.planned_date);
     const counterUrgent = counterDays !== null && counterDays >= 3;
     const overrideCal = calOverrides[pm.id];
     const ingCal = computeIngredientCalories(meal.ingredients);
@@ -635,7 +829,7 @@ export function WeeklyPlanning() {
           e.dataTransfer.setData("pmId", pm.id);
           e.dataTransfer.setData("mealId", pm.meal_id);
           e.dataTransfer.setData("source", "planning-slot");
-          slotDragRef.current = { pmId: pm.id, slotKey: `${pm.day_of_week}-${pm.meal_time}` };
+          slotDragRef.current = { pmId: pm.id, slotKey: `${pm.planned_date}-${pm.meal_time}` };
         }}
         onDragOver={(e) => {
           e.preventDefault();
@@ -649,6 +843,7 @@ export function WeeklyPlanning() {
         onTouchEnd={handleTouchEnd}
         onTouchCancel={handleTouchCancel}
         onRemove={() => handleRemoveFromSlot(pm)}
+        plateSplit={pm.planned_date && pm.meal_time ? formatPlateSplit(parseQty(meal.grams), getSlotEaters(pm.planned_date, pm.meal_time)) : null}
         onCalorieChange={(val) => {
           const updated = { ...calOverrides };
           if (val) updated[pm.id] = val;
@@ -659,13 +854,92 @@ export function WeeklyPlanning() {
     );
   };
 
-  const weekTotal = DAYS.reduce((sum, day) => sum + getDayCalories(day), 0);
+  /** Fill an empty slot: an unplanned card of the slot's category, or a meal of the list (planned without stock) */
+  const renderSlotPicker = (day: string, time: string, category: string) => {
+    const cards = unplanned.filter((pm) => pm.meals?.category === category);
+    const categoryMeals = getMealsByCategory(category);
+    return (
+      <Popover>
+        <PopoverTrigger asChild>
+          <button className="text-muted-foreground/40 hover:text-primary transition-colors shrink-0" title="Choisir un repas">
+            <Plus className="h-3 w-3" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-52 p-2" align="start">
+          <div className="space-y-0.5 max-h-56 overflow-y-auto">
+            {cards.length > 0 && (
+              <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide mb-1">Possibles</p>
+            )}
+            {cards.map((pm) => (
+              <button key={pm.id} onClick={() => updatePlanning.mutate({ id: pm.id, planned_date: day, meal_time: time })} className="w-full text-left text-xs px-2 py-1.5 rounded hover:bg-muted transition-colors">
+                {pm.meals.name}
+              </button>
+            ))}
+            <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide my-1">Tous</p>
+            {categoryMeals.map((m) => (
+              <div key={m.id} className="flex items-center gap-1">
+                <button onClick={() => planMeal.mutate({ meal_id: m.id, planned_date: day, meal_time: time })} className="flex-1 text-left text-xs px-2 py-1.5 rounded hover:bg-muted transition-colors">
+                  {m.name} {m.calories ? `(${m.calories})` : ''}
+                </button>
+                <button onClick={() => setRecurringMeal(day, time, m.id)} className="text-muted-foreground/40 hover:text-primary transition-colors shrink-0 p-1" title={`Chaque ${DAY_LABELS[weekdayOf(day)].toLowerCase()}`}>
+                  <Repeat className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+            {categoryMeals.length === 0 && (
+              <p className="text-[10px] text-muted-foreground italic px-2 py-1">Aucun repas dans "Tous"</p>
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+    );
+  };
+
+  const weekTotal = weekDays.reduce((sum, day) => sum + getDayCalories(day), 0);
+  const weekProtein = weekDays.reduce((sum, day) => sum + getDayProtein(day), 0);
+  const weekCost = plannedCost(planningMeals.filter((pm) => !!pm.planned_date && weekDays.includes(pm.planned_date)), prices);
+  const weekMacros = Object.fromEntries(MACRO_COLUMNS.map(k => [k, weekDays.reduce((sum, day) => sum + getDayMacros(day)[k], 0)])) as Record<MacroColumn, number>;
 
   return (
     <div className={`max-w-4xl mx-auto space-y-3 overflow-x-hidden ${touchDragActive ? "touch-none" : ""}`}>
-      {DAYS.map((day) => {
-        const isToday_ = day === todayKey;
+      {/* Navigation semaine */}
+      <div className="rounded-2xl bg-card/80 backdrop-blur-sm px-2 py-1.5 flex items-center gap-2">
+        <button onClick={() => setMonday(addWeeks(monday, -1))} className="p-1.5 rounded-full hover:bg-muted transition-colors" title="Semaine précédente">
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <span className="flex-1 text-center text-sm font-bold text-foreground">
+          Semaine du {format(monday, "d MMMM yyyy", { locale: fr })}
+        </span>
+        {!isCurrentWeek && (
+          <button onClick={() => setMonday(weekStart(new Date()))} className="text-[10px] bg-primary/10 text-primary px-2 py-0.5 rounded-full font-semibold hover:bg-primary/20 transition-colors">
+            Cette semaine
+          </button>
+        )}
+        <button onClick={() => setMonday(addWeeks(monday, 1))} className="p-1.5 rounded-full hover:bg-muted transition-colors" title="Semaine suivante">
+          <ChevronRight className="h-4 w-4" />
+        </button>
+        <Popover>
+          <PopoverTrigger asChild>
+            <button className="p-1.5 rounded-full hover:bg-muted transition-colors text-muted-foreground" title="Créneaux">
+              <Settings2 className="h-4 w-4" />
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80 p-3" align="end">
+            <MealSlotsEditor />
+            <Separator className="my-3" />
+            <DayTypesEditor />
+            <Separator className="my-3" />
+            <HouseholdEditor />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {weekDays.map((day) => {
+        const isToday_ = day === today;
         const dayCalories = getDayCalories(day);
+        const dayMacros = getDayMacros(day);
+        const goals = getDayGoals(day);
+        const dayType = dayTypeOf(dayTypes, dayTypeAssignments, day);
         return (
           <div
             key={day}
@@ -676,79 +950,58 @@ export function WeeklyPlanning() {
               <h3
                 className={`text-sm sm:text-base font-bold flex items-center gap-2 ${isToday_ ? "text-primary" : "text-foreground"}`}
               >
-                {DAY_LABELS[day]}
+                {DAY_LABELS[weekdayOf(day)]}
+                <span className="text-xs font-medium text-muted-foreground">{format(parseISO(day), "d MMM", { locale: fr })}</span>
                 {isToday_ && (
                   <span className="text-[10px] bg-primary text-primary-foreground px-2 py-0.5 rounded-full font-semibold">
                     Aujourd'hui
                   </span>
                 )}
               </h3>
-              {/* Petit déj selector */}
-              <div className="flex items-center gap-1">
+              {dayTypes.length > 0 && (
                 <Popover>
                   <PopoverTrigger asChild>
-                    <button className="text-[10px] bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 px-2 py-0.5 rounded-full font-semibold hover:bg-orange-200 dark:hover:bg-orange-900/50 transition-colors truncate max-w-[120px]">
-                      {getBreakfastForDay(day)?.name || '🥐 Petit déj'}
+                    <button
+                      className={`text-[10px] rounded-full px-2 py-0.5 font-semibold transition-colors ${dayType ? 'bg-primary/15 text-primary hover:bg-primary/25' : 'text-muted-foreground/40 hover:text-muted-foreground hover:bg-muted/60'}`}
+                      title="Type de jour"
+                    >
+                      {dayType ? `${dayType.emoji ?? ''} ${dayType.label}`.trim() : '+ type'}
                     </button>
                   </PopoverTrigger>
-                  <PopoverContent className="w-52 p-2" align="start">
-                    <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide mb-1">Petit déjeuner</p>
-                    <div className="space-y-0.5 max-h-48 overflow-y-auto">
-                      <button onClick={() => setBreakfastForDay(day, null)} className="w-full text-left text-xs px-2 py-1.5 rounded hover:bg-muted transition-colors">
-                        — Aucun
+                  <PopoverContent className="w-52 p-1.5" align="start">
+                    {[null, ...dayTypes].map((t) => (
+                      <button
+                        key={t?.id ?? 'none'}
+                        onClick={() => writeDayValue('planning_day_types', dayTypeAssignments, 'daytype', day, t?.id)}
+                        className={`w-full text-left text-xs px-2 py-1 rounded-md hover:bg-muted transition-colors ${(dayType?.id ?? null) === (t?.id ?? null) ? 'font-bold text-primary' : ''}`}
+                      >
+                        {t ? `${t.emoji ?? ''} ${t.label}`.trim() : 'Jour normal'}
+                        {t?.calorie_target ? <span className="text-muted-foreground font-normal"> · {t.calorie_target} kcal</span> : null}
                       </button>
-                      {petitDejMeals.map(m => (
-                        <button key={m.id} onClick={() => setBreakfastForDay(day, m.id)} className={`w-full text-left text-xs px-2 py-1.5 rounded hover:bg-muted transition-colors ${breakfastSelections[day] === m.id ? 'bg-primary/10 font-bold' : ''}`}>
-                          {m.name} {m.calories ? `(${m.calories})` : ''}
-                        </button>
-                      ))}
-                      {petitDejMeals.length === 0 && (
-                        <p className="text-[10px] text-muted-foreground italic px-2 py-1">Aucun petit déj dans "Tous"</p>
-                      )}
-                    </div>
+                    ))}
+                    <label className="flex items-center gap-1.5 px-2 pt-1.5 mt-1 border-t text-[10px] text-muted-foreground cursor-pointer">
+                      <Checkbox
+                        checked={!!weeklyFlags[weeklyFlagKey('daytype', day)]}
+                        onCheckedChange={(checked) => toggleWeekly('planning_day_types', dayTypeAssignments, 'daytype', day, !!checked)}
+                        className="h-3 w-3"
+                      />
+                      Répéter chaque semaine
+                    </label>
                   </PopoverContent>
                 </Popover>
-                {/* Manual calorie input when no breakfast selected */}
-                {!getBreakfastForDay(day) && (
-                  <input
-                    type="number"
-                    inputMode="numeric"
-                    placeholder="kcal"
-                    key={`breakfast-cal-${day}`}
-                    defaultValue={breakfastManualCalories[day] || ''}
-                    onBlur={(e) => {
-                      const val = parseInt(e.target.value) || 0;
-                      const updated = { ...breakfastManualCalories };
-                      if (val > 0) updated[day] = val;
-                      else delete updated[day];
-                      setPreference.mutate({ key: 'planning_breakfast_manual_calories', value: updated });
-                    }}
-                    onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
-                    className="w-14 h-5 text-[10px] bg-transparent border border-dashed border-orange-300/30 rounded px-1 text-orange-500 placeholder:text-orange-300/20 focus:outline-none focus:border-orange-400/40"
-                  />
-                )}
-                <Checkbox
-                  checked={!!keepOnReset[`breakfast-${day}`]}
-                  onCheckedChange={(checked) => {
-                    const updated = { ...keepOnReset };
-                    if (checked) updated[`breakfast-${day}`] = true;
-                    else delete updated[`breakfast-${day}`];
-                    setPreference.mutate({ key: 'planning_keep_on_reset', value: updated });
-                  }}
-                  className="h-3 w-3 shrink-0"
-                  title="Conserver lors du reset"
-                />
-              </div>
+              )}
               <div className="flex-1" />
               <div className="flex items-center gap-1.5 shrink-0 ml-auto flex-wrap justify-end">
-                <button
-                  onClick={() => { setEditingGoal(true); setGoalInput(String(DAILY_GOAL)); }}
-                  className="flex items-center gap-1 text-[11px] font-bold text-muted-foreground bg-muted/60 rounded-full px-2 py-0.5 whitespace-nowrap hover:bg-muted/80 transition-colors cursor-pointer"
-                  title="Cliquer pour modifier l'objectif"
-                >
-                  <Flame className="h-2.5 w-2.5 text-orange-500" />
-                  {Math.round(dayCalories)} <span className="text-muted-foreground/50 font-normal">/ {DAILY_GOAL}</span>
-                </button>
+                {members.length === 0 && (
+                  <button
+                    onClick={() => { setEditingGoal(true); setGoalInput(String(DAILY_GOAL)); }}
+                    className="flex items-center gap-1 text-[11px] font-bold text-muted-foreground bg-muted/60 rounded-full px-2 py-0.5 whitespace-nowrap hover:bg-muted/80 transition-colors cursor-pointer"
+                    title="Cliquer pour modifier l'objectif"
+                  >
+                    <Flame className="h-2.5 w-2.5 text-orange-500" />
+                    {Math.round(dayCalories)} <span className="text-muted-foreground/50 font-normal">/ {goals.kcal}</span>
+                  </button>
+                )}
                 {editingGoal && (
                   <div className="flex items-center gap-1">
                     <input
@@ -768,18 +1021,18 @@ export function WeeklyPlanning() {
                     <span className="text-[9px] text-muted-foreground">kcal/j</span>
                   </div>
                 )}
-                {!editingGoal && dayCalories > 0 && (
-                  <span className={`text-[10px] font-bold whitespace-nowrap ${DAILY_GOAL - dayCalories > 0 ? 'text-muted-foreground/60' : 'text-orange-500'}`}>
-                    {DAILY_GOAL - dayCalories > 0 ? `reste ${Math.round(DAILY_GOAL - dayCalories)}` : `+${Math.round(dayCalories - DAILY_GOAL)}`}
+                {members.length === 0 && !editingGoal && dayCalories > 0 && (
+                  <span className={`text-[10px] font-bold whitespace-nowrap ${goals.kcal - dayCalories > 0 ? 'text-muted-foreground/60' : 'text-orange-500'}`}>
+                    {goals.kcal - dayCalories > 0 ? `reste ${Math.round(goals.kcal - dayCalories)}` : `+${Math.round(dayCalories - goals.kcal)}`}
                   </span>
                 )}
-                {getDayProtein(day) > 0 && (
+                {members.length === 0 && getDayProtein(day) > 0 && (
                   <button
                     onClick={() => { setEditingProteinGoal(true); setProteinGoalInput(String(DAILY_PROTEIN_GOAL_PREF)); }}
                     className="flex items-center gap-1 text-[10px] font-bold text-blue-400 bg-blue-500/10 rounded-full px-2 py-0.5 whitespace-nowrap hover:bg-blue-500/20 transition-colors cursor-pointer"
                     title="Cliquer pour modifier l'objectif protéines"
                   >
-                    🍗 {Math.round(getDayProtein(day))} <span className="text-blue-400/50 font-normal">/ {DAILY_PROTEIN_GOAL_PREF}</span>
+                    🍗 {Math.round(getDayProtein(day))} <span className="text-blue-400/50 font-normal">/ {goals.protein}</span>
                   </button>
                 )}
                 {editingProteinGoal && (
@@ -800,12 +1053,17 @@ export function WeeklyPlanning() {
                     <span className="text-[9px] text-muted-foreground">🍗/j</span>
                   </div>
                 )}
+                {MACRO_COLUMNS.some(k => dayMacros[k] > 0) && renderMacroChips(dayMacros, 1)}
               </div>
             </div>
-            <div className="grid grid-cols-[1fr_1fr_auto] gap-1 sm:gap-3">
-              {TIMES.map((time) => {
+            {members.length > 0 && renderMemberProgress(day, goals)}
+            <div className="grid gap-1 sm:gap-3" style={{ gridTemplateColumns: `repeat(${slots.length}, minmax(0, 1fr)) auto` }}>
+              {slots.map((slot) => {
+                const time = slot.key;
                 const slotKey = `${day}-${time}`;
                 const slotMeals = getMealsForSlot(day, time);
+                const recurringMeal = getRecurringMeal(day, time);
+                const slotCalories = getSlotCalories(day, time);
                 const isOver = dragOverSlot === slotKey || touchHighlight === slotKey;
                 return (
                   <div
@@ -822,58 +1080,67 @@ export function WeeklyPlanning() {
                     className={`min-h-[44px] sm:min-h-[52px] rounded-xl border border-dashed p-1 sm:p-1.5 transition-colors ${isOver ? "border-primary/60 bg-primary/5" : "border-border/40 hover:border-primary/40"}`}
                   >
                     <div className="flex items-center gap-1 mb-0.5">
-                      <span className="text-[8px] sm:text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">
-                        {TIME_LABELS[time]}
+                      <span className="text-[8px] sm:text-[10px] font-semibold text-muted-foreground uppercase tracking-wide truncate">
+                        {slot.emoji ? `${slot.emoji} ` : ''}{slot.label}
                       </span>
+                      {slot.calorie_target && (
+                        <span className={`text-[7px] sm:text-[8px] font-bold whitespace-nowrap ${slotCalories > slot.calorie_target ? 'text-orange-500' : 'text-muted-foreground/50'}`}>
+                          {Math.round(slotCalories)}/{slot.calorie_target}
+                        </span>
+                      )}
                       <button
                         onClick={() => {
-                          const key = `${day}-${time}`;
-                          const updated = { ...drinkChecks };
-                          if (updated[key]) delete updated[key];
-                          else updated[key] = true;
+                          const updated = setDayValue(drinkChecks, day, drinkChecks[slotKey] ? undefined : true, { suffix: `-${time}` });
                           setPreference.mutate({ key: 'planning_drink_checks', value: updated });
                         }}
                         className={`flex items-center gap-0.5 text-[7px] sm:text-[8px] rounded-full px-1 py-px transition-colors ${
-                          drinkChecks[`${day}-${time}`]
+                          drinkChecks[slotKey]
                             ? 'bg-amber-500/20 text-amber-600 dark:text-amber-400 font-bold'
                             : 'bg-muted/40 text-muted-foreground/40 hover:text-muted-foreground/60'
                         }`}
                         title="+ Boisson sucrée (+150 cal)"
                       >
-                        🥤 {drinkChecks[`${day}-${time}`] ? '+150' : ''}
+                        🥤 {drinkChecks[slotKey] ? '+150' : ''}
                       </button>
+                      {members.length > 1 && renderSlotEaters(day, time)}
                     </div>
                     <div className="mt-0.5 space-y-1">
-                      {slotMeals.length === 0 ? (
+                      {recurringMeal ? (
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={() => planMeal.mutate({ meal_id: recurringMeal.id, planned_date: day, meal_time: time })}
+                            className="flex items-center gap-1 min-w-0 text-[10px] text-muted-foreground border border-dashed border-muted-foreground/30 rounded px-1 py-0.5 hover:border-primary/40 hover:text-foreground transition-colors"
+                            title="Planifier ce repas"
+                          >
+                            <Repeat className="h-2.5 w-2.5 shrink-0" />
+                            <span className="truncate">{recurringMeal.name}</span>
+                          </button>
+                          <button onClick={() => setRecurringMeal(day, time, undefined)} className="text-muted-foreground/40 hover:text-destructive transition-colors shrink-0" title="Ne plus répéter">
+                            <X className="h-3 w-3" />
+                          </button>
+                        </div>
+                      ) : slotMeals.length === 0 ? (
                         <div className="flex items-center gap-1">
                           <input
                             type="number"
                             inputMode="numeric"
                             placeholder="kcal"
                             key={`manual-${day}-${time}`}
-                            defaultValue={manualCalories[`${day}-${time}`] || ''}
+                            defaultValue={getDayValue(manualCalories, day, `-${time}`) || ''}
                             onBlur={(e) => {
                               const val = parseInt(e.target.value) || 0;
-                              const key = `${day}-${time}`;
-                              const updated = { ...manualCalories };
-                              if (val > 0) updated[key] = val;
-                              else delete updated[key];
-                              setPreference.mutate({ key: 'planning_manual_calories', value: updated });
+                              writeDayValue('planning_manual_calories', manualCalories, 'manual', day, val > 0 ? val : undefined, `-${time}`);
                             }}
                             onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
                             className="w-16 h-5 text-[10px] bg-transparent border border-dashed border-muted-foreground/20 rounded px-1 text-muted-foreground placeholder:text-muted-foreground/30 focus:outline-none focus:border-primary/40"
                           />
                           <Checkbox
-                            checked={!!keepOnReset[`manual-${day}-${time}`]}
-                            onCheckedChange={(checked) => {
-                              const updated = { ...keepOnReset };
-                              if (checked) updated[`manual-${day}-${time}`] = true;
-                              else delete updated[`manual-${day}-${time}`];
-                              setPreference.mutate({ key: 'planning_keep_on_reset', value: updated });
-                            }}
+                            checked={!!weeklyFlags[weeklyFlagKey('manual', day, `-${time}`)]}
+                            onCheckedChange={(checked) => toggleWeekly('planning_manual_calories', manualCalories, 'manual', day, !!checked, `-${time}`)}
                             className="h-3 w-3 shrink-0"
-                            title="Conserver lors du reset"
+                            title="Répéter chaque semaine"
                           />
+                          {slot.default_category && renderSlotPicker(day, time, slot.default_category)}
                         </div>
                       ) : (
                         slotMeals.map((pm) => renderMiniCard(pm, false))
@@ -891,27 +1158,19 @@ export function WeeklyPlanning() {
                     inputMode="numeric"
                     placeholder="kcal"
                     key={`extra-${day}`}
-                    defaultValue={extraCalories[day] || ''}
+                    defaultValue={getDayValue(extraCalories, day) || ''}
                     onBlur={(e) => {
                       const val = parseInt(e.target.value) || 0;
-                      const updated = { ...extraCalories };
-                      if (val > 0) updated[day] = val;
-                      else delete updated[day];
-                      setPreference.mutate({ key: 'planning_extra_calories', value: updated });
+                      writeDayValue('planning_extra_calories', extraCalories, 'extra', day, val > 0 ? val : undefined);
                     }}
                     onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
                     className="w-full h-5 text-[11px] bg-transparent border border-dashed border-orange-300/20 rounded px-1 text-orange-400 placeholder:text-orange-300/20 focus:outline-none focus:border-orange-400/40 text-center"
                   />
                   <Checkbox
-                    checked={!!keepOnReset[`extra-${day}`]}
-                    onCheckedChange={(checked) => {
-                      const updated = { ...keepOnReset };
-                      if (checked) updated[`extra-${day}`] = true;
-                      else delete updated[`extra-${day}`];
-                      setPreference.mutate({ key: 'planning_keep_on_reset', value: updated });
-                    }}
+                    checked={!!weeklyFlags[weeklyFlagKey('extra', day)]}
+                    onCheckedChange={(checked) => toggleWeekly('planning_extra_calories', extraCalories, 'extra', day, !!checked)}
                     className="h-3 w-3 shrink-0"
-                    title="Conserver lors du reset"
+                    title="Répéter chaque semaine"
                   />
                 </div>
               </div>
@@ -931,7 +1190,45 @@ export function WeeklyPlanning() {
             <Flame className="h-4 w-4" />
             {Math.round(weekTotal)} <span className="text-muted-foreground/50 font-normal text-xs">/ {WEEKLY_GOAL}</span>
           </span>
+          {editingBudget ? (
+            <div className="flex items-center gap-1">
+              <input
+                autoFocus
+                type="number"
+                inputMode="decimal"
+                value={budgetInput}
+                onChange={(e) => setBudgetInput(e.target.value)}
+                onBlur={() => {
+                  const val = parseFloat(budgetInput.replace(",", "."));
+                  setPreference.mutate({ key: 'planning_weekly_budget', value: val > 0 ? val : 0 });
+                  setEditingBudget(false);
+                }}
+                onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); if (e.key === 'Escape') setEditingBudget(false); }}
+                className="w-16 h-6 text-xs bg-muted border border-border rounded px-1 text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+              />
+              <span className="text-[10px] text-muted-foreground">€/sem</span>
+            </div>
+          ) : (
+            <button
+              onClick={() => { setEditingBudget(true); setBudgetInput(WEEKLY_BUDGET ? String(WEEKLY_BUDGET) : ""); }}
+              className={`text-sm font-black whitespace-nowrap ${WEEKLY_BUDGET > 0 && weekCost > WEEKLY_BUDGET ? 'text-destructive' : 'text-emerald-600'}`}
+              title="Coût estimé des repas planifiés · cliquer pour modifier le budget"
+            >
+              {formatEuros(weekCost)}
+              {WEEKLY_BUDGET > 0 && <span className="text-muted-foreground/50 font-normal text-xs"> / {formatEuros(WEEKLY_BUDGET)}</span>}
+            </button>
+          )}
         </div>
+        {(weekProtein > 0 || MACRO_COLUMNS.some(k => weekMacros[k] > 0)) && (
+          <div className="w-full flex items-center justify-end gap-1 flex-wrap">
+            {weekProtein > 0 && (
+              <span className="text-[10px] font-bold text-blue-400 bg-blue-500/10 rounded-full px-2 py-0.5 whitespace-nowrap">
+                🍗 {Math.round(weekProtein)} <span className="text-blue-400/50 font-normal">/ {WEEKLY_PROTEIN_GOAL}</span>
+              </span>
+            )}
+            {renderMacroChips(weekMacros, DEFAULT_WEEKLY_MULTIPLIER)}
+          </div>
+        )}
       </div>
 
       {/* Hors planning — drop zone to unplan */}
@@ -0,0 +1,54 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { BACKUP_TABLES, buildBackup, planRestore, type Backup, type BackupRow, type BackupTable, type RestoreMode, type RestorePlan } from "@/lib/backup";
+
+const PAGE_SIZE = 1000;
+
+/** Every row of a table for the active household, past the API's page limit */
+async function fetchAll(table: BackupTable): Promise<BackupRow[]> {
+  const rows: BackupRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase.from(table).select("*").order("id").range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data as BackupRow[]));
+    if (data.length < PAGE_SIZE) return rows;
+  }
+}
+
+const fetchAllTables = async () => {
+  const tables: Partial<Record<BackupTable, BackupRow[]>> = {};
+  for (const table of BACKUP_TABLES) tables[table] = await fetchAll(table);
+  return tables;
+};
+
+/** JSON backup download, dry-run and restore of the active household */
+export function useBackup() {
+  const qc = useQueryClient();
+
+  const exportBackup = async () => {
+    const backup = buildBackup(await fetchAllTables());
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `mealscards-${format(new Date(), "yyyy-MM-dd")}.json`;
+    a.click();
+    return backup;
+  };
+
+  const previewRestore = async (backup: Backup, mode: RestoreMode) => planRestore(backup, await fetchAllTables(), mode);
+
+  /** One transaction on the server: a failed restore leaves the household as it was */
+  const applyRestore = async (plan: RestorePlan) => {
+    try {
+      // Rows were checked against the schema by planRestore
+      const { error } = await supabase.rpc("restore_backup", { p_mode: plan.mode, p_tables: plan.inserts as unknown as Json });
+      if (error) throw error;
+    } finally {
+      qc.invalidateQueries();
+    }
+  };
+
+  return { exportBackup, previewRestore, applyRestore };
+}
@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import type { DayType } from "@/lib/dayTypes";
+
+const onMutationError = (error: Error) => {
+  toast({ title: "Erreur", description: error.message, variant: "destructive" });
+};
+
+type DayTypeFields = Partial<Pick<DayType, "label" | "emoji" | "calorie_target" | "protein_target" | "days_per_week" | "required_meal_ids">>;
+
+export function useDayTypes(options?: { enabled?: boolean }) {
+  const enabled = options?.enabled ?? true;
+  const qc = useQueryClient();
+  const invalidate = () => qc.invalidateQueries({ queryKey: ["day_types"] });
+
+  const { data: dayTypes = [], isLoading } = useQuery({
+    queryKey: ["day_types"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("day_types").select("*").order("sort_order", { ascending: true });
+      if (error) throw error;
+      return data as DayType[];
+    },
+    enabled,
+  });
+
+  const addDayType = useMutation({
+    mutationFn: async (fields: DayTypeFields & { label: string }) => {
+      const maxOrder = dayTypes.reduce((max, t) => Math.max(max, t.sort_order), -1);
+      const { error } = await supabase.from("day_types").insert({ ...fields, sort_order: maxOrder + 1 });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  const updateDayType = useMutation({
+    mutationFn: async ({ id, ...fields }: DayTypeFields & { id: string }) => {
+      const { error } = await supabase.from("day_types").update(fields).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  // Dates assigned to a deleted type fall back to the usual goals
+  const deleteDayType = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("day_types").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  return { dayTypes, isLoading, addDayType, updateDayType, deleteDayType };
+}
@@ -0,0 +1,106 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { deviceLabel, getDeviceId, getLockMethods, setLockMethods } from "@/lib/deviceLock";
+import { credentialToJSON, toCreationOptions, toRequestOptions, type CreationOptionsJSON, type RequestOptionsJSON } from "@/lib/webauthn";
+
+const onMutationError = (error: Error) => {
+  toast({ title: "Erreur", description: error.message, variant: "destructive" });
+};
+
+export interface DevicePin {
+  device_id: string;
+  label: string | null;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+export interface DevicePasskey extends Omit<DevicePin, "device_id"> {
+  id: string;
+  device_id: string | null;
+}
+
+/** Calls a verify-pin action as the signed-in user; throws with the server's message */
+export async function invokeVerifyPin<T = unknown>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke("verify-pin", { body });
+  if (error) {
+    let message = error.message;
+    try {
+      const payload = await (error as { context?: Response }).context?.json();
+      if (payload?.error) message = payload.error;
+    } catch {/* keep the generic message */}
+    throw new Error(message);
+  }
+  if (!data?.success) throw new Error(data?.error ?? "Erreur");
+  return data as T;
+}
+
+export const unlockWithPin = (pin: string) => invokeVerifyPin({ action: "unlock", device_id: getDeviceId(), pin });
+
+export async function unlockWithPasskey() {
+  const { options } = await invokeVerifyPin<{ options: RequestOptionsJSON }>({ action: "passkey_unlock_options" });
+  const credential = await navigator.credentials.get({ publicKey: toRequestOptions(options) }) as PublicKeyCredential | null;
+  if (!credential) throw new Error("Clé d'accès annulée");
+  await invokeVerifyPin({ action: "passkey_unlock", response: credentialToJSON(credential) });
+}
+
+/** PINs and passkeys of the signed-in user's devices, and this device's unlock methods */
+export function useDeviceLock(options?: { enabled?: boolean }) {
+  const enabled = options?.enabled ?? true;
+  const qc = useQueryClient();
+  const deviceId = getDeviceId();
+  const invalidate = () => qc.invalidateQueries({ queryKey: ["device_lock"] });
+
+  const { data: devices = { pins: [], passkeys: [] }, isLoading } = useQuery({
+    queryKey: ["device_lock"],
+    queryFn: async () => {
+      const data = await invokeVerifyPin<{ pins: DevicePin[]; passkeys: DevicePasskey[] }>({ action: "devices" });
+      // Removed from another device: this one stops asking for it
+      setLockMethods({
+        pin: data.pins.some(p => p.device_id === deviceId),
+        passkey: data.passkeys.some(p => p.device_id === deviceId),
+      });
+      return data;
+    },
+    enabled,
+  });
+
+  const thisDevice = {
+    pin: devices.pins.some(p => p.device_id === deviceId),
+    passkey: devices.passkeys.some(p => p.device_id === deviceId),
+  };
+
+  const setPin = useMutation({
+    mutationFn: ({ pin, currentPin }: { pin: string; currentPin?: string }) =>
+      invokeVerifyPin({ action: "set_pin", device_id: deviceId, label: deviceLabel(), pin, current_pin: currentPin }),
+    onSuccess: () => { setLockMethods({ ...getLockMethods(), pin: true }); invalidate(); },
+    onError: onMutationError,
+  });
+
+  /** Removing a device's PIN takes that PIN, checked by the server */
+  const removePin = useMutation({
+    mutationFn: ({ id, currentPin }: { id: string; currentPin: string }) =>
+      invokeVerifyPin({ action: "remove_pin", device_id: id, current_pin: currentPin }),
+    onSuccess: (_data, { id }) => { if (id === deviceId) setLockMethods({ ...getLockMethods(), pin: false }); invalidate(); },
+    onError: onMutationError,
+  });
+
+  const addPasskey = useMutation({
+    mutationFn: async (userName: string) => {
+      const { options } = await invokeVerifyPin<{ options: CreationOptionsJSON }>({ action: "passkey_register_options", user_name: userName });
+      const credential = await navigator.credentials.create({ publicKey: toCreationOptions(options) }) as PublicKeyCredential | null;
+      if (!credential) throw new Error("Clé d'accès annulée");
+      await invokeVerifyPin({ action: "passkey_register", device_id: deviceId, label: deviceLabel(), response: credentialToJSON(credential) });
+    },
+    onSuccess: () => { setLockMethods({ ...getLockMethods(), passkey: true }); invalidate(); },
+    onError: onMutationError,
+  });
+
+  const removePasskey = useMutation({
+    mutationFn: (id: string) => invokeVerifyPin({ action: "remove_passkey", id }),
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  return { deviceId, devices, thisDevice, isLoading, setPin, removePin, addPasskey, removePasskey };
+}
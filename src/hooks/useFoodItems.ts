@@ -2,6 +2,7 @@ import { useEffect } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { useUndoable, rowsById } from "@/hooks/useUndoRedo";
 
 export type StorageType = "frigo" | "sec" | "surgele" | "toujours";
 export type FoodType = "feculent" | "viande" | null;
@@ -12,6 +13,11 @@ export interface FoodItem {
   grams: string | null;
   calories: string | null;
   protein: string | null;
+  carbs?: number | null;
+  fat?: number | null;
+  fibre?: number | null;
+  sugar?: number | null;
+  salt?: number | null;
   expiration_date: string | null;
   counter_start_date: string | null;
   sort_order: number;
@@ -32,6 +38,7 @@ const onMutationError = (error: Error) => {
 export function useFoodItems(options?: { enabled?: boolean }) {
   const enabled = options?.enabled ?? true;
   const qc = useQueryClient();
+  const withUndo = useUndoable();
 
   const invalidate = () => qc.invalidateQueries({ queryKey: ["food_items"] });
 
@@ -71,10 +78,10 @@ export function useFoodItems(options?: { enabled?: boolean }) {
   });
 
   const deleteItem = useMutation({
-    mutationFn: async (id: string) => {
+    mutationFn: (id: string) => withUndo("Suppression de l'aliment", [rowsById("food_items", id)], async () => {
       const { error } = await supabase.from("food_items").delete().eq("id", id);
       if (error) throw error;
-    },
+    }),
     onSuccess: invalidate,
     onError: onMutationError,
   });
@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import type { HouseholdMember } from "@/lib/household";
+
+const onMutationError = (error: Error) => {
+  toast({ title: "Erreur", description: error.message, variant: "destructive" });
+};
+
+type MemberFields = Partial<Pick<HouseholdMember, "name" | "color" | "calorie_goal" | "protein_goal" | "portion_ratio">>;
+
+export function useHousehold(options?: { enabled?: boolean }) {
+  const enabled = options?.enabled ?? true;
+  const qc = useQueryClient();
+  const invalidate = () => qc.invalidateQueries({ queryKey: ["household_members"] });
+
+  const { data: members = [], isLoading } = useQuery({
+    queryKey: ["household_members"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("household_members").select("*").order("sort_order", { ascending: true });
+      if (error) throw error;
+      return data as HouseholdMember[];
+    },
+    enabled,
+  });
+
+  const addMember = useMutation({
+    mutationFn: async (fields: MemberFields & { name: string }) => {
+      const maxOrder = members.reduce((max, m) => Math.max(max, m.sort_order), -1);
+      const { error } = await supabase.from("household_members").insert({ ...fields, sort_order: maxOrder + 1 });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  const updateMember = useMutation({
+    mutationFn: async ({ id, ...fields }: MemberFields & { id: string }) => {
+      const { error } = await supabase.from("household_members").update(fields).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  // Slot assignments naming a deleted member just stop matching it
+  const deleteMember = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("household_members").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  return { members, isLoading, addMember, updateMember, deleteMember };
+}
@@ -0,0 +1,151 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { normalizeInviteCode, type HouseholdPerson, type HouseholdRole, type HouseholdSummary } from "@/lib/householdAccounts";
+
+const onMutationError = (error: Error) => {
+  toast({ title: "Erreur", description: error.message, variant: "destructive" });
+};
+
+interface HouseholdAccount {
+  userId: string | null;
+  email: string | null;
+  displayName: string | null;
+  activeHouseholdId: string | null;
+  households: HouseholdSummary[];
+  /** People of the active household */
+  people: HouseholdPerson[];
+}
+
+const EMPTY_ACCOUNT: HouseholdAccount = { userId: null, email: null, displayName: null, activeHouseholdId: null, households: [], people: [] };
+
+export function useHouseholdAccount(options?: { enabled?: boolean }) {
+  const enabled = options?.enabled ?? true;
+  const qc = useQueryClient();
+  const invalidate = () => qc.invalidateQueries({ queryKey: ["household_account"] });
+  // Every query is scoped to the active household
+  const invalidateAll = () => qc.invalidateQueries();
+
+  const { data: account = EMPTY_ACCOUNT, isLoading } = useQuery({
+    queryKey: ["household_account"],
+    queryFn: async (): Promise<HouseholdAccount> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return EMPTY_ACCOUNT;
+      const [{ data: activeHouseholdId, error: activeError }, { data: memberships, error }] = await Promise.all([
+        supabase.rpc("current_household_id"),
+        supabase.from("household_memberships").select("household_id, user_id, role, households(name)"),
+      ]);
+      if (activeError) throw activeError;
+      if (error) throw error;
+      const userIds = [...new Set(memberships.map(m => m.user_id))];
+      const { data: profiles, error: profilesError } = await supabase.from("profiles").select("user_id, display_name").in("user_id", userIds);
+      if (profilesError) throw profilesError;
+      const nameOf = (id: string) => profiles.find(p => p.user_id === id)?.display_name ?? null;
+      return {
+        userId: user.id,
+        email: user.email ?? null,
+        displayName: nameOf(user.id),
+        activeHouseholdId,
+        households: memberships
+          .filter(m => m.user_id === user.id)
+          .map(m => ({ id: m.household_id, name: m.households?.name ?? "", role: m.role as HouseholdRole })),
+        people: memberships
+          .filter(m => m.household_id === activeHouseholdId)
+          .map(m => ({ user_id: m.user_id, display_name: nameOf(m.user_id), role: m.role as HouseholdRole })),
+      };
+    },
+    enabled,
+  });
+
+  const activeHousehold = account.households.find(h => h.id === account.activeHouseholdId) ?? null;
+
+  const renameHousehold = useMutation({
+    mutationFn: async (name: string) => {
+      const { error } = await supabase.from("households").update({ name }).eq("id", account.activeHouseholdId!);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  const updateDisplayName = useMutation({
+    mutationFn: async (display_name: string) => {
+      const { error } = await supabase.from("profiles").update({ display_name }).eq("user_id", account.userId!);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  const createInvite = useMutation({
+    mutationFn: async (role: HouseholdRole = "member") => {
+      const { data, error } = await supabase.rpc("create_household_invite", { p_role: role });
+      if (error) throw error;
+      return data;
+    },
+    onError: onMutationError,
+  });
+
+  const joinHousehold = useMutation({
+    mutationFn: async (code: string) => {
+      const { error } = await supabase.rpc("join_household", { p_code: normalizeInviteCode(code) });
+      if (error) throw error;
+    },
+    onSuccess: invalidateAll,
+    onError: onMutationError,
+  });
+
+  const createHousehold = useMutation({
+    mutationFn: async (name: string) => {
+      const { error } = await supabase.rpc("create_household", { p_name: name });
+      if (error) throw error;
+    },
+    onSuccess: invalidateAll,
+    onError: onMutationError,
+  });
+
+  const switchHousehold = useMutation({
+    mutationFn: async (householdId: string) => {
+      const { error } = await supabase.rpc("switch_household", { p_household_id: householdId });
+      if (error) throw error;
+    },
+    onSuccess: invalidateAll,
+    onError: onMutationError,
+  });
+
+  const leaveHousehold = useMutation({
+    mutationFn: async (householdId: string) => {
+      const { error } = await supabase.rpc("leave_household", { p_household_id: householdId });
+      if (error) throw error;
+    },
+    onSuccess: invalidateAll,
+    onError: onMutationError,
+  });
+
+  // Owners only (RLS); nobody changes their own role
+  const setPersonRole = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: HouseholdRole }) => {
+      const { error } = await supabase.from("household_memberships").update({ role })
+        .eq("household_id", account.activeHouseholdId!).eq("user_id", userId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  const removePerson = useMutation({
+    mutationFn: async (userId: string) => {
+      const { error } = await supabase.from("household_memberships").delete()
+        .eq("household_id", account.activeHouseholdId!).eq("user_id", userId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  return {
+    ...account, activeHousehold, isLoading,
+    renameHousehold, updateDisplayName, createInvite, joinHousehold, createHousehold, switchHousehold, leaveHousehold,
+    setPersonRole, removePerson,
+  };
+}
@@ -0,0 +1,136 @@
+import { useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import {
+  type KitchenTimer, type TimerKind, type TimerPatch,
+  pausePatch, startPatch, timerEndsAt, RESET_PATCH,
+} from "@/lib/kitchenTimers";
+
+const onMutationError = (error: Error) => {
+  toast({ title: "Erreur", description: error.message, variant: "destructive" });
+};
+
+export interface NewTimer {
+  name: string;
+  kind: TimerKind;
+  duration_seconds?: number | null;
+  meal_id?: string | null;
+  step_index?: number | null;
+  /** Start it right away */
+  start?: boolean;
+}
+
+/** Ask once for the right to show system notifications (needs a user gesture on most browsers) */
+export function requestTimerNotifications() {
+  if ("Notification" in window && Notification.permission === "default") Notification.requestPermission().catch(() => {});
+}
+
+export function useKitchenTimers(options?: { enabled?: boolean }) {
+  const enabled = options?.enabled ?? true;
+  const qc = useQueryClient();
+  const invalidate = () => qc.invalidateQueries({ queryKey: ["kitchen_timers"] });
+
+  // Kept fresh by the realtime channel (Index), no polling
+  const { data: timers = [], isLoading } = useQuery({
+    queryKey: ["kitchen_timers"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("kitchen_timers").select("*").order("created_at", { ascending: true });
+      if (error) throw error;
+      return data as KitchenTimer[];
+    },
+    enabled,
+  });
+
+  const addTimer = useMutation({
+    mutationFn: async ({ start, ...fields }: NewTimer) => {
+      if (fields.kind === "countdown") requestTimerNotifications();
+      const { data, error } = await supabase.from("kitchen_timers")
+        .insert({ ...fields, ...(start ? { running: true, started_at: new Date().toISOString() } : {}) })
+        .select().single();
+      if (error) throw error;
+      return data as KitchenTimer;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  const patchTimer = useMutation({
+    mutationFn: async ({ id, patch }: { id: string; patch: TimerPatch }) => {
+      const { error } = await supabase.from("kitchen_timers").update(patch).eq("id", id);
+      if (error) throw error;
+    },
+    // Shown at once: the time is computed locally from started_at
+    onMutate: ({ id, patch }) => {
+      qc.setQueryData<KitchenTimer[]>(["kitchen_timers"], (prev) => prev?.map(t => t.id === id ? { ...t, ...patch } : t));
+    },
+    onSettled: invalidate,
+    onError: onMutationError,
+  });
+
+  const deleteTimer = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("kitchen_timers").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  const startTimer = (t: KitchenTimer) => patchTimer.mutate({ id: t.id, patch: startPatch(t) });
+  const pauseTimer = (t: KitchenTimer) => patchTimer.mutate({ id: t.id, patch: pausePatch(t) });
+  const resetTimer = (t: KitchenTimer) => patchTimer.mutate({ id: t.id, patch: RESET_PATCH });
+
+  return { timers, isLoading, addTimer, startTimer, pauseTimer, resetTimer, deleteTimer };
+}
+
+// Alarms that ended longer ago than this when the app opens stay silent
+const MISSED_ALARM_MS = 60_000;
+
+function beep() {
+  try {
+    const ctx = new AudioContext();
+    [0, 0.4, 0.8].forEach((at) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.frequency.value = 880;
+      gain.gain.setValueAtTime(0.3, ctx.currentTime + at);
+      gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + at + 0.3);
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(ctx.currentTime + at);
+      osc.stop(ctx.currentTime + at + 0.3);
+    });
+    setTimeout(() => ctx.close(), 1500);
+  } catch {/* no audio */}
+}
+
+function ring(t: KitchenTimer) {
+  beep();
+  navigator.vibrate?.([300, 150, 300, 150, 300]);
+  toast({ title: `⏰ ${t.name}`, description: "Minuteur terminé" });
+  if ("Notification" in window && Notification.permission === "granted") {
+    // Throws on mobile browsers that only allow notifications from a service worker
+    try { new Notification("Minuteur terminé", { body: t.name, tag: t.id }); } catch {/* toast only */}
+  }
+}
+
+/** Rings (sound, vibration, notification) when a running countdown reaches zero, while the app is open */
+export function useTimerAlerts(options?: { enabled?: boolean }) {
+  const { timers } = useKitchenTimers(options);
+  const rung = useRef(new Set<string>());
+
+  useEffect(() => {
+    const handles = timers.flatMap((t) => {
+      const endsAt = timerEndsAt(t);
+      if (endsAt == null) return [];
+      const key = `${t.id}:${endsAt}`;
+      if (rung.current.has(key) || Date.now() - endsAt > MISSED_ALARM_MS) return [];
+      return [setTimeout(() => {
+        if (rung.current.has(key)) return;
+        rung.current.add(key);
+        ring(t);
+      }, Math.max(0, endsAt - Date.now()))];
+    });
+    return () => handles.forEach(clearTimeout);
+  }, [timers]);
+}
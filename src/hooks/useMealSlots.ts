@@ -0,0 +1,75 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { slotKeyFromLabel, type MealSlot } from "@/lib/mealSlots";
+
+const onMutationError = (error: Error) => {
+  toast({ title: "Erreur", description: error.message, variant: "destructive" });
+};
+
+type SlotFields = Partial<Pick<MealSlot, "label" | "emoji" | "default_category" | "calorie_target">>;
+
+export function useMealSlots(options?: { enabled?: boolean }) {
+  const enabled = options?.enabled ?? true;
+  const qc = useQueryClient();
+  const invalidate = () => qc.invalidateQueries({ queryKey: ["meal_slots"] });
+
+  const { data: slots = [], isLoading } = useQuery({
+    queryKey: ["meal_slots"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("meal_slots").select("*").order("sort_order", { ascending: true });
+      if (error) throw error;
+      return data as MealSlot[];
+    },
+    enabled,
+  });
+
+  const addSlot = useMutation({
+    mutationFn: async ({ label, ...fields }: SlotFields & { label: string }) => {
+      const maxOrder = slots.reduce((max, s) => Math.max(max, s.sort_order), -1);
+      const key = slotKeyFromLabel(label, slots.map(s => s.key));
+      const { error } = await supabase.from("meal_slots").insert({ ...fields, key, label, sort_order: maxOrder + 1 });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  // The key never changes: planned cards keep pointing at the slot
+  const updateSlot = useMutation({
+    mutationFn: async ({ id, ...fields }: SlotFields & { id: string }) => {
+      const { error } = await supabase.from("meal_slots").update(fields).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  // Cards planned on a deleted slot fall back to "Hors planning" (and come back if the key is recreated)
+  const deleteSlot = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("meal_slots").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  const moveSlot = useMutation({
+    mutationFn: async ({ id, direction }: { id: string; direction: -1 | 1 }) => {
+      const ordered = [...slots];
+      const from = ordered.findIndex(s => s.id === id);
+      const to = from + direction;
+      if (from === -1 || to < 0 || to >= ordered.length) return;
+      [ordered[from], ordered[to]] = [ordered[to], ordered[from]];
+      await Promise.all(ordered.map((s, i) =>
+        supabase.from("meal_slots").update({ sort_order: i }).eq("id", s.id)
+      ));
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  return { slots, isLoading, addSlot, updateSlot, deleteSlot, moveSlot };
+}
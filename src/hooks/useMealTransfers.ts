@@ -3,24 +3,87 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
 import type { Meal } from "@/hooks/useMeals";
 import type { FoodItem } from "@/components/FoodItems";
+import type { Json } from "@/integrations/supabase/types";
+import { colorFromName } from "@/lib/foodColors";
 import {
-  normalizeForMatch, strictNameMatch,
-  parseQty, formatNumeric, encodeStoredGrams,
-  getFoodItemTotalGrams, parseIngredientGroups,
+  strictNameMatch, parseQty, formatNumeric, encodeStoredGrams,
+  getFoodItemTotalGrams, ingredientGrams,
 } from "@/lib/ingredientUtils";
+import { ingredientStringToRows } from "@/lib/ingredientRows";
+import { withStockReason } from "@/lib/stockMovements";
+import { useUndoable, rowsById } from "@/hooks/useUndoRedo";
+import type { UndoGroup } from "@/lib/undoStack";
 import {
-  buildStockMap, findStockKey, pickBestAlternative,
-  sortStockDeductionPriority,
+  buildStockMap, pickBestAlternative, sortStockDeductionPriority, getMealIngredientGroups,
+  buildAdjustmentNeeds, type StockNeed,
 } from "@/lib/stockUtils";
 
+export interface DeductionReportItem {
+  food_item_id: string;
+  name: string;
+  /** Grams or units taken from this item (negative when given back) */
+  deducted: number;
+  deleted: boolean;
+  before_quantity: number | null;
+  before_grams: string | null;
+  after_quantity: number | null;
+  after_grams: string | null;
+}
+
+export interface DeductionReportEntry {
+  name: string;
+  grams: number;
+  count: number;
+  /** Amount that could not be taken from stock */
+  missing: number;
+  items: DeductionReportItem[];
+}
+
+export interface DeductionResult {
+  deductionId: string;
+  possibleMealId: string;
+  report: DeductionReportEntry[];
+  /** food_items rows as they were before the deduction */
+  snapshot: FoodItem[];
+}
+
+/** One-line summary of a deduction report ("Poulet −200g · Oeufs −2 · manque Riz 50g") */
+export function formatDeductionReport(report: DeductionReportEntry[]): string {
+  const amount = (e: DeductionReportEntry, v: number) => e.count !== 0 ? formatNumeric(v) : `${formatNumeric(v)}g`;
+  const parts = report.filter(e => e.items.length > 0).map(e => {
+    const taken = e.items.reduce((sum, it) => sum + it.deducted, 0);
+    return taken >= 0 ? `${e.name} −${amount(e, taken)}` : `${e.name} +${amount(e, -taken)}`;
+  });
+  const missing = report.filter(e => e.missing > 0).map(e => `manque ${e.name} ${amount(e, e.missing)}`);
+  return [...parts, ...missing].join(" · ");
+}
+
+export interface MoveToPossibleArgs {
+  mealId?: string;
+  needs: StockNeed[];
+  expirationDate?: string | null;
+  counterStartDate?: string | null;
+  quantity?: number;
+  /** Servings cooked, with their scaled ingredients stored on the possible meal */
+  servings?: number | null;
+  overrideIngredients?: string | null;
+  newMeal?: { name: string; category: string; colorSeed: string; calories?: string | null; grams?: string | null; ingredients?: string | null };
+}
+
 /**
  * Centralised stock-transfer logic extracted from Index.tsx.
  * Every Supabase call is wrapped in try/catch with a destructive toast on failure.
  */
 export function useMealTransfers(foodItems: FoodItem[]) {
   const qc = useQueryClient();
+  const withUndo = useUndoable();
 
   const invalidateStock = () => qc.invalidateQueries({ queryKey: ["food_items"] });
+  const invalidateAll = () => {
+    invalidateStock();
+    qc.invalidateQueries({ queryKey: ["meals"] });
+    qc.invalidateQueries({ queryKey: ["possible_meals"] });
+  };
 
   /** Safely run a supabase mutation, catching network errors */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -33,307 +96,139 @@ export function useMealTransfers(foodItems: FoodItem[]) {
     }
   };
 
-  /** Deduct ingredients from stock when moving to Possible */
-  const deductIngredientsFromStock = async (meal: Meal): Promise<FoodItem[]> => {
-    if (!meal.ingredients?.trim()) return [];
-    const groups = parseIngredientGroups(meal.ingredients);
-    const stockMap = buildStockMap(foodItems);
-    const snapshotsById = new Map<string, FoodItem>();
-    const updatesById = new Map<string, { id: string; grams?: string | null; quantity?: number | null; delete?: boolean; counter_start_date?: string | null }>();
-    const rememberSnapshot = (fi: FoodItem) => { if (!snapshotsById.has(fi.id)) snapshotsById.set(fi.id, { ...fi }); };
-
-    for (const group of groups) {
-      const alt = pickBestAlternative(group, stockMap);
-      if (!alt) continue;
-      const { qty: neededGrams, count: neededCount, name } = alt;
-      const key = findStockKey(stockMap, name);
-      if (!key) continue;
-      const stockInfo = stockMap.get(key);
-      if (!stockInfo || stockInfo.infinite) continue;
-
-      const matchingItems = foodItems
-        .filter((fi) => strictNameMatch(fi.name, key) && !fi.is_infinite)
-        .sort(sortStockDeductionPriority);
-
-      if (neededCount > 0) {
-        let toDeduct = neededCount;
-        for (const fi of matchingItems) {
-          if (toDeduct <= 0) break;
-          const fiCount = fi.quantity ?? 1;
-          const deduct = Math.min(fiCount, toDeduct);
-          const remaining = fiCount - deduct;
-          toDeduct -= deduct;
-          rememberSnapshot(fi);
-          if (remaining <= 0) updatesById.set(fi.id, { id: fi.id, delete: true });
-          else updatesById.set(fi.id, { id: fi.id, quantity: Math.ceil(remaining) });
-        }
-      } else if (neededGrams > 0) {
-        let toDeduct = neededGrams;
-        for (const fi of matchingItems) {
-          if (toDeduct <= 0) break;
-          const perUnit = parseQty(fi.grams);
-          if (perUnit <= 0) continue;
-          const totalAvailable = getFoodItemTotalGrams(fi);
-          const deduct = Math.min(totalAvailable, toDeduct);
-          const remaining = totalAvailable - deduct;
-          toDeduct -= deduct;
-          rememberSnapshot(fi);
-          if (remaining <= 0) { updatesById.set(fi.id, { id: fi.id, delete: true }); continue; }
-          if (fi.quantity && fi.quantity >= 1) {
-            const fullUnits = Math.floor(remaining / perUnit);
-            const remainder = Math.round((remaining - fullUnits * perUnit) * 10) / 10;
-            if (remainder > 0) {
-              const shouldStartCounter = !fi.counter_start_date && fi.storage_type !== 'surgele';
-              updatesById.set(fi.id, { id: fi.id, quantity: Math.max(1, fullUnits + 1), grams: encodeStoredGrams(perUnit, remainder), ...(shouldStartCounter ? { counter_start_date: new Date().toISOString() } : {}) });
-            } else if (fullUnits > 0) {
-              updatesById.set(fi.id, { id: fi.id, quantity: fullUnits, grams: formatNumeric(perUnit), ...(fi.counter_start_date ? { counter_start_date: null } : {}) });
-            } else { updatesById.set(fi.id, { id: fi.id, delete: true }); }
-          } else {
-            const shouldStartCounter = !fi.counter_start_date && fi.storage_type !== 'surgele';
-            updatesById.set(fi.id, { id: fi.id, grams: formatNumeric(remaining), ...(shouldStartCounter ? { counter_start_date: new Date().toISOString() } : {}) });
-          }
-        }
-      }
-    }
-
-    await safeMutate("Déduction du stock", () =>
-      Promise.all(Array.from(updatesById.values()).map((u) =>
-        u.delete
-          ? supabase.from("food_items").delete().eq("id", u.id)
-          : supabase.from("food_items").update({
-              ...(u.grams !== undefined ? { grams: u.grams } : {}),
-              ...(u.quantity !== undefined ? { quantity: u.quantity } : {}),
-              ...(u.counter_start_date !== undefined ? { counter_start_date: u.counter_start_date } : {}),
-            } as any).eq("id", u.id)
-      ))
-    );
-    invalidateStock();
-    return Array.from(snapshotsById.values());
+  /**
+   * Move a meal to Possible in one server transaction: stock deduction, possible_meals insert and undo snapshot.
+   * Pass newMeal instead of mealId to plan a hidden copy (partial portion, single food item).
+   */
+  const moveMealToPossible = async ({ mealId, needs, expirationDate, counterStartDate, quantity, servings, overrideIngredients, newMeal }: MoveToPossibleArgs): Promise<DeductionResult | null> => {
+    const result = await safeMutate("Déduction du stock", async () => {
+      const { data, error } = await supabase.rpc("move_meal_to_possible", {
+        p_meal_id: mealId ?? null,
+        p_needs: needs as unknown as Json,
+        p_expiration_date: expirationDate ?? null,
+        p_counter_start_date: counterStartDate ?? null,
+        p_quantity: Math.max(1, Math.round(quantity ?? 1)),
+        p_new_meal: newMeal ? {
+          name: newMeal.name, category: newMeal.category, color: colorFromName(newMeal.colorSeed),
+          calories: newMeal.calories ?? null, grams: newMeal.grams ?? null,
+          rows: ingredientStringToRows(newMeal.ingredients) as unknown as Json,
+        } : null,
+        p_servings: servings ?? null,
+        p_override_rows: overrideIngredients ? ingredientStringToRows(overrideIngredients) as unknown as Json : null,
+      });
+      if (error) throw error;
+      return data;
+    });
+    invalidateAll();
+    if (!result) return null;
+    const data = result as { deduction_id: string; possible_meal_id: string; report: DeductionReportEntry[]; snapshot: FoodItem[] };
+    return { deductionId: data.deduction_id, possibleMealId: data.possible_meal_id, report: data.report ?? [], snapshot: data.snapshot ?? [] };
   };
 
-  /** Restore ingredients to stock (from snapshots or by re-adding) */
-  const restoreIngredientsToStock = async (meal: Meal, snapshots?: FoodItem[]) => {
-    if (snapshots && snapshots.length > 0) {
-      await safeMutate("Restauration du stock", () =>
-        Promise.all(snapshots.map((fi) =>
-          (supabase as any).from("food_items").upsert({
-            id: fi.id, name: fi.name, grams: fi.grams, calories: fi.calories,
-            protein: fi.protein, is_indivisible: fi.is_indivisible,
-            expiration_date: fi.expiration_date, counter_start_date: fi.counter_start_date,
-            sort_order: fi.sort_order, created_at: fi.created_at, is_meal: fi.is_meal,
-            is_infinite: fi.is_infinite, is_dry: fi.is_dry, storage_type: fi.storage_type,
-            quantity: fi.quantity, food_type: fi.food_type,
-          })
-        ))
-      );
-      invalidateStock();
-      return;
-    }
+  /** Undo a move: restore the stock snapshot and remove the planned card */
+  const undoDeduction = async (deductionId: string): Promise<boolean> => {
+    const ok = await safeMutate("Annulation de la déduction", async () => {
+      const { error } = await supabase.rpc("undo_stock_deduction", { p_deduction_id: deductionId });
+      if (error) throw error;
+      return true;
+    });
+    invalidateAll();
+    return !!ok;
+  };
 
-    if (!meal.ingredients?.trim()) return;
-    const groups = parseIngredientGroups(meal.ingredients);
-    for (const group of groups) {
-      const liveStockMap = buildStockMap(foodItems);
-      const alt = pickBestAlternative(group, liveStockMap) || group[0];
-      if (!alt) continue;
-      const { qty: neededGrams, count: neededCount, name } = alt;
-      const matchingItems = foodItems.filter((fi) => strictNameMatch(fi.name, name) && !fi.is_infinite).sort(sortStockDeductionPriority);
-      if (matchingItems.length === 0) continue;
-      const fi = matchingItems[0];
-      if (neededCount > 0) {
-        const newQty = (fi.quantity ?? 1) + neededCount;
-        await safeMutate("Restauration stock (count)", () =>
-          supabase.from("food_items").update({ quantity: Math.ceil(newQty) } as any).eq("id", fi.id)
-        );
-      } else if (neededGrams > 0) {
-        const fiGrams = parseQty(fi.grams);
-        if (fi.quantity && fi.quantity >= 1 && fiGrams > 0) {
-          const currentTotal = getFoodItemTotalGrams(fi);
-          const newTotal = currentTotal + neededGrams;
-          const fullUnits = Math.floor(newTotal / fiGrams);
-          const remainder = Math.round((newTotal - fullUnits * fiGrams) * 10) / 10;
-          await safeMutate("Restauration stock (grams)", () =>
-            supabase.from("food_items").update({ quantity: remainder > 0 ? fullUnits + 1 : fullUnits, grams: encodeStoredGrams(fiGrams, remainder > 0 ? remainder : null) } as any).eq("id", fi.id)
-          );
-        } else {
-          const currentTotal = fiGrams;
-          await safeMutate("Restauration stock (simple)", () =>
-            supabase.from("food_items").update({ grams: formatNumeric(currentTotal + neededGrams) } as any).eq("id", fi.id)
-          );
-        }
-      }
-    }
-    const mealGrams = parseQty(meal.grams);
-    if (mealGrams > 0) {
-      const nameMatch = foodItems.find(fi => strictNameMatch(fi.name, meal.name) && !fi.is_infinite);
-      if (nameMatch) {
-        const unit = parseQty(nameMatch.grams);
-        if (nameMatch.quantity && nameMatch.quantity >= 1 && unit > 0) {
-          const currentTotal = getFoodItemTotalGrams(nameMatch);
-          const newTotal = currentTotal + mealGrams;
-          const fullUnits = Math.floor(newTotal / unit);
-          const remainder = Math.round((newTotal - fullUnits * unit) * 10) / 10;
-          await safeMutate("Restauration nom", () =>
-            supabase.from("food_items").update({ quantity: remainder > 0 ? fullUnits + 1 : fullUnits, grams: encodeStoredGrams(unit, remainder > 0 ? remainder : null) } as any).eq("id", nameMatch.id)
-          );
-        } else {
-          await safeMutate("Restauration nom (simple)", () =>
-            supabase.from("food_items").update({ grams: formatNumeric(unit + mealGrams) } as any).eq("id", nameMatch.id)
-          );
-        }
-      }
-    }
-    invalidateStock();
+  /** Stock rows a restore may touch: matches of every ingredient alternative and of the meal name */
+  const touchedStockIds = (meal: Meal) => {
+    const names = [...getMealIngredientGroups(meal).flat().map(alt => alt.name), meal.name];
+    return foodItems.filter(fi => !fi.is_infinite && names.some(n => strictNameMatch(fi.name, n))).map(fi => fi.id);
   };
 
-  /** Adjust stock when possible meal ingredients are edited (delta-based) */
-  const adjustStockForIngredientChange = async (oldIngredients: string | null, newIngredients: string | null) => {
-    const oldGroups = oldIngredients ? parseIngredientGroups(oldIngredients) : [];
-    const newGroups = newIngredients ? parseIngredientGroups(newIngredients) : [];
-    const buildUsageMap = (groups: Array<Array<{qty: number; count: number; name: string}>>) => {
-      const map = new Map<string, {grams: number; count: number}>();
-      for (const group of groups) {
-        if (group.length > 0) {
-          const alt = group[0];
-          const prev = map.get(alt.name) ?? { grams: 0, count: 0 };
-          map.set(alt.name, { grams: prev.grams + alt.qty, count: prev.count + alt.count });
-        }
+  /** Restore ingredients to stock (from snapshots or by re-adding); possibleMealId tags the ledger, undoGroup merges the undo step */
+  const restoreIngredientsToStock = (meal: Meal, snapshots?: FoodItem[], possibleMealId?: string, undoGroup?: UndoGroup) => {
+    const stockIds = snapshots?.length ? snapshots.map(fi => fi.id) : touchedStockIds(meal);
+    return safeMutate("Restauration du stock", () => withUndo("Restauration du stock", [rowsById("food_items", ...stockIds)], async () => {
+      const origin = { mealId: meal.id, possibleMealId };
+      // Failed writes throw so the undo entry is not recorded for a half-done restore
+      const write = async (query: PromiseLike<{ error: unknown }>) => {
+        const { error } = await query;
+        if (error) throw error;
+      };
+      if (snapshots && snapshots.length > 0) {
+        // Snapshots are whole food_items rows (nutrition included): written back as they were
+        await write(withStockReason(supabase.from("food_items").upsert(snapshots), "restore", origin));
+        invalidateStock();
+        return;
       }
-      return map;
-    };
-    const oldUsage = buildUsageMap(oldGroups);
-    const newUsage = buildUsageMap(newGroups);
-    const allKeys = new Set([...oldUsage.keys(), ...newUsage.keys()]);
-
-    for (const ingName of allKeys) {
-      const oldU = oldUsage.get(ingName) ?? { grams: 0, count: 0 };
-      const newU = newUsage.get(ingName) ?? { grams: 0, count: 0 };
-      const deltaGrams = newU.grams - oldU.grams;
-      const deltaCount = newU.count - oldU.count;
-      if (deltaGrams === 0 && deltaCount === 0) continue;
 
-      const matchingItems = foodItems.filter(fi => strictNameMatch(fi.name, ingName) && !fi.is_infinite).sort(sortStockDeductionPriority);
-      if (matchingItems.length === 0) continue;
-
-      if (deltaGrams > 0) {
-        let toDeduct = deltaGrams;
-        for (const fi of matchingItems) {
-          if (toDeduct <= 0) break;
-          const totalAvail = getFoodItemTotalGrams(fi);
-          if (totalAvail <= 0) continue;
-          const deduct = Math.min(totalAvail, toDeduct);
-          const remaining = totalAvail - deduct;
-          toDeduct -= deduct;
-          if (remaining <= 0) {
-            await safeMutate("Ajustement stock", () => supabase.from("food_items").delete().eq("id", fi.id));
+      const groups = getMealIngredientGroups(meal);
+      if (groups.length === 0) return;
+      for (const group of groups) {
+        const liveStockMap = buildStockMap(foodItems);
+        const alt = pickBestAlternative(group, liveStockMap) || group[0];
+        if (!alt) continue;
+        const { count: neededCount, name } = alt;
+        const neededGrams = ingredientGrams(alt);
+        const matchingItems = foodItems.filter((fi) => strictNameMatch(fi.name, name) && !fi.is_infinite).sort(sortStockDeductionPriority);
+        if (matchingItems.length === 0) continue;
+        const fi = matchingItems[0];
+        if (neededCount > 0) {
+          const newQty = (fi.quantity ?? 1) + neededCount;
+          await write(withStockReason(supabase.from("food_items").update({ quantity: Math.ceil(newQty) } as any).eq("id", fi.id), "restore", origin));
+        } else if (neededGrams > 0) {
+          const fiGrams = parseQty(fi.grams);
+          if (fi.quantity && fi.quantity >= 1 && fiGrams > 0) {
+            const currentTotal = getFoodItemTotalGrams(fi);
+            const newTotal = currentTotal + neededGrams;
+            const fullUnits = Math.floor(newTotal / fiGrams);
+            const remainder = Math.round((newTotal - fullUnits * fiGrams) * 10) / 10;
+            await write(withStockReason(supabase.from("food_items").update({ quantity: remainder > 0 ? fullUnits + 1 : fullUnits, grams: encodeStoredGrams(fiGrams, remainder > 0 ? remainder : null) } as any).eq("id", fi.id), "restore", origin));
           } else {
-            const perUnit = parseQty(fi.grams);
-            if (fi.quantity && fi.quantity >= 1 && perUnit > 0) {
-              const fullUnits = Math.floor(remaining / perUnit);
-              const rem = Math.round((remaining - fullUnits * perUnit) * 10) / 10;
-              await safeMutate("Ajustement stock", () =>
-                supabase.from("food_items").update({ quantity: rem > 0 ? Math.max(1, fullUnits + 1) : fullUnits, grams: encodeStoredGrams(perUnit, rem > 0 ? rem : null) } as any).eq("id", fi.id)
-              );
-            } else {
-              await safeMutate("Ajustement stock", () =>
-                supabase.from("food_items").update({ grams: formatNumeric(remaining) } as any).eq("id", fi.id)
-              );
-            }
+            const currentTotal = fiGrams;
+            await write(withStockReason(supabase.from("food_items").update({ grams: formatNumeric(currentTotal + neededGrams) } as any).eq("id", fi.id), "restore", origin));
           }
         }
-      } else if (deltaGrams < 0) {
-        const toAdd = -deltaGrams;
-        const fi = matchingItems[0];
-        const perUnit = parseQty(fi.grams);
-        if (fi.quantity && fi.quantity >= 1 && perUnit > 0) {
-          const currentTotal = getFoodItemTotalGrams(fi);
-          const newTotal = currentTotal + toAdd;
-          const fullUnits = Math.floor(newTotal / perUnit);
-          const rem = Math.round((newTotal - fullUnits * perUnit) * 10) / 10;
-          await safeMutate("Ajustement stock", () =>
-            supabase.from("food_items").update({ quantity: rem > 0 ? fullUnits + 1 : fullUnits, grams: encodeStoredGrams(perUnit, rem > 0 ? rem : null) } as any).eq("id", fi.id)
-          );
-        } else {
-          const current = parseQty(fi.grams);
-          await safeMutate("Ajustement stock", () =>
-            supabase.from("food_items").update({ grams: formatNumeric(current + toAdd) } as any).eq("id", fi.id)
-          );
-        }
       }
-
-      if (deltaCount > 0) {
-        let toDeduct = deltaCount;
-        for (const fi of matchingItems) {
-          if (toDeduct <= 0) break;
-          const fiCount = fi.quantity ?? 1;
-          const deduct = Math.min(fiCount, toDeduct);
-          toDeduct -= deduct;
-          const remaining = fiCount - deduct;
-          if (remaining <= 0) {
-            await safeMutate("Ajustement stock (count)", () => supabase.from("food_items").delete().eq("id", fi.id));
+      const mealGrams = parseQty(meal.grams);
+      if (mealGrams > 0) {
+        const nameMatch = foodItems.find(fi => strictNameMatch(fi.name, meal.name) && !fi.is_infinite);
+        if (nameMatch) {
+          const unit = parseQty(nameMatch.grams);
+          if (nameMatch.quantity && nameMatch.quantity >= 1 && unit > 0) {
+            const currentTotal = getFoodItemTotalGrams(nameMatch);
+            const newTotal = currentTotal + mealGrams;
+            const fullUnits = Math.floor(newTotal / unit);
+            const remainder = Math.round((newTotal - fullUnits * unit) * 10) / 10;
+            await write(withStockReason(supabase.from("food_items").update({ quantity: remainder > 0 ? fullUnits + 1 : fullUnits, grams: encodeStoredGrams(unit, remainder > 0 ? remainder : null) } as any).eq("id", nameMatch.id), "restore", origin));
           } else {
-            await safeMutate("Ajustement stock (count)", () => supabase.from("food_items").update({ quantity: remaining } as any).eq("id", fi.id));
+            await write(withStockReason(supabase.from("food_items").update({ grams: formatNumeric(unit + mealGrams) } as any).eq("id", nameMatch.id), "restore", origin));
           }
         }
-      } else if (deltaCount < 0) {
-        const toAdd = -deltaCount;
-        const fi = matchingItems[0];
-        await safeMutate("Ajustement stock (count)", () =>
-          supabase.from("food_items").update({ quantity: (fi.quantity ?? 1) + toAdd } as any).eq("id", fi.id)
-        );
       }
-    }
-    invalidateStock();
+      invalidateStock();
+    }, { group: undoGroup }));
   };
 
-  /** Deduct name-match stock (no ingredients, just name match) */
-  const deductNameMatchStock = async (meal: Meal) => {
-    const mealGrams = parseQty(meal.grams);
-    const nameMatch = foodItems.find(fi => strictNameMatch(fi.name, meal.name) && !fi.is_infinite);
-    if (!nameMatch) return;
-    if (mealGrams <= 0) {
-      const currentQty = nameMatch.quantity ?? 1;
-      if (currentQty <= 1) {
-        await safeMutate("Déduction nom", () => supabase.from("food_items").delete().eq("id", nameMatch.id));
-      } else {
-        await safeMutate("Déduction nom", () => supabase.from("food_items").update({ quantity: currentQty - 1 } as any).eq("id", nameMatch.id));
-      }
-      invalidateStock();
-      return;
-    }
-    const perUnit = parseQty(nameMatch.grams);
-    if (nameMatch.quantity && nameMatch.quantity >= 1 && perUnit > 0) {
-      const totalAvailable = getFoodItemTotalGrams(nameMatch);
-      const remaining = totalAvailable - mealGrams;
-      if (remaining <= 0) {
-        await safeMutate("Déduction nom", () => supabase.from("food_items").delete().eq("id", nameMatch.id));
-      } else {
-        const fullUnits = Math.floor(remaining / perUnit);
-        const remainder = Math.round((remaining - fullUnits * perUnit) * 10) / 10;
-        if (remainder > 0) {
-          await safeMutate("Déduction nom", () => supabase.from("food_items").update({ quantity: Math.max(1, fullUnits + 1), grams: encodeStoredGrams(perUnit, remainder) } as any).eq("id", nameMatch.id));
-        } else if (fullUnits > 0) {
-          await safeMutate("Déduction nom", () => supabase.from("food_items").update({ quantity: fullUnits, grams: formatNumeric(perUnit) } as any).eq("id", nameMatch.id));
-        } else {
-          await safeMutate("Déduction nom", () => supabase.from("food_items").delete().eq("id", nameMatch.id));
-        }
-      }
-    } else {
-      const current = parseQty(nameMatch.grams);
-      const remaining = Math.max(0, current - mealGrams);
-      if (remaining <= 0) {
-        await safeMutate("Déduction nom", () => supabase.from("food_items").delete().eq("id", nameMatch.id));
-      } else {
-        await safeMutate("Déduction nom", () => supabase.from("food_items").update({ grams: formatNumeric(remaining) } as any).eq("id", nameMatch.id));
-      }
-    }
-    invalidateStock();
+  /** Replace a possible meal's ingredients and take the difference from stock, atomically; `servings` is recorded along when given */
+  const updatePossibleIngredientsWithStock = async (possibleMealId: string, oldIngredients: string | null, newIngredients: string | null, servings?: number | null) => {
+    const needs = buildAdjustmentNeeds(oldIngredients, newIngredients, foodItems);
+    const scopes = [rowsById("food_items", ...needs.flatMap(n => n.candidates)), { table: "meal_ingredients" as const, column: "possible_meal_id", values: [possibleMealId] }];
+    if (servings !== undefined) scopes.push(rowsById("possible_meals", possibleMealId));
+    await safeMutate("Ajustement stock", () => withUndo(servings !== undefined ? "Portions" : "Modification des ingrédients", scopes, async () => {
+      const { error } = await supabase.rpc("update_possible_ingredients_with_stock", {
+        p_possible_meal_id: possibleMealId,
+        p_needs: needs as unknown as Json,
+        p_rows: ingredientStringToRows(newIngredients) as unknown as Json,
+        p_servings: servings ?? null,
+        p_update_servings: servings !== undefined,
+      });
+      if (error) throw error;
+    }));
+    invalidateAll();
   };
 
   return {
-    deductIngredientsFromStock,
+    moveMealToPossible,
+    undoDeduction,
     restoreIngredientsToStock,
-    adjustStockForIngredientChange,
-    deductNameMatchStock,
+    updatePossibleIngredientsWithStock,
   };
 }
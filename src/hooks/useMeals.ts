@@ -1,20 +1,54 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { colorFromName } from "@/lib/foodColors";
-import { computeIngredientCalories } from "@/lib/ingredientUtils";
+import { computeIngredientCalories, type MacroValues } from "@/lib/ingredientUtils";
+import { ingredientStringToRows, rowsToIngredientString } from "@/lib/ingredientRows";
+import { isPastDate, WEEKDAY_KEYS } from "@/lib/planningDates";
+import { slotIndex } from "@/lib/mealSlots";
+import type { RecipeStep } from "@/lib/recipe";
 import { toast } from "@/hooks/use-toast";
+import { useUndoable, rowsById, type RowScope } from "@/hooks/useUndoRedo";
+import type { UndoGroup } from "@/lib/undoStack";
 
 export type MealCategory = 'petit_dejeuner' | 'entree' | 'plat' | 'dessert' | 'bonus';
 
+/** One ingredient alternative of a meal (or of a possible meal override) — row of meal_ingredients */
+export interface MealIngredient {
+  id?: string;
+  group_index: number;
+  alt_index: number;
+  /** Amount as written, in `unit` (null unit = grams) */
+  qty: number | null;
+  unit: string | null;
+  count: number | null;
+  name: string;
+  optional: boolean;
+  kcal_per_100g: number | null;
+  protein_per_100g?: number | null;
+  carbs_per_100g?: number | null;
+  fat_per_100g?: number | null;
+  fibre_per_100g?: number | null;
+  sugar_per_100g?: number | null;
+  salt_per_100g?: number | null;
+}
+
 export interface Meal {
   id: string;
   name: string;
   category: string;
   calories: string | null;
   protein: string | null;
+  carbs?: number | null;
+  fat?: number | null;
+  fibre?: number | null;
+  sugar?: number | null;
+  salt?: number | null;
   grams: string | null;
+  /** Legacy string export of ingredient_rows (read-only, kept for display and import/export) */
   ingredients: string | null;
+  ingredient_rows?: MealIngredient[];
   color: string;
   sort_order: number;
   created_at: string;
@@ -22,6 +56,13 @@ export interface Meal {
   is_favorite: boolean;
   oven_temp: string | null;
   oven_minutes: string | null;
+  steps?: RecipeStep[];
+  prep_minutes?: number | null;
+  cook_minutes?: number | null;
+  rest_minutes?: number | null;
+  /** What the ingredient list makes: servings, or a total weight split in portions of `grams` */
+  yield_servings?: number | null;
+  yield_grams?: number | null;
 }
 
 export interface PossibleMeal {
@@ -29,20 +70,42 @@ export interface PossibleMeal {
   meal_id: string;
   quantity: number;
   expiration_date: string | null;
-  day_of_week: string | null;
+  /** Planned calendar date (yyyy-MM-dd) */
+  planned_date: string | null;
   meal_time: string | null;
   counter_start_date: string | null;
   sort_order: number;
   created_at: string;
   meals: Meal;
+  /** Legacy string export of override_rows */
   ingredients_override: string | null;
+  override_rows?: MealIngredient[];
+  /** Servings cooked; null = the recipe as written */
+  servings?: number | null;
 }
 
-export const DAYS = ['lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi', 'dimanche'] as const;
-export const TIMES = ['midi', 'soir'] as const;
+export const DAYS = WEEKDAY_KEYS;
 
-const DAY_INDEX: Record<string, number> = {};
-DAYS.forEach((d, i) => { DAY_INDEX[d] = i; });
+const MEAL_SELECT = "*, meal_ingredients!meal_ingredients_meal_id_fkey(*)";
+
+type MealRow = Omit<Meal, "ingredient_rows"> & { meal_ingredients?: MealIngredient[] | null };
+
+/** Attach the structured rows and derive the legacy ingredients string from them */
+function withIngredientRows(row: MealRow): Meal {
+  const { meal_ingredients, ...meal } = row;
+  const rows = meal_ingredients ?? [];
+  return { ...meal, ingredient_rows: rows, ingredients: rowsToIngredientString(rows) };
+}
+
+/** Replace all rows of a meal or of a possible meal override in one transaction */
+async function replaceIngredientRows(target: { mealId?: string; possibleMealId?: string }, rows: MealIngredient[]) {
+  const { error } = await supabase.rpc("replace_meal_ingredients", {
+    p_meal_id: target.mealId ?? null,
+    p_possible_meal_id: target.possibleMealId ?? null,
+    p_rows: rows.map(({ id: _id, ...r }) => r) as unknown as Json,
+  });
+  if (error) throw error;
+}
 
 const onMutationError = (error: Error) => {
   toast({ title: "Erreur", description: error.message, variant: "destructive" });
@@ -51,6 +114,7 @@ const onMutationError = (error: Error) => {
 export function useMeals(options?: { enabled?: boolean }) {
   const enabled = options?.enabled ?? true;
   const qc = useQueryClient();
+  const withUndo = useUndoable();
   const invalidateAll = () => {
     qc.invalidateQueries({ queryKey: ["meals"] });
     qc.invalidateQueries({ queryKey: ["possible_meals"] });
@@ -72,10 +136,10 @@ export function useMeals(options?: { enabled?: boolean }) {
     queryFn: async () => {
       const { data, error } = await supabase
         .from("meals")
-        .select("*")
+        .select(MEAL_SELECT)
         .order("sort_order", { ascending: true });
       if (error) throw error;
-      return data as Meal[];
+      return (data as unknown as MealRow[]).map(withIngredientRows);
     },
     retry: 3,
     retryDelay: 500,
@@ -87,10 +151,19 @@ export function useMeals(options?: { enabled?: boolean }) {
     queryFn: async () => {
       const { data, error } = await supabase
         .from("possible_meals")
-        .select("*, meals(*)")
+        .select(`*, meals!possible_meals_meal_id_fkey(${MEAL_SELECT}), meal_ingredients!meal_ingredients_possible_meal_id_fkey(*)`)
         .order("sort_order", { ascending: true });
       if (error) throw error;
-      return data as unknown as PossibleMeal[];
+      type PossibleMealRow = Omit<PossibleMeal, "meals" | "override_rows"> & { meals: MealRow; meal_ingredients?: MealIngredient[] | null };
+      return (data as unknown as PossibleMealRow[]).map(({ meals: mealRow, meal_ingredients, ...pm }) => {
+        const overrideRows = meal_ingredients?.length ? meal_ingredients : undefined;
+        return {
+          ...pm,
+          meals: mealRow ? withIngredientRows(mealRow) : mealRow,
+          override_rows: overrideRows,
+          ingredients_override: overrideRows ? rowsToIngredientString(overrideRows) : null,
+        } as PossibleMeal;
+      });
     },
     retry: 3,
     retryDelay: 500,
@@ -99,10 +172,24 @@ export function useMeals(options?: { enabled?: boolean }) {
 
   const isLoading = ml || pl;
 
+  // Rows removed (directly or by cascade) when deleting a meal or a possible meal
+  const mealScopes = (mealId: string): RowScope[] => {
+    const pmIds = possibleMeals.filter(p => p.meal_id === mealId).map(p => p.id);
+    return [
+      rowsById("meals", mealId), { table: "meal_ingredients", column: "meal_id", values: [mealId] },
+      rowsById("possible_meals", ...pmIds), { table: "meal_ingredients", column: "possible_meal_id", values: pmIds },
+    ];
+  };
+  const possibleScopes = (possibleMealId: string): RowScope[] => {
+    const pm = possibleMeals.find(p => p.id === possibleMealId);
+    const hiddenMeal = pm && !pm.meals?.is_available ? mealScopes(pm.meal_id) : [];
+    return [rowsById("possible_meals", possibleMealId), { table: "meal_ingredients", column: "possible_meal_id", values: [possibleMealId] }, ...hiddenMeal];
+  };
+
   // --- Master meal mutations ---
 
   const addMeal = useMutation({
-    mutationFn: async ({ name, category }: { name: string; category: string }) => {
+    mutationFn: ({ name, category }: { name: string; category: string }) => withUndo("Ajout du repas", [], async () => {
       const maxOrder = meals.filter(m => m.category === category).reduce((max, m) => Math.max(max, m.sort_order), -1);
       const { data: inserted, error: insertErr } = await supabase
         .from("meals")
@@ -112,13 +199,14 @@ export function useMeals(options?: { enabled?: boolean }) {
       if (insertErr) throw insertErr;
       const { error } = await supabase.from("meals").update({ color: colorFromName(inserted.id) }).eq("id", inserted.id);
       if (error) throw error;
-    },
+      return inserted.id;
+    }, { created: (id) => [rowsById("meals", id)] }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const addMealToPossibleDirectly = useMutation({
-    mutationFn: async ({ name, category, colorSeed, calories, grams, ingredients, expiration_date, possible_quantity, counter_start_date }: { name: string; category: string; colorSeed?: string; calories?: string | null; grams?: string | null; ingredients?: string | null; expiration_date?: string | null; possible_quantity?: number; counter_start_date?: string | null }) => {
+    mutationFn: ({ name, category, colorSeed, calories, grams, ingredients, expiration_date, possible_quantity, counter_start_date }: { name: string; category: string; colorSeed?: string; calories?: string | null; grams?: string | null; ingredients?: string | null; expiration_date?: string | null; possible_quantity?: number; counter_start_date?: string | null }) => withUndo("Ajout aux possibles", [], async () => {
       const finalColor = colorFromName(colorSeed ?? name);
       const { data: mealData, error: mealError } = await supabase
         .from("meals")
@@ -130,11 +218,11 @@ export function useMeals(options?: { enabled?: boolean }) {
           is_available: false,
           ...(calories !== undefined ? { calories } : {}),
           ...(grams !== undefined ? { grams } : {}),
-          ...(ingredients !== undefined ? { ingredients } : {}),
         })
         .select()
         .single();
       if (mealError) throw mealError;
+      if (ingredients?.trim()) await replaceIngredientRows({ mealId: mealData.id }, ingredientStringToRows(ingredients));
       // Update color with final seed (id-based) if no colorSeed was provided
       if (!colorSeed) {
         await supabase.from("meals").update({ color: colorFromName(mealData.id) }).eq("id", mealData.id);
@@ -153,80 +241,125 @@ export function useMeals(options?: { enabled?: boolean }) {
         .select()
         .single();
       if (error) throw error;
-      return insertedPm as { id: string };
-    },
+      return insertedPm as { id: string; meal_id: string };
+    }, { created: (pm) => [rowsById("meals", pm.meal_id), rowsById("possible_meals", pm.id), { table: "meal_ingredients", column: "meal_id", values: [pm.meal_id] }] }),
+    onSuccess: invalidateAll,
+    onError: onMutationError,
+  });
+
+  /** A whole recipe at once (recipe import): meal, ingredients, nutrition, times and steps */
+  const importMeal = useMutation({
+    mutationFn: ({ name, category, ingredients, steps, ...fields }: { name: string; category: string; ingredients: string | null } & Partial<Pick<Meal, "calories" | "protein" | "carbs" | "fat" | "fibre" | "sugar" | "salt" | "prep_minutes" | "cook_minutes" | "rest_minutes" | "yield_servings" | "steps">>) => withUndo("Import de recette", [], async () => {
+      const maxOrder = meals.filter(m => m.category === category).reduce((max, m) => Math.max(max, m.sort_order), -1);
+      const { data: inserted, error: insertErr } = await supabase
+        .from("meals")
+        .insert({ name, category, color: colorFromName(name), sort_order: maxOrder + 1, is_available: true, ...fields, steps: (steps ?? []) as unknown as Json })
+        .select()
+        .single();
+      if (insertErr) throw insertErr;
+      const { error } = await supabase.from("meals").update({ color: colorFromName(inserted.id) }).eq("id", inserted.id);
+      if (error) throw error;
+      if (ingredients?.trim()) await replaceIngredientRows({ mealId: inserted.id }, ingredientStringToRows(ingredients));
+      return inserted.id;
+    }, { created: (id) => [rowsById("meals", id), { table: "meal_ingredients", column: "meal_id", values: [id] }] }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const renameMeal = useMutation({
-    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+    mutationFn: ({ id, name }: { id: string; name: string }) => withUndo("Renommage du repas", [rowsById("meals", id)], async () => {
       const { error } = await supabase.from("meals").update({ name }).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const updateCalories = useMutation({
-    mutationFn: async ({ id, calories }: { id: string; calories: string | null }) => {
+    mutationFn: ({ id, calories }: { id: string; calories: string | null }) => withUndo("Calories du repas", [rowsById("meals", id)], async () => {
       const { error } = await supabase.from("meals").update({ calories }).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const updateGrams = useMutation({
-    mutationFn: async ({ id, grams }: { id: string; grams: string | null }) => {
+    mutationFn: ({ id, grams, undoGroup }: { id: string; grams: string | null; undoGroup?: UndoGroup }) => withUndo("Grammes du repas", [rowsById("meals", id)], async () => {
       const { error } = await supabase.from("meals").update({ grams }).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true, group: undoGroup }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const updateProtein = useMutation({
-    mutationFn: async ({ id, protein }: { id: string; protein: string | null }) => {
+    mutationFn: ({ id, protein }: { id: string; protein: string | null }) => withUndo("Protéines du repas", [rowsById("meals", id)], async () => {
       const { error } = await supabase.from("meals").update({ protein } as any).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
-  const updateIngredients = useMutation({
-    mutationFn: async ({ id, ingredients }: { id: string; ingredients: string | null }) => {
-      const { error } = await supabase.from("meals").update({ ingredients }).eq("id", id);
+  const updateMacros = useMutation({
+    mutationFn: ({ id, macros }: { id: string; macros: MacroValues }) => withUndo("Macros du repas", [rowsById("meals", id)], async () => {
+      const { error } = await supabase.from("meals").update(macros).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
+    onSuccess: invalidateAll,
+    onError: onMutationError,
+  });
+
+  const setMealIngredients = useMutation({
+    mutationFn: ({ id, rows }: { id: string; rows: MealIngredient[] }) => withUndo("Modification des ingrédients", [{ table: "meal_ingredients", column: "meal_id", values: [id] }], async () => {
+      await replaceIngredientRows({ mealId: id }, rows);
+    }),
+    onSuccess: invalidateAll,
+    onError: onMutationError,
+  });
+
+  /** Import from the legacy string format (ingredient editor, text import) */
+  const updateIngredients = useMutation({
+    mutationFn: ({ id, ingredients }: { id: string; ingredients: string | null }) => withUndo("Modification des ingrédients", [{ table: "meal_ingredients", column: "meal_id", values: [id] }], async () => {
+      await replaceIngredientRows({ mealId: id }, ingredientStringToRows(ingredients));
+    }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const updateOvenTemp = useMutation({
-    mutationFn: async ({ id, oven_temp }: { id: string; oven_temp: string | null }) => {
+    mutationFn: ({ id, oven_temp }: { id: string; oven_temp: string | null }) => withUndo("Température du four", [rowsById("meals", id)], async () => {
       const { error } = await supabase.from("meals").update({ oven_temp }).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const updateOvenMinutes = useMutation({
-    mutationFn: async ({ id, oven_minutes }: { id: string; oven_minutes: string | null }) => {
+    mutationFn: ({ id, oven_minutes }: { id: string; oven_minutes: string | null }) => withUndo("Durée de cuisson", [rowsById("meals", id)], async () => {
       const { error } = await supabase.from("meals").update({ oven_minutes }).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
+    onSuccess: invalidateAll,
+    onError: onMutationError,
+  });
+
+  const updateRecipe = useMutation({
+    mutationFn: ({ id, steps, ...times }: { id: string } & Partial<Pick<Meal, "steps" | "prep_minutes" | "cook_minutes" | "rest_minutes" | "yield_servings" | "yield_grams">>) => withUndo("Recette", [rowsById("meals", id)], async () => {
+      const { error } = await supabase.from("meals").update({ ...times, ...(steps ? { steps: steps as unknown as Json } : {}) }).eq("id", id);
+      if (error) throw error;
+    }, { silent: true }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const toggleFavorite = useMutation({
-    mutationFn: async ({ id, is_favorite }: { id: string; is_favorite: boolean }) => {
+    mutationFn: ({ id, is_favorite }: { id: string; is_favorite: boolean }) => withUndo(is_favorite ? "Ajout aux favoris" : "Retrait des favoris", [rowsById("meals", id)], async () => {
       const { error } = await supabase.from("meals").update({ is_favorite }).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onMutate: async ({ id, is_favorite }) => {
       await qc.cancelQueries({ queryKey: ["meals"] });
       const prev = qc.getQueryData<Meal[]>(["meals"]);
@@ -243,20 +376,20 @@ export function useMeals(options?: { enabled?: boolean }) {
   });
 
   const deleteMeal = useMutation({
-    mutationFn: async (id: string) => {
+    mutationFn: (id: string) => withUndo("Suppression du repas", mealScopes(id), async () => {
       const { error } = await supabase.from("meals").delete().eq("id", id);
       if (error) throw error;
-    },
+    }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const reorderMeals = useMutation({
-    mutationFn: async (items: { id: string; sort_order: number }[]) => {
+    mutationFn: (items: { id: string; sort_order: number }[]) => withUndo("Réordonnancement", [rowsById("meals", ...items.map(i => i.id))], async () => {
       await Promise.all(items.map((item) =>
         supabase.from("meals").update({ sort_order: item.sort_order }).eq("id", item.id)
       ));
-    },
+    }, { silent: true }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
@@ -264,63 +397,90 @@ export function useMeals(options?: { enabled?: boolean }) {
   // --- Possible meal mutations ---
 
   const moveToPossible = useMutation({
-    mutationFn: async ({ mealId, expiration_date, counter_start_date }: { mealId: string; expiration_date?: string | null; counter_start_date?: string | null }) => {
+    mutationFn: ({ mealId, expiration_date, counter_start_date, servings, ingredients_override }: {
+      mealId: string; expiration_date?: string | null; counter_start_date?: string | null;
+      /** Servings and their scaled ingredients (override) */
+      servings?: number | null; ingredients_override?: string | null;
+    }) => withUndo("Ajout aux possibles", [], async () => {
       const maxOrder = possibleMeals.length;
       const insertData: Record<string, unknown> = { meal_id: mealId, sort_order: maxOrder };
       if (expiration_date) insertData.expiration_date = expiration_date;
       if (counter_start_date) insertData.counter_start_date = counter_start_date;
+      if (servings) insertData.servings = servings;
       const { data, error } = await supabase
         .from("possible_meals")
         .insert(insertData as any)
         .select()
         .single();
       if (error) throw error;
+      if (ingredients_override) await replaceIngredientRows({ possibleMealId: data.id }, ingredientStringToRows(ingredients_override));
       return data as unknown as { id: string };
-    },
+    }, { created: (pm) => [rowsById("possible_meals", pm.id), { table: "meal_ingredients", column: "possible_meal_id", values: [pm.id] }] }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const duplicatePossibleMeal = useMutation({
-    mutationFn: async (sourcePmId: string) => {
+    mutationFn: (sourcePmId: string) => withUndo("Duplication", [], async () => {
       const source = possibleMeals.find(pm => pm.id === sourcePmId);
-      if (!source) return;
+      if (!source) return null;
       const maxOrder = possibleMeals.length;
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from("possible_meals")
         .insert({
           meal_id: source.meal_id,
           sort_order: maxOrder,
           expiration_date: source.expiration_date,
           counter_start_date: source.counter_start_date,
-        });
+        })
+        .select("id")
+        .single();
       if (error) throw error;
-    },
+      return data.id;
+    }, { created: (id) => [rowsById("possible_meals", id)] }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
-  const removeFromPossible = useMutation({
-    mutationFn: async (possibleMealId: string) => {
-      const pm = possibleMeals.find(p => p.id === possibleMealId);
-      const { error } = await supabase
+  /** Plan a meal on a slot without going through the stock (breakfast-style picks) */
+  const planMeal = useMutation({
+    mutationFn: ({ meal_id, planned_date, meal_time }: { meal_id: string; planned_date: string; meal_time: string }) => withUndo("Planification", [], async () => {
+      const { data, error } = await supabase
         .from("possible_meals")
-        .delete()
-        .eq("id", possibleMealId);
+        .insert({ meal_id, planned_date, meal_time, sort_order: possibleMeals.length })
+        .select("id")
+        .single();
       if (error) throw error;
-      if (pm && !pm.meals?.is_available) {
-        const otherRefs = possibleMeals.filter(p => p.meal_id === pm.meal_id && p.id !== possibleMealId);
-        if (otherRefs.length === 0) {
-          await supabase.from("meals").delete().eq("id", pm.meal_id);
+      return data.id;
+    }, { created: (id) => [rowsById("possible_meals", id)] }),
+    onSuccess: invalidateAll,
+    onError: onMutationError,
+  });
+
+  const removeFromPossible = useMutation({
+    mutationFn: (arg: string | { id: string; undoGroup?: UndoGroup }) => {
+      const { id: possibleMealId, undoGroup } = typeof arg === "string" ? { id: arg, undoGroup: undefined } : arg;
+      return withUndo("Retrait des possibles", possibleScopes(possibleMealId), async () => {
+        const pm = possibleMeals.find(p => p.id === possibleMealId);
+        const { error } = await supabase
+          .from("possible_meals")
+          .delete()
+          .eq("id", possibleMealId);
+        if (error) throw error;
+        if (pm && !pm.meals?.is_available) {
+          const otherRefs = possibleMeals.filter(p => p.meal_id === pm.meal_id && p.id !== possibleMealId);
+          if (otherRefs.length === 0) {
+            await supabase.from("meals").delete().eq("id", pm.meal_id);
+          }
         }
-      }
+      }, { group: undoGroup });
     },
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const updateExpiration = useMutation({
-    mutationFn: async ({ id, expiration_date }: { id: string; expiration_date: string | null }) => {
+    mutationFn: ({ id, expiration_date }: { id: string; expiration_date: string | null }) => withUndo("Date de péremption", [{ table: "possible_meals", column: "meal_id", values: [possibleMeals.find(p => p.id === id)?.meal_id] }], async () => {
       const pm = possibleMeals.find(p => p.id === id);
       if (!pm) return;
       const { error } = await supabase
@@ -328,37 +488,37 @@ export function useMeals(options?: { enabled?: boolean }) {
         .update({ expiration_date })
         .eq("meal_id", pm.meal_id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const updatePlanning = useMutation({
-    mutationFn: async ({ id, day_of_week, meal_time }: { id: string; day_of_week: string | null; meal_time: string | null }) => {
+    mutationFn: ({ id, planned_date, meal_time }: { id: string; planned_date: string | null; meal_time: string | null }) => withUndo("Planification", [rowsById("possible_meals", id)], async () => {
       const { error } = await supabase
         .from("possible_meals")
-        .update({ day_of_week, meal_time })
+        .update({ planned_date, meal_time })
         .eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const updateCounter = useMutation({
-    mutationFn: async ({ id, counter_start_date }: { id: string; counter_start_date: string | null }) => {
+    mutationFn: ({ id, counter_start_date }: { id: string; counter_start_date: string | null }) => withUndo("Compteur", [rowsById("possible_meals", id)], async () => {
       const { error } = await supabase
         .from("possible_meals")
         .update({ counter_start_date })
         .eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const deletePossibleMeal = useMutation({
-    mutationFn: async (id: string) => {
+    mutationFn: (id: string) => withUndo("Suppression du possible", possibleScopes(id), async () => {
       const pm = possibleMeals.find(p => p.id === id);
       const { error } = await supabase.from("possible_meals").delete().eq("id", id);
       if (error) throw error;
@@ -368,41 +528,46 @@ export function useMeals(options?: { enabled?: boolean }) {
           await supabase.from("meals").delete().eq("id", pm.meal_id);
         }
       }
-    },
+    }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const reorderPossibleMeals = useMutation({
-    mutationFn: async (items: { id: string; sort_order: number }[]) => {
+    mutationFn: (items: { id: string; sort_order: number }[]) => withUndo("Réordonnancement", [rowsById("possible_meals", ...items.map(i => i.id))], async () => {
       await Promise.all(items.map((item) =>
         supabase.from("possible_meals").update({ sort_order: item.sort_order }).eq("id", item.id)
       ));
-    },
+    }, { silent: true }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
+  const setPossibleIngredients = useMutation({
+    mutationFn: ({ id, rows }: { id: string; rows: MealIngredient[] }) => withUndo("Modification des ingrédients", [{ table: "meal_ingredients", column: "possible_meal_id", values: [id] }], async () => {
+      await replaceIngredientRows({ possibleMealId: id }, rows);
+    }),
+    onSuccess: invalidateAll,
+    onError: onMutationError,
+  });
+
+  /** Import from the legacy string format; null clears the override */
   const updatePossibleIngredients = useMutation({
-    mutationFn: async ({ id, ingredients_override }: { id: string; ingredients_override: string | null }) => {
-      const { error } = await supabase
-        .from("possible_meals")
-        .update({ ingredients_override })
-        .eq("id", id);
-      if (error) throw error;
-    },
+    mutationFn: ({ id, ingredients_override }: { id: string; ingredients_override: string | null }) => withUndo("Modification des ingrédients", [{ table: "meal_ingredients", column: "possible_meal_id", values: [id] }], async () => {
+      await replaceIngredientRows({ possibleMealId: id }, ingredientStringToRows(ingredients_override));
+    }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
 
   const updatePossibleQuantity = useMutation({
-    mutationFn: async ({ id, quantity }: { id: string; quantity: number }) => {
+    mutationFn: ({ id, quantity, undoGroup }: { id: string; quantity: number; undoGroup?: UndoGroup }) => withUndo("Quantité", [rowsById("possible_meals", id)], async () => {
       const { error } = await supabase
         .from("possible_meals")
         .update({ quantity: Math.max(1, Math.round(quantity)) })
         .eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true, group: undoGroup }),
     onSuccess: invalidateAll,
     onError: onMutationError,
   });
@@ -410,8 +575,9 @@ export function useMeals(options?: { enabled?: boolean }) {
   const getMealsByCategory = (cat: string) =>
     meals.filter((m) => m.category === cat && m.is_available).sort((a, b) => a.sort_order - b.sort_order);
 
+  // Cards planned on a past date stay in the database as history
   const getPossibleByCategory = (cat: string) =>
-    possibleMeals.filter((pm) => pm.meals?.category === cat).sort((a, b) => a.sort_order - b.sort_order);
+    possibleMeals.filter((pm) => pm.meals?.category === cat && !isPastDate(pm.planned_date)).sort((a, b) => a.sort_order - b.sort_order);
 
   const extractSortableCalories = (pm: PossibleMeal): number | null => {
     const ingredients = pm.ingredients_override ?? pm.meals?.ingredients;
@@ -485,14 +651,14 @@ export function useMeals(options?: { enabled?: boolean }) {
       return 0;
     });
 
-  const sortByPlanning = (items: PossibleMeal[]) =>
+  const sortByPlanning = (items: PossibleMeal[], slotKeys: string[] = []) =>
     [...items].sort((a, b) => {
-      const dayA = a.day_of_week ? (DAY_INDEX[a.day_of_week] ?? 99) : 99;
-      const dayB = b.day_of_week ? (DAY_INDEX[b.day_of_week] ?? 99) : 99;
-      if (dayA !== dayB) return dayA - dayB;
-      const timeA = a.meal_time === 'midi' ? 0 : a.meal_time === 'soir' ? 1 : 2;
-      const timeB = b.meal_time === 'midi' ? 0 : b.meal_time === 'soir' ? 1 : 2;
-      return timeA - timeB;
+      if (a.planned_date !== b.planned_date) {
+        if (!a.planned_date) return 1;
+        if (!b.planned_date) return -1;
+        return a.planned_date.localeCompare(b.planned_date);
+      }
+      return slotIndex(slotKeys, a.meal_time) - slotIndex(slotKeys, b.meal_time);
     });
 
   const getRandomPossible = (cat: string): PossibleMeal | null => {
@@ -503,10 +669,10 @@ export function useMeals(options?: { enabled?: boolean }) {
 
   return {
     meals, possibleMeals, isLoading,
-    addMeal, addMealToPossibleDirectly, renameMeal, updateCalories, updateGrams, updateProtein, updateIngredients,
-    updateOvenTemp, updateOvenMinutes,
+    addMeal, addMealToPossibleDirectly, importMeal, renameMeal, updateCalories, updateGrams, updateProtein, updateMacros, updateIngredients,
+    setMealIngredients, setPossibleIngredients, updateOvenTemp, updateOvenMinutes, updateRecipe,
     toggleFavorite, deleteMeal, reorderMeals,
-    moveToPossible, duplicatePossibleMeal, removeFromPossible,
+    moveToPossible, duplicatePossibleMeal, planMeal, removeFromPossible,
     updateExpiration, updatePlanning, updateCounter,
     deletePossibleMeal, reorderPossibleMeals, updatePossibleIngredients, updatePossibleQuantity,
     getMealsByCategory, getPossibleByCategory, sortByExpiration, sortByPlanning, getRandomPossible,
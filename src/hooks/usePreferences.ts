@@ -49,7 +49,7 @@ export function usePreferences(options?: { enabled?: boolean }) {
       } else {
         const { error } = await supabase
           .from("user_preferences")
-          .upsert({ key, value } as any, { onConflict: 'user_id,key' });
+          .upsert({ key, value } as any, { onConflict: 'household_id,key' });
         if (error) throw error;
       }
     },
@@ -0,0 +1,50 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import type { PriceEntry } from "@/lib/prices";
+
+const onMutationError = (error: Error) => {
+  toast({ title: "Erreur", description: error.message, variant: "destructive" });
+};
+
+export type PriceFields = Pick<PriceEntry, "name" | "price"> & Partial<Pick<PriceEntry, "store" | "bought_on" | "content_quantity" | "content_quantity_type">>;
+
+export function usePrices(options?: { enabled?: boolean }) {
+  const enabled = options?.enabled ?? true;
+  const qc = useQueryClient();
+  const invalidate = () => qc.invalidateQueries({ queryKey: ["price_history"] });
+
+  const { data: prices = [], isLoading } = useQuery({
+    queryKey: ["price_history"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("price_history").select("*").order("bought_on", { ascending: false });
+      if (error) throw error;
+      return data as PriceEntry[];
+    },
+    enabled,
+  });
+
+  /** Stores already used, most recent first, for the store field suggestions */
+  const stores = [...new Set(prices.map(p => p.store).filter((s): s is string => !!s))];
+
+  const addPrice = useMutation({
+    mutationFn: async (fields: PriceFields) => {
+      const { error } = await supabase.from("price_history").insert(fields);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  const deletePrice = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("price_history").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  return { prices, stores, isLoading, addPrice, deletePrice };
+}
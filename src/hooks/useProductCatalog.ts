@@ -0,0 +1,66 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import type { StorageType } from "@/hooks/useFoodItems";
+import { MACRO_KEYS, type MacroKey, type Nutrition } from "@/lib/ingredientUtils";
+
+/** Product known by its barcode; nutrition per 100 g */
+export interface CatalogProduct extends Partial<Record<MacroKey, number | null>> {
+  id: string;
+  ean: string;
+  name: string;
+  brand: string | null;
+  net_grams: number | null;
+  kcal: number | null;
+  storage_type: StorageType | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProductFields = Omit<CatalogProduct, "id" | "created_at" | "updated_at">;
+
+/** Catalog values as a nutrition record (per 100 g) */
+export function productNutrition(product: CatalogProduct): Nutrition {
+  const n: Nutrition = {};
+  if (product.kcal != null) n.kcal = product.kcal;
+  for (const key of MACRO_KEYS) if (product[key] != null) n[key] = product[key]!;
+  return n;
+}
+
+const onMutationError = (error: Error) => {
+  toast({ title: "Erreur", description: error.message, variant: "destructive" });
+};
+
+export function useProductCatalog(options?: { enabled?: boolean }) {
+  const enabled = options?.enabled ?? true;
+  const qc = useQueryClient();
+
+  const { data: products = [], isLoading } = useQuery({
+    queryKey: ["product_catalog"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("product_catalog").select("*").order("name", { ascending: true });
+      if (error) throw error;
+      return data as CatalogProduct[];
+    },
+    enabled,
+  });
+
+  const findByEan = (ean: string) => products.find(p => p.ean === ean) ?? null;
+
+  // Learning an already known code updates it
+  const saveProduct = useMutation({
+    mutationFn: async (fields: ProductFields) => {
+      const { data, error } = await supabase
+        .from("product_catalog")
+        .upsert({ ...fields, updated_at: new Date().toISOString() }, { onConflict: "household_id,ean" })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as CatalogProduct;
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["product_catalog"] }),
+    onError: onMutationError,
+  });
+
+  return { products, isLoading, findByEan, saveProduct };
+}
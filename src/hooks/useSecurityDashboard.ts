@@ -0,0 +1,44 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+import { invokeVerifyPin } from "@/hooks/useDeviceLock";
+import type { SecurityConfig, SecurityOverview } from "@/lib/securityDashboard";
+
+const onMutationError = (error: Error) => {
+  toast({ title: "Erreur", description: error.message, variant: "destructive" });
+};
+
+/** Attempts, lockouts and settings of verify-pin, for security admins */
+export function useSecurityDashboard(options?: { enabled?: boolean; days?: number }) {
+  const enabled = options?.enabled ?? true;
+  const days = options?.days ?? 14;
+  const qc = useQueryClient();
+  const invalidate = () => qc.invalidateQueries({ queryKey: ["security_overview"] });
+
+  const { data: overview, isLoading, error } = useQuery({
+    queryKey: ["security_overview", days],
+    queryFn: () => invokeVerifyPin<SecurityOverview>({ action: "security_overview", days }),
+    enabled,
+    refetchInterval: enabled ? 30_000 : false,
+    retry: false,
+  });
+
+  const unlockIp = useMutation({
+    mutationFn: (ip: string) => invokeVerifyPin({ action: "security_unlock_ip", ip }),
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  const saveConfig = useMutation({
+    mutationFn: (config: SecurityConfig) => invokeVerifyPin({ action: "security_save_config", config }),
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  const resetBlockedCount = useMutation({
+    mutationFn: () => invokeVerifyPin({ reset_blocked: true }),
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  return { overview, isLoading, error: error as Error | null, unlockIp, saveConfig, resetBlockedCount };
+}
@@ -1,6 +1,10 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { useUndoable, rowsById } from "@/hooks/useUndoRedo";
+import type { ShoppingChange } from "@/lib/shoppingPlan";
+import type { CheckoutRpcLine } from "@/lib/shoppingCheckout";
+import type { Json } from "@/integrations/supabase/types";
 
 export interface ShoppingGroup {
   id: string;
@@ -30,6 +34,7 @@ const onMutationError = (error: Error) => {
 export function useShoppingList(options?: { enabled?: boolean }) {
   const enabled = options?.enabled ?? true;
   const qc = useQueryClient();
+  const withUndo = useUndoable();
   const invalidate = () => {
     qc.invalidateQueries({ queryKey: ["shopping_groups"] });
     qc.invalidateQueries({ queryKey: ["shopping_items"] });
@@ -58,61 +63,63 @@ export function useShoppingList(options?: { enabled?: boolean }) {
   });
 
   const addGroup = useMutation({
-    mutationFn: async (name: string) => {
+    mutationFn: (name: string) => withUndo("Ajout du groupe", [], async () => {
       const maxOrder = groups.reduce((max, g) => Math.max(max, g.sort_order), -1);
-      const { error } = await supabase
-        .from("shopping_groups").insert({ name, sort_order: maxOrder + 1 });
+      const { data, error } = await supabase
+        .from("shopping_groups").insert({ name, sort_order: maxOrder + 1 }).select("id").single();
       if (error) throw error;
-    },
+      return data.id;
+    }, { created: (id) => [rowsById("shopping_groups", id)] }),
     onSuccess: invalidate,
     onError: onMutationError,
   });
 
   const renameGroup = useMutation({
-    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+    mutationFn: ({ id, name }: { id: string; name: string }) => withUndo("Renommage du groupe", [rowsById("shopping_groups", id)], async () => {
       const { error } = await supabase.from("shopping_groups").update({ name }).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onSuccess: invalidate,
     onError: onMutationError,
   });
 
   const deleteGroup = useMutation({
-    mutationFn: async (id: string) => {
+    mutationFn: (id: string) => withUndo("Suppression du groupe", [rowsById("shopping_groups", id), { table: "shopping_items", column: "group_id", values: [id] }], async () => {
       const { error } = await supabase.from("shopping_groups").delete().eq("id", id);
       if (error) throw error;
-    },
+    }),
     onSuccess: invalidate,
     onError: onMutationError,
   });
 
   const reorderGroups = useMutation({
-    mutationFn: async (items: { id: string; sort_order: number }[]) => {
+    mutationFn: (items: { id: string; sort_order: number }[]) => withUndo("Réordonnancement", [rowsById("shopping_groups", ...items.map(i => i.id))], async () => {
       await Promise.all(items.map(item =>
         supabase.from("shopping_groups").update({ sort_order: item.sort_order }).eq("id", item.id)
       ));
-    },
+    }, { silent: true }),
     onSuccess: invalidate,
     onError: onMutationError,
   });
 
   const addItem = useMutation({
-    mutationFn: async ({ name, group_id }: { name: string; group_id: string | null }) => {
+    mutationFn: ({ name, group_id, ...details }: { name: string; group_id: string | null } & Partial<Pick<ShoppingItem, "brand" | "content_quantity" | "content_quantity_type">>) => withUndo("Ajout à la liste", [], async () => {
       const groupItems = items.filter(i => i.group_id === group_id);
       const maxOrder = groupItems.reduce((max, i) => Math.max(max, i.sort_order), -1);
-      const { error } = await supabase
-        .from("shopping_items").insert({ name, group_id, sort_order: maxOrder + 1 });
+      const { data, error } = await supabase
+        .from("shopping_items").insert({ name, group_id, sort_order: maxOrder + 1, ...details }).select("id").single();
       if (error) throw error;
-    },
+      return data.id;
+    }, { created: (id) => [rowsById("shopping_items", id)], silent: true }),
     onSuccess: invalidate,
     onError: onMutationError,
   });
 
   const toggleItem = useMutation({
-    mutationFn: async ({ id, checked }: { id: string; checked: boolean }) => {
+    mutationFn: ({ id, checked }: { id: string; checked: boolean }) => withUndo(checked ? "Article coché" : "Article décoché", [rowsById("shopping_items", id)], async () => {
       const { error } = await supabase.from("shopping_items").update({ checked }).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onMutate: async ({ id, checked }) => {
       await qc.cancelQueries({ queryKey: ["shopping_items"] });
       const prev = qc.getQueryData<ShoppingItem[]>(["shopping_items"]);
@@ -129,37 +136,37 @@ export function useShoppingList(options?: { enabled?: boolean }) {
   });
 
   const updateItemQuantity = useMutation({
-    mutationFn: async ({ id, quantity }: { id: string; quantity: string | null }) => {
+    mutationFn: ({ id, quantity }: { id: string; quantity: string | null }) => withUndo("Quantité", [rowsById("shopping_items", id)], async () => {
       const { error } = await supabase.from("shopping_items").update({ quantity }).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onSuccess: invalidate,
     onError: onMutationError,
   });
 
   const updateItemBrand = useMutation({
-    mutationFn: async ({ id, brand }: { id: string; brand: string | null }) => {
+    mutationFn: ({ id, brand }: { id: string; brand: string | null }) => withUndo("Marque", [rowsById("shopping_items", id)], async () => {
       const { error } = await supabase.from("shopping_items").update({ brand }).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onSuccess: invalidate,
     onError: onMutationError,
   });
 
   const updateItemContentQuantity = useMutation({
-    mutationFn: async ({ id, content_quantity }: { id: string; content_quantity: string | null }) => {
+    mutationFn: ({ id, content_quantity }: { id: string; content_quantity: string | null }) => withUndo("Contenance", [rowsById("shopping_items", id)], async () => {
       const { error } = await supabase.from("shopping_items").update({ content_quantity }).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onSuccess: invalidate,
     onError: onMutationError,
   });
 
   const toggleSecondaryCheck = useMutation({
-    mutationFn: async ({ id, secondary_checked }: { id: string; secondary_checked: boolean }) => {
+    mutationFn: ({ id, secondary_checked }: { id: string; secondary_checked: boolean }) => withUndo("Article coché", [rowsById("shopping_items", id)], async () => {
       const { error } = await supabase.from("shopping_items").update({ secondary_checked }).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onMutate: async ({ id, secondary_checked }) => {
       await qc.cancelQueries({ queryKey: ["shopping_items"] });
       const prev = qc.getQueryData<ShoppingItem[]>(["shopping_items"]);
@@ -176,51 +183,95 @@ export function useShoppingList(options?: { enabled?: boolean }) {
   });
 
   const updateItemContentQuantityType = useMutation({
-    mutationFn: async ({ id, content_quantity_type }: { id: string; content_quantity_type: string | null }) => {
+    mutationFn: ({ id, content_quantity_type }: { id: string; content_quantity_type: string | null }) => withUndo("Contenance", [rowsById("shopping_items", id)], async () => {
       const { error } = await supabase.from("shopping_items").update({ content_quantity_type }).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onSuccess: invalidate,
     onError: onMutationError,
   });
 
   const renameItem = useMutation({
-    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+    mutationFn: ({ id, name }: { id: string; name: string }) => withUndo("Renommage de l'article", [rowsById("shopping_items", id)], async () => {
       const { error } = await supabase.from("shopping_items").update({ name }).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onSuccess: invalidate,
     onError: onMutationError,
   });
 
   const moveItem = useMutation({
-    mutationFn: async ({ id, group_id }: { id: string; group_id: string | null }) => {
+    mutationFn: ({ id, group_id }: { id: string; group_id: string | null }) => withUndo("Déplacement de l'article", [rowsById("shopping_items", id)], async () => {
       const { error } = await supabase.from("shopping_items").update({ group_id }).eq("id", id);
       if (error) throw error;
-    },
+    }, { silent: true }),
     onSuccess: invalidate,
     onError: onMutationError,
   });
 
   const reorderItems = useMutation({
-    mutationFn: async (updates: { id: string; sort_order: number; group_id: string | null }[]) => {
+    mutationFn: (updates: { id: string; sort_order: number; group_id: string | null }[]) => withUndo("Réordonnancement", [rowsById("shopping_items", ...updates.map(u => u.id))], async () => {
       await Promise.all(updates.map(u =>
         supabase.from("shopping_items").update({ sort_order: u.sort_order, group_id: u.group_id }).eq("id", u.id)
       ));
-    },
+    }, { silent: true }),
     onSuccess: invalidate,
     onError: onMutationError,
   });
 
   const deleteItem = useMutation({
-    mutationFn: async (id: string) => {
+    mutationFn: (id: string) => withUndo("Suppression de l'article", [rowsById("shopping_items", id)], async () => {
       const { error } = await supabase.from("shopping_items").delete().eq("id", id);
       if (error) throw error;
+    }),
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  // Generated list (ShoppingPlanDialog): one undo step for all created and updated items
+  const applyShoppingChanges = useMutation({
+    mutationFn: (changes: ShoppingChange[]) => {
+      const updates = changes.filter(c => c.itemId);
+      const creates = changes.filter(c => !c.itemId);
+      return withUndo("Liste de courses générée", [rowsById("shopping_items", ...updates.map(c => c.itemId!))], async () => {
+        const results = await Promise.all(updates.map(c =>
+          supabase.from("shopping_items").update({ checked: true, secondary_checked: true, quantity: String(c.packs) }).eq("id", c.itemId!)
+        ));
+        const failed = results.find(r => r.error);
+        if (failed) throw failed.error;
+        const nextOrder = new Map<string | null, number>();
+        const rows = creates.map(c => {
+          const order = nextOrder.get(c.groupId) ?? items.filter(i => i.group_id === c.groupId).reduce((max, i) => Math.max(max, i.sort_order), -1) + 1;
+          nextOrder.set(c.groupId, order + 1);
+          return { name: c.name, group_id: c.groupId, sort_order: order, checked: true, secondary_checked: true, quantity: String(c.packs) };
+        });
+        if (rows.length === 0) return [];
+        const { data, error } = await supabase.from("shopping_items").insert(rows).select("id");
+        if (error) throw error;
+        return data.map(r => r.id);
+      }, { created: (ids) => [rowsById("shopping_items", ...ids)] });
     },
     onSuccess: invalidate,
     onError: onMutationError,
   });
 
+  /** "Ranger les courses": the checkout_shopping RPC stores the lines from checkoutLines and unchecks the bought items */
+  const checkoutShopping = useMutation({
+    mutationFn: ({ lines, itemIds }: { lines: CheckoutRpcLine[]; itemIds: string[] }) => {
+      const stockIds = lines.flatMap(l => l.food_item_id ? [l.food_item_id] : []);
+      return withUndo("Courses rangées", [rowsById("food_items", ...stockIds), rowsById("shopping_items", ...itemIds)], async () => {
+        const { data, error } = await supabase.rpc("checkout_shopping", { p_lines: lines as unknown as Json, p_item_ids: itemIds });
+        if (error) throw error;
+        return data ?? [];
+      }, { created: (ids) => [rowsById("food_items", ...ids)] });
+    },
+    onSuccess: () => {
+      invalidate();
+      qc.invalidateQueries({ queryKey: ["food_items"] });
+    },
+    onError: onMutationError,
+  });
+
   const getItemsByGroup = (groupId: string | null) =>
     items.filter(i => i.group_id === groupId).sort((a, b) => a.sort_order - b.sort_order);
 
@@ -230,7 +281,7 @@ export function useShoppingList(options?: { enabled?: boolean }) {
     groups, items, ungroupedItems,
     addGroup, renameGroup, deleteGroup, reorderGroups,
     addItem, toggleItem, updateItemQuantity, updateItemBrand, updateItemContentQuantity, toggleSecondaryCheck, updateItemContentQuantityType, renameItem, moveItem, deleteItem,
-    reorderItems,
+    reorderItems, applyShoppingChanges, checkoutShopping,
     getItemsByGroup,
   };
 }
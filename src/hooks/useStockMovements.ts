@@ -0,0 +1,70 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { StockMovementReason } from "@/lib/stockMovements";
+
+export interface StockMovement {
+  id: string;
+  food_item_id: string;
+  food_name: string;
+  reason: StockMovementReason;
+  quantity_delta: number;
+  grams_delta: number;
+  quantity_before: number | null;
+  quantity_after: number | null;
+  grams_before: string | null;
+  grams_after: string | null;
+  meal_id: string | null;
+  possible_meal_id: string | null;
+  created_at: string;
+}
+
+export interface StockMovementFilters {
+  /** Exact food name as recorded in the ledger */
+  foodName?: string | null;
+  reason?: StockMovementReason | null;
+  /** ISO dates (yyyy-MM-dd), inclusive */
+  from?: string | null;
+  to?: string | null;
+}
+
+const PAGE_SIZE = 200;
+
+export function useStockMovements(filters: StockMovementFilters, options?: { enabled?: boolean }) {
+  const enabled = options?.enabled ?? true;
+
+  const { data: movements = [], isLoading } = useQuery({
+    queryKey: ["stock_movements", filters],
+    queryFn: async () => {
+      let query = supabase
+        .from("stock_movements")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(PAGE_SIZE);
+      if (filters.foodName) query = query.eq("food_name", filters.foodName);
+      if (filters.reason) query = query.eq("reason", filters.reason);
+      if (filters.from) query = query.gte("created_at", `${filters.from}T00:00:00`);
+      if (filters.to) query = query.lte("created_at", `${filters.to}T23:59:59.999`);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as StockMovement[];
+    },
+    enabled,
+  });
+
+  // Names for the food filter, independent of the other filters
+  const { data: foodNames = [] } = useQuery({
+    queryKey: ["stock_movements", "food_names"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("stock_movements")
+        .select("food_name")
+        .order("food_name", { ascending: true })
+        .limit(1000);
+      if (error) throw error;
+      return [...new Set((data as { food_name: string }[]).map(d => d.food_name))];
+    },
+    enabled,
+  });
+
+  return { movements, foodNames, isLoading };
+}
@@ -0,0 +1,115 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import type { Store, StoreGroup, StoreItem } from "@/lib/storeLayout";
+
+const onMutationError = (error: Error) => {
+  toast({ title: "Erreur", description: error.message, variant: "destructive" });
+};
+
+export function useStores(options?: { enabled?: boolean }) {
+  const enabled = options?.enabled ?? true;
+  const qc = useQueryClient();
+  const invalidate = () => {
+    qc.invalidateQueries({ queryKey: ["stores"] });
+    qc.invalidateQueries({ queryKey: ["store_groups"] });
+    qc.invalidateQueries({ queryKey: ["store_items"] });
+  };
+
+  const { data: stores = [], isLoading } = useQuery({
+    queryKey: ["stores"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("stores").select("*").order("sort_order", { ascending: true });
+      if (error) throw error;
+      return data as Store[];
+    },
+    enabled,
+  });
+
+  const { data: storeGroups = [] } = useQuery({
+    queryKey: ["store_groups"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("store_groups").select("*");
+      if (error) throw error;
+      return data as StoreGroup[];
+    },
+    enabled,
+  });
+
+  const { data: storeItems = [] } = useQuery({
+    queryKey: ["store_items"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("store_items").select("*");
+      if (error) throw error;
+      return data as StoreItem[];
+    },
+    enabled,
+  });
+
+  const addStore = useMutation({
+    mutationFn: async (name: string) => {
+      const maxOrder = stores.reduce((max, s) => Math.max(max, s.sort_order), -1);
+      const { data, error } = await supabase.from("stores").insert({ name, sort_order: maxOrder + 1 }).select().single();
+      if (error) throw error;
+      return data as Store;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  const renameStore = useMutation({
+    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+      const { error } = await supabase.from("stores").update({ name }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  // Its aisle order and availabilities go with it (cascade)
+  const deleteStore = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("stores").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  /** Aisle order of the groups in a store: position in `groupIds` */
+  const reorderStoreGroups = useMutation({
+    mutationFn: async ({ storeId, groupIds }: { storeId: string; groupIds: string[] }) => {
+      const rows = groupIds.map((group_id, sort_order) => ({ store_id: storeId, group_id, sort_order }));
+      const { error } = await supabase.from("store_groups").upsert(rows, { onConflict: "store_id,group_id" });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  /** Order of a group's items in a store: position in `itemIds` */
+  const reorderStoreItems = useMutation({
+    mutationFn: async ({ storeId, itemIds }: { storeId: string; itemIds: string[] }) => {
+      const rows = itemIds.map((item_id, sort_order) => ({ store_id: storeId, item_id, sort_order }));
+      const { error } = await supabase.from("store_items").upsert(rows, { onConflict: "store_id,item_id" });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  const setItemAvailable = useMutation({
+    mutationFn: async ({ storeId, itemId, available }: { storeId: string; itemId: string; available: boolean }) => {
+      const { error } = await supabase.from("store_items")
+        .upsert({ store_id: storeId, item_id: itemId, available }, { onConflict: "store_id,item_id" });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: onMutationError,
+  });
+
+  return {
+    stores, storeGroups, storeItems, isLoading,
+    addStore, renameStore, deleteStore, reorderStoreGroups, reorderStoreItems, setItemAvailable,
+  };
+}
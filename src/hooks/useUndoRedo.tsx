@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { undoStack, type UndoEntry, type UndoGroup } from "@/lib/undoStack";
+import { withStockReason } from "@/lib/stockMovements";
+
+/** Tables whose rows can be snapshotted, parents before children (insert order) */
+const UNDO_TABLES = ["meals", "possible_meals", "meal_ingredients", "food_items", "shopping_groups", "shopping_items"] as const;
+export type UndoTable = typeof UNDO_TABLES[number];
+
+const QUERY_KEYS: Record<UndoTable, string[]> = {
+  meals: ["meals", "possible_meals"],
+  possible_meals: ["possible_meals"],
+  meal_ingredients: ["meals", "possible_meals"],
+  food_items: ["food_items"],
+  shopping_groups: ["shopping_groups", "shopping_items"],
+  shopping_items: ["shopping_items"],
+};
+
+/** Rows to snapshot: `column` (default id) in `values` */
+export interface RowScope {
+  table: UndoTable;
+  column?: string;
+  values: (string | null | undefined)[];
+}
+
+type Row = { id: string } & Record<string, unknown>;
+type RowSet = Partial<Record<UndoTable, Row[]>>;
+
+export const rowsById = (table: UndoTable, ...ids: (string | null | undefined)[]): RowScope => ({ table, values: ids });
+
+async function captureRows(scopes: RowScope[]): Promise<RowSet> {
+  const set: RowSet = {};
+  for (const scope of scopes) {
+    const values = [...new Set(scope.values.filter((v): v is string => !!v))];
+    if (values.length === 0) continue;
+    const { data, error } = await supabase.from(scope.table).select("*").in((scope.column ?? "id") as "id", values);
+    if (error) throw error;
+    const rows = set[scope.table] ?? [];
+    for (const row of (data ?? []) as unknown as Row[]) {
+      if (!rows.some(r => r.id === row.id)) rows.push(row);
+    }
+    set[scope.table] = rows;
+  }
+  return set;
+}
+
+/**
+ * Bring the database from `current` back to `target`: delete extra rows (children first), then upsert (parents first).
+ * Stock writes are tagged "undo" in the ledger.
+ */
+async function applyRows(target: RowSet, current: RowSet) {
+  for (const table of [...UNDO_TABLES].reverse()) {
+    const keep = new Set((target[table] ?? []).map(r => r.id));
+    const extra = (current[table] ?? []).filter(r => !keep.has(r.id)).map(r => r.id);
+    if (extra.length === 0) continue;
+    const query = supabase.from(table).delete().in("id", extra);
+    const { error } = await (table === "food_items" ? withStockReason(query, "undo") : query);
+    if (error) throw error;
+  }
+  for (const table of UNDO_TABLES) {
+    const rows = target[table];
+    if (!rows?.length) continue;
+    const query = supabase.from(table).upsert(rows as never);
+    const { error } = await (table === "food_items" ? withStockReason(query, "undo") : query);
+    if (error) throw error;
+  }
+}
+
+function invalidateTables(qc: QueryClient, tables: UndoTable[]) {
+  new Set(tables.flatMap(t => QUERY_KEYS[t])).forEach(key => qc.invalidateQueries({ queryKey: [key] }));
+}
+
+const runStep = async (kind: "undo" | "redo", entry?: UndoEntry) => {
+  try {
+    const done = kind === "undo" ? await undoStack.undo(entry) : await undoStack.redo();
+    if (done) toast({ title: kind === "undo" ? `↩️ Annulé : ${done.label}` : `↪️ Rétabli : ${done.label}` });
+  } catch (err) {
+    toast({ title: kind === "undo" ? "Annulation impossible" : "Rétablissement impossible", description: (err as Error)?.message, variant: "destructive" });
+  }
+};
+
+type UndoNotice = { title?: string; description?: string; silent?: boolean };
+
+function toastUndo(entry: UndoEntry, notice?: UndoNotice) {
+  toast({
+    title: notice?.title ?? entry.label,
+    description: notice?.description,
+    action: <ToastAction altText="Annuler" onClick={() => runStep("undo", entry)}>Annuler</ToastAction>,
+  });
+}
+
+/** Push an entry and offer an "Annuler" toast (unless silent or part of `group`) */
+export function recordUndo(entry: UndoEntry, notice?: UndoNotice, group?: UndoGroup | null) {
+  undoStack.push(entry, group);
+  if (!group && !notice?.silent) toastUndo(entry, notice);
+}
+
+/**
+ * Run several undoable operations as one step, with a single "Annuler" toast.
+ * `run` passes its group handle to every operation that belongs to the step.
+ */
+export async function groupUndo<T>(label: string, run: (group: UndoGroup) => Promise<T>, notice?: UndoNotice, parent?: UndoGroup | null): Promise<T> {
+  const previous = undoStack.peek();
+  const result = await undoStack.group(label, run, parent);
+  const entry = undoStack.peek();
+  if (!parent && entry && entry !== previous && !notice?.silent) toastUndo(entry, notice);
+  return result;
+}
+
+/**
+ * Returns withUndo(label, scopes, run): snapshots the scoped rows around `run` and records
+ * an entry restoring them. `created` adds the scopes of rows inserted by `run`; `group` merges the entry into a groupUndo step.
+ */
+export function useUndoable() {
+  const qc = useQueryClient();
+  return useCallback(async <T,>(
+    label: string,
+    scopes: RowScope[],
+    run: () => Promise<T>,
+    options?: { created?: (result: T) => RowScope[]; silent?: boolean; group?: UndoGroup | null },
+  ): Promise<T> => {
+    const before = await captureRows(scopes);
+    const result = await run();
+    const afterScopes = [...scopes, ...(options?.created?.(result) ?? [])];
+    const after = await captureRows(afterScopes);
+    const tables = afterScopes.map(s => s.table);
+    recordUndo({
+      label,
+      undo: async () => { await applyRows(before, after); invalidateTables(qc, tables); },
+      redo: async () => { await applyRows(after, before); invalidateTables(qc, tables); },
+    }, { silent: options?.silent }, options?.group);
+    return result;
+  }, [qc]);
+}
+
+const isTextField = (el: EventTarget | null) =>
+  el instanceof HTMLElement && (el.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(el.tagName));
+
+/** Stack state plus Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) shortcuts outside text fields */
+export function useUndoRedo({ shortcuts = false }: { shortcuts?: boolean } = {}) {
+  const state = useSyncExternalStore(undoStack.subscribe, undoStack.getSnapshot);
+
+  useEffect(() => {
+    if (!shortcuts) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) { e.preventDefault(); runStep("undo"); }
+      else if ((key === "z" && e.shiftKey) || key === "y") { e.preventDefault(); runStep("redo"); }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [shortcuts]);
+
+  return {
+    ...state,
+    undo: () => runStep("undo"),
+    redo: () => runStep("redo"),
+    group: groupUndo,
+  };
+}
@@ -14,14 +14,96 @@ export type Database = {
   }
   public: {
     Tables: {
+      day_types: {
+        Row: {
+          calorie_target: number | null
+          created_at: string
+          days_per_week: number
+          emoji: string | null
+          household_id: string
+          id: string
+          label: string
+          protein_target: number | null
+          required_meal_ids: string[]
+          sort_order: number
+          user_id: string | null
+        }
+        Insert: {
+          calorie_target?: number | null
+          created_at?: string
+          days_per_week?: number
+          emoji?: string | null
+          household_id?: string
+          id?: string
+          label: string
+          protein_target?: number | null
+          required_meal_ids?: string[]
+          sort_order?: number
+          user_id?: string | null
+        }
+        Update: {
+          calorie_target?: number | null
+          created_at?: string
+          days_per_week?: number
+          emoji?: string | null
+          household_id?: string
+          id?: string
+          label?: string
+          protein_target?: number | null
+          required_meal_ids?: string[]
+          sort_order?: number
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      device_pins: {
+        Row: {
+          created_at: string
+          device_id: string
+          id: string
+          iterations: number
+          label: string | null
+          last_used_at: string | null
+          pin_hash: string
+          pin_salt: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          device_id: string
+          id?: string
+          iterations: number
+          label?: string | null
+          last_used_at?: string | null
+          pin_hash: string
+          pin_salt: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          device_id?: string
+          id?: string
+          iterations?: number
+          label?: string | null
+          last_used_at?: string | null
+          pin_hash?: string
+          pin_salt?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       food_items: {
         Row: {
           calories: string | null
+          carbs: number | null
           counter_start_date: string | null
           created_at: string
           expiration_date: string | null
+          fat: number | null
+          fibre: number | null
           food_type: string | null
           grams: string | null
+          household_id: string
           id: string
           is_dry: boolean
           is_indivisible: boolean
@@ -30,17 +112,23 @@ export type Database = {
           name: string
           protein: string | null
           quantity: number | null
+          salt: number | null
           sort_order: number
           storage_type: string
+          sugar: number | null
           user_id: string | null
         }
         Insert: {
           calories?: string | null
+          carbs?: number | null
           counter_start_date?: string | null
           created_at?: string
           expiration_date?: string | null
+          fat?: number | null
+          fibre?: number | null
           food_type?: string | null
           grams?: string | null
+          household_id?: string
           id?: string
           is_dry?: boolean
           is_indivisible?: boolean
@@ -49,17 +137,23 @@ export type Database = {
           name: string
           protein?: string | null
           quantity?: number | null
+          salt?: number | null
           sort_order?: number
           storage_type?: string
+          sugar?: number | null
           user_id?: string | null
         }
         Update: {
           calories?: string | null
+          carbs?: number | null
           counter_start_date?: string | null
           created_at?: string
           expiration_date?: string | null
+          fat?: number | null
+          fibre?: number | null
           food_type?: string | null
           grams?: string | null
+          household_id?: string
           id?: string
           is_dry?: boolean
           is_indivisible?: boolean
@@ -68,8 +162,307 @@ export type Database = {
           name?: string
           protein?: string | null
           quantity?: number | null
+          salt?: number | null
           sort_order?: number
           storage_type?: string
+          sugar?: number | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      household_invites: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          household_id: string
+          role: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          household_id: string
+          role?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          household_id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "household_invites_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      household_members: {
+        Row: {
+          calorie_goal: number
+          color: string | null
+          created_at: string
+          household_id: string
+          id: string
+          name: string
+          portion_ratio: number
+          protein_goal: number
+          sort_order: number
+          user_id: string | null
+        }
+        Insert: {
+          calorie_goal?: number
+          color?: string | null
+          created_at?: string
+          household_id?: string
+          id?: string
+          name: string
+          portion_ratio?: number
+          protein_goal?: number
+          sort_order?: number
+          user_id?: string | null
+        }
+        Update: {
+          calorie_goal?: number
+          color?: string | null
+          created_at?: string
+          household_id?: string
+          id?: string
+          name?: string
+          portion_ratio?: number
+          protein_goal?: number
+          sort_order?: number
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      household_memberships: {
+        Row: {
+          created_at: string
+          household_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          household_id: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          household_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "household_memberships_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      households: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      kitchen_timers: {
+        Row: {
+          accumulated_ms: number
+          created_at: string
+          duration_seconds: number | null
+          household_id: string
+          id: string
+          kind: string
+          meal_id: string | null
+          name: string
+          running: boolean
+          started_at: string | null
+          step_index: number | null
+          user_id: string | null
+        }
+        Insert: {
+          accumulated_ms?: number
+          created_at?: string
+          duration_seconds?: number | null
+          household_id?: string
+          id?: string
+          kind?: string
+          meal_id?: string | null
+          name: string
+          running?: boolean
+          started_at?: string | null
+          step_index?: number | null
+          user_id?: string | null
+        }
+        Update: {
+          accumulated_ms?: number
+          created_at?: string
+          duration_seconds?: number | null
+          household_id?: string
+          id?: string
+          kind?: string
+          meal_id?: string | null
+          name?: string
+          running?: boolean
+          started_at?: string | null
+          step_index?: number | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kitchen_timers_meal_id_fkey"
+            columns: ["meal_id"]
+            isOneToOne: false
+            referencedRelation: "meals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meal_ingredients: {
+        Row: {
+          alt_index: number
+          carbs_per_100g: number | null
+          count: number | null
+          created_at: string
+          fat_per_100g: number | null
+          fibre_per_100g: number | null
+          group_index: number
+          household_id: string
+          id: string
+          kcal_per_100g: number | null
+          meal_id: string | null
+          name: string
+          optional: boolean
+          possible_meal_id: string | null
+          protein_per_100g: number | null
+          qty: number | null
+          salt_per_100g: number | null
+          sugar_per_100g: number | null
+          unit: string | null
+          user_id: string | null
+        }
+        Insert: {
+          alt_index?: number
+          carbs_per_100g?: number | null
+          count?: number | null
+          created_at?: string
+          fat_per_100g?: number | null
+          fibre_per_100g?: number | null
+          group_index: number
+          household_id?: string
+          id?: string
+          kcal_per_100g?: number | null
+          meal_id?: string | null
+          name: string
+          optional?: boolean
+          possible_meal_id?: string | null
+          protein_per_100g?: number | null
+          qty?: number | null
+          salt_per_100g?: number | null
+          sugar_per_100g?: number | null
+          unit?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          alt_index?: number
+          carbs_per_100g?: number | null
+          count?: number | null
+          created_at?: string
+          fat_per_100g?: number | null
+          fibre_per_100g?: number | null
+          group_index?: number
+          household_id?: string
+          id?: string
+          kcal_per_100g?: number | null
+          meal_id?: string | null
+          name?: string
+          optional?: boolean
+          possible_meal_id?: string | null
+          protein_per_100g?: number | null
+          qty?: number | null
+          salt_per_100g?: number | null
+          sugar_per_100g?: number | null
+          unit?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meal_ingredients_meal_id_fkey"
+            columns: ["meal_id"]
+            isOneToOne: false
+            referencedRelation: "meals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meal_ingredients_possible_meal_id_fkey"
+            columns: ["possible_meal_id"]
+            isOneToOne: false
+            referencedRelation: "possible_meals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meal_slots: {
+        Row: {
+          calorie_target: number | null
+          created_at: string
+          default_category: string | null
+          emoji: string | null
+          household_id: string
+          id: string
+          key: string
+          label: string
+          sort_order: number
+          user_id: string | null
+        }
+        Insert: {
+          calorie_target?: number | null
+          created_at?: string
+          default_category?: string | null
+          emoji?: string | null
+          household_id?: string
+          id?: string
+          key: string
+          label: string
+          sort_order?: number
+          user_id?: string | null
+        }
+        Update: {
+          calorie_target?: number | null
+          created_at?: string
+          default_category?: string | null
+          emoji?: string | null
+          household_id?: string
+          id?: string
+          key?: string
+          label?: string
+          sort_order?: number
           user_id?: string | null
         }
         Relationships: []
@@ -77,10 +470,15 @@ export type Database = {
       meals: {
         Row: {
           calories: string | null
+          carbs: number | null
           category: string
           color: string
+          cook_minutes: number | null
           created_at: string
+          fat: number | null
+          fibre: number | null
           grams: string | null
+          household_id: string
           id: string
           ingredients: string | null
           is_available: boolean
@@ -88,16 +486,28 @@ export type Database = {
           name: string
           oven_minutes: string | null
           oven_temp: string | null
+          prep_minutes: number | null
           protein: string | null
+          rest_minutes: number | null
+          salt: number | null
           sort_order: number
+          steps: Json
+          sugar: number | null
           user_id: string | null
+          yield_grams: number | null
+          yield_servings: number | null
         }
         Insert: {
           calories?: string | null
+          carbs?: number | null
           category?: string
           color?: string
+          cook_minutes?: number | null
           created_at?: string
+          fat?: number | null
+          fibre?: number | null
           grams?: string | null
+          household_id?: string
           id?: string
           ingredients?: string | null
           is_available?: boolean
@@ -105,16 +515,28 @@ export type Database = {
           name: string
           oven_minutes?: string | null
           oven_temp?: string | null
+          prep_minutes?: number | null
           protein?: string | null
+          rest_minutes?: number | null
+          salt?: number | null
           sort_order?: number
+          steps?: Json
+          sugar?: number | null
           user_id?: string | null
+          yield_grams?: number | null
+          yield_servings?: number | null
         }
         Update: {
           calories?: string | null
+          carbs?: number | null
           category?: string
           color?: string
+          cook_minutes?: number | null
           created_at?: string
+          fat?: number | null
+          fibre?: number | null
           grams?: string | null
+          household_id?: string
           id?: string
           ingredients?: string | null
           is_available?: boolean
@@ -122,9 +544,55 @@ export type Database = {
           name?: string
           oven_minutes?: string | null
           oven_temp?: string | null
+          prep_minutes?: number | null
           protein?: string | null
+          rest_minutes?: number | null
+          salt?: number | null
           sort_order?: number
+          steps?: Json
+          sugar?: number | null
           user_id?: string | null
+          yield_grams?: number | null
+          yield_servings?: number | null
+        }
+        Relationships: []
+      }
+      passkeys: {
+        Row: {
+          counter: number
+          created_at: string
+          credential_id: string
+          device_id: string | null
+          id: string
+          label: string | null
+          last_used_at: string | null
+          public_key: string
+          transports: string[] | null
+          user_id: string
+        }
+        Insert: {
+          counter?: number
+          created_at?: string
+          credential_id: string
+          device_id?: string | null
+          id?: string
+          label?: string | null
+          last_used_at?: string | null
+          public_key: string
+          transports?: string[] | null
+          user_id: string
+        }
+        Update: {
+          counter?: number
+          created_at?: string
+          credential_id?: string
+          device_id?: string | null
+          id?: string
+          label?: string | null
+          last_used_at?: string | null
+          public_key?: string
+          transports?: string[] | null
+          user_id?: string
         }
         Relationships: []
       }
@@ -170,11 +638,14 @@ export type Database = {
           created_at: string
           day_of_week: string | null
           expiration_date: string | null
+          household_id: string
           id: string
           ingredients_override: string | null
           meal_id: string
           meal_time: string | null
+          planned_date: string | null
           quantity: number
+          servings: number | null
           sort_order: number
           user_id: string | null
         }
@@ -183,11 +654,14 @@ export type Database = {
           created_at?: string
           day_of_week?: string | null
           expiration_date?: string | null
+          household_id?: string
           id?: string
           ingredients_override?: string | null
           meal_id: string
           meal_time?: string | null
+          planned_date?: string | null
           quantity?: number
+          servings?: number | null
           sort_order?: number
           user_id?: string | null
         }
@@ -196,11 +670,14 @@ export type Database = {
           created_at?: string
           day_of_week?: string | null
           expiration_date?: string | null
+          household_id?: string
           id?: string
           ingredients_override?: string | null
           meal_id?: string
           meal_time?: string | null
+          planned_date?: string | null
           quantity?: number
+          servings?: number | null
           sort_order?: number
           user_id?: string | null
         }
@@ -214,9 +691,153 @@ export type Database = {
           },
         ]
       }
+      price_history: {
+        Row: {
+          bought_on: string
+          content_quantity: string | null
+          content_quantity_type: string | null
+          created_at: string
+          household_id: string
+          id: string
+          name: string
+          price: number
+          store: string | null
+          user_id: string | null
+        }
+        Insert: {
+          bought_on?: string
+          content_quantity?: string | null
+          content_quantity_type?: string | null
+          created_at?: string
+          household_id?: string
+          id?: string
+          name: string
+          price: number
+          store?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          bought_on?: string
+          content_quantity?: string | null
+          content_quantity_type?: string | null
+          created_at?: string
+          household_id?: string
+          id?: string
+          name?: string
+          price?: number
+          store?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      product_catalog: {
+        Row: {
+          brand: string | null
+          carbs: number | null
+          created_at: string
+          ean: string
+          fat: number | null
+          fibre: number | null
+          household_id: string
+          id: string
+          kcal: number | null
+          name: string
+          net_grams: number | null
+          protein: number | null
+          salt: number | null
+          storage_type: string | null
+          sugar: number | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          brand?: string | null
+          carbs?: number | null
+          created_at?: string
+          ean: string
+          fat?: number | null
+          fibre?: number | null
+          household_id?: string
+          id?: string
+          kcal?: number | null
+          name: string
+          net_grams?: number | null
+          protein?: number | null
+          salt?: number | null
+          storage_type?: string | null
+          sugar?: number | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          brand?: string | null
+          carbs?: number | null
+          created_at?: string
+          ean?: string
+          fat?: number | null
+          fibre?: number | null
+          household_id?: string
+          id?: string
+          kcal?: number | null
+          name?: string
+          net_grams?: number | null
+          protein?: number | null
+          salt?: number | null
+          storage_type?: string | null
+          sugar?: number | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          active_household_id: string | null
+          created_at: string
+          display_name: string | null
+          user_id: string
+        }
+        Insert: {
+          active_household_id?: string | null
+          created_at?: string
+          display_name?: string | null
+          user_id: string
+        }
+        Update: {
+          active_household_id?: string | null
+          created_at?: string
+          display_name?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_active_household_id_fkey"
+            columns: ["active_household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      security_admins: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       shopping_groups: {
         Row: {
           created_at: string
+          household_id: string
           id: string
           name: string
           sort_order: number
@@ -224,6 +845,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          household_id?: string
           id?: string
           name: string
           sort_order?: number
@@ -231,6 +853,7 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          household_id?: string
           id?: string
           name?: string
           sort_order?: number
@@ -246,6 +869,7 @@ export type Database = {
           content_quantity_type: string | null
           created_at: string
           group_id: string | null
+          household_id: string
           id: string
           name: string
           quantity: string | null
@@ -260,6 +884,7 @@ export type Database = {
           content_quantity_type?: string | null
           created_at?: string
           group_id?: string | null
+          household_id?: string
           id?: string
           name: string
           quantity?: string | null
@@ -274,6 +899,7 @@ export type Database = {
           content_quantity_type?: string | null
           created_at?: string
           group_id?: string | null
+          household_id?: string
           id?: string
           name?: string
           quantity?: string | null
@@ -291,9 +917,229 @@ export type Database = {
           },
         ]
       }
+      stock_deductions: {
+        Row: {
+          created_at: string
+          household_id: string
+          id: string
+          meal_id: string | null
+          possible_meal_id: string | null
+          report: Json
+          snapshot: Json
+          undone_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          household_id?: string
+          id?: string
+          meal_id?: string | null
+          possible_meal_id?: string | null
+          report?: Json
+          snapshot?: Json
+          undone_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          household_id?: string
+          id?: string
+          meal_id?: string | null
+          possible_meal_id?: string | null
+          report?: Json
+          snapshot?: Json
+          undone_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_deductions_meal_id_fkey"
+            columns: ["meal_id"]
+            isOneToOne: false
+            referencedRelation: "meals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_deductions_possible_meal_id_fkey"
+            columns: ["possible_meal_id"]
+            isOneToOne: false
+            referencedRelation: "possible_meals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          created_at: string
+          food_item_id: string
+          food_name: string
+          grams_after: string | null
+          grams_before: string | null
+          grams_delta: number
+          household_id: string
+          id: string
+          meal_id: string | null
+          possible_meal_id: string | null
+          quantity_after: number | null
+          quantity_before: number | null
+          quantity_delta: number
+          reason: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          food_item_id: string
+          food_name: string
+          grams_after?: string | null
+          grams_before?: string | null
+          grams_delta?: number
+          household_id?: string
+          id?: string
+          meal_id?: string | null
+          possible_meal_id?: string | null
+          quantity_after?: number | null
+          quantity_before?: number | null
+          quantity_delta?: number
+          reason: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          food_item_id?: string
+          food_name?: string
+          grams_after?: string | null
+          grams_before?: string | null
+          grams_delta?: number
+          household_id?: string
+          id?: string
+          meal_id?: string | null
+          possible_meal_id?: string | null
+          quantity_after?: number | null
+          quantity_before?: number | null
+          quantity_delta?: number
+          reason?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      store_groups: {
+        Row: {
+          group_id: string
+          household_id: string
+          id: string
+          sort_order: number
+          store_id: string
+          user_id: string | null
+        }
+        Insert: {
+          group_id: string
+          household_id?: string
+          id?: string
+          sort_order?: number
+          store_id: string
+          user_id?: string | null
+        }
+        Update: {
+          group_id?: string
+          household_id?: string
+          id?: string
+          sort_order?: number
+          store_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "store_groups_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "shopping_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "store_groups_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      store_items: {
+        Row: {
+          available: boolean
+          household_id: string
+          id: string
+          item_id: string
+          sort_order: number | null
+          store_id: string
+          user_id: string | null
+        }
+        Insert: {
+          available?: boolean
+          household_id?: string
+          id?: string
+          item_id: string
+          sort_order?: number | null
+          store_id: string
+          user_id?: string | null
+        }
+        Update: {
+          available?: boolean
+          household_id?: string
+          id?: string
+          item_id?: string
+          sort_order?: number | null
+          store_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "store_items_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "shopping_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "store_items_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stores: {
+        Row: {
+          created_at: string
+          household_id: string
+          id: string
+          name: string
+          sort_order: number
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          household_id?: string
+          id?: string
+          name: string
+          sort_order?: number
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          household_id?: string
+          id?: string
+          name?: string
+          sort_order?: number
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       user_preferences: {
         Row: {
           created_at: string
+          household_id: string
           id: string
           key: string
           updated_at: string
@@ -302,6 +1148,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          household_id?: string
           id?: string
           key: string
           updated_at?: string
@@ -310,6 +1157,7 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          household_id?: string
           id?: string
           key?: string
           updated_at?: string
@@ -323,7 +1171,137 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_stock_needs: {
+        Args: { p_needs: Json }
+        Returns: Json
+      }
+      checkout_shopping: {
+        Args: { p_item_ids: string[]; p_lines: Json }
+        Returns: string[]
+      }
+      create_household: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      create_household_invite: {
+        Args: { p_role?: string }
+        Returns: string
+      }
+      current_household_id: {
+        Args: never
+        Returns: string
+      }
+      encode_stock_grams: {
+        Args: { partial: number; unit: number }
+        Returns: string
+      }
+      format_stock_number: {
+        Args: { n: number }
+        Returns: string
+      }
+      household_role: {
+        Args: { p_household_id: string }
+        Returns: string
+      }
+      is_household_member: {
+        Args: { p_household_id: string }
+        Returns: boolean
+      }
+      join_household: {
+        Args: { p_code: string }
+        Returns: string
+      }
+      leave_household: {
+        Args: { p_household_id: string }
+        Returns: undefined
+      }
+      move_meal_to_possible: {
+        Args: {
+          p_counter_start_date?: string
+          p_expiration_date?: string
+          p_meal_id: string
+          p_needs: Json
+          p_new_meal?: Json
+          p_override_rows?: Json
+          p_quantity?: number
+          p_servings?: number
+        }
+        Returns: Json
+      }
+      parse_ingredient_string: {
+        Args: { raw: string }
+        Returns: {
+          alt_index: number
+          count: number
+          group_index: number
+          kcal_per_100g: number
+          name: string
+          optional: boolean
+          qty: number
+          unit: string
+        }[]
+      }
+      parse_ingredient_token: {
+        Args: { token: string }
+        Returns: {
+          count: number
+          kcal_per_100g: number
+          name: string
+          optional: boolean
+          qty: number
+          unit: string
+        }[]
+      }
+      replace_meal_ingredients: {
+        Args: { p_meal_id: string; p_possible_meal_id: string; p_rows: Json }
+        Returns: undefined
+      }
+      restore_backup: {
+        Args: { p_mode: string; p_tables: Json }
+        Returns: undefined
+      }
+      restore_stock_movements: {
+        Args: { p_replace: boolean; p_rows: Json }
+        Returns: undefined
+      }
+      set_stock_context: {
+        Args: {
+          p_meal_id?: string
+          p_possible_meal_id?: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      stock_partial_grams: {
+        Args: { grams: string }
+        Returns: number
+      }
+      stock_total_grams: {
+        Args: { grams: string; quantity: number }
+        Returns: number
+      }
+      stock_unit_grams: {
+        Args: { grams: string }
+        Returns: number
+      }
+      switch_household: {
+        Args: { p_household_id: string }
+        Returns: undefined
+      }
+      undo_stock_deduction: {
+        Args: { p_deduction_id: string }
+        Returns: undefined
+      }
+      update_possible_ingredients_with_stock: {
+        Args: {
+          p_needs: Json
+          p_possible_meal_id: string
+          p_rows: Json
+          p_servings?: number
+          p_update_servings?: boolean
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,386 @@
+/**
+ * Full backup of the active household: every data table as JSON, versioned. Restoring gives every row a
+ * new id and follows it through the foreign keys (possible_meals → meals, shopping_items → groups…) and
+ * the ids stored inside JSON values (preferences, stock snapshots), so a backup can go into any household.
+ * Merge keeps what is already there and only adds what is missing; replace empties the tables first.
+ * Accounts, devices and security data are not part of it.
+ */
+import type { Tables } from "@/integrations/supabase/types";
+
+export const BACKUP_FORMAT = "mealscards-backup";
+export const BACKUP_VERSION = 1;
+
+/** Parents before children: restoring inserts in this order, replacing deletes in reverse */
+export const BACKUP_TABLES = [
+  "meals", "food_items", "shopping_groups", "stores", "household_members", "meal_slots", "day_types",
+  "user_preferences", "product_catalog", "price_history", "possible_meals", "meal_ingredients", "shopping_items",
+  "store_groups", "store_items", "kitchen_timers", "stock_deductions", "stock_movements",
+] as const;
+
+export type BackupTable = typeof BACKUP_TABLES[number];
+
+export const BACKUP_TABLE_LABELS: Record<BackupTable, string> = {
+  meals: "Repas",
+  food_items: "Aliments",
+  shopping_groups: "Groupes de courses",
+  stores: "Magasins",
+  household_members: "Membres du foyer",
+  meal_slots: "Créneaux",
+  day_types: "Types de jour",
+  user_preferences: "Préférences",
+  product_catalog: "Produits scannés",
+  price_history: "Historique des prix",
+  possible_meals: "Planning et repas possibles",
+  meal_ingredients: "Ingrédients",
+  shopping_items: "Articles de courses",
+  store_groups: "Rayons par magasin",
+  store_items: "Articles par magasin",
+  kitchen_timers: "Minuteurs",
+  stock_deductions: "Déductions de stock",
+  stock_movements: "Mouvements de stock",
+};
+
+type ColumnType = "string" | "string?" | "number" | "number?" | "boolean" | "boolean?" | "json" | "string[]";
+
+export type BackupRow = Record<string, unknown>;
+
+interface TableSpec<T extends BackupTable> {
+  /** Every column but household_id and user_id, which the database fills for the active household */
+  columns: Record<Exclude<keyof Tables<T>, "household_id" | "user_id">, ColumnType>;
+  required: string[];
+  /** Foreign keys (or arrays of them) → referenced table */
+  refs?: Record<string, BackupTable>;
+  /** Logs: references to rows gone since are kept as they are */
+  looseRefs?: boolean;
+  requireOneOf?: string[];
+  /** Identifies a row that is already there when merging, on ids already remapped */
+  key: (row: BackupRow) => string;
+}
+
+const key = (...columns: string[]) => (row: BackupRow) =>
+  columns.map((c) => String(row[c] ?? "").trim().toLowerCase()).join("|");
+
+const SCHEMA: { [T in BackupTable]: TableSpec<T> } = {
+  meals: {
+    columns: {
+      calories: "string?", carbs: "number?", category: "string", color: "string", cook_minutes: "number?",
+      created_at: "string", fat: "number?", fibre: "number?", grams: "string?", id: "string", ingredients: "string?",
+      is_available: "boolean", is_favorite: "boolean", name: "string", oven_minutes: "string?", oven_temp: "string?",
+      prep_minutes: "number?", protein: "string?", rest_minutes: "number?", salt: "number?", sort_order: "number",
+      steps: "json", sugar: "number?", yield_grams: "number?", yield_servings: "number?",
+    },
+    required: ["name"],
+    key: key("name", "category"),
+  },
+  food_items: {
+    columns: {
+      calories: "string?", carbs: "number?", counter_start_date: "string?", created_at: "string",
+      expiration_date: "string?", fat: "number?", fibre: "number?", food_type: "string?", grams: "string?",
+      id: "string", is_dry: "boolean", is_indivisible: "boolean", is_infinite: "boolean", is_meal: "boolean",
+      name: "string", protein: "string?", quantity: "number?", salt: "number?", sort_order: "number",
+      storage_type: "string", sugar: "number?",
+    },
+    required: ["name"],
+    key: key("name", "storage_type"),
+  },
+  shopping_groups: {
+    columns: {
+      created_at: "string", id: "string", name: "string", sort_order: "number",
+    },
+    required: ["name"],
+    key: key("name"),
+  },
+  stores: {
+    columns: {
+      created_at: "string", id: "string", name: "string", sort_order: "number",
+    },
+    required: ["name"],
+    key: key("name"),
+  },
+  household_members: {
+    columns: {
+      calorie_goal: "number", color: "string?", created_at: "string", id: "string", name: "string",
+      portion_ratio: "number", protein_goal: "number", sort_order: "number",
+    },
+    required: ["name"],
+    key: key("name"),
+  },
+  meal_slots: {
+    columns: {
+      calorie_target: "number?", created_at: "string", default_category: "string?", emoji: "string?", id: "string",
+      key: "string", label: "string", sort_order: "number",
+    },
+    required: ["key", "label"],
+    key: key("key"),
+  },
+  day_types: {
+    columns: {
+      calorie_target: "number?", created_at: "string", days_per_week: "number", emoji: "string?", id: "string",
+      label: "string", protein_target: "number?", required_meal_ids: "string[]", sort_order: "number",
+    },
+    required: ["label"],
+    refs: { required_meal_ids: "meals" },
+    key: key("label"),
+  },
+  user_preferences: {
+    columns: {
+      created_at: "string", id: "string", key: "string", updated_at: "string", value: "json",
+    },
+    required: ["key"],
+    key: key("key"),
+  },
+  product_catalog: {
+    columns: {
+      brand: "string?", carbs: "number?", created_at: "string", ean: "string", fat: "number?", fibre: "number?",
+      id: "string", kcal: "number?", name: "string", net_grams: "number?", protein: "number?", salt: "number?",
+      storage_type: "string?", sugar: "number?", updated_at: "string",
+    },
+    required: ["ean", "name"],
+    key: key("ean"),
+  },
+  price_history: {
+    columns: {
+      bought_on: "string", content_quantity: "string?", content_quantity_type: "string?", created_at: "string",
+      id: "string", name: "string", price: "number", store: "string?",
+    },
+    required: ["name", "price", "bought_on"],
+    key: key("name", "bought_on", "store", "price"),
+  },
+  possible_meals: {
+    columns: {
+      counter_start_date: "string?", created_at: "string", day_of_week: "string?", expiration_date: "string?",
+      id: "string", ingredients_override: "string?", meal_id: "string", meal_time: "string?",
+      planned_date: "string?", quantity: "number", servings: "number?", sort_order: "number",
+    },
+    required: ["meal_id"],
+    refs: { meal_id: "meals" },
+    key: key("meal_id", "planned_date", "meal_time", "day_of_week", "sort_order"),
+  },
+  meal_ingredients: {
+    columns: {
+      alt_index: "number", carbs_per_100g: "number?", count: "number?", created_at: "string",
+      fat_per_100g: "number?", fibre_per_100g: "number?", group_index: "number", id: "string",
+      kcal_per_100g: "number?", meal_id: "string?", name: "string", optional: "boolean", possible_meal_id: "string?",
+      protein_per_100g: "number?", qty: "number?", salt_per_100g: "number?", sugar_per_100g: "number?",
+      unit: "string?",
+    },
+    required: ["name"],
+    refs: { meal_id: "meals", possible_meal_id: "possible_meals" },
+    requireOneOf: ["meal_id", "possible_meal_id"],
+    key: key("meal_id", "possible_meal_id", "group_index", "alt_index", "name"),
+  },
+  shopping_items: {
+    columns: {
+      brand: "string?", checked: "boolean", content_quantity: "string?", content_quantity_type: "string?",
+      created_at: "string", group_id: "string?", id: "string", name: "string", quantity: "string?",
+      secondary_checked: "boolean", sort_order: "number",
+    },
+    required: ["name"],
+    refs: { group_id: "shopping_groups" },
+    key: key("group_id", "name"),
+  },
+  store_groups: {
+    columns: {
+      group_id: "string", id: "string", sort_order: "number", store_id: "string",
+    },
+    required: ["store_id", "group_id"],
+    refs: { store_id: "stores", group_id: "shopping_groups" },
+    key: key("store_id", "group_id"),
+  },
+  store_items: {
+    columns: {
+      available: "boolean", id: "string", item_id: "string", sort_order: "number?", store_id: "string",
+    },
+    required: ["store_id", "item_id"],
+    refs: { store_id: "stores", item_id: "shopping_items" },
+    key: key("store_id", "item_id"),
+  },
+  kitchen_timers: {
+    columns: {
+      accumulated_ms: "number", created_at: "string", duration_seconds: "number?", id: "string", kind: "string",
+      meal_id: "string?", name: "string", running: "boolean", started_at: "string?", step_index: "number?",
+    },
+    required: ["name"],
+    refs: { meal_id: "meals" },
+    key: key("name", "kind"),
+  },
+  stock_deductions: {
+    columns: {
+      created_at: "string", id: "string", meal_id: "string?", possible_meal_id: "string?", report: "json",
+      snapshot: "json", undone_at: "string?",
+    },
+    required: [],
+    refs: { meal_id: "meals", possible_meal_id: "possible_meals" },
+    key: key("created_at"),
+  },
+  stock_movements: {
+    columns: {
+      created_at: "string", food_item_id: "string", food_name: "string", grams_after: "string?",
+      grams_before: "string?", grams_delta: "number", id: "string", meal_id: "string?", possible_meal_id: "string?",
+      quantity_after: "number?", quantity_before: "number?", quantity_delta: "number", reason: "string",
+    },
+    required: ["food_item_id", "food_name"],
+    refs: { food_item_id: "food_items", meal_id: "meals", possible_meal_id: "possible_meals" },
+    looseRefs: true,
+    key: key("created_at", "food_name", "reason"),
+  },};
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  tables: Partial<Record<BackupTable, BackupRow[]>>;
+}
+
+export function buildBackup(tables: Partial<Record<BackupTable, BackupRow[]>>, now = new Date()): Backup {
+  const out: Backup["tables"] = {};
+  for (const table of BACKUP_TABLES) {
+    const columns = Object.keys(SCHEMA[table].columns);
+    out[table] = (tables[table] ?? []).map((row) => Object.fromEntries(columns.filter((c) => c in row).map((c) => [c, row[c]])));
+  }
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exported_at: now.toISOString(), tables: out };
+}
+
+/** Checks the envelope; rows are checked one by one when planning */
+export function parseBackup(text: string): Backup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Fichier JSON illisible");
+  }
+  const backup = data as Partial<Backup> | null;
+  if (!backup || typeof backup !== "object" || backup.format !== BACKUP_FORMAT) throw new Error("Ce fichier n'est pas une sauvegarde");
+  if (typeof backup.version !== "number" || backup.version > BACKUP_VERSION) throw new Error("Sauvegarde d'une version plus récente de l'app");
+  if (!backup.tables || typeof backup.tables !== "object") throw new Error("Sauvegarde sans données");
+  for (const [table, rows] of Object.entries(backup.tables)) {
+    if (!Array.isArray(rows)) throw new Error(`Table ${table} invalide`);
+  }
+  return backup as Backup;
+}
+
+const matchesType = (value: unknown, type: ColumnType) => {
+  if (type === "json") return value !== undefined;
+  if (value === null) return type.endsWith("?");
+  if (type === "string[]") return Array.isArray(value) && value.every((v) => typeof v === "string");
+  return typeof value === type.replace("?", "");
+};
+
+/** Known columns with the right types, or null */
+function cleanRow(table: BackupTable, row: unknown): BackupRow | null {
+  if (!row || typeof row !== "object" || Array.isArray(row)) return null;
+  const spec = SCHEMA[table];
+  const source = row as BackupRow;
+  if (typeof source.id !== "string" || !source.id) return null;
+  const clean: BackupRow = {};
+  for (const [column, type] of Object.entries(spec.columns) as [string, ColumnType][]) {
+    if (!(column in source)) continue;
+    if (!matchesType(source[column], type)) return null;
+    clean[column] = source[column];
+  }
+  return spec.required.every((c) => clean[c] != null && clean[c] !== "") ? clean : null;
+}
+
+/** Swaps ids for their new ones anywhere in a JSON value, keys included */
+function remapJson(value: unknown, ids: Map<string, string>): unknown {
+  if (typeof value === "string") return ids.get(value) ?? value;
+  if (Array.isArray(value)) return value.map((v) => remapJson(v, ids));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [ids.get(k) ?? k, remapJson(v, ids)]));
+  }
+  return value;
+}
+
+export type RestoreMode = "merge" | "replace";
+
+export interface TableReport {
+  table: BackupTable;
+  /** Rows in the backup */
+  total: number;
+  added: number;
+  /** Merge: already there, left as they are */
+  kept: number;
+  invalid: number;
+  /** Replace: current rows removed first */
+  removed: number;
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  inserts: Record<BackupTable, BackupRow[]>;
+  report: TableReport[];
+  warnings: string[];
+}
+
+/**
+ * What restoring would do, without writing anything: the rows to insert with their new ids,
+ * and per table how many are added, kept, invalid or removed.
+ */
+export function planRestore(
+  backup: Backup,
+  current: Partial<Record<BackupTable, BackupRow[]>>,
+  mode: RestoreMode,
+  newId: () => string = () => crypto.randomUUID(),
+): RestorePlan {
+  const ids = new Map<string, string>();
+  const inserts = {} as Record<BackupTable, BackupRow[]>;
+  const report: TableReport[] = [];
+  const warnings: string[] = [];
+
+  const unknown = Object.keys(backup.tables).filter((t) => !(BACKUP_TABLES as readonly string[]).includes(t));
+  if (unknown.length > 0) warnings.push(`Tables inconnues ignorées : ${unknown.join(", ")}`);
+
+  for (const table of BACKUP_TABLES) {
+    const spec: TableSpec<BackupTable> = SCHEMA[table];
+    const rows = backup.tables[table] ?? [];
+    const existing = current[table] ?? [];
+    const existingIds = new Map(mode === "merge" ? existing.map((row) => [spec.key(row), row.id as string]) : []);
+    const entry: TableReport = { table, total: rows.length, added: 0, kept: 0, invalid: 0, removed: mode === "replace" ? existing.length : 0 };
+    inserts[table] = [];
+
+    for (const raw of rows) {
+      const row = cleanRow(table, raw);
+      let broken = !row;
+      if (row) {
+        for (const column of Object.keys(spec.refs ?? {})) {
+          const value = row[column];
+          if (Array.isArray(value)) {
+            row[column] = value.map((id) => ids.get(id) ?? (spec.looseRefs ? id : null)).filter((id) => id !== null);
+          } else if (typeof value === "string") {
+            const mapped = ids.get(value) ?? (spec.looseRefs ? value : null);
+            if (mapped === null && spec.required.includes(column)) broken = true;
+            row[column] = mapped;
+          }
+        }
+        if (spec.requireOneOf && spec.requireOneOf.every((c) => row[c] == null)) broken = true;
+      }
+      if (!row || broken) { entry.invalid++; continue; }
+
+      const match = existingIds.get(spec.key(row));
+      if (match) {
+        ids.set(row.id as string, match);
+        entry.kept++;
+        continue;
+      }
+      const id = newId();
+      ids.set(row.id as string, id);
+      inserts[table].push({ ...row, id });
+      entry.added++;
+    }
+    if (entry.invalid > 0) warnings.push(`${BACKUP_TABLE_LABELS[table]} : ${entry.invalid} ligne${entry.invalid > 1 ? "s" : ""} invalide${entry.invalid > 1 ? "s" : ""} ignorée${entry.invalid > 1 ? "s" : ""}`);
+    report.push(entry);
+  }
+
+  // Every new id is known now: JSON values may point at any table
+  for (const table of BACKUP_TABLES) {
+    const jsonColumns = Object.entries(SCHEMA[table].columns).filter(([, type]) => type === "json").map(([c]) => c);
+    if (jsonColumns.length === 0) continue;
+    inserts[table] = inserts[table].map((row) => {
+      const next = { ...row };
+      for (const c of jsonColumns) if (c in next) next[c] = remapJson(next[c], ids);
+      return next;
+    });
+  }
+
+  return { mode, inserts, report, warnings };
+}
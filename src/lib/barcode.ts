@@ -0,0 +1,22 @@
+/**
+ * EAN-13 helpers for the product catalog (product_catalog.ean).
+ * Typed codes may contain spaces or dashes; UPC-A (12 digits) is read as an EAN-13 with a leading 0.
+ */
+
+/** Check digit of the first 12 digits: weights 1,3,1,3… from the left */
+export function ean13CheckDigit(first12: string): number {
+  const sum = [...first12].reduce((s, d, i) => s + Number(d) * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidEan13(code: string): boolean {
+  return /^\d{13}$/.test(code) && ean13CheckDigit(code.slice(0, 12)) === Number(code[12]);
+}
+
+/** Clean a typed or scanned code into a valid EAN-13, or null */
+export function normalizeBarcode(raw: string | null | undefined): string | null {
+  const digits = (raw ?? "").replace(/[\s-]/g, "");
+  if (!/^\d+$/.test(digits)) return null;
+  const code = digits.length === 12 ? `0${digits}` : digits;
+  return isValidEan13(code) ? code : null;
+}
@@ -0,0 +1,61 @@
+/**
+ * Day types (day_types table): recurring kinds of days with their own goals and required meals.
+ * The planning assigns a type to a date through the planning_day_types preference,
+ * keyed by date or by weekday when it repeats every week.
+ */
+
+import { getDayValue } from "@/lib/planningDates";
+
+export interface DayType {
+  id: string;
+  label: string;
+  emoji: string | null;
+  sort_order: number;
+  /** Daily goals on these days; null = the planning's usual goal */
+  calorie_target: number | null;
+  protein_target: number | null;
+  /** Number of such days in a week, for the menu generator */
+  days_per_week: number;
+  /** Plats required once per day of this type */
+  required_meal_ids: string[];
+  created_at: string;
+}
+
+/** Type of a date, from the planning_day_types map */
+export function dayTypeOf(types: DayType[], assignments: Record<string, string>, dateKey: string): DayType | null {
+  const id = getDayValue(assignments, dateKey);
+  return (id && types.find(t => t.id === id)) || null;
+}
+
+/** Daily goals of a date: its type's targets, otherwise the usual ones */
+export function dayGoals(type: DayType | null, usual: { kcal: number; protein: number }): { kcal: number; protein: number } {
+  return { kcal: type?.calorie_target ?? usual.kcal, protein: type?.protein_target ?? usual.protein };
+}
+
+/** Average daily goals over a week of typed days; untyped days keep the usual goals */
+export function averageWeekGoals(types: DayType[], usual: { kcal: number; protein: number }): { kcal: number; protein: number } {
+  let kcal = 0, protein = 0, days = 0;
+  for (const t of types) {
+    const n = Math.min(t.days_per_week, 7 - days);
+    if (n <= 0) continue;
+    const goals = dayGoals(t, usual);
+    kcal += goals.kcal * n;
+    protein += goals.protein * n;
+    days += n;
+  }
+  kcal += usual.kcal * (7 - days);
+  protein += usual.protein * (7 - days);
+  return { kcal: kcal / 7, protein: protein / 7 };
+}
+
+/** Meals required in a week's menu: each type's meals times its days per week */
+export function requiredWeekMeals(types: DayType[], mealIds: string[]): Record<string, number> {
+  const required: Record<string, number> = {};
+  for (const t of types) {
+    if (t.days_per_week <= 0) continue;
+    for (const id of t.required_meal_ids) {
+      if (mealIds.includes(id)) required[id] = (required[id] ?? 0) + t.days_per_week;
+    }
+  }
+  return required;
+}
@@ -0,0 +1,78 @@
+/**
+ * Device lock: once signed in with a password, a device stays signed in for the chosen session length
+ * and opens behind a PIN or a passkey when one is set. PINs are only checked (and hashed) by verify-pin;
+ * the device keeps its random id, the session start and which unlock methods it has in local storage.
+ *
+ * The session length and the lock are conveniences of this device, not server-side limits: the app signs
+ * itself out and asks for the PIN, but a token copied off the device stays valid until it expires or is
+ * revoked ("Déconnexion" in the account revokes every session of the user).
+ */
+
+const DEVICE_ID_KEY = "device_id";
+const SIGNED_IN_AT_KEY = "signed_in_at";
+const SESSION_LENGTH_KEY = "session_length_hours";
+const LOCK_METHODS_KEY = "device_lock_methods";
+
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+/** 0 = signed out when the tab closes */
+export const SESSION_LENGTH_OPTIONS = [
+  { hours: 0, label: "Jusqu'à la fermeture" },
+  { hours: 24, label: "1 jour" },
+  { hours: 24 * 7, label: "7 jours" },
+  { hours: 24 * 30, label: "30 jours" },
+] as const;
+
+export const DEFAULT_SESSION_LENGTH_HOURS = 24 * 7;
+
+export interface LockMethods {
+  pin: boolean;
+  passkey: boolean;
+}
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export function getDeviceId(): string {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+}
+
+/** "Chrome · Android": default label of this device in the device list */
+export function deviceLabel(userAgent = navigator.userAgent): string {
+  const browser = /Edg\//.test(userAgent) ? "Edge" : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome" : /Safari\//.test(userAgent) ? "Safari" : "Navigateur";
+  const os = /Android/.test(userAgent) ? "Android" : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Mac OS X/.test(userAgent) ? "macOS" : /Windows/.test(userAgent) ? "Windows" : /Linux/.test(userAgent) ? "Linux" : null;
+  return os ? `${browser} · ${os}` : browser;
+}
+
+export const getSessionLengthHours = () => readJson<number>(SESSION_LENGTH_KEY, DEFAULT_SESSION_LENGTH_HOURS);
+export const setSessionLengthHours = (hours: number) => localStorage.setItem(SESSION_LENGTH_KEY, JSON.stringify(hours));
+
+export const markSignedIn = (now = Date.now()) => localStorage.setItem(SIGNED_IN_AT_KEY, String(now));
+export const getSignedInAt = (): number | null => {
+  const value = Number(localStorage.getItem(SIGNED_IN_AT_KEY));
+  return value > 0 ? value : null;
+};
+export const clearSignedIn = () => localStorage.removeItem(SIGNED_IN_AT_KEY);
+
+/** Past its length since the password sign-in; tab-only sessions end with the tab, not here */
+export function sessionExpired(signedInAt: number | null, lengthHours: number, now = Date.now()): boolean {
+  if (signedInAt == null || lengthHours <= 0) return false;
+  return now - signedInAt > lengthHours * 3600_000;
+}
+
+export const getLockMethods = () => readJson<LockMethods>(LOCK_METHODS_KEY, { pin: false, passkey: false });
+export const setLockMethods = (methods: LockMethods) => localStorage.setItem(LOCK_METHODS_KEY, JSON.stringify(methods));
+export const hasDeviceLock = (methods = getLockMethods()) => methods.pin || methods.passkey;
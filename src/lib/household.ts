@@ -0,0 +1,70 @@
+/**
+ * Household members (household_members table): who eats, their daily goals and the size of their plate.
+ * A planning slot is eaten by everyone unless the planning_slot_members preference names its eaters
+ * (keyed like the other per-day values: "2026-03-16-midi", or "lundi-midi" when it repeats).
+ * A slot's meals are split between its eaters by portion_ratio.
+ */
+
+export interface HouseholdMember {
+  id: string;
+  name: string;
+  color: string | null;
+  calorie_goal: number;
+  protein_goal: number;
+  /** Relative plate size (1 = equal parts) */
+  portion_ratio: number;
+  sort_order: number;
+  created_at: string;
+}
+
+export const SLOT_MEMBERS_PREF_KEY = "planning_slot_members";
+
+/** Members eating at a slot: the assigned ones, everyone by default */
+export function slotEaters(members: HouseholdMember[], assigned: string[] | undefined): HouseholdMember[] {
+  return assigned ? members.filter(m => assigned.includes(m.id)) : members;
+}
+
+/** Share of the plate of each eater (sums to 1) */
+export function plateShares(eaters: HouseholdMember[]): Map<string, number> {
+  const total = eaters.reduce((sum, m) => sum + m.portion_ratio, 0);
+  return new Map(eaters.map(m => [m.id, total > 0 ? m.portion_ratio / total : 0]));
+}
+
+/** "Léa 180g · Tom 270g": a dish's weight split between its eaters; null for a single eater */
+export function formatPlateSplit(grams: number, eaters: HouseholdMember[]): string | null {
+  if (eaters.length < 2 || !(grams > 0)) return null;
+  const shares = plateShares(eaters);
+  return eaters.map(m => `${m.name} ${Math.round(grams * shares.get(m.id)!)}g`).join(" · ");
+}
+
+/**
+ * A member's goals on a day: their own goals, scaled like the day's type scales the usual goals
+ * (a day type at 3000 kcal over a usual 2750 raises everyone's goal by the same 9 %).
+ */
+export function memberDayGoals(
+  member: HouseholdMember,
+  day: { kcal: number; protein: number },
+  usual: { kcal: number; protein: number },
+): { kcal: number; protein: number } {
+  return {
+    kcal: Math.round(member.calorie_goal * (usual.kcal > 0 ? day.kcal / usual.kcal : 1)),
+    protein: Math.round(member.protein_goal * (usual.protein > 0 ? day.protein / usual.protein : 1)),
+  };
+}
+
+/** Day totals per member from each slot's amounts and eaters */
+export function splitDayTotals(
+  members: HouseholdMember[],
+  slots: { kcal: number; protein: number; eaters: HouseholdMember[] }[],
+): Map<string, { kcal: number; protein: number }> {
+  const totals = new Map(members.map(m => [m.id, { kcal: 0, protein: 0 }]));
+  for (const slot of slots) {
+    for (const [id, share] of plateShares(slot.eaters)) {
+      const t = totals.get(id);
+      if (!t) continue;
+      t.kcal += slot.kcal * share;
+      t.protein += slot.protein * share;
+    }
+  }
+  return totals;
+}
@@ -0,0 +1,46 @@
+/**
+ * Accounts and households (households, household_memberships, profiles tables).
+ * Every table of the app belongs to a household; RLS only shows the rows of the user's active household,
+ * so queries never filter on it. Owners manage members and invites, members read and write the data.
+ */
+
+export type HouseholdRole = "owner" | "member";
+
+export const ROLE_LABELS: Record<HouseholdRole, string> = {
+  owner: "Propriétaire",
+  member: "Membre",
+};
+
+export interface HouseholdSummary {
+  id: string;
+  name: string;
+  role: HouseholdRole;
+}
+
+export interface HouseholdPerson {
+  user_id: string;
+  display_name: string | null;
+  role: HouseholdRole;
+}
+
+export const canManageHousehold = (role: HouseholdRole | null | undefined) => role === "owner";
+
+/** Invite codes are typed by hand: case, spaces and dashes don't matter */
+export const normalizeInviteCode = (code: string) => code.toUpperCase().replace(/[\s-]/g, "");
+
+/** "ABCD-EFGH" */
+export const formatInviteCode = (code: string) => {
+  const c = normalizeInviteCode(code);
+  return c.length === 8 ? `${c.slice(0, 4)}-${c.slice(4)}` : c;
+};
+
+export const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/** Owners first, then by name; "Moi" for the signed-in user */
+export function sortPeople(people: HouseholdPerson[], me: string | null): (HouseholdPerson & { label: string })[] {
+  return people
+    .map(p => ({ ...p, label: p.user_id === me ? "Moi" : p.display_name || "Sans nom" }))
+    .sort((a, b) => (a.role === b.role ? a.label.localeCompare(b.label, "fr") : a.role === "owner" ? -1 : 1));
+}
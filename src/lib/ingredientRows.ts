@@ -0,0 +1,105 @@
+/**
+ * Conversion between structured ingredient rows (meal_ingredients table) and the legacy string format.
+ * The string ("100g poulet | 80g dinde, ?50g parmesan{400}") is now only an import/export format.
+ * Used by useMeals, stockUtils and DevMenu.
+ */
+
+import type { MealIngredient } from "@/hooks/useMeals";
+import {
+  normalizeForMatch, formatNumeric, parseIngredientLineRaw, parseIngredientLineDisplay,
+  serializeIngredients, parseNutritionSuffix, formatNutritionSuffix, MACRO_KEYS,
+  type IngLine, type MacroKey, type Nutrition, type ParsedIngredient, type ParsedIngredientRaw,
+} from "@/lib/ingredientUtils";
+import { toCanonical, unitLabel, formatWithUnit } from "@/lib/unitConversion";
+
+const byPosition = (a: MealIngredient, b: MealIngredient) =>
+  a.group_index - b.group_index || a.alt_index - b.alt_index;
+
+const macroColumn = (key: MacroKey) => `${key}_per_100g` as const;
+
+/** Per-100g columns of a row as a suffix record */
+export function rowNutrition(r: MealIngredient): Nutrition {
+  const n: Nutrition = {};
+  if (r.kcal_per_100g != null) n.kcal = r.kcal_per_100g;
+  for (const key of MACRO_KEYS) {
+    const v = r[macroColumn(key)];
+    if (v != null) n[key] = v;
+  }
+  return n;
+}
+
+/** Split a legacy ingredient string into rows (group / alternative indexes, written amount and unit) */
+export function ingredientStringToRows(raw: string | null | undefined): MealIngredient[] {
+  if (!raw?.trim()) return [];
+  const rows: MealIngredient[] = [];
+  let groupIndex = 0;
+  raw.split(/(?:\n|,(?!\d))/).map(s => s.trim()).filter(Boolean).forEach(group => {
+    let altIndex = 0;
+    group.split(/\|/).map(s => s.trim()).filter(Boolean).forEach(alt => {
+      const parsed = parseIngredientLineRaw(alt);
+      if (!parsed.rawName) return;
+      const nutrition = parseNutritionSuffix(parseIngredientLineDisplay(alt).cal);
+      rows.push({
+        group_index: groupIndex,
+        alt_index: altIndex++,
+        qty: parsed.amount > 0 ? parsed.amount : null,
+        unit: parsed.amount > 0 ? parsed.unitLabel : null,
+        count: parsed.count > 0 ? parsed.count : null,
+        name: parsed.rawName,
+        optional: parsed.optional,
+        kcal_per_100g: nutrition.kcal ?? null,
+        ...Object.fromEntries(MACRO_KEYS.filter(k => nutrition[k] != null).map(k => [macroColumn(k), nutrition[k]])),
+      });
+    });
+    if (altIndex > 0) groupIndex++;
+  });
+  return rows;
+}
+
+/** Editor lines for a set of rows (same shape as parseIngredientsToLines) */
+export function rowsToLines(rows: MealIngredient[]): IngLine[] {
+  return [...rows].sort(byPosition).map(r => {
+    const label = unitLabel(r.unit);
+    const amount = r.qty != null && r.qty > 0 ? formatNumeric(r.qty) : "";
+    return {
+      qty: !amount ? "" : label === "g" ? amount : formatWithUnit(amount, label),
+      count: r.count != null && r.count > 0 ? formatNumeric(r.count) : "",
+      name: r.name,
+      cal: formatNutritionSuffix(rowNutrition(r)),
+      isOr: r.alt_index > 0,
+      isOptional: r.optional,
+    };
+  });
+}
+
+/** Export rows back to the legacy string format */
+export function rowsToIngredientString(rows: MealIngredient[] | null | undefined): string | null {
+  if (!rows?.length) return null;
+  return serializeIngredients(rowsToLines(rows));
+}
+
+/** Parsed form of one row; qty is converted to its canonical unit like parseIngredientLineRaw */
+export function rowToParsed(r: MealIngredient): ParsedIngredientRaw {
+  const converted = r.qty != null && r.qty > 0 ? toCanonical(r.qty, r.unit) : null;
+  return {
+    qty: converted?.qty ?? 0, count: r.count ?? 0, name: normalizeForMatch(r.name), rawName: r.name, optional: r.optional,
+    unit: converted?.unit ?? "g", amount: converted ? r.qty! : 0, unitLabel: unitLabel(r.unit),
+  };
+}
+
+/** OR groups for stock computations (same shape as parseIngredientGroups) */
+export function rowsToGroups(rows: MealIngredient[]): ParsedIngredient[][] {
+  const groups = new Map<number, ParsedIngredient[]>();
+  for (const r of [...rows].sort(byPosition)) {
+    if (!groups.has(r.group_index)) groups.set(r.group_index, []);
+    const { qty, count, name, optional, unit } = rowToParsed(r);
+    groups.get(r.group_index)!.push({ qty, count, name, optional, unit });
+  }
+  return [...groups.values()];
+}
+
+/** Scale every row by ratio, keeping the written unit ("2 c.à.s" × 0.5 → "1 c.à.s") */
+export function scaleIngredientRows(rows: MealIngredient[], ratio: number): MealIngredient[] {
+  const scale = (v: number | null) => v != null && v > 0 ? Math.round(v * ratio * 10) / 10 : v;
+  return rows.map(r => ({ ...r, id: undefined, qty: scale(r.qty), count: scale(r.count) }));
+}
@@ -4,6 +4,10 @@
  */
 
 import type { FoodItem } from "@/components/FoodItems";
+import {
+  UNIT_PATTERN, toCanonical, toGrams, isCountUnit, unitLabel, formatWithUnit, quantityTextToGrams,
+  type CanonicalUnit,
+} from "@/lib/unitConversion";
 
 // ─── Text Normalization ─────────────────────────────────────────────────────
 
@@ -147,48 +151,64 @@ export function getFoodItemTotalGrams(fi: FoodItem): number {
 
 // ─── Ingredient Parsing (Numeric — for computation) ─────────────────────────
 
-export interface ParsedIngredient { qty: number; count: number; name: string; optional: boolean; }
-export interface ParsedIngredientRaw { qty: number; count: number; name: string; rawName: string; optional: boolean; }
+export interface ParsedIngredient { qty: number; count: number; name: string; optional: boolean; unit: CanonicalUnit; }
+/** amount + unitLabel keep the quantity as written ("2 c.à.s"), qty + unit hold it converted (30 ml) */
+export interface ParsedIngredientRaw { qty: number; count: number; name: string; rawName: string; optional: boolean; unit: CanonicalUnit; amount: number; unitLabel: string; }
 
-export function parseIngredientLine(ing: string): ParsedIngredient {
-  let trimmed = ing.trim().replace(/\s+/g, " ");
-  const optional = trimmed.startsWith("?");
-  if (optional) trimmed = trimmed.slice(1).trim();
-  // Strip {cal} suffix
-  trimmed = trimmed.replace(/\{\d+(?:[.,]\d+)?\}\s*$/, "").trim();
-  const unitRegex = "(?:g|gr|grammes?|kg|ml|cl|l)";
-
-  const matchFull = trimmed.match(new RegExp(`^(\\d+(?:[.,]\\d+)?)\\s*${unitRegex}\\s+(\\d+(?:[.,]\\d+)?)\\s+(.+)$`, "i"));
-  if (matchFull) return { qty: parseFloat(matchFull[1].replace(",", ".")), count: parseFloat(matchFull[2].replace(",", ".")), name: normalizeForMatch(matchFull[3]), optional };
+interface QuantitySplit { amount: number; amountText: string; unitToken: string | null; count: number; countText: string; name: string; }
 
-  const matchUnit = trimmed.match(new RegExp(`^(\\d+(?:[.,]\\d+)?)\\s*${unitRegex}\\s+(.+)$`, "i"));
-  if (matchUnit) return { qty: parseFloat(matchUnit[1].replace(",", ".")), count: 0, name: normalizeForMatch(matchUnit[2]), optional };
+/**
+ * Split "<amount><unit> <count> <name>" into its parts.
+ * Supported forms: "200g 3 poulet", "1,5kg riz", "2 c.à.s huile", "3 pièces avocat", "3 oeufs", "sel".
+ */
+function splitQuantity(trimmed: string): QuantitySplit {
+  const num = "(\\d+(?:[.,]\\d+)?)";
+  const toNum = (v: string) => parseFloat(v.replace(",", "."));
+
+  const matchFull = trimmed.match(new RegExp(`^${num}\\s*(${UNIT_PATTERN})\\s+${num}\\s+(.+)$`, "i"));
+  if (matchFull) return { amount: toNum(matchFull[1]), amountText: matchFull[1], unitToken: matchFull[2], count: toNum(matchFull[3]), countText: matchFull[3], name: matchFull[4].trim() };
+
+  const matchUnit = trimmed.match(new RegExp(`^${num}\\s*(${UNIT_PATTERN})\\s+(.+)$`, "i"));
+  if (matchUnit) {
+    // "3 pièces avocat" is a count, not a quantity
+    if (isCountUnit(matchUnit[2])) return { amount: 0, amountText: "", unitToken: null, count: toNum(matchUnit[1]), countText: matchUnit[1], name: matchUnit[3].trim() };
+    return { amount: toNum(matchUnit[1]), amountText: matchUnit[1], unitToken: matchUnit[2], count: 0, countText: "", name: matchUnit[3].trim() };
+  }
 
   const matchNum = trimmed.match(/^(\d+(?:[.,]\d+)?)\s+(.+)$/);
-  if (matchNum) return { qty: 0, count: parseFloat(matchNum[1].replace(",", ".")), name: normalizeForMatch(matchNum[2]), optional };
+  if (matchNum) return { amount: 0, amountText: "", unitToken: null, count: toNum(matchNum[1]), countText: matchNum[1], name: matchNum[2].trim() };
 
-  return { qty: 0, count: 0, name: normalizeForMatch(trimmed), optional };
+  return { amount: 0, amountText: "", unitToken: null, count: 0, countText: "", name: trimmed };
 }
 
-/** Same as parseIngredientLine but preserves original name casing in rawName */
-export function parseIngredientLineRaw(ing: string): ParsedIngredientRaw {
+/** Strip the "?" optional prefix and the nutrition suffix, then split the quantity */
+function splitIngredientToken(ing: string): QuantitySplit & { optional: boolean } {
   let trimmed = ing.trim().replace(/\s+/g, " ");
   const optional = trimmed.startsWith("?");
   if (optional) trimmed = trimmed.slice(1).trim();
-  // Strip {cal} suffix
-  trimmed = trimmed.replace(/\{\d+(?:[.,]\d+)?\}\s*$/, "").trim();
-  const unitRegex = "(?:g|gr|grammes?|kg|ml|cl|l)";
-
-  const matchFull = trimmed.match(new RegExp(`^(\\d+(?:[.,]\\d+)?)\\s*${unitRegex}\\s+(\\d+(?:[.,]\\d+)?)\\s+(.+)$`, "i"));
-  if (matchFull) return { qty: parseFloat(matchFull[1].replace(",", ".")), count: parseFloat(matchFull[2].replace(",", ".")), name: normalizeForMatch(matchFull[3]), rawName: matchFull[3].trim(), optional };
+  return { ...splitQuantity(stripNutritionSuffix(trimmed)), optional };
+}
 
-  const matchUnit = trimmed.match(new RegExp(`^(\\d+(?:[.,]\\d+)?)\\s*${unitRegex}\\s+(.+)$`, "i"));
-  if (matchUnit) return { qty: parseFloat(matchUnit[1].replace(",", ".")), count: 0, name: normalizeForMatch(matchUnit[2]), rawName: matchUnit[2].trim(), optional };
+/** Parse one ingredient token; qty is expressed in the canonical unit ("1kg" → 1000 g, "2 c.à.s" → 30 ml) */
+export function parseIngredientLine(ing: string): ParsedIngredient {
+  const split = splitIngredientToken(ing);
+  const converted = split.amount > 0 ? toCanonical(split.amount, split.unitToken) : null;
+  return { qty: converted?.qty ?? 0, count: split.count, name: normalizeForMatch(split.name), optional: split.optional, unit: converted?.unit ?? "g" };
+}
 
-  const matchNum = trimmed.match(/^(\d+(?:[.,]\d+)?)\s+(.+)$/);
-  if (matchNum) return { qty: 0, count: parseFloat(matchNum[1].replace(",", ".")), name: normalizeForMatch(matchNum[2]), rawName: matchNum[2].trim(), optional };
+/** Same as parseIngredientLine but preserves original name casing in rawName and the written unit in unitLabel */
+export function parseIngredientLineRaw(ing: string): ParsedIngredientRaw {
+  const split = splitIngredientToken(ing);
+  const converted = split.amount > 0 ? toCanonical(split.amount, split.unitToken) : null;
+  return {
+    qty: converted?.qty ?? 0, count: split.count, name: normalizeForMatch(split.name), rawName: split.name, optional: split.optional,
+    unit: converted?.unit ?? "g", amount: converted ? split.amount : 0, unitLabel: unitLabel(split.unitToken),
+  };
+}
 
-  return { qty: 0, count: 0, name: normalizeForMatch(trimmed), rawName: trimmed, optional };
+/** Quantity of an ingredient in grams, converting volumes through the food's density */
+export function ingredientGrams(ing: { qty: number; unit: CanonicalUnit; name: string }): number {
+  return toGrams(ing.qty, ing.unit, ing.name);
 }
 
 /**
@@ -202,14 +222,71 @@ export function parseIngredientGroups(raw: string): ParsedIngredient[][] {
     .map(group => group.split(/\|/).map(s => s.trim()).filter(Boolean).map(parseIngredientLine));
 }
 
+// ─── Nutrition Suffix ───────────────────────────────────────────────────────
+// "{165}" or "{165;p31;g0;l3.6;f0;s0;sel0.2}": kcal then tagged macros, per 100 g (or per unit for counts)
+
+export const MACRO_KEYS = ["protein", "carbs", "fat", "fibre", "sugar", "salt"] as const;
+export type MacroKey = typeof MACRO_KEYS[number];
+
+export const MACRO_INFO: Record<MacroKey, { tag: string; label: string; short: string }> = {
+  protein: { tag: "p", label: "Protéines", short: "P" },
+  carbs: { tag: "g", label: "Glucides", short: "G" },
+  fat: { tag: "l", label: "Lipides", short: "L" },
+  fibre: { tag: "f", label: "Fibres", short: "F" },
+  sugar: { tag: "s", label: "Sucres", short: "S" },
+  salt: { tag: "sel", label: "Sel", short: "Sel" },
+};
+
+export type Nutrition = { kcal?: number } & Partial<Record<MacroKey, number>>;
+
+/** Macros stored as numeric columns on meals (whole meal) and food_items (per 100 g); protein stays a text column */
+export const MACRO_COLUMNS = ["carbs", "fat", "fibre", "sugar", "salt"] as const;
+export type MacroColumn = typeof MACRO_COLUMNS[number];
+export type MacroValues = Partial<Record<MacroColumn, number | null>>;
+
+const NUM = "\\d+(?:[.,]\\d+)?";
+const NUTRITION_SUFFIX = new RegExp(`\\{((?:${NUM})?(?:;\\s*(?:sel|p|g|l|f|s)\\s*${NUM})*)\\}\\s*$`, "i");
+
+/** Remove the nutrition suffix of an ingredient token */
+export function stripNutritionSuffix(raw: string): string {
+  return raw.replace(NUTRITION_SUFFIX, "").trim();
+}
+
+/** Parse the content of a suffix ("165;p31;g12") */
+export function parseNutritionSuffix(content: string | null | undefined): Nutrition {
+  const result: Nutrition = {};
+  const [kcal, ...tagged] = (content ?? "").split(";").map(s => s.trim());
+  const toNum = (v: string) => parseFloat(v.replace(",", "."));
+  if (kcal && !isNaN(toNum(kcal))) result.kcal = toNum(kcal);
+  for (const part of tagged) {
+    const m = part.match(/^(sel|p|g|l|f|s)\s*(\d+(?:[.,]\d+)?)$/i);
+    const key = m && MACRO_KEYS.find(k => MACRO_INFO[k].tag === m[1].toLowerCase());
+    if (key) result[key] = toNum(m[2]);
+  }
+  return result;
+}
+
+/** Suffix content for a nutrition record ("" when empty) */
+export function formatNutritionSuffix(n: Nutrition): string {
+  const tagged = MACRO_KEYS.filter(k => n[k] != null).map(k => `${MACRO_INFO[k].tag}${formatNumeric(n[k]!)}`);
+  if (n.kcal == null && tagged.length === 0) return "";
+  return [n.kcal != null ? formatNumeric(n.kcal) : "", ...tagged].join(";");
+}
+
+/** Compact chip text for the macro columns: "G45 · L12 · Sel1.2" ("" when none) */
+export function formatMacroSummary(n: MacroValues): string {
+  return MACRO_COLUMNS.filter(k => n[k]).map(k => `${MACRO_INFO[k].short}${formatNumeric(n[k]!)}`).join(" · ");
+}
+
 // ─── Ingredient Editing (String-based — for UI) ─────────────────────────────
 
+/** `cal` holds the nutrition suffix content: "165" or "165;p31;g12" */
 export interface IngLine { qty: string; count: string; name: string; cal: string; isOr: boolean; isOptional: boolean; }
 
-/** Extract {cal} suffix from a raw ingredient token */
+/** Extract the nutrition suffix from a raw ingredient token */
 function extractCal(raw: string): { text: string; cal: string } {
-  const m = raw.match(/\{(\d+(?:[.,]\d+)?)\}\s*$/);
-  if (m) return { text: raw.slice(0, m.index!).trim(), cal: m[1].replace(",", ".") };
+  const m = raw.match(NUTRITION_SUFFIX);
+  if (m) return { text: raw.slice(0, m.index!).trim(), cal: m[1].replace(/(\d),(\d)/g, "$1.$2") };
   return { text: raw, cal: "" };
 }
 
@@ -219,19 +296,11 @@ export function parseIngredientLineDisplay(raw: string): IngLine {
   const isOptional = trimmed.startsWith("?");
   if (isOptional) trimmed = trimmed.slice(1).trim();
   const { text: withoutCal, cal } = extractCal(trimmed);
-  trimmed = withoutCal;
-  const unitRegex = "(?:g|gr|gramme?s?|kg|ml|cl|l)";
-
-  const matchFull = trimmed.match(new RegExp(`^(\\d+(?:[.,]\\d+)?)\\s*${unitRegex}\\s+(\\d+(?:[.,]\\d+)?)\\s+(.+)$`, "i"));
-  if (matchFull) return { qty: matchFull[1], count: matchFull[2], name: matchFull[3].trim(), cal, isOr: false, isOptional };
-
-  const matchUnit = trimmed.match(new RegExp(`^(\\d+(?:[.,]\\d+)?)\\s*${unitRegex}\\s+(.+)$`, "i"));
-  if (matchUnit) return { qty: matchUnit[1], count: "", name: matchUnit[2].trim(), cal, isOr: false, isOptional };
-
-  const matchNum = trimmed.match(/^(\d+(?:[.,]\d+)?)\s+(.+)$/);
-  if (matchNum) return { qty: "", count: matchNum[1], name: matchNum[2].trim(), cal, isOr: false, isOptional };
-
-  return { qty: "", count: "", name: trimmed, cal, isOr: false, isOptional };
+  const split = splitQuantity(withoutCal);
+  // Grams stay a bare number (the editor appends "g"); any other unit is kept in the qty text
+  const label = unitLabel(split.unitToken);
+  const qty = !split.amountText ? "" : label === "g" ? split.amountText : formatWithUnit(split.amountText, label);
+  return { qty, count: split.countText, name: split.name, cal, isOr: false, isOptional };
 }
 
 export function formatQtyDisplay(qty: string): string {
@@ -267,7 +336,7 @@ export function serializeIngredients(lines: IngLine[]): string | null {
     const nameStr = l.name.trim();
     if (!qtyStr && !countStr && !nameStr) continue;
     let token = [qtyStr, countStr, nameStr].filter(Boolean).join(" ");
-    if (l.cal.trim()) token += `{${l.cal.trim()}}`;
+    if (l.cal.trim()) token += `{${l.cal.trim().replace(/\s+/g, "").replace(/(\d),(\d)/g, "$1.$2")}}`;
     const finalToken = l.isOptional ? `?${token}` : token;
     if (l.isOr) { currentGroup.push(finalToken); } else { flushGroup(); currentGroup.push(finalToken); }
   }
@@ -276,31 +345,33 @@ export function serializeIngredients(lines: IngLine[]): string | null {
 }
 
 /**
- * Compute total calories from ingredient string.
- * For each ingredient with {cal}: if qty (grams) present → cal * qty / 100. If count present → cal * count.
- * Returns null if no ingredient has cal data.
+ * Compute nutrition totals from an ingredient string.
+ * For each ingredient with a suffix: if qty (grams) present → value * qty / 100. If count present → value * count.
+ * Only the fields present in at least one suffix are returned; null if no ingredient has nutrition data.
  */
-export function computeIngredientCalories(ingredientStr: string | null): number | null {
+export function computeIngredientNutrition(ingredientStr: string | null): Nutrition | null {
   if (!ingredientStr?.trim()) return null;
   const lines = parseIngredientsToLines(ingredientStr);
-  let total = 0;
-  let hasCal = false;
+  const total: Nutrition = {};
   for (const line of lines) {
-    const calVal = parseFloat(line.cal.replace(",", "."));
-    if (!calVal || isNaN(calVal)) continue;
-    hasCal = true;
-    const qty = parseFloat(line.qty.replace(",", "."));
+    const values = parseNutritionSuffix(line.cal);
+    const qty = quantityTextToGrams(line.qty, line.name);
     const count = parseFloat(line.count.replace(",", "."));
-    if (qty > 0) {
-      // cal is per 100g, qty is grams
-      total += calVal * qty / 100;
-    } else if (count > 0) {
-      // cal is per 1 unit
-      total += calVal * count;
-    } else {
-      // Just the cal value itself (1 unit assumed)
-      total += calVal;
+    // Values are per 100g when qty is known, per unit otherwise (1 unit assumed without count)
+    const factor = qty > 0 ? qty / 100 : count > 0 ? count : 1;
+    for (const key of ["kcal", ...MACRO_KEYS] as const) {
+      const v = values[key];
+      if (!v) continue;
+      total[key] = (total[key] ?? 0) + v * factor;
     }
   }
-  return hasCal ? Math.round(total) : null;
+  if (Object.keys(total).length === 0) return null;
+  if (total.kcal != null) total.kcal = Math.round(total.kcal);
+  for (const key of MACRO_KEYS) if (total[key] != null) total[key] = Math.round(total[key]! * 10) / 10;
+  return total;
+}
+
+/** Total calories from the ingredient string; null if no ingredient has calorie data */
+export function computeIngredientCalories(ingredientStr: string | null): number | null {
+  return computeIngredientNutrition(ingredientStr)?.kcal ?? null;
 }
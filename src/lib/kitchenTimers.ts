@@ -0,0 +1,68 @@
+/**
+ * Kitchen timers (kitchen_timers table): named countdowns and count-ups.
+ * A running timer stores when it was started; time counted before that start is in accumulated_ms,
+ * so every device computes the same time without polling.
+ */
+
+export type TimerKind = "countdown" | "countup";
+
+export interface KitchenTimer {
+  id: string;
+  name: string;
+  kind: TimerKind;
+  duration_seconds: number | null;
+  running: boolean;
+  started_at: string | null;
+  accumulated_ms: number;
+  meal_id: string | null;
+  step_index: number | null;
+  created_at: string;
+}
+
+export type TimerPatch = Pick<KitchenTimer, "running" | "started_at" | "accumulated_ms">;
+
+export function timerElapsed(t: Pick<KitchenTimer, "running" | "started_at" | "accumulated_ms">, now = Date.now()): number {
+  if (t.running && t.started_at) return t.accumulated_ms + (now - new Date(t.started_at).getTime());
+  return t.accumulated_ms;
+}
+
+/** Time left on a countdown (negative once over); null for a count-up */
+export function timerRemaining(t: KitchenTimer, now = Date.now()): number | null {
+  if (t.kind !== "countdown" || t.duration_seconds == null) return null;
+  return t.duration_seconds * 1000 - timerElapsed(t, now);
+}
+
+/** When a running countdown reaches zero (epoch ms); null when it is paused or a count-up */
+export function timerEndsAt(t: KitchenTimer): number | null {
+  if (!t.running || !t.started_at || t.kind !== "countdown" || t.duration_seconds == null) return null;
+  return new Date(t.started_at).getTime() + t.duration_seconds * 1000 - t.accumulated_ms;
+}
+
+export function isExpired(t: KitchenTimer, now = Date.now()): boolean {
+  const remaining = timerRemaining(t, now);
+  return remaining != null && remaining <= 0;
+}
+
+export const startPatch = (t: KitchenTimer, now = Date.now()): TimerPatch =>
+  ({ running: true, started_at: new Date(now).toISOString(), accumulated_ms: t.accumulated_ms });
+
+export const pausePatch = (t: KitchenTimer, now = Date.now()): TimerPatch =>
+  ({ running: false, started_at: null, accumulated_ms: Math.round(timerElapsed(t, now)) });
+
+export const RESET_PATCH: TimerPatch = { running: false, started_at: null, accumulated_ms: 0 };
+
+/** Oven time of a meal ("25", "25 min") in minutes */
+export function parseOvenMinutes(raw: string | null | undefined): number | null {
+  const value = parseInt(raw ?? "");
+  return value > 0 ? value : null;
+}
+
+/** "04:59", "1:02:03"; countdowns round up so they show 00:00 only when over */
+export const formatChrono = (ms: number, roundUp = false) => {
+  const totalSec = Math.max(0, roundUp ? Math.ceil(ms / 1000) : Math.floor(ms / 1000));
+  const h = Math.floor(totalSec / 3600);
+  const m = Math.floor((totalSec % 3600) / 60);
+  const s = totalSec % 60;
+  const mmss = `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+};
@@ -0,0 +1,32 @@
+/**
+ * Meal slots of the planning (meal_slots table). possible_meals.meal_time holds the slot key.
+ */
+
+export interface MealSlot {
+  id: string;
+  key: string;
+  label: string;
+  emoji: string | null;
+  sort_order: number;
+  /** Meal category offered first when filling the slot */
+  default_category: string | null;
+  /** Per-slot calorie target, in kcal */
+  calorie_target: number | null;
+  created_at: string;
+}
+
+/** Stable key from a label ("Pré-entraînement" → "pre_entrainement"), unique among `taken` */
+export function slotKeyFromLabel(label: string, taken: string[]): string {
+  const base = label
+    .normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "creneau";
+  let key = base;
+  for (let i = 2; taken.includes(key); i++) key = `${base}_${i}`;
+  return key;
+}
+
+/** Sort index of a meal_time; unknown or empty slots go last */
+export function slotIndex(slotKeys: string[], mealTime: string | null): number {
+  const i = mealTime ? slotKeys.indexOf(mealTime) : -1;
+  return i === -1 ? slotKeys.length : i;
+}
@@ -0,0 +1,340 @@
+/**
+ * Weekly menu optimizer used by MealPlanGenerator.
+ * Greedy selection under constraints, followed by a repair pass on package multiples.
+ * Ties are broken by a seeded generator: the same seed and the same data give the same menu.
+ * Each picked meal carries the reasons that made it win, in French, for the UI.
+ */
+
+import type { FoodItem } from "@/components/FoodItems";
+import type { Meal } from "@/hooks/useMeals";
+import {
+  normalizeKey, strictNameMatch, parseIngredientLineRaw, ingredientGrams,
+  computeIngredientNutrition,
+} from "@/lib/ingredientUtils";
+import { rowToParsed } from "@/lib/ingredientRows";
+import { getMealIngredientGroups, getMissingIngredients, findStockKey, type StockInfo } from "@/lib/stockUtils";
+import { recipeYield } from "@/lib/servings";
+import { differenceInCalendarDays, parseISO } from "date-fns";
+
+// ─── Recipe usage ───────────────────────────────────────────────────────────
+
+export interface IngredientUsage { grams: number; count: number; rawName: string; }
+
+/** Package content of a shopping item ("500g" → grams, "6" → count) */
+export function parseNbValue(nb: string | null, type: string | null): { grams: number; count: number } | null {
+  if (!nb) return null;
+  const val = parseFloat(nb.replace(/[^0-9.,]/g, '').replace(',', '.'));
+  if (isNaN(val) || val <= 0) return null;
+  if (type === 'g' || (!type && /g/i.test(nb))) return { grams: val, count: 0 };
+  return { grams: 0, count: val };
+}
+
+/** Get recipe ingredient usage. No-ingredient meals → use meal's grams or name as ingredient */
+export function getRecipeUsage(recipe: Meal): Map<string, IngredientUsage> {
+  const usage = new Map<string, IngredientUsage>();
+  if (!recipe.ingredients) {
+    const key = normalizeKey(recipe.name);
+    const mealGrams = parseFloat((recipe.grams || "0").replace(/[^0-9.,]/g, '').replace(',', '.')) || 0;
+    usage.set(key, { grams: mealGrams, count: mealGrams > 0 ? 0 : 1, rawName: recipe.name });
+    return usage;
+  }
+  // Only the first alternative of each group counts
+  const firstAlts = recipe.ingredient_rows?.length
+    ? recipe.ingredient_rows.filter((r) => r.alt_index === 0).map(rowToParsed)
+    : recipe.ingredients.split(/(?:\n|,(?!\d))/).map((s) => s.split(/\|/)[0]?.trim()).filter(Boolean).map(parseIngredientLineRaw);
+  for (const parsed of firstAlts) {
+    if (!parsed.name) continue;
+    const key = normalizeKey(parsed.name);
+    const prev = usage.get(key) || { grams: 0, count: 0, rawName: parsed.rawName };
+    usage.set(key, { grams: prev.grams + ingredientGrams(parsed), count: prev.count + parsed.count, rawName: prev.rawName });
+  }
+  return usage;
+}
+
+// ─── Seeded random ──────────────────────────────────────────────────────────
+
+/** mulberry32: small, fast, good enough for tie-breaking */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ─── Optimizer ──────────────────────────────────────────────────────────────
+
+/** Shopping list stock of one ingredient, with its package size */
+export interface PackInventory { grams: number; count: number; pkgGrams: number; pkgCount: number; }
+
+export interface MenuConstraints {
+  /** Total number of meals in the menu, required ones included */
+  size: number;
+  /** Meals that must appear, with their number of occurrences */
+  required: Record<string, number>;
+  excluded: string[];
+  /** Max occurrences of a recipe picked by the optimizer */
+  maxRepeats: number;
+  /** Per-meal targets; null = not taken into account */
+  kcalTarget: number | null;
+  proteinTarget: number | null;
+}
+
+export interface MenuInput {
+  meals: Meal[];
+  /** Home stock: expiry dates and what is already there */
+  foodItems: FoodItem[];
+  stockMap: Map<string, StockInfo>;
+  /** Shopping list stock, keyed by normalized name */
+  inventory: Map<string, PackInventory>;
+  constraints: MenuConstraints;
+  seed: number;
+  /** yyyy-MM-dd */
+  today: string;
+  /** Estimated cost of a portion by meal id (see mealCost); meals without a price are left out */
+  costs?: Map<string, number>;
+}
+
+export interface MenuPick { mealId: string; reasons: string[]; }
+
+/** Food items expiring within this many days are worth using first */
+export const EXPIRY_WINDOW_DAYS = 7;
+
+// Weights: one missing ingredient costs about as much as a 25% kcal miss.
+// Priced meals are compared to the average priced meal; the number of ingredients to buy
+// still counts for the others and for the trips to the shop.
+const W_KCAL = 6;
+const W_PROTEIN = 4;
+const W_EXPIRY = 10;
+const W_MISSING = 1.5;
+const W_COST = 4;
+const W_REPEAT = 4;
+const W_JITTER = 1.5;
+
+/** Kcal of one portion: the recipe's total divided by its yield */
+export function mealKcal(meal: Meal): number | null {
+  const n = parseFloat((meal.calories || "").replace(/[^0-9.]/g, ""));
+  const total = !isNaN(n) && n > 0 ? n : computeIngredientNutrition(meal.ingredients)?.kcal ?? null;
+  return total == null ? null : total / recipeYield(meal);
+}
+
+/** Protein of one portion, as mealKcal */
+export function mealProtein(meal: Meal): number | null {
+  const n = parseFloat((meal.protein || "").replace(/[^0-9.]/g, ""));
+  const total = !isNaN(n) && n > 0 ? n : computeIngredientNutrition(meal.ingredients)?.protein ?? null;
+  return total == null ? null : total / recipeYield(meal);
+}
+
+interface Candidate {
+  meal: Meal;
+  kcal: number | null;
+  protein: number | null;
+  cost: number | null;
+  usage: Map<string, IngredientUsage>;
+  /** Expiring food items used by the recipe, with their days left */
+  expiring: { fi: FoodItem; daysLeft: number }[];
+}
+
+interface Evaluation { score: number; reasons: string[]; }
+
+export function optimizeMenu(input: MenuInput): MenuPick[] {
+  const { meals, foodItems, inventory, constraints } = input;
+  const rng = createRng(input.seed);
+  const today = parseISO(input.today);
+  const excluded = new Set(constraints.excluded);
+  const pricedCosts = meals.map(m => input.costs?.get(m.id)).filter((c): c is number => c != null && c > 0);
+  const avgCost = pricedCosts.length > 0 ? pricedCosts.reduce((a, b) => a + b, 0) / pricedCosts.length : null;
+
+  const expiringItems = foodItems
+    .filter(fi => fi.expiration_date)
+    .map(fi => ({ fi, daysLeft: differenceInCalendarDays(parseISO(fi.expiration_date!), today) }))
+    .filter(e => e.daysLeft >= 0 && e.daysLeft <= EXPIRY_WINDOW_DAYS);
+
+  const toCandidate = (meal: Meal): Candidate => {
+    const names = getMealIngredientGroups(meal).flat().map(alt => alt.name);
+    return {
+      meal,
+      kcal: mealKcal(meal),
+      protein: mealProtein(meal),
+      cost: input.costs?.get(meal.id) ?? null,
+      usage: getRecipeUsage(meal),
+      expiring: expiringItems.filter(e => names.some(n => strictNameMatch(e.fi.name, n))),
+    };
+  };
+  const byId = new Map(meals.map(m => [m.id, toCandidate(m)]));
+  const pool = meals.filter(m => !excluded.has(m.id) && !(m.id in constraints.required)).map(m => byId.get(m.id)!);
+
+  const findInvKey = (ingKey: string): string | null => {
+    for (const rk of inventory.keys()) if (rk === ingKey || normalizeKey(rk) === ingKey) return rk;
+    return null;
+  };
+
+  // ── State replayed for every pick ──
+  const createState = () => {
+    const counts = new Map<string, number>();
+    const usedExpiring = new Set<string>();
+    const totalUsage = new Map<string, { grams: number; count: number }>();
+    const stock = new Map([...input.stockMap].map(([k, v]) => [k, { ...v }]));
+
+    const evaluate = (c: Candidate): Evaluation => {
+      const reasons: string[] = [];
+      let score = 0;
+
+      if (constraints.kcalTarget && c.kcal) {
+        const miss = Math.abs(c.kcal - constraints.kcalTarget) / constraints.kcalTarget;
+        score += W_KCAL * (1 - Math.min(1, miss));
+        if (miss <= 0.15) reasons.push(`${Math.round(c.kcal)} kcal, proche de la cible (${Math.round(constraints.kcalTarget)})`);
+      }
+      if (constraints.proteinTarget && c.protein) {
+        const ratio = c.protein / constraints.proteinTarget;
+        score += W_PROTEIN * Math.min(1, ratio);
+        if (ratio >= 0.9) reasons.push(`${Math.round(c.protein)} g de protéines`);
+      }
+
+      for (const { fi, daysLeft } of c.expiring) {
+        if (usedExpiring.has(fi.id)) continue;
+        score += W_EXPIRY * (1 - daysLeft / (EXPIRY_WINDOW_DAYS + 1));
+        reasons.push(`Utilise ${fi.name} (périme ${daysLeft === 0 ? "aujourd'hui" : `dans ${daysLeft} j`})`);
+      }
+
+      if (avgCost && c.cost != null) {
+        // Twice the average price costs W_COST, half of it earns W_COST / 2
+        const ratio = c.cost / avgCost;
+        score -= W_COST * Math.max(-1, Math.min(1, ratio - 1));
+        if (ratio <= 0.75) reasons.push("Moins cher que la moyenne");
+      }
+
+      const missing = getMissingIngredients(c.meal, stock).size;
+      score -= W_MISSING * missing;
+      if (getMealIngredientGroups(c.meal).length > 0) {
+        reasons.push(missing === 0 ? "Tout est en stock" : `${missing} ingrédient${missing > 1 ? "s" : ""} à acheter`);
+      }
+
+      // Packages of the shopping list: prefer finishing an opened one
+      for (const [ingKey, used] of c.usage) {
+        const matchKey = findInvKey(ingKey);
+        if (!matchKey || used.grams <= 0) continue;
+        const inv = inventory.get(matchKey)!;
+        if (inv.pkgGrams <= 0) continue;
+        const prev = totalUsage.get(matchKey)?.grams ?? 0;
+        const next = prev + used.grams;
+        if (next > inv.grams * 1.05) score -= 3;
+        else if (prev > 0 && prev < inv.grams - 1) {
+          score += next >= inv.grams - 1 ? 4 : 2;
+          reasons.push(`Termine le paquet de ${used.rawName}`);
+        }
+      }
+
+      const repeats = counts.get(c.meal.id) ?? 0;
+      if (repeats > 0) {
+        score -= W_REPEAT * repeats;
+        reasons.push(`Répété (${repeats + 1}×)`);
+      }
+      return { score, reasons };
+    };
+
+    const apply = (c: Candidate) => {
+      counts.set(c.meal.id, (counts.get(c.meal.id) ?? 0) + 1);
+      for (const { fi } of c.expiring) usedExpiring.add(fi.id);
+      for (const [ingKey, used] of c.usage) {
+        const invKey = findInvKey(ingKey);
+        if (invKey) {
+          const prev = totalUsage.get(invKey) || { grams: 0, count: 0 };
+          totalUsage.set(invKey, { grams: prev.grams + used.grams, count: prev.count + used.count });
+        }
+        const stockKey = findStockKey(stock, used.rawName);
+        const s = stockKey ? stock.get(stockKey)! : null;
+        if (s && !s.infinite) {
+          s.grams = Math.max(0, s.grams - used.grams);
+          s.count = Math.max(0, s.count - used.count);
+        }
+      }
+    };
+
+    return { evaluate, apply, counts };
+  };
+
+  // ── Greedy pass ──
+  const requiredIds = Object.entries(constraints.required)
+    .filter(([id, n]) => byId.has(id) && n > 0)
+    .flatMap(([id, n]) => Array(n).fill(id) as string[]);
+  const state = createState();
+  for (const id of requiredIds) state.apply(byId.get(id)!);
+
+  const picked: string[] = [];
+  const target = Math.max(0, constraints.size - requiredIds.length);
+  for (let i = 0; i < target; i++) {
+    let best: { id: string; score: number } | null = null;
+    for (const c of pool) {
+      if ((state.counts.get(c.meal.id) ?? 0) >= constraints.maxRepeats) continue;
+      const score = state.evaluate(c).score + rng() * W_JITTER;
+      if (!best || score > best.score) best = { id: c.meal.id, score };
+    }
+    if (!best) break;
+    picked.push(best.id);
+    state.apply(byId.get(best.id)!);
+  }
+
+  // ── Repair pass: swap a recipe when it leaves a package partly used ──
+  const getMisaligned = (ids: string[]) => {
+    const usage = new Map<string, number>();
+    for (const id of [...requiredIds, ...ids]) {
+      for (const [ingKey, used] of byId.get(id)!.usage) {
+        const matchKey = used.grams > 0 ? findInvKey(ingKey) : null;
+        if (matchKey) usage.set(matchKey, (usage.get(matchKey) || 0) + used.grams);
+      }
+    }
+    const bad: string[] = [];
+    for (const [k, totalG] of usage) {
+      const inv = inventory.get(k)!;
+      if (inv.pkgGrams <= 0) continue;
+      const remainder = totalG % inv.pkgGrams;
+      if (remainder > 1 && inv.pkgGrams - remainder > 1) bad.push(k);
+    }
+    return bad;
+  };
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const misaligned = getMisaligned(picked);
+    if (misaligned.length === 0) break;
+    let swapped = false;
+    for (const key of misaligned) {
+      for (let idx = 0; idx < picked.length && !swapped; idx++) {
+        const uses = [...byId.get(picked[idx])!.usage].some(([k, u]) => u.grams > 0 && findInvKey(k) === key);
+        if (!uses) continue;
+        for (const cand of pool) {
+          // No new duplicates during repair swaps
+          if (picked.includes(cand.meal.id)) continue;
+          const testIds = [...picked];
+          testIds[idx] = cand.meal.id;
+          const newMis = getMisaligned(testIds);
+          if (!newMis.includes(key) && newMis.length <= misaligned.length) {
+            picked[idx] = cand.meal.id;
+            swapped = true;
+            break;
+          }
+        }
+      }
+      if (swapped) break;
+    }
+    if (!swapped) break;
+  }
+
+  // ── Explain: replay the final menu in order ──
+  const replay = createState();
+  const result: MenuPick[] = [];
+  for (const id of requiredIds) {
+    const c = byId.get(id)!;
+    result.push({ mealId: id, reasons: ["Imposé", ...replay.evaluate(c).reasons.filter(r => !r.startsWith("Répété"))] });
+    replay.apply(c);
+  }
+  for (const id of picked) {
+    const c = byId.get(id)!;
+    result.push({ mealId: id, reasons: replay.evaluate(c).reasons });
+    replay.apply(c);
+  }
+  return result;
+}
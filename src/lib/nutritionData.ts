@@ -0,0 +1,192 @@
+/**
+ * Bundled nutrition table (values per 100 g, rounded from the ANSES CIQUAL composition tables).
+ * Row: [name, kcal, protein, carbs, fat, fibre, sugar, salt, unit weight in g (optional)].
+ * Read through nutritionDb; kept as tuples so the bundle stays small.
+ */
+
+export type NutritionRow = [string, number, number, number, number, number, number, number, number?];
+
+export const NUTRITION_ROWS: NutritionRow[] = [
+  // Viandes, volailles
+  ["Poulet, filet, cuit", 165, 31, 0, 3.6, 0, 0, 0.2, 130],
+  ["Poulet, cuisse, rôtie", 210, 26, 0, 11.7, 0, 0, 0.25, 180],
+  ["Dinde, escalope, cuite", 145, 29, 0, 2.5, 0, 0, 0.2, 120],
+  ["Boeuf haché 5% MG, cuit", 170, 27, 0, 6.7, 0, 0, 0.2, 100],
+  ["Boeuf haché 15% MG, cuit", 240, 25, 0, 15.6, 0, 0, 0.2, 100],
+  ["Boeuf, steak, grillé", 180, 29, 0, 7, 0, 0, 0.15, 125],
+  ["Boeuf, bourguignon (viande)", 200, 29, 0, 9.5, 0, 0, 0.3],
+  ["Porc, côte, grillée", 230, 28, 0, 13, 0, 0, 0.2, 150],
+  ["Porc, filet mignon, cuit", 160, 29, 0, 4.5, 0, 0, 0.15],
+  ["Jambon blanc", 115, 20, 1, 3.5, 0, 1, 1.9, 40],
+  ["Jambon cru", 240, 28, 0.5, 14, 0, 0.5, 5.5, 20],
+  ["Lardons fumés, cuits", 330, 17, 0.5, 29, 0, 0.5, 2.7],
+  ["Saucisse de Toulouse, cuite", 300, 17, 1, 25, 0, 0.5, 1.8, 100],
+  ["Merguez, cuite", 310, 16, 1.5, 26.5, 0, 0.5, 2.1, 50],
+  ["Chorizo", 450, 24, 2, 38, 0, 1, 4, 5],
+  ["Saucisson sec", 420, 26, 2, 34, 0, 1, 4.5, 10],
+  ["Agneau, gigot, rôti", 230, 27, 0, 13.5, 0, 0, 0.2],
+  ["Veau, escalope, cuite", 150, 30, 0, 3, 0, 0, 0.2, 120],
+  ["Canard, magret, cuit", 230, 26, 0, 14, 0, 0, 0.2],
+  ["Lapin, cuit", 170, 29, 0, 6, 0, 0, 0.15],
+  // Poissons, fruits de mer
+  ["Saumon, pavé, cuit", 205, 25, 0, 11.5, 0, 0, 0.15, 125],
+  ["Saumon fumé", 180, 23, 0.5, 10, 0, 0.5, 3, 25],
+  ["Cabillaud, cuit", 100, 22, 0, 1, 0, 0, 0.3, 125],
+  ["Thon au naturel, égoutté", 115, 26, 0, 1, 0, 0, 0.9],
+  ["Thon à l'huile, égoutté", 190, 26, 0, 9.5, 0, 0, 0.9],
+  ["Sardines à l'huile, égouttées", 215, 24, 0, 13, 0, 0, 0.9, 25],
+  ["Maquereau, cuit", 230, 22, 0, 15.5, 0, 0, 0.3],
+  ["Crevettes, cuites", 95, 21, 0, 1.3, 0, 0, 1.2, 8],
+  ["Moules, cuites", 120, 20, 3.5, 3, 0, 0, 0.9],
+  ["Colin, cuit", 95, 21, 0, 1, 0, 0, 0.3, 125],
+  ["Surimi", 105, 8, 14, 2, 0, 5, 1.8, 16],
+  // Oeufs, produits laitiers
+  ["Oeuf entier", 140, 12.5, 0.5, 9.5, 0, 0.5, 0.35, 55],
+  ["Blanc d'oeuf", 45, 11, 0.5, 0.2, 0, 0.5, 0.45, 35],
+  ["Lait demi-écrémé", 46, 3.3, 4.8, 1.6, 0, 4.8, 0.1],
+  ["Lait entier", 65, 3.3, 4.8, 3.6, 0, 4.8, 0.1],
+  ["Lait d'avoine", 45, 0.8, 7, 1.5, 0.8, 4, 0.1],
+  ["Lait de soja", 40, 3.3, 2.5, 1.9, 0.6, 2.3, 0.1],
+  ["Yaourt nature", 60, 4, 5.5, 2, 0, 5.5, 0.15, 125],
+  ["Yaourt grec", 125, 5, 4.5, 9.5, 0, 4.5, 0.1, 150],
+  ["Skyr nature", 65, 11, 4, 0.2, 0, 4, 0.1, 150],
+  ["Fromage blanc 3% MG", 75, 7.5, 4, 3, 0, 4, 0.1, 100],
+  ["Fromage blanc 0% MG", 50, 8, 4, 0.1, 0, 4, 0.1, 100],
+  ["Crème fraîche épaisse 30% MG", 300, 2.4, 2.8, 30, 0, 2.8, 0.1],
+  ["Crème fraîche légère 15% MG", 165, 2.7, 4, 15, 0, 4, 0.1],
+  ["Crème liquide 30% MG", 290, 2.2, 3, 30, 0, 3, 0.1],
+  ["Beurre doux", 745, 0.7, 0.7, 82, 0, 0.7, 0.05, 10],
+  ["Beurre demi-sel", 730, 0.7, 0.7, 80, 0, 0.7, 2, 10],
+  ["Emmental râpé", 380, 28, 0.5, 29.5, 0, 0.5, 0.7],
+  ["Comté", 410, 27, 0.5, 34, 0, 0.5, 0.8, 30],
+  ["Camembert", 270, 20, 0.5, 21, 0, 0.5, 1.5, 30],
+  ["Mozzarella", 250, 18, 1, 19.5, 0, 1, 0.5, 125],
+  ["Parmesan", 400, 33, 0.5, 29, 0, 0.5, 1.6],
+  ["Chèvre frais", 210, 11, 3, 17, 0, 3, 0.9],
+  ["Feta", 265, 16, 1, 21.5, 0, 1, 2.8],
+  ["Raclette (fromage)", 355, 24, 0.5, 28.5, 0, 0.5, 1.8, 30],
+  ["Ricotta", 140, 9, 3.5, 10, 0, 3.5, 0.3],
+  ["Mascarpone", 420, 4.5, 4, 43, 0, 4, 0.1],
+  // Féculents
+  ["Riz blanc, cru", 355, 7.5, 78, 0.8, 1.3, 0.2, 0],
+  ["Riz blanc, cuit", 145, 2.8, 31, 0.4, 0.5, 0.1, 0],
+  ["Riz complet, cru", 350, 8, 73, 2.8, 3.5, 0.7, 0],
+  ["Riz basmati, cru", 355, 8.5, 78, 0.8, 1.2, 0.2, 0],
+  ["Pâtes, crues", 355, 12.5, 71, 1.5, 3, 3, 0],
+  ["Pâtes, cuites", 155, 5.3, 30, 0.9, 1.8, 0.7, 0],
+  ["Pâtes complètes, crues", 345, 13.5, 64, 2.5, 8, 3, 0],
+  ["Semoule de blé, crue", 360, 12, 72, 1.5, 4, 1, 0],
+  ["Boulgour, cru", 345, 12, 69, 1.5, 8, 0.5, 0],
+  ["Quinoa, cru", 370, 14, 62, 6, 7, 1.5, 0],
+  ["Lentilles vertes, crues", 330, 24, 49, 1.5, 11, 1.5, 0],
+  ["Lentilles corail, crues", 340, 24, 53, 2, 9, 2, 0],
+  ["Pois chiches, cuits", 140, 8, 18, 2.5, 6, 1, 0.3],
+  ["Haricots rouges, cuits", 115, 8.5, 14, 0.5, 7.5, 0.5, 0.3],
+  ["Pomme de terre, crue", 80, 2, 16.5, 0.1, 2, 0.6, 0, 150],
+  ["Patate douce, crue", 85, 1.6, 18, 0.1, 3, 4.5, 0.1, 200],
+  ["Frites, cuites au four", 220, 3.5, 33, 8, 3, 0.5, 0.5],
+  ["Gnocchi de pomme de terre", 170, 4, 34, 1, 2, 1, 1.1],
+  ["Flocons d'avoine", 370, 13.5, 58.5, 7, 10, 1, 0],
+  ["Farine de blé T55", 345, 10, 72, 1.2, 3, 1.5, 0],
+  ["Pain baguette", 270, 9, 55, 1.3, 3, 2.5, 1.2, 250],
+  ["Pain complet", 245, 9, 44, 2.5, 7, 3, 1.1],
+  ["Pain de mie", 270, 8.5, 48, 4, 3, 5, 1.1, 25],
+  ["Pain burger", 275, 9, 48, 5, 2.5, 6, 1.1, 60],
+  ["Tortilla de blé", 300, 8.5, 50, 7, 3, 3, 1.3, 40],
+  ["Pâte feuilletée", 400, 5.5, 36, 25.5, 2, 1, 1, 230],
+  ["Pâte brisée", 420, 6, 40, 25, 2, 2, 1, 230],
+  ["Pâte à pizza", 270, 7.5, 47, 5, 2.5, 2, 1.3, 260],
+  ["Céréales de petit-déjeuner", 380, 8, 80, 2, 4, 20, 1],
+  ["Muesli", 370, 10, 62, 7, 8, 18, 0.1],
+  // Légumes
+  ["Tomate", 20, 0.9, 3, 0.3, 1.2, 2.6, 0, 120],
+  ["Tomates concassées (conserve)", 25, 1.2, 4, 0.2, 1.2, 3.5, 0.2],
+  ["Coulis de tomate", 35, 1.5, 5.5, 0.3, 1.5, 4.5, 0.4],
+  ["Concentré de tomate", 95, 4.5, 15, 0.5, 4.5, 13, 0.2],
+  ["Carotte", 35, 0.8, 6.5, 0.3, 2.5, 5, 0.1, 100],
+  ["Courgette", 17, 1.2, 1.5, 0.3, 1, 1.5, 0, 250],
+  ["Aubergine", 20, 1, 2.5, 0.2, 2.5, 2, 0, 300],
+  ["Poivron rouge", 30, 0.9, 5, 0.3, 2, 4, 0, 160],
+  ["Poivron vert", 20, 0.8, 3, 0.2, 1.5, 2.5, 0, 160],
+  ["Oignon", 40, 1.3, 7, 0.2, 1.5, 5, 0, 100],
+  ["Échalote", 70, 2.5, 14, 0.1, 3, 8, 0, 25],
+  ["Ail", 130, 6.5, 21, 0.5, 4.5, 1, 0, 5],
+  ["Brocoli", 35, 3, 3, 0.4, 2.5, 1.5, 0.1],
+  ["Chou-fleur", 25, 2, 3, 0.3, 2.5, 2.5, 0.05],
+  ["Épinards", 25, 3, 1, 0.5, 2.5, 0.5, 0.15],
+  ["Haricots verts", 30, 2, 3.5, 0.2, 3, 2, 0],
+  ["Petits pois", 75, 5.5, 9, 0.5, 5.5, 4, 0],
+  ["Champignons de Paris", 25, 3, 1, 0.3, 1.5, 0.5, 0],
+  ["Poireau", 30, 1.5, 4.5, 0.3, 2.5, 3, 0, 200],
+  ["Salade verte", 15, 1.3, 1.5, 0.2, 1.3, 1, 0, 300],
+  ["Concombre", 12, 0.6, 2, 0.1, 0.6, 2, 0, 300],
+  ["Avocat", 205, 1.6, 1, 20.5, 5, 0.5, 0, 150],
+  ["Maïs doux (conserve)", 85, 2.8, 15, 1.5, 2.5, 4, 0.5],
+  ["Potiron", 25, 1, 4.5, 0.2, 1.5, 3, 0],
+  ["Betterave cuite", 45, 1.7, 8, 0.1, 2.5, 7, 0.2],
+  ["Céleri-rave", 30, 1.3, 3, 0.3, 5, 2.5, 0.2],
+  ["Chou rouge", 30, 1.5, 5, 0.2, 2.5, 4, 0],
+  ["Fenouil", 20, 1, 2.5, 0.2, 2.5, 2.5, 0.1],
+  ["Navet", 22, 0.8, 3.5, 0.2, 2, 3.5, 0.1],
+  // Fruits
+  ["Pomme", 55, 0.3, 12, 0.2, 1.5, 11, 0, 150],
+  ["Poire", 55, 0.4, 12, 0.2, 3, 9.5, 0, 160],
+  ["Banane", 90, 1.1, 20, 0.3, 2, 15.5, 0, 120],
+  ["Orange", 45, 0.9, 8.5, 0.2, 2, 8.5, 0, 180],
+  ["Clémentine", 45, 0.8, 9, 0.2, 1.5, 9, 0, 70],
+  ["Citron", 30, 0.8, 3, 0.3, 3, 2.5, 0, 100],
+  ["Fraises", 35, 0.6, 6, 0.3, 2, 6, 0],
+  ["Framboises", 45, 1.2, 5.5, 0.6, 6.5, 5, 0],
+  ["Myrtilles", 55, 0.7, 10, 0.4, 2.5, 9.5, 0],
+  ["Raisin", 70, 0.7, 16, 0.2, 1, 16, 0],
+  ["Kiwi", 60, 1.1, 11, 0.6, 3, 10, 0, 75],
+  ["Mangue", 65, 0.6, 14, 0.3, 1.6, 13.5, 0, 300],
+  ["Ananas", 50, 0.5, 11, 0.2, 1.3, 10, 0],
+  ["Pêche", 40, 0.8, 8.5, 0.2, 1.5, 8.5, 0, 150],
+  ["Abricot", 45, 0.8, 9, 0.2, 2, 9, 0, 45],
+  ["Compote de pomme sans sucre ajouté", 60, 0.3, 13, 0.2, 1.5, 12, 0, 100],
+  ["Dattes sèches", 285, 2, 64, 0.3, 7, 64, 0, 8],
+  ["Raisins secs", 300, 3, 68, 0.5, 4, 65, 0.05],
+  // Oléagineux, graines
+  ["Amandes", 620, 24, 8, 52, 11, 4, 0, 1.2],
+  ["Noix", 700, 15, 7, 65, 6.5, 2.5, 0],
+  ["Noisettes", 650, 15, 7, 61, 9.5, 4.5, 0],
+  ["Noix de cajou", 600, 19, 27, 47, 3.5, 6, 0.05],
+  ["Cacahuètes grillées", 600, 25, 13, 49, 8, 4.5, 0.8],
+  ["Beurre de cacahuète", 620, 24, 14, 50, 6.5, 7, 0.6],
+  ["Graines de chia", 480, 17, 8, 31, 34, 0, 0.05],
+  ["Graines de courge", 570, 30, 5, 48, 6, 1, 0.05],
+  // Matières grasses, condiments
+  ["Huile d'olive", 900, 0, 0, 100, 0, 0, 0],
+  ["Huile de colza", 900, 0, 0, 100, 0, 0, 0],
+  ["Huile de tournesol", 900, 0, 0, 100, 0, 0, 0],
+  ["Mayonnaise", 700, 1.3, 2, 76, 0, 1.5, 1.2],
+  ["Ketchup", 110, 1.3, 24, 0.2, 0.6, 22, 2],
+  ["Moutarde", 150, 7.5, 4, 11, 3, 2, 6],
+  ["Sauce soja", 60, 8, 6, 0.1, 0.8, 1, 14],
+  ["Pesto", 450, 5, 5, 45, 2, 2, 2.5],
+  ["Vinaigrette", 420, 0.5, 3, 44, 0, 2.5, 2],
+  ["Bouillon cube", 250, 10, 20, 15, 0.5, 5, 50, 10],
+  ["Sel", 0, 0, 0, 0, 0, 0, 99],
+  // Sucré
+  ["Sucre blanc", 400, 0, 100, 0, 0, 100, 0],
+  ["Cassonade", 390, 0, 97, 0, 0, 97, 0],
+  ["Miel", 325, 0.5, 80, 0, 0, 80, 0],
+  ["Sirop d'érable", 260, 0, 67, 0.1, 0, 60, 0],
+  ["Chocolat noir 70%", 580, 8, 33, 42, 11, 28, 0.03, 10],
+  ["Chocolat au lait", 540, 7, 57, 31, 2, 55, 0.2, 10],
+  ["Pâte à tartiner cacao noisette", 540, 6, 57, 31, 3.5, 56, 0.1],
+  ["Confiture", 245, 0.4, 60, 0.1, 1, 55, 0],
+  ["Cacao en poudre non sucré", 380, 20, 14, 21, 33, 1, 0.1],
+  ["Biscuits secs (petit-beurre)", 440, 7.5, 73, 12, 2.5, 22, 1, 8],
+  ["Glace vanille", 210, 3.5, 25, 11, 0.5, 22, 0.2],
+  // Plats et divers
+  ["Pizza margherita", 245, 11, 30, 8.5, 2, 3, 1.3],
+  ["Lasagnes bolognaise", 140, 7.5, 12, 6.5, 1, 2.5, 0.8],
+  ["Tofu nature", 125, 13, 1.5, 7.5, 1, 0.5, 0],
+  ["Houmous", 300, 7.5, 13, 24, 6, 0.5, 1.2],
+  ["Soupe de légumes", 35, 1, 5, 1, 1.2, 2, 0.6],
+  ["Jus d'orange", 45, 0.7, 10, 0.1, 0.2, 9, 0],
+  ["Vin rouge", 75, 0.1, 2.5, 0, 0, 0.5, 0],
+  ["Bière blonde", 40, 0.3, 3, 0, 0, 0.2, 0],
+];
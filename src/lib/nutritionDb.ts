@@ -0,0 +1,69 @@
+/**
+ * Offline search over the bundled nutrition table (nutritionData).
+ * Used by the food and ingredient name fields to fill kcal, protein, macros and unit weights
+ * without any network call.
+ */
+
+import { normalizeForMatch, smartFoodContains, MACRO_KEYS, type MacroKey, type Nutrition } from "@/lib/ingredientUtils";
+import { NUTRITION_ROWS } from "@/lib/nutritionData";
+
+export interface NutritionEntry {
+  /** Full table name ("Poulet, filet, cuit") */
+  name: string;
+  /** Short name usable in an ingredient string: no commas nor parentheses ("Poulet") */
+  label: string;
+  /** Per 100 g */
+  nutrition: { kcal: number } & Record<MacroKey, number>;
+  /** Weight of one piece in grams, when the food is counted */
+  unitGrams: number | null;
+}
+
+interface IndexedEntry { entry: NutritionEntry; key: string; labelKey: string; words: string[]; }
+
+let index: IndexedEntry[] | null = null;
+
+// Built on first search
+function getIndex(): IndexedEntry[] {
+  if (index) return index;
+  index = NUTRITION_ROWS.map(([name, kcal, ...rest]) => {
+    const label = name.split(",")[0].replace(/\s*\(.*?\)\s*/g, " ").trim();
+    const nutrition = { kcal, ...Object.fromEntries(MACRO_KEYS.map((k, i) => [k, rest[i]])) } as NutritionEntry["nutrition"];
+    const entry: NutritionEntry = { name, label, nutrition, unitGrams: rest[MACRO_KEYS.length] ?? null };
+    const key = normalizeForMatch(name).replace(/\s+/g, " ");
+    return { entry, key, labelKey: normalizeForMatch(label), words: key.split(" ") };
+  });
+  return index;
+}
+
+/** 0 = same name, 1 = name starts with the query, 2 = smart food match, 3 = every query word starts a word */
+function matchScore(item: IndexedEntry, q: string, qWords: string[]): number | null {
+  if (item.key === q || item.labelKey === q) return 0;
+  if (item.key.startsWith(q)) return 1;
+  if (smartFoodContains(item.entry.label, q)) return 2;
+  if (qWords.every(qw => item.words.some(w => w.startsWith(qw)))) return 3;
+  return null;
+}
+
+/** Entries matching a typed name, best first (empty under 2 characters) */
+export function searchNutrition(query: string, limit = 8): NutritionEntry[] {
+  const q = normalizeForMatch(query).replace(/\s+/g, " ");
+  if (q.length < 2) return [];
+  const qWords = q.split(" ");
+  return getIndex()
+    .map(item => ({ item, score: matchScore(item, q, qWords) }))
+    .filter((m): m is { item: IndexedEntry; score: number } => m.score !== null)
+    .sort((a, b) => a.score - b.score || a.item.key.length - b.item.key.length)
+    .slice(0, limit)
+    .map(m => m.item.entry);
+}
+
+/** Values per 100 g, or for one piece with `perUnit`; zero macros are left out */
+export function entryNutrition(entry: NutritionEntry, perUnit = false): Nutrition {
+  const factor = perUnit && entry.unitGrams ? entry.unitGrams / 100 : 1;
+  const result: Nutrition = { kcal: Math.round(entry.nutrition.kcal * factor) };
+  for (const key of MACRO_KEYS) {
+    const value = Math.round(entry.nutrition[key] * factor * 10) / 10;
+    if (value > 0) result[key] = value;
+  }
+  return result;
+}
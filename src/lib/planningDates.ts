@@ -0,0 +1,51 @@
+/**
+ * Calendar helpers for dated planning (possible_meals.planned_date, yyyy-MM-dd).
+ * Weeks start on Monday. Per-day planning preferences are keyed by date, or by
+ * weekday key ("lundi"…) when the value repeats every week.
+ * Used by useMeals, WeeklyPlanning and PossibleMealCard.
+ */
+
+import { addDays, format, parseISO, startOfWeek } from "date-fns";
+
+export const WEEKDAY_KEYS = ['lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi', 'dimanche'] as const;
+export type WeekdayKey = typeof WEEKDAY_KEYS[number];
+
+export const toDateKey = (d: Date): string => format(d, 'yyyy-MM-dd');
+
+export const todayKey = (): string => toDateKey(new Date());
+
+/** Monday of the week containing `d` */
+export const weekStart = (d: Date): Date => startOfWeek(d, { weekStartsOn: 1 });
+
+/** The 7 date keys (Mon → Sun) of the week starting at `monday` */
+export function weekDateKeys(monday: Date): string[] {
+  return WEEKDAY_KEYS.map((_, i) => toDateKey(addDays(monday, i)));
+}
+
+/** "lundi"… for a date key */
+export function weekdayOf(dateKey: string): WeekdayKey {
+  const dow = parseISO(dateKey).getDay(); // 0=Sun
+  return WEEKDAY_KEYS[dow === 0 ? 6 : dow - 1];
+}
+
+/** True for a planned date strictly before today (kept as history) */
+export function isPastDate(dateKey: string | null | undefined): boolean {
+  return !!dateKey && dateKey < todayKey();
+}
+
+/**
+ * Read a per-day preference: the dated value wins, then the weekly one.
+ * `suffix` addresses per-slot values ("2026-03-09-midi" / "lundi-midi").
+ */
+export function getDayValue<T>(map: Record<string, T>, dateKey: string, suffix = ''): T | undefined {
+  return map[`${dateKey}${suffix}`] ?? map[`${weekdayOf(dateKey)}${suffix}`];
+}
+
+/** Write a per-day preference, on the weekday key when it repeats weekly; undefined clears it */
+export function setDayValue<T>(map: Record<string, T>, dateKey: string, value: T | undefined, { weekly = false, suffix = '' } = {}): Record<string, T> {
+  const updated = { ...map };
+  const key = `${weekly ? weekdayOf(dateKey) : dateKey}${suffix}`;
+  if (value === undefined) delete updated[key];
+  else updated[key] = value;
+  return updated;
+}
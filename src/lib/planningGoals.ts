@@ -0,0 +1,20 @@
+/**
+ * Daily nutrition goals of the planning (preferences planning_daily_goal and planning_protein_goal).
+ */
+
+import type { MealSlot } from "@/lib/mealSlots";
+
+export const DEFAULT_DAILY_GOAL = 2750;
+export const DEFAULT_PROTEIN_GOAL = 110;
+
+/** Targets of one main dish: calorie_target of the "plat" slots when set, otherwise an even share of the day */
+export function platTargets(dailyKcal: number, dailyProtein: number, slots: MealSlot[]): { kcal: number; protein: number } {
+  const evenShare = 1 / Math.max(1, slots.length);
+  const platKcal = slots.filter(s => s.default_category === "plat" && s.calorie_target).map(s => s.calorie_target!);
+  const kcal = platKcal.length > 0
+    ? platKcal.reduce((a, b) => a + b, 0) / platKcal.length
+    : dailyKcal * evenShare;
+  // Protein follows the calorie share of the dish
+  const share = dailyKcal > 0 ? kcal / dailyKcal : evenShare;
+  return { kcal: Math.round(kcal), protein: Math.round(dailyProtein * share) };
+}
@@ -0,0 +1,115 @@
+/**
+ * Prices (price_history table): what a product cost, where and when, for which pack size.
+ * The latest price of a product (matched by name) prices the shopping list and the meals.
+ */
+
+import type { Meal, PossibleMeal } from "@/hooks/useMeals";
+import type { ShoppingItem } from "@/hooks/useShoppingList";
+import { strictNameMatch, parseIngredientGroups, ingredientGrams, normalizeForMatch } from "@/lib/ingredientUtils";
+import { parseNbValue } from "@/lib/menuOptimizer";
+import { recipeYield } from "@/lib/servings";
+
+export interface PriceEntry {
+  id: string;
+  name: string;
+  /** Price of one pack, in euros */
+  price: number;
+  store: string | null;
+  bought_on: string;
+  content_quantity: string | null;
+  content_quantity_type: string | null;
+  created_at: string;
+}
+
+export const formatEuros = (value: number) =>
+  value.toLocaleString("fr-FR", { style: "currency", currency: "EUR" });
+
+/** Most recent price of a product */
+export function latestPrice(entries: PriceEntry[], name: string): PriceEntry | null {
+  let latest: PriceEntry | null = null;
+  for (const e of entries) {
+    if (!strictNameMatch(e.name, name)) continue;
+    if (!latest || e.bought_on > latest.bought_on || (e.bought_on === latest.bought_on && e.created_at > latest.created_at)) latest = e;
+  }
+  return latest;
+}
+
+/** Price per gram when the pack is weighed, per piece otherwise (a pack without content = one piece) */
+export function unitPrices(entry: PriceEntry): { perGram: number | null; perPiece: number | null } {
+  const pack = parseNbValue(entry.content_quantity, entry.content_quantity_type);
+  if (pack && pack.grams > 0) return { perGram: entry.price / pack.grams, perPiece: null };
+  if (pack && pack.count > 0) return { perGram: null, perPiece: entry.price / pack.count };
+  return { perGram: null, perPiece: entry.price };
+}
+
+/** Cost of a list item: its packs at the latest price, rescaled when its pack differs from the priced one */
+export function itemCost(item: Pick<ShoppingItem, "name" | "quantity" | "content_quantity" | "content_quantity_type">, entries: PriceEntry[]): number | null {
+  const entry = latestPrice(entries, item.name);
+  if (!entry) return null;
+  const packs = Math.max(1, parseInt(item.quantity || "1") || 1);
+  const pack = parseNbValue(item.content_quantity, item.content_quantity_type);
+  const { perGram, perPiece } = unitPrices(entry);
+  if (pack && pack.grams > 0 && perGram != null) return packs * pack.grams * perGram;
+  if (pack && pack.count > 0 && perPiece != null && entry.content_quantity) return packs * pack.count * perPiece;
+  return packs * entry.price;
+}
+
+/** Estimated total of the checked items; `missing` lists the items without any price */
+export function listTotal(items: ShoppingItem[], entries: PriceEntry[]): { total: number; missing: string[] } {
+  let total = 0;
+  const missing: string[] = [];
+  for (const item of items) {
+    if (!item.checked) continue;
+    const cost = itemCost(item, entries);
+    if (cost == null) missing.push(item.name);
+    else total += cost;
+  }
+  return { total, missing };
+}
+
+function mealAsIngredient(meal: Pick<Meal, "name" | "grams">) {
+  const qty = parseFloat((meal.grams || "0").replace(/[^0-9.,]/g, "").replace(",", ".")) || 0;
+  return { qty, count: qty > 0 ? 0 : 1, name: normalizeForMatch(meal.name), unit: "g" as const, optional: false };
+}
+
+/**
+ * Cost of a whole ingredient list (first alternative of each group; optional ones and amounts left
+ * unwritten are not priced). A meal without ingredients is priced as a product of its own name.
+ * Null when no ingredient has a usable price.
+ */
+function recipeCost(meal: Pick<Meal, "name" | "ingredients" | "grams">, entries: PriceEntry[]): { cost: number; missing: string[] } | null {
+  const ingredients = meal.ingredients?.trim()
+    ? parseIngredientGroups(meal.ingredients).filter(g => g.length > 0 && !g[0].optional).map(g => g[0])
+    : [mealAsIngredient(meal)];
+  let cost = 0, priced = 0;
+  const missing: string[] = [];
+  for (const ing of ingredients) {
+    const entry = latestPrice(entries, ing.name);
+    const { perGram, perPiece } = entry ? unitPrices(entry) : { perGram: null, perPiece: null };
+    const grams = ingredientGrams(ing);
+    if (grams === 0 && ing.count === 0) continue; // "sel": amount unknown, not priced
+    if (grams > 0 && perGram != null) cost += grams * perGram;
+    else if (grams === 0 && perPiece != null) cost += ing.count * perPiece;
+    else { missing.push(ing.name); continue; }
+    priced++;
+  }
+  return priced > 0 ? { cost, missing } : null;
+}
+
+/** Cost of one portion: the recipe's cost divided by its yield (a meal priced by its own name already is a portion) */
+export function mealCost(meal: Pick<Meal, "name" | "ingredients" | "grams" | "yield_servings" | "yield_grams">, entries: PriceEntry[]): { cost: number; missing: string[] } | null {
+  const cost = recipeCost(meal, entries);
+  if (!cost || !meal.ingredients?.trim()) return cost;
+  return { ...cost, cost: cost.cost / recipeYield(meal) };
+}
+
+/** Cost of planned cards, with their ingredient override when set, times their quantity */
+export function plannedCost(cards: PossibleMeal[], entries: PriceEntry[]): number {
+  let total = 0;
+  for (const pm of cards) {
+    if (!pm.meals) continue;
+    const cost = recipeCost({ ...pm.meals, ingredients: pm.ingredients_override ?? pm.meals.ingredients }, entries);
+    if (cost) total += cost.cost * Math.max(1, pm.quantity || 1);
+  }
+  return total;
+}
@@ -0,0 +1,36 @@
+/**
+ * Recipe of a meal: ordered steps (meals.steps, jsonb) with an optional timer,
+ * and prep / cook / rest times in minutes. Used by the cooking mode.
+ */
+
+export interface RecipeStep {
+  text: string;
+  /** Countdown offered on this step; null = none */
+  timer_minutes: number | null;
+}
+
+/** Steps as stored, tolerating malformed entries */
+export function parseSteps(raw: unknown): RecipeStep[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((s): s is { text: unknown; timer_minutes?: unknown } => !!s && typeof s === "object" && "text" in s)
+    .map(s => ({
+      text: String(s.text ?? "").trim(),
+      timer_minutes: typeof s.timer_minutes === "number" && s.timer_minutes > 0 ? s.timer_minutes : null,
+    }))
+    .filter(s => s.text);
+}
+
+/** Total time of a recipe (prep + cook + rest); null when none is known */
+export function totalMinutes(times: { prep_minutes?: number | null; cook_minutes?: number | null; rest_minutes?: number | null }): number | null {
+  const values = [times.prep_minutes, times.cook_minutes, times.rest_minutes].filter((v): v is number => v != null && v > 0);
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) : null;
+}
+
+/** "45 min", "1 h", "1 h 15" */
+export function formatMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  if (h === 0) return `${m} min`;
+  return m === 0 ? `${h} h` : `${h} h ${String(m).padStart(2, "0")}`;
+}
@@ -0,0 +1,245 @@
+/**
+ * Recipe import from a saved web page: reads the schema.org `Recipe` JSON-LD most recipe sites embed
+ * (name, recipeIngredient, nutrition, times, yield, steps). Everything stays local: the page is a file
+ * or pasted HTML. Ingredient lines go through parseIngredientLineDisplay like typed ones.
+ * schema.org nutrition is per serving; a meal's values are for the whole recipe (see servings.ts).
+ */
+
+import type { MealCategory } from "@/hooks/useMeals";
+import { parseIngredientLineDisplay, type IngLine } from "@/lib/ingredientUtils";
+import type { RecipeStep } from "@/lib/recipe";
+import { UNIT_PATTERN } from "@/lib/unitConversion";
+
+export interface RecipeNutrition {
+  kcal?: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  fibre?: number;
+  sugar?: number;
+  salt?: number;
+}
+
+export interface ImportedRecipe {
+  name: string;
+  category: MealCategory | null;
+  /** Ingredient texts, cleaned up for our parser */
+  ingredients: string[];
+  steps: RecipeStep[];
+  prep_minutes: number | null;
+  cook_minutes: number | null;
+  rest_minutes: number | null;
+  yield_servings: number | null;
+  /** Per serving */
+  nutrition: RecipeNutrition;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const ENTITIES: Record<string, string> = { amp: "&", quot: '"', apos: "'", lt: "<", gt: ">", nbsp: " ", eacute: "é", egrave: "è", agrave: "à", ccedil: "ç", oelig: "œ", deg: "°" };
+
+/** Plain text: entities decoded, tags stripped, spaces collapsed */
+export function cleanText(value: unknown): string {
+  if (typeof value !== "string" && typeof value !== "number") return "";
+  return String(value)
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&([a-z]+);/gi, (m, name) => ENTITIES[name.toLowerCase()] ?? m)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** ISO 8601 duration ("PT1H15M", "P0DT45M") in minutes */
+export function parseIsoDuration(value: unknown): number | null {
+  if (typeof value !== "string") return null;
+  const m = value.trim().match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!m) return null;
+  const [, d, h, min, s] = m.map(v => (v ? parseFloat(v) : 0));
+  const total = Math.round(d * 1440 + h * 60 + min + s / 60);
+  return total > 0 ? total : null;
+}
+
+const firstNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const m = cleanText(value).replace(/(\d),(\d)/g, "$1.$2").match(/\d+(?:\.\d+)?/);
+  return m ? parseFloat(m[0]) : null;
+};
+
+/** "400 mg" → 0.4, "2 g" → 2 */
+const grams = (value: unknown): number | null => {
+  const n = firstNumber(value);
+  if (n == null) return null;
+  return /\bmg\b/i.test(cleanText(value)) ? n / 1000 : n;
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function parseNutrition(value: unknown): RecipeNutrition {
+  if (!value || typeof value !== "object") return {};
+  const n = value as JsonObject;
+  const out: RecipeNutrition = {};
+  const kcal = firstNumber(n.calories);
+  if (kcal != null) out.kcal = /kj/i.test(cleanText(n.calories)) && !/kcal/i.test(cleanText(n.calories)) ? Math.round(kcal / 4.184) : Math.round(kcal);
+  const fields: [keyof RecipeNutrition, string][] = [
+    ["protein", "proteinContent"], ["carbs", "carbohydrateContent"], ["fat", "fatContent"],
+    ["fibre", "fiberContent"], ["sugar", "sugarContent"], ["salt", "saltContent"],
+  ];
+  for (const [key, field] of fields) {
+    const g = grams(n[field]);
+    if (g != null) out[key] = round1(g);
+  }
+  // Salt is 2.5 × sodium
+  if (out.salt == null) {
+    const sodium = grams(n.sodiumContent);
+    if (sodium != null) out.salt = round1(sodium * 2.5);
+  }
+  return out;
+}
+
+const CATEGORY_PATTERNS: [MealCategory, RegExp][] = [
+  ["petit_dejeuner", /petit[- ]?d[ée]j|breakfast|brunch/i],
+  ["dessert", /dessert|g[âa]teau|p[âa]tisserie|cake|sweet/i],
+  ["entree", /entr[ée]e|ap[ée]ritif|amuse|starter|appetizer/i],
+  ["plat", /plat|main|dinner|d[îi]ner|lunch/i],
+];
+
+function parseCategory(value: unknown): MealCategory | null {
+  const text = (Array.isArray(value) ? value : [value]).map(cleanText).join(" ");
+  return CATEGORY_PATTERNS.find(([, re]) => re.test(text))?.[0] ?? null;
+}
+
+function parseYield(value: unknown): number | null {
+  for (const entry of Array.isArray(value) ? value : [value]) {
+    const n = firstNumber(entry);
+    if (n != null && n > 0) return Math.round(n);
+  }
+  return null;
+}
+
+/** "pendant 20 min", "15 à 20 minutes", "1 h 30": the countdown a step suggests */
+export function guessStepTimer(text: string): number | null {
+  // "h" must end the word: "4 huîtres" is not four hours
+  const hours = text.match(/(\d+)\s*h(?:eures?)?(?![a-zà-ÿ])\s*(\d+)?/i);
+  if (hours) return parseInt(hours[1], 10) * 60 + (hours[2] ? parseInt(hours[2], 10) : 0);
+  const minutes = text.match(/(\d+)(?:\s*(?:à|-|–)\s*(\d+))?\s*(?:min\b|minutes?)/i);
+  if (minutes) return parseInt(minutes[2] ?? minutes[1], 10);
+  return null;
+}
+
+function parseInstructions(value: unknown): string[] {
+  if (typeof value === "string") return value.split(/\n+|<br\s*\/?>|<\/p>|<\/li>/i).map(cleanText).filter(Boolean);
+  if (Array.isArray(value)) return value.flatMap(parseInstructions);
+  if (value && typeof value === "object") {
+    const node = value as JsonObject;
+    if (node.itemListElement) return parseInstructions(node.itemListElement);
+    return parseInstructions(node.text ?? node.name ?? "");
+  }
+  return [];
+}
+
+const NUMBER_WORDS: Record<string, string> = { un: "1", une: "1", deux: "2", trois: "3", quatre: "4", cinq: "5", six: "6" };
+const FRACTIONS: Record<string, number> = { "½": 0.5, "¼": 0.25, "¾": 0.75, "⅓": 1 / 3, "⅔": 2 / 3 };
+const formatAmount = (n: number) => String(Math.round(n * 100) / 100);
+
+/**
+ * A site's ingredient line in our format: fractions as decimals, "de"/"d'" after the unit dropped,
+ * the preparation note after a comma dropped (the name must still match the stock), and the characters
+ * our format reserves ("|", "{…}", a leading "?") kept out of the name.
+ */
+export function normalizeIngredientText(raw: string): string {
+  let text = cleanText(raw).replace(/^[-•*]\s*/, "");
+  text = text.replace(/^(un|une|deux|trois|quatre|cinq|six)\s+(?!peu\b)/i, (_, word: string) => `${NUMBER_WORDS[word.toLowerCase()]} `);
+  text = text.replace(/(\d+)?\s*([½¼¾⅓⅔])/g, (_, whole: string | undefined, frac: string) => formatAmount((whole ? parseInt(whole, 10) : 0) + FRACTIONS[frac]));
+  text = text.replace(/^(\d+)\s+(\d+)\/(\d+)/, (_, w: string, a: string, b: string) => formatAmount(parseInt(w, 10) + parseInt(a, 10) / parseInt(b, 10)));
+  text = text.replace(/^(\d+)\/(\d+)/, (_, a: string, b: string) => formatAmount(parseInt(a, 10) / parseInt(b, 10)));
+  text = text.replace(new RegExp(`^(\\d+(?:[.,]\\d+)?\\s*${UNIT_PATTERN})\\s+(?:de\\s+|d['’]\\s*)`, "i"), "$1 ");
+  text = text.replace(/^(\d+(?:[.,]\d+)?)\s+(?:de\s+|d['’]\s*)/i, "$1 ");
+  // What follows a comma is a preparation note ("oignon, émincé")
+  const comma = text.search(/,(?!\d)/);
+  if (comma > 0) text = text.slice(0, comma);
+  return text.replace(/\|/g, "/").replace(/[{}]/g, "").replace(/^\?\s*/, "").replace(/\s+/g, " ").trim();
+}
+
+/** Editor lines for the review screen */
+export const ingredientLines = (ingredients: string[]): IngLine[] =>
+  ingredients.map(parseIngredientLineDisplay).filter(l => l.name);
+
+const isRecipe = (node: JsonObject) => {
+  const type = node["@type"];
+  return Array.isArray(type) ? type.includes("Recipe") : type === "Recipe";
+};
+
+function toRecipe(node: JsonObject): ImportedRecipe | null {
+  const name = cleanText(node.name ?? node.headline);
+  if (!name) return null;
+  const rawIngredients = node.recipeIngredient ?? node.ingredients;
+  const ingredients = (Array.isArray(rawIngredients) ? rawIngredients : [rawIngredients])
+    .map(i => normalizeIngredientText(cleanText(i)))
+    .filter(Boolean);
+  const prep = parseIsoDuration(node.prepTime);
+  const cook = parseIsoDuration(node.cookTime);
+  const total = parseIsoDuration(node.totalTime);
+  // Whatever the total adds to preparation and cooking is resting time
+  const rest = total != null && (prep != null || cook != null) ? total - (prep ?? 0) - (cook ?? 0) : null;
+  return {
+    name,
+    category: parseCategory(node.recipeCategory),
+    ingredients,
+    steps: parseInstructions(node.recipeInstructions).map(text => ({ text, timer_minutes: guessStepTimer(text) })),
+    prep_minutes: prep,
+    cook_minutes: cook,
+    rest_minutes: rest != null && rest > 0 ? rest : null,
+    yield_servings: parseYield(node.recipeYield),
+    nutrition: parseNutrition(node.nutrition),
+  };
+}
+
+function collectRecipes(value: unknown, out: ImportedRecipe[]) {
+  if (Array.isArray(value)) { value.forEach(v => collectRecipes(v, out)); return; }
+  if (!value || typeof value !== "object") return;
+  const node = value as JsonObject;
+  if (isRecipe(node)) {
+    const recipe = toRecipe(node);
+    if (recipe) out.push(recipe);
+    return;
+  }
+  Object.values(node).forEach(v => collectRecipes(v, out));
+}
+
+/** Every schema.org Recipe of a page's JSON-LD blocks, or of pasted JSON-LD */
+export function findRecipes(source: string): ImportedRecipe[] {
+  const trimmed = source.trim();
+  const blocks = /^[[{]/.test(trimmed)
+    ? [trimmed]
+    : [...trimmed.matchAll(/<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi)].map(m => m[1]);
+  const recipes: ImportedRecipe[] = [];
+  for (const block of blocks) {
+    try {
+      // Some sites leave raw line breaks inside strings
+      collectRecipes(JSON.parse(block.replace(/[\r\n\t]+/g, " ")), recipes);
+    } catch {/* not valid JSON: skip the block */}
+  }
+  return recipes;
+}
+
+/** Meal columns for a recipe: nutrition for the whole yield, times, steps */
+export function mealFieldsFromRecipe(recipe: ImportedRecipe) {
+  const servings = recipe.yield_servings ?? 1;
+  const total = (v: number | undefined) => (v != null ? round1(v * servings) : null);
+  const { nutrition: n } = recipe;
+  return {
+    calories: n.kcal != null ? String(Math.round(n.kcal * servings)) : null,
+    protein: n.protein != null ? String(Math.round(n.protein * servings)) : null,
+    carbs: total(n.carbs),
+    fat: total(n.fat),
+    fibre: total(n.fibre),
+    sugar: total(n.sugar),
+    salt: total(n.salt),
+    prep_minutes: recipe.prep_minutes,
+    cook_minutes: recipe.cook_minutes,
+    rest_minutes: recipe.rest_minutes,
+    yield_servings: recipe.yield_servings,
+    steps: recipe.steps,
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Security dashboard over verify-pin: sign-in and PIN attempts (pin_attempts), per-IP lockouts and the
+ * settings that drive them. Lockouts escalate per IP: after `max_attempts` failures the IP waits
+ * `lock_minutes`, then each further failure doubles the wait until a success or an unlock.
+ * Only requests through verify-pin are counted: a password sign-in sent straight to Supabase Auth with the
+ * public key skips these rules, so for passwords they are advisory (Auth's own rate limits still apply).
+ */
+import { format, startOfDay, subDays } from "date-fns";
+
+export interface SecurityAttempt {
+  ip: string;
+  success: boolean | null;
+  created_at: string;
+}
+
+export interface SecurityLockout {
+  ip: string;
+  failed_attempts: number;
+  lock_count: number;
+  current_lock_minutes: number;
+  lock_until: string | null;
+  remaining_minutes: number;
+}
+
+export interface SecurityConfig {
+  max_attempts: number;
+  lock_minutes: number;
+  allow_ips: string[];
+  deny_ips: string[];
+}
+
+export interface SecurityOverview {
+  config: SecurityConfig;
+  defaults: Pick<SecurityConfig, "max_attempts" | "lock_minutes">;
+  blocked_count: number;
+  attempts: SecurityAttempt[];
+  lockouts: SecurityLockout[];
+}
+
+export interface IpActivity {
+  ip: string;
+  total: number;
+  failed: number;
+  lastAt: string;
+}
+
+export interface DayActivity {
+  date: string;
+  success: number;
+  failed: number;
+}
+
+/** Most failures first, then most recent */
+export function summarizeByIp(attempts: SecurityAttempt[]): IpActivity[] {
+  const byIp = new Map<string, IpActivity>();
+  for (const a of attempts) {
+    const entry = byIp.get(a.ip) ?? { ip: a.ip, total: 0, failed: 0, lastAt: a.created_at };
+    entry.total++;
+    if (!a.success) entry.failed++;
+    if (a.created_at > entry.lastAt) entry.lastAt = a.created_at;
+    byIp.set(a.ip, entry);
+  }
+  return [...byIp.values()].sort((a, b) => b.failed - a.failed || b.lastAt.localeCompare(a.lastAt));
+}
+
+/** One bucket per local day over the last `days` days, oldest first */
+export function attemptsByDay(attempts: SecurityAttempt[], days: number, now = new Date()): DayActivity[] {
+  const today = startOfDay(now);
+  const buckets = Array.from({ length: days }, (_, i) => ({ date: format(subDays(today, days - 1 - i), "yyyy-MM-dd"), success: 0, failed: 0 }));
+  const index = new Map(buckets.map((b, i) => [b.date, i]));
+  for (const a of attempts) {
+    const i = index.get(format(new Date(a.created_at), "yyyy-MM-dd"));
+    if (i === undefined) continue;
+    if (a.success) buckets[i].success++;
+    else buckets[i].failed++;
+  }
+  return buckets;
+}
+
+/** Lockouts still running, the longest wait first */
+export const activeLockouts = (lockouts: SecurityLockout[]) =>
+  lockouts.filter((l) => l.remaining_minutes > 0).sort((a, b) => b.remaining_minutes - a.remaining_minutes);
+
+/** One address per line, comma or space; duplicates dropped */
+export const parseIpList = (text: string) => [...new Set(text.split(/[\s,;]+/).map((ip) => ip.trim()).filter(Boolean))];
+
+const IPV4 = /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/;
+const IPV6 = /^[0-9a-f:]+$/i;
+
+export const isValidIp = (ip: string) => IPV4.test(ip) || (ip.includes(":") && IPV6.test(ip));
+
+/**
+ * Address the lockouts key on, as verify-pin reads it. Callers can put anything at the start of
+ * X-Forwarded-For; only the last hop, appended by the platform's proxy, is trusted.
+ */
+export function clientIp(forwardedFor: string | null, realIp: string | null): string {
+  const hops = (forwardedFor ?? "").split(",").map((h) => h.trim()).filter(Boolean);
+  return hops[hops.length - 1] || realIp?.trim() || "unknown";
+}
+
+export const formatRemaining = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, "0")}`;
@@ -0,0 +1,52 @@
+/**
+ * Servings: a recipe's yield (meals.yield_servings, or meals.yield_grams with the portion weight in meals.grams)
+ * and the servings cooked for a possible meal (possible_meals.servings).
+ * Scaling rounds counted ingredients and indivisible stock items (a can, a pack) to whole units.
+ */
+
+import type { Meal, MealIngredient } from "@/hooks/useMeals";
+import { ingredientStringToRows, rowsToIngredientString, scaleIngredientRows } from "@/lib/ingredientRows";
+import { parseQty } from "@/lib/ingredientUtils";
+import { unitLabel } from "@/lib/unitConversion";
+import { buildScaledMealForRatio, findStockKey, type StockInfo } from "@/lib/stockUtils";
+
+export const HOUSEHOLD_SIZE_PREF_KEY = "household_size";
+
+/** Servings the recipe's ingredient list makes; 1 when it declares none */
+export function recipeYield(meal: Pick<Meal, "grams"> & { yield_servings?: number | null; yield_grams?: number | null }): number {
+  if (meal.yield_servings && meal.yield_servings > 0) return meal.yield_servings;
+  const portion = parseQty(meal.grams);
+  if (meal.yield_grams && meal.yield_grams > 0 && portion > 0) return meal.yield_grams / portion;
+  return 1;
+}
+
+export function servingsRatio(meal: Parameters<typeof recipeYield>[0], servings: number): number {
+  return servings / recipeYield(meal);
+}
+
+/** Nearest whole number of `unit`, at least one */
+const roundToUnits = (value: number, unit: number) => Math.max(1, Math.round(value / unit)) * unit;
+
+/** Rows scaled by ratio; counts and grams of indivisible stock items are rounded to whole units */
+export function scaleRowsForServings(rows: MealIngredient[], ratio: number, stockMap: Map<string, StockInfo>): MealIngredient[] {
+  if (ratio === 1) return rows;
+  return scaleIngredientRows(rows, ratio).map(r => {
+    const count = r.count != null && r.count > 0 ? roundToUnits(r.count, 1) : r.count;
+    if (r.qty == null || r.qty <= 0 || unitLabel(r.unit) !== "g") return { ...r, count };
+    const key = findStockKey(stockMap, r.name);
+    const unit = key ? stockMap.get(key)!.indivisibleUnit : 0;
+    return { ...r, count, qty: unit > 0 ? roundToUnits(r.qty, unit) : r.qty };
+  });
+}
+
+/** The meal as cooked for `servings` people (ingredients, calories, protein and grams) */
+export function buildScaledMealForServings(meal: Meal, servings: number, stockMap: Map<string, StockInfo>): Meal {
+  const ratio = servingsRatio(meal, servings);
+  if (ratio === 1) return meal;
+  const rows = meal.ingredient_rows?.length ? meal.ingredient_rows : ingredientStringToRows(meal.ingredients);
+  const scaledRows = scaleRowsForServings(rows, ratio, stockMap);
+  return { ...buildScaledMealForRatio(meal, ratio), ingredient_rows: scaledRows, ingredients: rowsToIngredientString(scaledRows) };
+}
+
+/** "1 pers.", "4 pers." */
+export const formatServings = (servings: number) => `${Math.round(servings * 10) / 10} pers.`;
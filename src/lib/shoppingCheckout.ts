@@ -0,0 +1,82 @@
+/**
+ * "Ranger les courses": checked shopping items become stock (food_items).
+ * A purchase increments the matching food item (strictNameMatch) or becomes a new one, in the
+ * checkout_shopping RPC; pack contents (content_quantity / content_quantity_type) turn into grams per unit or pieces.
+ */
+
+import type { FoodItem, StorageType } from "@/components/FoodItems";
+import type { ShoppingGroup, ShoppingItem } from "@/hooks/useShoppingList";
+import { normalizeKey, strictNameMatch } from "@/lib/ingredientUtils";
+import { parseNbValue } from "@/lib/menuOptimizer";
+
+/** Storage implied by a shopping group name: "Surgelés" → surgele, "Toujours présent" → toujours */
+export function groupStorageType(group: Pick<ShoppingGroup, "name"> | null | undefined): StorageType | null {
+  if (!group) return null;
+  const n = normalizeKey(group.name);
+  if (n.includes('surgele') || n.includes('congele')) return "surgele";
+  if (n.includes('toujours present') || n.includes('toujours la')) return "toujours";
+  return null;
+}
+
+/** What was bought: pieces, each of `unitGrams` when the pack content is a weight */
+export interface Purchase { quantity: number; unitGrams: number | null; }
+
+/** "×2" packs of "500g" → 2 pieces of 500 g; "×2" packs of "6" → 12 pieces */
+export function purchaseOf(item: Pick<ShoppingItem, "quantity" | "content_quantity" | "content_quantity_type">): Purchase {
+  const packs = Math.max(1, parseInt(item.quantity || "1") || 1);
+  const nb = parseNbValue(item.content_quantity, item.content_quantity_type);
+  if (nb && nb.grams > 0) return { quantity: packs, unitGrams: nb.grams };
+  if (nb && nb.count > 0) return { quantity: packs * nb.count, unitGrams: null };
+  return { quantity: packs, unitGrams: null };
+}
+
+export interface CheckoutLine {
+  shoppingItemId: string;
+  name: string;
+  purchase: Purchase;
+  storage_type: StorageType;
+  /** Stock row to increment; null = new food item */
+  match: FoodItem | null;
+}
+
+/**
+ * One line per checked shopping item. Storage comes from the shopping group, then from the
+ * matched food item, else "frigo".
+ */
+export function planCheckout(items: ShoppingItem[], groups: ShoppingGroup[], foodItems: FoodItem[]): CheckoutLine[] {
+  return items.filter(i => i.checked).map(item => {
+    const match = foodItems.find(fi => !fi.is_infinite && !fi.is_meal && strictNameMatch(fi.name, item.name)) ?? null;
+    const storage = groupStorageType(groups.find(g => g.id === item.group_id)) ?? match?.storage_type ?? "frigo";
+    return { shoppingItemId: item.id, name: item.name, purchase: purchaseOf(item), storage_type: storage, match };
+  });
+}
+
+/** An expiry date different from the stock row's keeps the purchase on its own row */
+export function canIncrement(line: Pick<CheckoutLine, "match">, expiration: string | null): boolean {
+  return !!line.match && (!expiration || !line.match.expiration_date || line.match.expiration_date === expiration);
+}
+
+/** A line confirmed in the dialog, with the storage and expiry chosen there */
+export interface CheckoutEntry extends CheckoutLine { expiration_date: string | null; }
+
+/** A line of the checkout_shopping RPC, which increments the stock row or inserts a new one */
+export interface CheckoutRpcLine {
+  food_item_id: string | null;
+  name: string;
+  quantity: number;
+  unit_grams: number | null;
+  storage_type: StorageType;
+  expiration_date: string | null;
+}
+
+/** RPC lines for the confirmed lines; the stock row is kept only when the purchase can go onto it */
+export function checkoutLines(entries: CheckoutEntry[]): CheckoutRpcLine[] {
+  return entries.map(entry => ({
+    food_item_id: canIncrement(entry, entry.expiration_date) ? entry.match!.id : null,
+    name: entry.name,
+    quantity: entry.purchase.quantity,
+    unit_grams: entry.purchase.unitGrams,
+    storage_type: entry.storage_type,
+    expiration_date: entry.expiration_date,
+  }));
+}
@@ -0,0 +1,132 @@
+/**
+ * Shopping list built from the planned cards: planned ingredients minus home stock,
+ * rounded up to the pack sizes of the shopping items.
+ * Pure functions; ShoppingPlanDialog previews the changes before applying them.
+ */
+
+import type { FoodItem } from "@/components/FoodItems";
+import type { PossibleMeal } from "@/hooks/useMeals";
+import type { ShoppingGroup, ShoppingItem } from "@/hooks/useShoppingList";
+import { normalizeKey, strictNameMatch, ingredientGrams, parseIngredientLineRaw, type ParsedIngredientRaw } from "@/lib/ingredientUtils";
+import { pickBestAlternative, findStockKey, type StockInfo } from "@/lib/stockUtils";
+import { parseNbValue } from "@/lib/menuOptimizer";
+import { groupStorageType } from "@/lib/shoppingCheckout";
+
+/** What is left to buy for one ingredient; both amounts at 0 = needed, amount unknown ("sel") */
+export interface PlannedNeed { key: string; name: string; grams: number; count: number; }
+
+export interface ShoppingChange {
+  key: string;
+  name: string;
+  grams: number;
+  count: number;
+  /** Quantity to write on the item (number of packs) */
+  packs: number;
+  /** Existing item to update; null = new item */
+  itemId: string | null;
+  /** Current quantity of an item already on the list */
+  fromQty: string | null;
+  groupId: string | null;
+}
+
+/** OR groups of a planned card, its override when set, keeping the names as written */
+export function plannedMealGroups(pm: PossibleMeal): ParsedIngredientRaw[][] {
+  const raw = pm.ingredients_override ?? pm.meals?.ingredients;
+  if (!raw?.trim()) return [];
+  return raw.split(/(?:\n|,(?!\d))/).map(s => s.trim()).filter(Boolean)
+    .map(group => group.split(/\|/).map(s => s.trim()).filter(Boolean).map(parseIngredientLineRaw));
+}
+
+/**
+ * Sum the planned ingredients, consuming a copy of the stock card after card (earliest date first).
+ * An OR group covered by the stock uses that alternative; otherwise its first alternative is bought.
+ * Optional groups ("?") are never bought: their names come back in `optional`.
+ */
+export function aggregatePlannedNeeds(
+  possibleMeals: PossibleMeal[],
+  stockMap: Map<string, StockInfo>,
+): { needs: PlannedNeed[]; optional: string[] } {
+  const stock = new Map([...stockMap].map(([k, v]) => [k, { ...v }]));
+  const needs = new Map<string, PlannedNeed>();
+  const optional = new Set<string>();
+
+  const consume = (name: string, grams: number, count: number) => {
+    const key = findStockKey(stock, name);
+    const s = key ? stock.get(key)! : null;
+    if (!s) return { grams, count };
+    if (s.infinite) return { grams: 0, count: 0 };
+    const usedGrams = Math.min(s.grams, grams);
+    const usedCount = Math.min(s.count, count);
+    s.grams -= usedGrams;
+    s.count -= usedCount;
+    return { grams: grams - usedGrams, count: count - usedCount };
+  };
+
+  const sorted = [...possibleMeals].sort((a, b) => (a.planned_date ?? "").localeCompare(b.planned_date ?? ""));
+  for (const pm of sorted) {
+    const times = Math.max(1, pm.quantity || 1);
+    for (const group of plannedMealGroups(pm)) {
+      if (group[0]?.optional) {
+        optional.add(group[0].rawName);
+        continue;
+      }
+      for (let i = 0; i < times; i++) {
+        const inStock = pickBestAlternative(group, stock);
+        if (inStock) {
+          consume(inStock.name, ingredientGrams(inStock), inStock.count);
+          continue;
+        }
+        const alt = group[0];
+        const left = consume(alt.name, ingredientGrams(alt), alt.count);
+        // Not in stock at all when the amount is unknown (pickBestAlternative accepts any stock then)
+        const unknownAmount = alt.qty === 0 && alt.count === 0;
+        if (!unknownAmount && left.grams <= 0 && left.count <= 0) continue;
+        const key = normalizeKey(alt.name);
+        const prev = needs.get(key) ?? { key, name: alt.rawName, grams: 0, count: 0 };
+        needs.set(key, { ...prev, grams: prev.grams + left.grams, count: prev.count + left.count });
+      }
+    }
+  }
+  return { needs: [...needs.values()], optional: [...optional] };
+}
+
+/** Number of packs to buy: by the item's content when known, otherwise by pieces (at least one) */
+export function packsFor(need: Pick<PlannedNeed, "grams" | "count">, item: Pick<ShoppingItem, "content_quantity" | "content_quantity_type"> | null): number {
+  const pack = item ? parseNbValue(item.content_quantity, item.content_quantity_type) : null;
+  if (pack && pack.grams > 0 && need.grams > 0) return Math.ceil(need.grams / pack.grams);
+  if (pack && pack.count > 0 && need.count > 0) return Math.ceil(need.count / pack.count);
+  return Math.max(1, Math.ceil(need.count));
+}
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+/**
+ * Turn needs into list changes. A need matches an existing item by name (same key first, then a
+ * one-letter difference); items already checked with enough packs are left alone.
+ * New items go to the group of their home storage when it is frozen, otherwise stay ungrouped.
+ * "Toujours présent" foods are never added.
+ */
+export function planShoppingChanges(
+  needs: PlannedNeed[],
+  items: ShoppingItem[],
+  groups: ShoppingGroup[],
+  foodItems: FoodItem[],
+): ShoppingChange[] {
+  const frozenGroup = groups.find(g => groupStorageType(g) === "surgele");
+  const changes: ShoppingChange[] = [];
+  for (const need of needs) {
+    const food = foodItems.find(fi => strictNameMatch(fi.name, need.name));
+    if (food?.storage_type === "toujours") continue;
+    const item = items.find(i => normalizeKey(i.name) === need.key) ?? items.find(i => strictNameMatch(i.name, need.name)) ?? null;
+    const packs = packsFor(need, item);
+    if (item) {
+      const current = parseInt(item.quantity || "0") || 0;
+      if (item.checked && current >= packs) continue;
+      changes.push({ ...need, packs, itemId: item.id, fromQty: item.checked ? item.quantity : null, groupId: item.group_id });
+    } else {
+      const groupId = food?.storage_type === "surgele" ? frozenGroup?.id ?? null : null;
+      changes.push({ ...need, name: capitalize(need.name), packs, itemId: null, fromQty: null, groupId });
+    }
+  }
+  return changes.sort((a, b) => a.name.localeCompare(b.name, "fr"));
+}
@@ -0,0 +1,33 @@
+/**
+ * Stock movement reasons and request tagging for the stock_movements ledger.
+ * The food_items trigger reads the x-stock-* headers to know why a direct write happened.
+ * Used by useMealTransfers, Index and StockHistory.
+ */
+
+export type StockMovementReason = 'add' | 'consume' | 'deduct_meal' | 'restore' | 'adjust' | 'expire' | 'discard' | 'edit' | 'undo';
+
+export const STOCK_MOVEMENT_REASONS: { value: StockMovementReason; label: string; emoji: string }[] = [
+  { value: 'add', label: "Ajout", emoji: "➕" },
+  { value: 'consume', label: "Consommé", emoji: "🍽️" },
+  { value: 'deduct_meal', label: "Repas planifié", emoji: "📦" },
+  { value: 'restore', label: "Restauré", emoji: "↩️" },
+  { value: 'adjust', label: "Ajustement recette", emoji: "⚖️" },
+  { value: 'expire', label: "Périmé", emoji: "⏰" },
+  { value: 'discard', label: "Jeté / supprimé", emoji: "🗑️" },
+  { value: 'edit', label: "Modification", emoji: "✏️" },
+  { value: 'undo', label: "Annulé / rétabli", emoji: "↶" },
+];
+
+interface HeaderSettable<T> { setHeader(name: string, value: string): T; }
+
+/** Tag a food_items write with its reason and originating meal / possible meal */
+export function withStockReason<T extends HeaderSettable<T>>(
+  query: T,
+  reason: StockMovementReason,
+  origin?: { mealId?: string | null; possibleMealId?: string | null },
+): T {
+  let tagged = query.setHeader("x-stock-reason", reason);
+  if (origin?.mealId) tagged = tagged.setHeader("x-stock-meal-id", origin.mealId);
+  if (origin?.possibleMealId) tagged = tagged.setHeader("x-stock-possible-meal-id", origin.possibleMealId);
+  return tagged;
+}
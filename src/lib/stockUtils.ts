@@ -9,8 +9,10 @@ import {
   normalizeForMatch, normalizeKey, strictNameMatch,
   parseQty, parsePartialQty, formatNumeric, encodeStoredGrams,
   getFoodItemTotalGrams, parseIngredientLine, parseIngredientLineRaw, parseIngredientGroups,
-  type ParsedIngredient,
+  ingredientGrams, type ParsedIngredient,
 } from "@/lib/ingredientUtils";
+import { formatWithUnit } from "@/lib/unitConversion";
+import { rowsToGroups, rowsToIngredientString, scaleIngredientRows } from "@/lib/ingredientRows";
 import { format, parseISO } from "date-fns";
 import { fr } from "date-fns/locale";
 
@@ -18,9 +20,17 @@ import { fr } from "date-fns/locale";
 export {
   normalizeForMatch, normalizeKey, strictNameMatch,
   parseQty, parsePartialQty, formatNumeric, encodeStoredGrams,
-  getFoodItemTotalGrams, parseIngredientLine, parseIngredientGroups,
+  getFoodItemTotalGrams, parseIngredientLine, parseIngredientGroups, ingredientGrams,
 };
 
+// ─── Meal Ingredients ───────────────────────────────────────────────────────
+
+/** OR groups of a meal: structured rows when loaded, otherwise the legacy string (fake meals, tests) */
+export function getMealIngredientGroups(meal: Meal): ParsedIngredient[][] {
+  if (meal.ingredient_rows?.length) return rowsToGroups(meal.ingredient_rows);
+  return meal.ingredients?.trim() ? parseIngredientGroups(meal.ingredients) : [];
+}
+
 // ─── Stock Map ──────────────────────────────────────────────────────────────
 
 export interface StockInfo { grams: number; count: number; infinite: boolean; indivisibleUnit: number; }
@@ -62,7 +72,7 @@ export function pickBestAlternative(
     const stock = stockMap.get(key)!;
     if (stock.infinite) return alt;
     if (alt.count > 0 && stock.count >= alt.count) return alt;
-    if (alt.qty > 0 && stock.grams >= alt.qty) return alt;
+    if (alt.qty > 0 && stock.grams >= ingredientGrams(alt)) return alt;
     if (alt.count === 0 && alt.qty === 0) return alt;
   }
   return null;
@@ -71,8 +81,7 @@ export function pickBestAlternative(
 // ─── Meal Availability ──────────────────────────────────────────────────────
 
 export function getMealMultiple(meal: Meal, stockMap: Map<string, StockInfo>): number | null {
-  if (!meal.ingredients?.trim()) return null;
-  const groups = parseIngredientGroups(meal.ingredients);
+  const groups = getMealIngredientGroups(meal);
   if (groups.length === 0) return null;
   let multiple = Infinity;
 
@@ -88,7 +97,10 @@ export function getMealMultiple(meal: Meal, stockMap: Map<string, StockInfo>): n
       if (stock.infinite) { bestGroupMultiple = Infinity; anyMatch = true; break; }
       let altMultiple = 0;
       if (alt.count > 0) { if (stock.count >= alt.count) { altMultiple = Math.floor(stock.count / alt.count); anyMatch = true; } }
-      else if (alt.qty > 0) { if (stock.grams >= alt.qty) { altMultiple = Math.floor(stock.grams / alt.qty); anyMatch = true; } }
+      else if (alt.qty > 0) {
+        const grams = ingredientGrams(alt);
+        if (stock.grams >= grams) { altMultiple = Math.floor(stock.grams / grams); anyMatch = true; }
+      }
       else { altMultiple = Infinity; anyMatch = true; }
       bestGroupMultiple = Math.max(bestGroupMultiple, altMultiple);
     }
@@ -102,8 +114,7 @@ export function getMealMultiple(meal: Meal, stockMap: Map<string, StockInfo>): n
 }
 
 export function getMealFractionalRatio(meal: Meal, stockMap: Map<string, StockInfo>): number | null {
-  if (!meal.ingredients?.trim()) return null;
-  const groups = parseIngredientGroups(meal.ingredients);
+  const groups = getMealIngredientGroups(meal);
   if (groups.length === 0) return null;
   let minRatio = Infinity;
 
@@ -119,7 +130,7 @@ export function getMealFractionalRatio(meal: Meal, stockMap: Map<string, StockIn
       if (stock.infinite) { bestGroupRatio = Infinity; anyMatch = true; break; }
       let altRatio = 0;
       if (alt.count > 0) { altRatio = stock.count / alt.count; if (altRatio > 0) anyMatch = true; }
-      else if (alt.qty > 0) { altRatio = stock.grams / alt.qty; if (altRatio > 0) anyMatch = true; }
+      else if (alt.qty > 0) { altRatio = stock.grams / ingredientGrams(alt); if (altRatio > 0) anyMatch = true; }
       else { altRatio = Infinity; anyMatch = true; }
       bestGroupRatio = Math.max(bestGroupRatio, altRatio);
     }
@@ -139,10 +150,11 @@ export function getMealFractionalRatio(meal: Meal, stockMap: Map<string, StockIn
       if (!key) continue;
       const stock = stockMap.get(key)!;
       if (stock.indivisibleUnit > 0 && alt.qty > 0) {
-        const neededAtRatio = alt.qty * minRatio;
+        const grams = ingredientGrams(alt);
+        const neededAtRatio = grams * minRatio;
         const snapped = Math.floor(neededAtRatio / stock.indivisibleUnit) * stock.indivisibleUnit;
         if (snapped <= 0) return null;
-        const snappedRatio = snapped / alt.qty;
+        const snappedRatio = snapped / grams;
         minRatio = Math.min(minRatio, snappedRatio);
       }
     }
@@ -155,8 +167,8 @@ export function getMealFractionalRatio(meal: Meal, stockMap: Map<string, StockIn
 // ─── Ingredient Analysis ────────────────────────────────────────────────────
 
 export function getEarliestIngredientExpiration(meal: Meal, foodItems: FoodItem[]): string | null {
-  if (!meal.ingredients?.trim()) return null;
-  const groups = parseIngredientGroups(meal.ingredients);
+  const groups = getMealIngredientGroups(meal);
+  if (groups.length === 0) return null;
   let earliest: string | null = null;
   for (const group of groups) for (const alt of group) for (const fi of foodItems) {
     if (strictNameMatch(fi.name, alt.name) && fi.expiration_date && (!earliest || fi.expiration_date < earliest))
@@ -166,8 +178,8 @@ export function getEarliestIngredientExpiration(meal: Meal, foodItems: FoodItem[
 }
 
 export function getExpiringIngredientName(meal: Meal, foodItems: FoodItem[]): string | null {
-  if (!meal.ingredients?.trim()) return null;
-  const groups = parseIngredientGroups(meal.ingredients);
+  const groups = getMealIngredientGroups(meal);
+  if (groups.length === 0) return null;
   let earliest: string | null = null;
   let name: string | null = null;
   for (const group of groups) for (const alt of group) for (const fi of foodItems) {
@@ -181,9 +193,9 @@ export function getExpiringIngredientName(meal: Meal, foodItems: FoodItem[]): st
 
 export function getExpiredIngredientNames(meal: Meal, foodItems: FoodItem[]): Set<string> {
   const expired = new Set<string>();
-  if (!meal.ingredients?.trim()) return expired;
+  const groups = getMealIngredientGroups(meal);
+  if (groups.length === 0) return expired;
   const today = new Date(new Date().toDateString());
-  const groups = parseIngredientGroups(meal.ingredients);
   for (const group of groups) for (const alt of group) for (const fi of foodItems) {
     if (strictNameMatch(fi.name, alt.name) && fi.expiration_date && new Date(fi.expiration_date) < today)
       expired.add(normalizeKey(alt.name));
@@ -192,8 +204,8 @@ export function getExpiredIngredientNames(meal: Meal, foodItems: FoodItem[]): Se
 }
 
 export function getMaxIngredientCounter(meal: Meal, foodItems: FoodItem[]): number | null {
-  if (!meal.ingredients?.trim()) return null;
-  const groups = parseIngredientGroups(meal.ingredients);
+  const groups = getMealIngredientGroups(meal);
+  if (groups.length === 0) return null;
   let maxDays: number | null = null;
   for (const group of groups) for (const alt of group) for (const fi of foodItems) {
     if (strictNameMatch(fi.name, alt.name) && fi.counter_start_date) {
@@ -205,8 +217,8 @@ export function getMaxIngredientCounter(meal: Meal, foodItems: FoodItem[]): numb
 }
 
 export function getEarliestIngredientCounterDate(meal: Meal, foodItems: FoodItem[]): string | null {
-  if (!meal.ingredients?.trim()) return null;
-  const groups = parseIngredientGroups(meal.ingredients);
+  const groups = getMealIngredientGroups(meal);
+  if (groups.length === 0) return null;
   let earliest: string | null = null;
   for (const group of groups) for (const alt of group) for (const fi of foodItems) {
     if (strictNameMatch(fi.name, alt.name) && fi.counter_start_date) {
@@ -217,8 +229,8 @@ export function getEarliestIngredientCounterDate(meal: Meal, foodItems: FoodItem
 }
 
 export function getMaxIngredientCounterName(meal: Meal, foodItems: FoodItem[]): string | null {
-  if (!meal.ingredients?.trim()) return null;
-  const groups = parseIngredientGroups(meal.ingredients);
+  const groups = getMealIngredientGroups(meal);
+  if (groups.length === 0) return null;
   let maxDays: number | null = null;
   let maxName: string | null = null;
   for (const group of groups) for (const alt of group) for (const fi of foodItems) {
@@ -232,8 +244,8 @@ export function getMaxIngredientCounterName(meal: Meal, foodItems: FoodItem[]):
 
 export function getCounterIngredientNames(meal: Meal, foodItems: FoodItem[]): Set<string> {
   const result = new Set<string>();
-  if (!meal.ingredients?.trim()) return result;
-  const groups = parseIngredientGroups(meal.ingredients);
+  const groups = getMealIngredientGroups(meal);
+  if (groups.length === 0) return result;
   for (const group of groups) for (const alt of group) for (const fi of foodItems) {
     if (strictNameMatch(fi.name, alt.name) && fi.counter_start_date) result.add(normalizeKey(alt.name));
   }
@@ -242,8 +254,8 @@ export function getCounterIngredientNames(meal: Meal, foodItems: FoodItem[]): Se
 
 export function getMissingIngredients(meal: Meal, stockMap: Map<string, StockInfo>): Set<string> {
   const missing = new Set<string>();
-  if (!meal.ingredients?.trim()) return missing;
-  const groups = parseIngredientGroups(meal.ingredients);
+  const groups = getMealIngredientGroups(meal);
+  if (groups.length === 0) return missing;
   for (const group of groups) {
     // Skip optional groups
     if (group[0]?.optional) continue;
@@ -252,7 +264,7 @@ export function getMissingIngredients(meal: Meal, stockMap: Map<string, StockInf
       const key = findStockKey(stockMap, alt.name);
       if (key) {
         const stock = stockMap.get(key)!;
-        if (stock.infinite || (alt.count > 0 && stock.count >= alt.count) || (alt.qty > 0 && stock.grams >= alt.qty) || (alt.count === 0 && alt.qty === 0)) {
+        if (stock.infinite || (alt.count > 0 && stock.count >= alt.count) || (alt.qty > 0 && stock.grams >= ingredientGrams(alt)) || (alt.count === 0 && alt.qty === 0)) {
           groupSatisfied = true; break;
         }
       }
@@ -265,8 +277,7 @@ export function getMissingIngredients(meal: Meal, stockMap: Map<string, StockInf
 export function isFoodUsedInMeals(fi: FoodItem, mealsToCheck: Meal[]): boolean {
   const fiKey = normalizeForMatch(fi.name);
   return mealsToCheck.some(meal => {
-    if (!meal.ingredients) return false;
-    return parseIngredientGroups(meal.ingredients).some(group => group.some(alt => strictNameMatch(fiKey, alt.name)));
+    return getMealIngredientGroups(meal).some(group => group.some(alt => strictNameMatch(fiKey, alt.name)));
   });
 }
 
@@ -315,6 +326,72 @@ export function sortStockDeductionPriority(a: FoodItem, b: FoodItem): number {
   return 0;
 }
 
+// ─── Stock Deduction Needs ──────────────────────────────────────────────────
+
+/** One line sent to the apply_stock_needs RPC; negative amounts are given back to stock */
+export interface StockNeed { name: string; grams: number; count: number; candidates: string[]; }
+
+const stockCandidates = (foodItems: FoodItem[], name: string) =>
+  foodItems.filter(fi => strictNameMatch(fi.name, name) && !fi.is_infinite);
+
+/**
+ * Needs for moving a meal to Possible: the best alternative of each group and the food items it may use.
+ * Name matching stays client-side; the server applies the sortStockDeductionPriority order.
+ */
+export function buildDeductionNeeds(meal: Meal, foodItems: FoodItem[]): StockNeed[] {
+  const stockMap = buildStockMap(foodItems);
+  const needs: StockNeed[] = [];
+  for (const group of getMealIngredientGroups(meal)) {
+    const alt = pickBestAlternative(group, stockMap);
+    if (!alt) continue;
+    const key = findStockKey(stockMap, alt.name);
+    if (!key || stockMap.get(key)?.infinite) continue;
+    const candidates = stockCandidates(foodItems, key);
+    if (candidates.length === 0) continue;
+    const grams = alt.count > 0 ? 0 : ingredientGrams(alt);
+    if (alt.count <= 0 && grams <= 0) continue;
+    needs.push({ name: candidates[0].name, grams, count: alt.count, candidates: candidates.map(fi => fi.id) });
+  }
+  return needs;
+}
+
+/** Needs for a meal without ingredients that consumes the food item of the same name */
+export function buildNameMatchNeeds(meal: Meal, foodItems: FoodItem[]): StockNeed[] {
+  const nameMatch = foodItems.find(fi => strictNameMatch(fi.name, meal.name) && !fi.is_infinite);
+  if (!nameMatch) return [];
+  const mealGrams = parseQty(meal.grams);
+  return [{ name: nameMatch.name, grams: mealGrams > 0 ? mealGrams : 0, count: mealGrams > 0 ? 0 : 1, candidates: [nameMatch.id] }];
+}
+
+/** Delta needs when the ingredients of a possible meal are edited (first alternative of each group) */
+export function buildAdjustmentNeeds(oldIngredients: string | null, newIngredients: string | null, foodItems: FoodItem[]): StockNeed[] {
+  const usage = (raw: string | null) => {
+    const map = new Map<string, { grams: number; count: number }>();
+    for (const group of raw ? parseIngredientGroups(raw) : []) {
+      const alt = group[0];
+      if (!alt) continue;
+      const prev = map.get(alt.name) ?? { grams: 0, count: 0 };
+      map.set(alt.name, { grams: prev.grams + ingredientGrams(alt), count: prev.count + alt.count });
+    }
+    return map;
+  };
+  const oldUsage = usage(oldIngredients);
+  const newUsage = usage(newIngredients);
+  const needs: StockNeed[] = [];
+  for (const name of new Set([...oldUsage.keys(), ...newUsage.keys()])) {
+    const oldU = oldUsage.get(name) ?? { grams: 0, count: 0 };
+    const newU = newUsage.get(name) ?? { grams: 0, count: 0 };
+    const candidates = stockCandidates(foodItems, name);
+    if (candidates.length === 0) continue;
+    const ids = candidates.map(fi => fi.id);
+    const deltaGrams = Math.round((newU.grams - oldU.grams) * 10) / 10;
+    const deltaCount = newU.count - oldU.count;
+    if (deltaGrams !== 0) needs.push({ name: candidates[0].name, grams: deltaGrams, count: 0, candidates: ids });
+    if (deltaCount !== 0) needs.push({ name: candidates[0].name, grams: 0, count: deltaCount, candidates: ids });
+  }
+  return needs;
+}
+
 // ─── Meal Scaling ───────────────────────────────────────────────────────────
 
 export function buildScaledMealForRatio(meal: Meal, ratio: number): Meal {
@@ -326,7 +403,12 @@ export function buildScaledMealForRatio(meal: Meal, ratio: number): Meal {
     calories: meal.calories ? String(Math.round(mealCal * ratio)) : null,
     protein: meal.protein ? String(Math.round(mealProt * ratio)) : null,
     grams: meal.grams ? formatNumeric(Math.round(mealGrams * ratio * 10) / 10) : null,
-    ingredients: scaleIngredientStringExact(meal.ingredients, ratio),
+    ...(meal.ingredient_rows?.length
+      ? (() => {
+        const rows = scaleIngredientRows(meal.ingredient_rows, ratio);
+        return { ingredient_rows: rows, ingredients: rowsToIngredientString(rows) };
+      })()
+      : { ingredients: scaleIngredientStringExact(meal.ingredients, ratio) }),
   };
 }
 
@@ -343,9 +425,10 @@ export function scaleIngredientStringExact(rawIngredients: string | null, ratio:
           const calSuffix = calMatch ? `{${calMatch[1]}}` : "";
           const withoutCal = calMatch ? cleanAlt.slice(0, calMatch.index!).trim() : cleanAlt;
           const parsed = parseIngredientLineRaw(withoutCal);
-          const scaledQty = parsed.qty > 0 ? formatNumeric(Math.round(parsed.qty * ratio * 10) / 10) : "";
+          // Scale the amount as written so "2 c.à.s" stays a spoon measure instead of becoming ml
+          const scaledQty = parsed.amount > 0 ? formatNumeric(Math.round(parsed.amount * ratio * 10) / 10) : "";
           const scaledCount = parsed.count > 0 ? formatNumeric(Math.round(parsed.count * ratio * 10) / 10) : "";
-          let token = [scaledQty ? `${scaledQty}g` : "", scaledCount, parsed.rawName].filter(Boolean).join(" ");
+          let token = [scaledQty ? formatWithUnit(scaledQty, parsed.unitLabel) : "", scaledCount, parsed.rawName].filter(Boolean).join(" ");
           if (calSuffix) token += calSuffix;
           return isOptional ? `?${token}` : token;
         }).join(" | ");
@@ -0,0 +1,71 @@
+/**
+ * Store layouts (stores, store_groups, store_items tables): the walking order of a supermarket.
+ * Groups and items without a store order keep the list's own order, after the ordered ones;
+ * items the store does not sell go last and are left out of the export.
+ */
+
+import type { ShoppingGroup, ShoppingItem } from "@/hooks/useShoppingList";
+
+export interface Store { id: string; name: string; sort_order: number; created_at: string; }
+export interface StoreGroup { id: string; store_id: string; group_id: string; sort_order: number; }
+export interface StoreItem { id: string; store_id: string; item_id: string; sort_order: number | null; available: boolean; }
+
+export interface StoreLayout {
+  groupOrder: Map<string, number>;
+  itemOrder: Map<string, number>;
+  unavailable: Set<string>;
+}
+
+/** Layout of one store; null without a store (the list's own order) */
+export function storeLayout(storeId: string | null, storeGroups: StoreGroup[], storeItems: StoreItem[]): StoreLayout | null {
+  if (!storeId) return null;
+  const layout: StoreLayout = { groupOrder: new Map(), itemOrder: new Map(), unavailable: new Set() };
+  for (const g of storeGroups) if (g.store_id === storeId) layout.groupOrder.set(g.group_id, g.sort_order);
+  for (const i of storeItems) {
+    if (i.store_id !== storeId) continue;
+    if (i.sort_order != null) layout.itemOrder.set(i.item_id, i.sort_order);
+    if (!i.available) layout.unavailable.add(i.item_id);
+  }
+  return layout;
+}
+
+const byOrder = (order: Map<string, number>) => <T extends { id: string; sort_order: number }>(a: T, b: T) =>
+  (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity) || a.sort_order - b.sort_order;
+
+export function orderGroups(groups: ShoppingGroup[], layout: StoreLayout | null): ShoppingGroup[] {
+  return [...groups].sort(layout ? byOrder(layout.groupOrder) : (a, b) => a.sort_order - b.sort_order);
+}
+
+/** Items of one group in walking order, unavailable ones last */
+export function orderItems(items: ShoppingItem[], layout: StoreLayout | null): ShoppingItem[] {
+  if (!layout) return [...items].sort((a, b) => a.sort_order - b.sort_order);
+  const sort = byOrder(layout.itemOrder);
+  return [...items].sort((a, b) =>
+    Number(layout.unavailable.has(a.id)) - Number(layout.unavailable.has(b.id)) || sort(a, b));
+}
+
+const formatLine = (item: ShoppingItem) => {
+  const pack = item.content_quantity ? ` (${item.content_quantity}${item.content_quantity_type === "g" ? " g" : ""})` : "";
+  const qty = item.quantity ? ` ×${item.quantity}` : "";
+  const brand = item.brand ? ` ${item.brand}` : "";
+  return `- ${item.name}${brand}${qty}${pack}`;
+};
+
+/** Plain-text list of the checked items in the store's walking order, one section per group */
+export function exportShoppingList(
+  items: ShoppingItem[],
+  groups: ShoppingGroup[],
+  layout: StoreLayout | null,
+  storeName?: string | null,
+): string {
+  const wanted = items.filter(i => i.checked && !layout?.unavailable.has(i.id));
+  const sections: string[] = [];
+  const section = (title: string, groupItems: ShoppingItem[]) => {
+    if (groupItems.length === 0) return;
+    sections.push([title.toUpperCase(), ...orderItems(groupItems, layout).map(formatLine)].join("\n"));
+  };
+  section("Articles", wanted.filter(i => !i.group_id));
+  for (const g of orderGroups(groups, layout)) section(g.name, wanted.filter(i => i.group_id === g.id));
+  const header = storeName ? `Courses · ${storeName}` : "Courses";
+  return [header, ...sections].join("\n\n");
+}
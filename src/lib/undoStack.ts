@@ -0,0 +1,94 @@
+/**
+ * Session-wide undo/redo stack (module state, survives tab changes).
+ * Entries are opaque async undo/redo pairs; useUndoRedo builds them from row snapshots.
+ */
+
+export interface UndoEntry {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+/** Entries recorded by one group() call; handed down to the operations it runs */
+export interface UndoGroup {
+  readonly entries: UndoEntry[];
+}
+
+const MAX_ENTRIES = 50;
+
+export function createUndoStack(limit = MAX_ENTRIES) {
+  let past: UndoEntry[] = [];
+  let future: UndoEntry[] = [];
+  let busy = false;
+  const listeners = new Set<() => void>();
+  let snapshot = { canUndo: false, canRedo: false, undoLabel: null as string | null, redoLabel: null as string | null, busy: false };
+
+  const notify = () => {
+    snapshot = {
+      canUndo: past.length > 0, canRedo: future.length > 0,
+      undoLabel: past[past.length - 1]?.label ?? null, redoLabel: future[future.length - 1]?.label ?? null,
+      busy,
+    };
+    listeners.forEach(l => l());
+  };
+
+  /** With `group`, the entry joins that group instead of the stack */
+  const push = (entry: UndoEntry, group?: UndoGroup | null) => {
+    if (group) { group.entries.push(entry); return; }
+    past = [...past, entry].slice(-limit);
+    future = [];
+    notify();
+  };
+
+  /**
+   * Run several recorded operations as a single undo step. Only entries pushed with the handle given
+   * to `run` are merged, so unrelated changes made meanwhile keep their own step. Inside `parent`, joins it.
+   */
+  const group = async <T>(label: string, run: (group: UndoGroup) => Promise<T>, parent?: UndoGroup | null): Promise<T> => {
+    if (parent) return run(parent);
+    const entries: UndoEntry[] = [];
+    try {
+      return await run({ entries });
+    } finally {
+      if (entries.length === 1) push({ ...entries[0], label });
+      else if (entries.length > 1) push({
+        label,
+        undo: async () => { for (const e of [...entries].reverse()) await e.undo(); },
+        redo: async () => { for (const e of entries) await e.redo(); },
+      });
+    }
+  };
+
+  const step = async (from: "past" | "future", entry?: UndoEntry): Promise<UndoEntry | null> => {
+    const source = from === "past" ? past : future;
+    const top = source[source.length - 1];
+    if (busy || !top || (entry && entry !== top)) return null;
+    busy = true;
+    notify();
+    try {
+      await (from === "past" ? top.undo() : top.redo());
+      if (from === "past") { past = past.slice(0, -1); future = [...future, top]; }
+      else { future = future.slice(0, -1); past = [...past, top]; }
+      return top;
+    } finally {
+      busy = false;
+      notify();
+    }
+  };
+
+  return {
+    push,
+    group,
+    /** Undo the last entry; with `entry`, only if it is still the last one */
+    undo: (entry?: UndoEntry) => step("past", entry),
+    redo: () => step("future"),
+    clear: () => { past = []; future = []; notify(); },
+    peek: (): UndoEntry | null => past[past.length - 1] ?? null,
+    subscribe: (listener: () => void) => { listeners.add(listener); return () => { listeners.delete(listener); }; },
+    getSnapshot: () => snapshot,
+  };
+}
+
+export type UndoStack = ReturnType<typeof createUndoStack>;
+
+export const undoStack = createUndoStack();
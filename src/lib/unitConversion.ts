@@ -0,0 +1,149 @@
+/**
+ * Unit conversion engine for ingredient quantities.
+ * Every quantity is brought back to a canonical unit ("g" for masses, "ml" for volumes)
+ * so that recipes and stock (always stored in grams) can be compared like with like.
+ * Used by ingredientUtils, stockUtils and useMealTransfers.
+ */
+
+export type CanonicalUnit = "g" | "ml";
+
+interface UnitDef {
+  /** Display label used when a quantity is re-serialized (e.g. after scaling) */
+  label: string;
+  /** Canonical unit the quantity is converted into — "count" means it's a number of pieces */
+  unit: CanonicalUnit | "count";
+  /** Multiplier to go from the written unit to the canonical unit */
+  factor: number;
+  /** Regex source (no anchors) matching every spelling of this unit */
+  pattern: string;
+}
+
+// Order matters: longer spellings must be tried before their prefixes (kg before g, ml before l…)
+const UNIT_DEFS: UnitDef[] = [
+  { label: "c.à.s", unit: "ml", factor: 15, pattern: "c\\.?\\s?[àa]\\.?\\s?s\\.?|cuill[eè]res?\\s+[àa]\\s+soupe|cas|cs" },
+  { label: "c.à.c", unit: "ml", factor: 5, pattern: "c\\.?\\s?[àa]\\.?\\s?c\\.?|cuill[eè]res?\\s+[àa]\\s+caf[ée]|cac|cc" },
+  { label: "pincée", unit: "g", factor: 0.5, pattern: "pinc[ée]es?" },
+  { label: "pièce", unit: "count", factor: 1, pattern: "pi[eè]ces?|pcs?" },
+  { label: "kg", unit: "g", factor: 1000, pattern: "kg|kilos?|kilogrammes?" },
+  { label: "mg", unit: "g", factor: 0.001, pattern: "mg" },
+  { label: "g", unit: "g", factor: 1, pattern: "grammes?|gr|g" },
+  { label: "ml", unit: "ml", factor: 1, pattern: "ml" },
+  { label: "cl", unit: "ml", factor: 10, pattern: "cl" },
+  { label: "dl", unit: "ml", factor: 100, pattern: "dl" },
+  { label: "l", unit: "ml", factor: 1000, pattern: "litres?|l" },
+];
+
+/** Regex source matching any known unit spelling (to embed in larger patterns) */
+export const UNIT_PATTERN = `(?:${UNIT_DEFS.map(d => d.pattern).join("|")})`;
+
+const UNIT_DEF_REGEXES = UNIT_DEFS.map(d => ({ def: d, re: new RegExp(`^(?:${d.pattern})$`, "i") }));
+
+/** Find the unit definition for a written unit token ("kg", "c.à.s", "Cuillères à café"…) */
+function findUnitDef(token: string): UnitDef | null {
+  const cleaned = token.trim().replace(/\s+/g, " ");
+  if (!cleaned) return null;
+  return UNIT_DEF_REGEXES.find(({ re }) => re.test(cleaned))?.def ?? null;
+}
+
+export interface ConvertedQuantity { qty: number; unit: CanonicalUnit; label: string; }
+
+/**
+ * Convert a written amount + unit token into its canonical unit.
+ * A missing token means grams (historical default of the ingredient format).
+ * Returns null for count units ("pièces") — the amount is then a count, not a quantity.
+ */
+export function toCanonical(amount: number, unitToken: string | null | undefined): ConvertedQuantity | null {
+  if (!unitToken?.trim()) return { qty: amount, unit: "g", label: "g" };
+  const def = findUnitDef(unitToken);
+  if (!def) return { qty: amount, unit: "g", label: "g" };
+  if (def.unit === "count") return null;
+  return { qty: amount * def.factor, unit: def.unit, label: def.label };
+}
+
+/** True when the unit token designates pieces ("3 pièces avocat" is a count, not grams) */
+export function isCountUnit(unitToken: string | null | undefined): boolean {
+  return !!unitToken && findUnitDef(unitToken)?.unit === "count";
+}
+
+/** Normalized display label for a unit token ("gr" → "g", "cuillère à soupe" → "c.à.s") */
+export function unitLabel(unitToken: string | null | undefined): string {
+  if (!unitToken?.trim()) return "g";
+  return findUnitDef(unitToken)?.label ?? "g";
+}
+
+/** Format an amount with its unit label: short units are glued ("200g"), measures are spaced ("2 c.à.s") */
+export function formatWithUnit(amountText: string, label: string): string {
+  return /^[a-z]{1,2}$/i.test(label) ? `${amountText}${label}` : `${amountText} ${label}`;
+}
+
+// ─── Densities (volume → mass) ──────────────────────────────────────────────
+
+/**
+ * Densities in g/ml, keyed by normalized food name (lowercase, no accents).
+ * Compound names are listed before their head word so "lait de coco" isn't read as "lait".
+ */
+const FOOD_DENSITIES: [string, number][] = [
+  ["lait de coco", 0.97],
+  ["sauce soja", 1.15],
+  ["sirop derable", 1.32],
+  ["huile", 0.92],
+  ["lait", 1.03],
+  ["eau", 1.0],
+  ["creme", 1.0],
+  ["vinaigre", 1.01],
+  ["miel", 1.4],
+  ["sirop", 1.33],
+  ["farine", 0.55],
+  ["maizena", 0.6],
+  ["sucre", 0.85],
+  ["cassonade", 0.8],
+  ["sel", 1.2],
+  ["riz", 0.85],
+  ["flocons davoine", 0.4],
+  ["avoine", 0.4],
+  ["cacao", 0.45],
+  ["beurre", 0.95],
+  ["yaourt", 1.05],
+  ["fromage blanc", 1.05],
+  ["moutarde", 1.05],
+  ["ketchup", 1.15],
+  ["jus", 1.04],
+  ["vin", 0.99],
+  ["biere", 1.01],
+  ["bouillon", 1.0],
+];
+
+const DEFAULT_DENSITY = 1;
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/œ/g, "oe").replace(/æ/g, "ae").normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-z0-9\s]/g, "").replace(/\s+/g, " ").trim();
+
+/** Density (g/ml) of a food: the first table entry whose words all start the food's words wins */
+export function getDensity(foodName: string): number {
+  const words = normalizeName(foodName).split(" ");
+  for (const [key, density] of FOOD_DENSITIES) {
+    const keyWords = key.split(" ");
+    if (keyWords.length > words.length) continue;
+    const matches = keyWords.every((kw, i) => words[i] === kw || words[i].replace(/s$/, "") === kw);
+    if (matches) return density;
+  }
+  return DEFAULT_DENSITY;
+}
+
+/** Convert a canonical quantity to grams (stock is always expressed in grams) */
+export function toGrams(qty: number, unit: CanonicalUnit, foodName: string): number {
+  if (qty <= 0) return 0;
+  if (unit === "g") return qty;
+  return Math.round(qty * getDensity(foodName) * 10) / 10;
+}
+
+/**
+ * Parse a quantity text such as "200", "1,5kg", "2 c.à.s" into grams for the given food.
+ * Returns 0 when no number can be read.
+ */
+export function quantityTextToGrams(text: string | null | undefined, foodName: string): number {
+  const m = (text ?? "").trim().match(new RegExp(`^(\\d+(?:[.,]\\d+)?)\\s*(${UNIT_PATTERN})?$`, "i"));
+  if (!m) return parseFloat((text ?? "").replace(",", ".")) || 0;
+  const converted = toCanonical(parseFloat(m[1].replace(",", ".")), m[2]);
+  return converted ? toGrams(converted.qty, converted.unit, foodName) : 0;
+}
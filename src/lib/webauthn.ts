@@ -0,0 +1,73 @@
+/**
+ * Passkeys through the browser's WebAuthn API. verify-pin sends its options as JSON with base64url
+ * buffers and expects the credentials back in the same shape.
+ */
+
+export const passkeysSupported = () => typeof window !== "undefined" && !!window.PublicKeyCredential && !!navigator.credentials;
+
+export function base64urlToBuffer(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0)).buffer;
+}
+
+export function bufferToBase64url(buffer: ArrayBuffer): string {
+  let binary = "";
+  for (const byte of new Uint8Array(buffer)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+interface CredentialDescriptorJSON {
+  id: string;
+  type: "public-key";
+  transports?: AuthenticatorTransport[];
+}
+
+const toDescriptors = (list?: CredentialDescriptorJSON[]) => list?.map((c) => ({ ...c, id: base64urlToBuffer(c.id) }));
+
+export interface CreationOptionsJSON extends Omit<PublicKeyCredentialCreationOptions, "challenge" | "user" | "excludeCredentials"> {
+  challenge: string;
+  user: { id: string; name: string; displayName: string };
+  excludeCredentials?: CredentialDescriptorJSON[];
+}
+
+export interface RequestOptionsJSON extends Omit<PublicKeyCredentialRequestOptions, "challenge" | "allowCredentials"> {
+  challenge: string;
+  allowCredentials?: CredentialDescriptorJSON[];
+}
+
+export function toCreationOptions(json: CreationOptionsJSON): PublicKeyCredentialCreationOptions {
+  return {
+    ...json,
+    challenge: base64urlToBuffer(json.challenge),
+    user: { ...json.user, id: base64urlToBuffer(json.user.id) },
+    excludeCredentials: toDescriptors(json.excludeCredentials),
+  };
+}
+
+export function toRequestOptions(json: RequestOptionsJSON): PublicKeyCredentialRequestOptions {
+  return { ...json, challenge: base64urlToBuffer(json.challenge), allowCredentials: toDescriptors(json.allowCredentials) };
+}
+
+/** A created or asserted credential as JSON for the server */
+export function credentialToJSON(credential: PublicKeyCredential) {
+  const response = credential.response;
+  const encoded: Record<string, unknown> = { clientDataJSON: bufferToBase64url(response.clientDataJSON) };
+  if ("attestationObject" in response) {
+    const attestation = response as AuthenticatorAttestationResponse;
+    encoded.attestationObject = bufferToBase64url(attestation.attestationObject);
+    encoded.transports = attestation.getTransports?.() ?? [];
+  } else {
+    const assertion = response as AuthenticatorAssertionResponse;
+    encoded.authenticatorData = bufferToBase64url(assertion.authenticatorData);
+    encoded.signature = bufferToBase64url(assertion.signature);
+    if (assertion.userHandle) encoded.userHandle = bufferToBase64url(assertion.userHandle);
+  }
+  return {
+    id: credential.id,
+    rawId: bufferToBase64url(credential.rawId),
+    type: credential.type,
+    response: encoded,
+    clientExtensionResults: credential.getClientExtensionResults(),
+    authenticatorAttachment: credential.authenticatorAttachment ?? undefined,
+  };
+}
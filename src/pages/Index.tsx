@@ -1,9 +1,14 @@
 import { useState, useEffect, useRef, lazy, Suspense } from "react";
 import { useQueryClient } from "@tanstack/react-query";
-import { Plus, Dice5, ArrowUpDown, CalendarDays, ShoppingCart, CalendarRange, UtensilsCrossed, Loader2, ChevronDown, ChevronRight, ShieldAlert, Apple, Sparkles, Infinity as InfinityIcon, Star, List, Flame, Search, Drumstick, Wheat, Timer } from "lucide-react";
+import { Plus, Dice5, ArrowUpDown, CalendarDays, ShoppingCart, CalendarRange, UtensilsCrossed, Loader2, ChevronDown, ChevronRight, ShieldAlert, Apple, Sparkles, Infinity as InfinityIcon, Star, List, Flame, Search, Drumstick, Wheat, Timer, Undo2, Redo2, Users, CircleUser, FileUp } from "lucide-react";
 import { DevMenu } from "@/components/DevMenu";
-import { Chronometer } from "@/components/Chronometer";
+import { SecurityDashboard } from "@/components/SecurityDashboard";
+import { BackupRestore } from "@/components/BackupRestore";
+import { RecipeImport } from "@/components/RecipeImport";
+import { KitchenTimers } from "@/components/KitchenTimers";
+import { HouseholdAccount } from "@/components/HouseholdAccount";
 import { PinLock } from "@/components/PinLock";
+import { clearSignedIn, getSessionLengthHours, getSignedInAt, hasDeviceLock, markSignedIn, sessionExpired } from "@/lib/deviceLock";
 
 import { useNavigate, useLocation } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
@@ -12,11 +17,15 @@ import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useFoodItems, type FoodItem } from "@/hooks/useFoodItems";
 import { colorFromName } from "@/lib/foodColors";
 
 import { useMeals, type MealCategory, type Meal, type PossibleMeal } from "@/hooks/useMeals";
 import { useShoppingList } from "@/hooks/useShoppingList";
+import { useMealSlots } from "@/hooks/useMealSlots";
+import { useKitchenTimers, useTimerAlerts } from "@/hooks/useKitchenTimers";
+import { buildScaledMealForServings, formatServings, HOUSEHOLD_SIZE_PREF_KEY, recipeYield } from "@/lib/servings";
 import { usePreferences } from "@/hooks/usePreferences";
 import { toast } from "@/hooks/use-toast";
 import { format, parseISO } from "date-fns";
@@ -35,8 +44,11 @@ import {
   getMissingIngredients, isFoodUsedInMeals,
   formatExpirationLabel, compareExpirationWithCounter,
   sortStockDeductionPriority, buildScaledMealForRatio, scaleIngredientStringExact,
+  buildDeductionNeeds, buildNameMatchNeeds,
 } from "@/lib/stockUtils";
-import { useMealTransfers } from "@/hooks/useMealTransfers";
+import { useMealTransfers, formatDeductionReport, type MoveToPossibleArgs } from "@/hooks/useMealTransfers";
+import { withStockReason } from "@/lib/stockMovements";
+import { recordUndo, groupUndo, rowsById, useUndoable, useUndoRedo } from "@/hooks/useUndoRedo";
 
 // Lazy component factories (for preloading)
 const importShoppingList = () => import("@/components/ShoppingList").then((m) => ({ default: m.ShoppingList }));
@@ -115,7 +127,9 @@ const Index = () => {
   const mainPage: MainPage = ROUTE_TO_PAGE[location.pathname] ?? "repas";
   const setMainPage = (page: MainPage) => navigate(PAGE_TO_ROUTE[page]);
 
-  const unlocked = !!session;
+  // A device with a PIN or passkey opens locked, even with a valid session
+  const [deviceLocked, setDeviceLocked] = useState(() => hasDeviceLock());
+  const unlocked = !!session && !deviceLocked;
 
   // All hooks always enabled once unlocked — data is cached by react-query
   const { items: foodItems, deleteItem: deleteFoodItemMutation } = useFoodItems({ enabled: unlocked });
@@ -147,17 +161,34 @@ const Index = () => {
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session: s } }) => setSession(s));
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, s) => setSession(s));
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, s) => {
+      // The next account must not see this household's cached data
+      if (event === 'SIGNED_OUT') { qc.clear(); clearSignedIn(); }
+      setSession(s);
+    });
     return () => subscription.unsubscribe();
-  }, []);
+  }, [qc]);
 
   useEffect(() => {
-    const handleUnload = () => { supabase.auth.signOut(); };
+    // Sessions end with the tab only when "Rester connecté" says so
+    const handleUnload = () => { if (getSessionLengthHours() === 0) supabase.auth.signOut({ scope: 'local' }); };
     window.addEventListener("beforeunload", handleUnload);
     return () => window.removeEventListener("beforeunload", handleUnload);
   }, []);
 
-  // unlocked computed above to gate data hooks before PIN unlock
+  // Past the session length since the password sign-in, the password is needed again
+  useEffect(() => {
+    if (!session) return;
+    if (getSignedInAt() == null) markSignedIn();
+    const check = () => {
+      if (sessionExpired(getSignedInAt(), getSessionLengthHours())) supabase.auth.signOut({ scope: 'local' });
+    };
+    check();
+    const interval = setInterval(check, 60_000);
+    return () => clearInterval(interval);
+  }, [session]);
+
+  // unlocked computed above to gate data hooks before sign-in
 
   useEffect(() => {
     if (!unlocked) return;
@@ -180,6 +211,18 @@ const Index = () => {
       .on('postgres_changes', { event: '*', schema: 'public', table: 'food_items' }, () => { qc.invalidateQueries({ queryKey: ["food_items"] }); })
       .on('postgres_changes', { event: '*', schema: 'public', table: 'meals' }, () => { qc.invalidateQueries({ queryKey: ["meals"] }); })
       .on('postgres_changes', { event: '*', schema: 'public', table: 'possible_meals' }, () => { qc.invalidateQueries({ queryKey: ["possible_meals"] }); })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'meal_ingredients' }, () => { qc.invalidateQueries({ queryKey: ["meals"] }); qc.invalidateQueries({ queryKey: ["possible_meals"] }); })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'meal_slots' }, () => { qc.invalidateQueries({ queryKey: ["meal_slots"] }); })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'day_types' }, () => { qc.invalidateQueries({ queryKey: ["day_types"] }); })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'price_history' }, () => { qc.invalidateQueries({ queryKey: ["price_history"] }); })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'stores' }, () => { qc.invalidateQueries({ queryKey: ["stores"] }); })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'store_groups' }, () => { qc.invalidateQueries({ queryKey: ["store_groups"] }); })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'store_items' }, () => { qc.invalidateQueries({ queryKey: ["store_items"] }); })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'kitchen_timers' }, () => { qc.invalidateQueries({ queryKey: ["kitchen_timers"] }); })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'household_members' }, () => { qc.invalidateQueries({ queryKey: ["household_members"] }); })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'household_memberships' }, () => { qc.invalidateQueries({ queryKey: ["household_account"] }); })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'product_catalog' }, () => { qc.invalidateQueries({ queryKey: ["product_catalog"] }); })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'stock_movements' }, () => { qc.invalidateQueries({ queryKey: ["stock_movements"] }); })
       .subscribe();
     return () => { supabase.removeChannel(channel); };
   }, [unlocked, qc]);
@@ -187,12 +230,12 @@ const Index = () => {
   const {
     isLoading,
     meals, possibleMeals,
-    addMeal, addMealToPossibleDirectly, renameMeal, updateCalories, updateGrams, updateProtein, updateIngredients,
+    addMeal, addMealToPossibleDirectly, importMeal, renameMeal, updateCalories, updateGrams, updateProtein, updateMacros, updateIngredients,
     updateOvenTemp, updateOvenMinutes,
     toggleFavorite, deleteMeal, reorderMeals,
     moveToPossible, duplicatePossibleMeal, removeFromPossible,
     updateExpiration, updatePlanning, updateCounter,
-    deletePossibleMeal, reorderPossibleMeals, updatePossibleIngredients, updatePossibleQuantity,
+    deletePossibleMeal, reorderPossibleMeals, updatePossibleQuantity,
     getMealsByCategory, getPossibleByCategory, sortByExpiration, sortByPlanning, getRandomPossible
   } = useMeals({ enabled: unlocked });
 
@@ -209,66 +252,9 @@ const Index = () => {
   }, [unlocked, meals]);
 
   const { groups: shoppingGroups, items: shoppingItems } = useShoppingList({ enabled: unlocked });
+  const { slots: mealSlots } = useMealSlots({ enabled: unlocked });
   const { getPreference, setPreference } = usePreferences({ enabled: unlocked });
 
-  // Sunday auto-clear
-  const lastWeeklyReset = getPreference<string>('last_weekly_reset', '');
-  const sundayClearDone = useRef(false);
-  useEffect(() => {
-    if (!unlocked || sundayClearDone.current) return;
-    const now = new Date();
-    const day = now.getDay();
-    if (day !== 0 || now.getHours() < 23 || (now.getHours() === 23 && now.getMinutes() < 59)) {
-      sundayClearDone.current = true;
-      return;
-    }
-    const todaySunday = new Date(now);
-    todaySunday.setHours(23, 59, 0, 0);
-    if (lastWeeklyReset && new Date(lastWeeklyReset) >= todaySunday) {
-      sundayClearDone.current = true;
-      return;
-    }
-    if (possibleMeals.length === 0) {
-      sundayClearDone.current = true;
-      setPreference.mutate({ key: 'last_weekly_reset', value: now.toISOString() });
-      return;
-    }
-    sundayClearDone.current = true;
-    const clearAll = async () => {
-      const keepPrefResult = await supabase.from('user_preferences').select('value').eq('key', 'planning_keep_on_reset').maybeSingle();
-      const keepOnReset: Record<string, boolean> = (keepPrefResult.data?.value as Record<string, boolean>) ?? {};
-      await Promise.all(possibleMeals.map(pm =>
-        (supabase as any).from("possible_meals").delete().eq("id", pm.id)
-      ));
-      const manualPrefResult = await supabase.from('user_preferences').select('value').eq('key', 'planning_manual_calories').maybeSingle();
-      const currentManual: Record<string, number> = (manualPrefResult.data?.value as Record<string, number>) ?? {};
-      const keptManual: Record<string, number> = {};
-      for (const [key, val] of Object.entries(currentManual)) {
-        if (keepOnReset[`manual-${key}`]) keptManual[key] = val;
-      }
-      setPreference.mutate({ key: 'planning_manual_calories', value: keptManual });
-      const extraPrefResult = await supabase.from('user_preferences').select('value').eq('key', 'planning_extra_calories').maybeSingle();
-      const currentExtra: Record<string, number> = (extraPrefResult.data?.value as Record<string, number>) ?? {};
-      const keptExtra: Record<string, number> = {};
-      for (const [key, val] of Object.entries(currentExtra)) {
-        if (keepOnReset[`extra-${key}`]) keptExtra[key] = val;
-      }
-      setPreference.mutate({ key: 'planning_extra_calories', value: keptExtra });
-      const breakfastPrefResult = await supabase.from('user_preferences').select('value').eq('key', 'planning_breakfast').maybeSingle();
-      const currentBreakfast: Record<string, string> = (breakfastPrefResult.data?.value as Record<string, string>) ?? {};
-      const keptBreakfast: Record<string, string> = {};
-      for (const [key, val] of Object.entries(currentBreakfast)) {
-        if (keepOnReset[`breakfast-${key}`]) keptBreakfast[key] = val;
-      }
-      setPreference.mutate({ key: 'planning_breakfast', value: keptBreakfast });
-      setPreference.mutate({ key: 'planning_drink_checks', value: {} });
-      setPreference.mutate({ key: 'last_weekly_reset', value: now.toISOString() });
-      qc.invalidateQueries({ queryKey: ["possible_meals"] });
-      toast({ title: "🔄 Reset hebdomadaire effectué", description: "Les cartes possibles et calories manuelles ont été effacées." });
-    };
-    clearAll();
-  }, [unlocked, possibleMeals, lastWeeklyReset]);
-
   const [activeCategory, setActiveCategory] = useState<MealCategory>(() => {
     if (location.pathname === '/repas') {
       const hour = new Date().getHours();
@@ -335,7 +321,14 @@ const Index = () => {
 
   const [logoClickCount, setLogoClickCount] = useState(0);
   const [showDevMenu, setShowDevMenu] = useState(false);
+  const [showSecurity, setShowSecurity] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showRecipeImport, setShowRecipeImport] = useState(false);
   const [chronoOpen, setChronoOpen] = useState(false);
+  const [accountOpen, setAccountOpen] = useState(false);
+  const { timers: kitchenTimers } = useKitchenTimers({ enabled: unlocked });
+  const runningTimers = kitchenTimers.filter(t => t.running).length;
+  useTimerAlerts({ enabled: unlocked });
   const [coursesTab, setCoursesTab] = useState<"liste" | "menu">("liste");
 
   const [collapsedSections, setCollapsedSections] = useState<Record<string, boolean>>(() => {
@@ -358,12 +351,17 @@ const Index = () => {
     });
   };
 
+  // Session-wide undo/redo, shared by every tab
+  const history = useUndoRedo({ shortcuts: true });
+  const withUndo = useUndoable();
+
   if (session === undefined) return (
     <div className="fixed inset-0 bg-background flex items-center justify-center">
       <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
     </div>);
 
-  if (!unlocked) return <PinLock onUnlock={() => {}} />;
+  if (!session) return <PinLock onUnlock={() => setDeviceLocked(false)} />;
+  if (deviceLocked) return <PinLock locked onUnlock={() => setDeviceLocked(false)} />;
 
   const openDialog = (target: "all" | "possible" = "all") => {
     setNewCategory(activeCategory);
@@ -412,7 +410,7 @@ const Index = () => {
     const items = getPossibleByCategory(cat);
     const mode = sortModes[cat] || "manual";
     if (mode === "expiration") return sortByExpiration(items);
-    if (mode === "planning") return sortByPlanning(items);
+    if (mode === "planning") return sortByPlanning(items, mealSlots.map(s => s.key));
     return items;
   };
 
@@ -501,8 +499,45 @@ const Index = () => {
     });
   };
 
-  const { deductIngredientsFromStock, restoreIngredientsToStock, adjustStockForIngredientChange, deductNameMatchStock } = useMealTransfers(foodItems);
+  const { moveMealToPossible, undoDeduction, restoreIngredientsToStock, updatePossibleIngredientsWithStock } = useMealTransfers(foodItems);
+
+  /** Show what was taken from stock, with an undo action */
+  const forgetDeduction = (possibleMealId: string) => {
+    updateSnapshots(prev => { const next = { ...prev }; delete next[possibleMealId]; return next; });
+    setUnParUnSourcePmIds(prev => { const next = new Set(prev); next.delete(possibleMealId); return next; });
+  };
 
+  // New possible meals are cooked for the household by default
+  const householdSize = getPreference<number>(HOUSEHOLD_SIZE_PREF_KEY, 1);
+  const servingsFor = (meal: Meal, servings = householdSize) => {
+    const cooked = buildScaledMealForServings(meal, servings, buildStockMap(foodItems));
+    return { cooked, servings: cooked === meal ? null : servings };
+  };
+
+  /** Move to Possible with stock deduction, as one undo step (redo replays the move) */
+  const planWithDeduction = async (args: MoveToPossibleArgs, onPlanned?: (possibleMealId: string) => void) => {
+    const apply = async () => {
+      const result = await moveMealToPossible(args);
+      if (!result) return null;
+      updateSnapshots(prev => ({ ...prev, [result.possibleMealId]: result.snapshot }));
+      onPlanned?.(result.possibleMealId);
+      return result;
+    };
+    let current = await apply();
+    if (!current) return;
+    recordUndo({
+      label: "Ajout aux possibles",
+      undo: async () => {
+        if (!(await undoDeduction(current.deductionId))) throw new Error("La déduction n'a pas pu être annulée");
+        forgetDeduction(current.possibleMealId);
+      },
+      redo: async () => {
+        const result = await apply();
+        if (!result) throw new Error("Le stock n'a pas pu être déduit");
+        current = result;
+      },
+    }, { title: "📦 Stock mis à jour", description: formatDeductionReport(current.report) || "Aucun ingrédient déduit" });
+  };
 
   return (
     <div className="min-h-screen bg-background">
@@ -513,9 +548,22 @@ const Index = () => {
           shoppingGroups={shoppingGroups}
           shoppingItems={shoppingItems}
           blockedCount={blockedCount}
-          setBlockedCount={setBlockedCount}
+          onOpenSecurity={() => setShowSecurity(true)}
+          onOpenBackup={() => setShowBackup(true)}
         />
       )}
+      <SecurityDashboard open={showSecurity} onOpenChange={setShowSecurity} onBlockedCountChange={setBlockedCount} />
+      <BackupRestore open={showBackup} onOpenChange={setShowBackup} />
+      <RecipeImport
+        open={showRecipeImport}
+        onOpenChange={setShowRecipeImport}
+        categories={CATEGORIES}
+        defaultCategory={newCategory}
+        creating={importMeal.isPending}
+        onCreate={(meal) => importMeal.mutate(meal, {
+          onSuccess: () => { setShowRecipeImport(false); toast({ title: "Recette importée 🎉" }); }
+        })}
+      />
 
       <header className="sticky top-0 z-10 bg-background/80 backdrop-blur-md border-b px-2 py-2 sm:px-4 sm:py-3">
         <div className="max-w-6xl mx-auto flex items-center gap-2 sm:gap-3">
@@ -546,14 +594,38 @@ const Index = () => {
             </div>
           </div>
 
+          {(history.canUndo || history.canRedo) && (
+            <div className="flex items-center shrink-0">
+              <button onClick={history.undo} disabled={!history.canUndo || history.busy} title={history.undoLabel ? `Annuler : ${history.undoLabel} (Ctrl+Z)` : "Annuler"}
+                className="h-7 w-7 flex items-center justify-center rounded-full text-muted-foreground hover:text-foreground hover:bg-muted disabled:opacity-30 transition-colors">
+                <Undo2 className="h-3.5 w-3.5" />
+              </button>
+              <button onClick={history.redo} disabled={!history.canRedo || history.busy} title={history.redoLabel ? `Rétablir : ${history.redoLabel} (Ctrl+Shift+Z)` : "Rétablir"}
+                className="h-7 w-7 flex items-center justify-center rounded-full text-muted-foreground hover:text-foreground hover:bg-muted disabled:opacity-30 transition-colors">
+                <Redo2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          )}
+
           <button onClick={() => setChronoOpen(true)}
             className="text-[10px] sm:text-xs font-semibold text-muted-foreground hover:text-foreground transition-colors flex items-center gap-1 shrink-0 bg-muted/60 hover:bg-muted rounded-full px-2.5 py-1">
             <span className="capitalize">{format(new Date(), 'EEE', { locale: fr })}</span>
             <span className="font-black text-foreground">{format(new Date(), 'd')}</span>
+            {runningTimers > 0 && (
+              <span className="flex items-center gap-0.5 text-primary font-black" title="Minuteurs en cours">
+                <Timer className="h-3 w-3" />{runningTimers}
+              </span>
+            )}
+          </button>
+
+          <button onClick={() => setAccountOpen(true)} title="Compte et foyer"
+            className="h-7 w-7 flex items-center justify-center rounded-full text-muted-foreground hover:text-foreground hover:bg-muted transition-colors shrink-0">
+            <CircleUser className="h-4 w-4" />
           </button>
         </div>
       </header>
-      <Chronometer open={chronoOpen} onOpenChange={setChronoOpen} />
+      <KitchenTimers open={chronoOpen} onOpenChange={setChronoOpen} />
+      <HouseholdAccount open={accountOpen} onOpenChange={setAccountOpen} />
 
       <main className="max-w-6xl mx-auto p-3 sm:p-4">
         <Suspense fallback={<div className="flex justify-center py-8 text-muted-foreground"><Loader2 className="h-5 w-5 animate-spin" /></div>}>
@@ -586,6 +658,24 @@ const Index = () => {
                   </TabsTrigger>
               )}
               </TabsList>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <button className="text-xs font-semibold text-muted-foreground hover:text-foreground bg-muted/60 hover:bg-muted rounded-full px-2.5 py-1 flex items-center gap-1 shrink-0" title="Taille du foyer">
+                    <Users className="h-3 w-3" />{householdSize}
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent className="w-56 p-3 space-y-2" align="end">
+                  <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Foyer</p>
+                  <div className="flex items-center justify-center gap-3">
+                    <Button size="icon" variant="outline" className="h-8 w-8 rounded-full" disabled={householdSize <= 1}
+                      onClick={() => setPreference.mutate({ key: HOUSEHOLD_SIZE_PREF_KEY, value: householdSize - 1 })}>−</Button>
+                    <span className="text-lg font-black w-16 text-center">{formatServings(householdSize)}</span>
+                    <Button size="icon" variant="outline" className="h-8 w-8 rounded-full"
+                      onClick={() => setPreference.mutate({ key: HOUSEHOLD_SIZE_PREF_KEY, value: householdSize + 1 })}>+</Button>
+                  </div>
+                  <p className="text-[10px] text-muted-foreground">Portions cuisinées par défaut en passant un repas dans les possibles.</p>
+                </PopoverContent>
+              </Popover>
               <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
                 <DialogTrigger asChild>
                   <Button size="sm" className="rounded-full gap-1 text-xs shrink-0" onClick={() => openDialog("all")}>
@@ -604,6 +694,9 @@ const Index = () => {
                       <Button onClick={() => { setAddTarget("all"); handleAdd(); }} disabled={!newName.trim()} className="flex-1 text-xs rounded-xl">Tous les repas</Button>
                       <Button onClick={() => { setAddTarget("possible"); handleAdd(); }} disabled={!newName.trim()} variant="secondary" className="flex-1 text-xs rounded-xl">Possibles uniquement</Button>
                     </div>
+                    <button onClick={() => { setDialogOpen(false); setShowRecipeImport(true); }} className="flex items-center justify-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+                      <FileUp className="h-3 w-3" /> Importer une recette depuis une page web
+                    </button>
                   </div>
                 </DialogContent>
               </Dialog>
@@ -624,13 +717,16 @@ const Index = () => {
                   collapsed={collapsedSections[`master-${cat.value}`] ?? false}
                   onToggleCollapse={() => toggleSectionCollapse(`master-${cat.value}`)}
                   onMoveToPossible={async (id) => {
-                    const result = await moveToPossible.mutateAsync({ mealId: id });
+                    const meal = meals.find((m) => m.id === id);
+                    const { cooked, servings } = meal ? servingsFor(meal) : { cooked: null, servings: null };
+                    const result = await moveToPossible.mutateAsync({ mealId: id, servings, ingredients_override: servings ? cooked.ingredients : null });
                     if (result?.id) setMasterSourcePmIds(prev => new Set([...prev, result.id]));
                   }}
                   onRename={(id, name) => renameMeal.mutate({ id, name })}
                   onDelete={(id) => deleteMeal.mutate(id)}
                   onUpdateCalories={(id, cal) => updateCalories.mutate({ id, calories: cal })}
                   onUpdateProtein={(id, prot) => updateProtein.mutate({ id, protein: prot })}
+                  onUpdateMacros={(id, macros) => updateMacros.mutate({ id, macros })}
                   onUpdateGrams={(id, g) => updateGrams.mutate({ id, grams: g })}
                   onUpdateIngredients={(id, ing) => updateIngredients.mutate({ id, ingredients: ing })}
                   onToggleFavorite={(id) => {
@@ -655,42 +751,36 @@ const Index = () => {
                   onMoveToPossible={async (mealId) => {
                     const meal = meals.find(m => m.id === mealId);
                     if (meal) {
-                      const snapshots = await deductIngredientsFromStock(meal);
-                      const nameMatch = foodItems.find(fi => strictNameMatch(fi.name, meal.name) && !fi.is_infinite);
-                      if (nameMatch && !snapshots.find(s => s.id === nameMatch.id)) snapshots.push({ ...nameMatch });
-                      const expDate = getEarliestIngredientExpiration(meal, foodItems);
-                      const counterDate = getEarliestIngredientCounterDate(meal, foodItems);
-                      const result = await moveToPossible.mutateAsync({ mealId, expiration_date: expDate, counter_start_date: counterDate });
-                      if (result?.id) updateSnapshots(prev => ({ ...prev, [result.id]: snapshots }));
+                      const { cooked, servings } = servingsFor(meal);
+                      await planWithDeduction({
+                        mealId, needs: buildDeductionNeeds(cooked, foodItems),
+                        expirationDate: getEarliestIngredientExpiration(meal, foodItems),
+                        counterStartDate: getEarliestIngredientCounterDate(meal, foodItems),
+                        servings, overrideIngredients: servings ? cooked.ingredients : null,
+                      });
                     }
                   }}
                   onMovePartialToPossible={async (meal, ratio) => {
                     const partialMeal = buildScaledMealForRatio(meal, ratio);
-                    const snapshots = await deductIngredientsFromStock(partialMeal);
-                    const expDate = getEarliestIngredientExpiration(meal, foodItems);
-                    const counterDate = getEarliestIngredientCounterDate(meal, foodItems);
-                    const result = await addMealToPossibleDirectly.mutateAsync({
-                      name: meal.name, category: cat.value, colorSeed: meal.id,
-                      calories: partialMeal.calories, grams: partialMeal.grams, ingredients: partialMeal.ingredients, expiration_date: expDate, counter_start_date: counterDate,
+                    await planWithDeduction({
+                      needs: buildDeductionNeeds(partialMeal, foodItems),
+                      expirationDate: getEarliestIngredientExpiration(meal, foodItems),
+                      counterStartDate: getEarliestIngredientCounterDate(meal, foodItems),
+                      newMeal: { name: meal.name, category: cat.value, colorSeed: meal.id, calories: partialMeal.calories, grams: partialMeal.grams, ingredients: partialMeal.ingredients },
                     });
-                    if (result?.id) updateSnapshots(prev => ({ ...prev, [result.id]: snapshots }));
                   }}
                   onMoveNameMatchToPossible={async (meal, fi) => {
-                    const snapshot = [{ ...fi }];
-                    await deductNameMatchStock(meal);
-                    const result = await moveToPossible.mutateAsync({ mealId: meal.id, expiration_date: fi.expiration_date, counter_start_date: fi.counter_start_date });
-                    if (result?.id) updateSnapshots(prev => ({ ...prev, [result.id]: snapshot }));
+                    await planWithDeduction({
+                      mealId: meal.id, needs: buildNameMatchNeeds(meal, foodItems),
+                      expirationDate: fi.expiration_date, counterStartDate: fi.counter_start_date,
+                    });
                   }}
                   onMoveFoodItemToPossible={async (fi) => {
-                    const snapshot = [{ ...fi }];
-                    if (!fi.is_infinite) {
-                      const currentQty = fi.quantity ?? 1;
-                      if (currentQty <= 1) { await supabase.from("food_items").delete().eq("id", fi.id); }
-                      else { await supabase.from("food_items").update({ quantity: currentQty - 1 } as any).eq("id", fi.id); }
-                      qc.invalidateQueries({ queryKey: ["food_items"] });
-                    }
-                    const pmResult = await addMealToPossibleDirectly.mutateAsync({ name: fi.name, category: cat.value, colorSeed: fi.id, calories: fi.calories, grams: fi.grams, expiration_date: fi.expiration_date, counter_start_date: fi.counter_start_date });
-                    if (pmResult?.id) updateSnapshots(prev => ({ ...prev, [pmResult.id]: snapshot }));
+                    await planWithDeduction({
+                      needs: fi.is_infinite ? [] : [{ name: fi.name, grams: 0, count: 1, candidates: [fi.id] }],
+                      expirationDate: fi.expiration_date, counterStartDate: fi.counter_start_date,
+                      newMeal: { name: fi.name, category: cat.value, colorSeed: fi.id, calories: fi.calories, grams: fi.grams },
+                    });
                   }}
                   onDeleteFoodItem={(id) => { deleteFoodItem(id); }}
                   onRename={(id, name) => renameMeal.mutate({ id, name })}
@@ -713,19 +803,19 @@ const Index = () => {
                 onToggleSort={() => toggleSort(cat.value)}
                 onRandomPick={() => handleRandomPick(cat.value)}
                 onRemove={(id) => { removeFromPossible.mutate(id); }}
-                onReturnWithoutDeduction={async (id) => {
+                onReturnWithoutDeduction={(id) => groupUndo("Retour au stock", async (group) => {
                   const snapshots = deductionSnapshots[id];
                   if (snapshots && snapshots.length > 0) {
-                    await restoreIngredientsToStock({} as Meal, snapshots);
+                    await restoreIngredientsToStock({} as Meal, snapshots, id, group);
                     updateSnapshots(prev => { const next = { ...prev }; delete next[id]; return next; });
                   } else {
                     const allPossible = getPossibleByCategory(cat.value);
                     const pm = allPossible.find(p => p.id === id);
-                    if (pm?.meals) await restoreIngredientsToStock(pm.meals);
+                    if (pm?.meals) await restoreIngredientsToStock(pm.meals, undefined, id, group);
                   }
-                  removeFromPossible.mutate(id);
                   setUnParUnSourcePmIds(prev => { const next = new Set(prev); next.delete(id); return next; });
-                }}
+                  await removeFromPossible.mutateAsync({ id, undoGroup: group }).catch(() => {});
+                })}
                 onReturnToMaster={(id) => {
                   removeFromPossible.mutate(id);
                   setMasterSourcePmIds(prev => { const next = new Set(prev); next.delete(id); return next; });
@@ -733,10 +823,10 @@ const Index = () => {
                 onDelete={(id) => { deletePossibleMeal.mutate(id); }}
                 onDuplicate={(id) => duplicatePossibleMeal.mutate(id)}
                 onUpdateExpiration={(id, d) => updateExpiration.mutate({ id, expiration_date: d })}
-                onUpdatePlanning={(id, day, time) => updatePlanning.mutate({ id, day_of_week: day, meal_time: time })}
+                onUpdatePlanning={(id, date, time) => updatePlanning.mutate({ id, planned_date: date, meal_time: time })}
                 onUpdateCounter={(id, d) => updateCounter.mutate({ id, counter_start_date: d })}
                 onUpdateCalories={(id, cal) => updateCalories.mutate({ id, calories: cal })}
-                onUpdateGrams={async (id, g) => {
+                onUpdateGrams={(id, g) => groupUndo("Grammes du repas", async (group) => {
                   const pm = possibleMeals.find(p => p.meal_id === id);
                   if (pm && unParUnSourcePmIds.has(pm.id)) {
                     if (pm.meals) {
@@ -745,7 +835,8 @@ const Index = () => {
                       const delta = oldGrams - newGrams;
                       if (delta !== 0) {
                         const matchingFi = foodItems.find(fi => strictNameMatch(fi.name, pm.meals.name) && !fi.is_infinite);
-                        if (matchingFi) {
+                        const origin = { mealId: pm.meal_id, possibleMealId: pm.id };
+                        if (matchingFi) await withUndo("Consommation", [rowsById("food_items", matchingFi.id)], async () => {
                           const perUnit = parseQty(matchingFi.grams);
                           if (delta > 0) {
                             if (matchingFi.quantity && matchingFi.quantity >= 1 && perUnit > 0) {
@@ -753,39 +844,45 @@ const Index = () => {
                               const newTotal = currentTotal + delta;
                               const fullUnits = Math.floor(newTotal / perUnit);
                               const rem = Math.round((newTotal - fullUnits * perUnit) * 10) / 10;
-                              await supabase.from("food_items").update({ quantity: rem > 0 ? fullUnits + 1 : fullUnits, grams: encodeStoredGrams(perUnit, rem > 0 ? rem : null) } as any).eq("id", matchingFi.id);
-                              if (rem <= 0 && matchingFi.counter_start_date) await supabase.from("food_items").update({ counter_start_date: null } as any).eq("id", matchingFi.id);
+                              await withStockReason(supabase.from("food_items").update({ quantity: rem > 0 ? fullUnits + 1 : fullUnits, grams: encodeStoredGrams(perUnit, rem > 0 ? rem : null) } as any).eq("id", matchingFi.id), "restore", origin);
+                              if (rem <= 0 && matchingFi.counter_start_date) await withStockReason(supabase.from("food_items").update({ counter_start_date: null } as any).eq("id", matchingFi.id), "restore", origin);
                             } else {
                               const current = parseQty(matchingFi.grams);
-                              await supabase.from("food_items").update({ grams: formatNumeric(current + delta) } as any).eq("id", matchingFi.id);
+                              await withStockReason(supabase.from("food_items").update({ grams: formatNumeric(current + delta) } as any).eq("id", matchingFi.id), "restore", origin);
                             }
                           } else {
                             const toDeduct = -delta;
                             const totalAvail = getFoodItemTotalGrams(matchingFi);
                             const remaining = totalAvail - toDeduct;
-                            if (remaining <= 0) { await supabase.from("food_items").delete().eq("id", matchingFi.id); }
+                            if (remaining <= 0) { await withStockReason(supabase.from("food_items").delete().eq("id", matchingFi.id), "consume", origin); }
                             else if (matchingFi.quantity && matchingFi.quantity >= 1 && perUnit > 0) {
                               const fullUnits = Math.floor(remaining / perUnit);
                               const rem = Math.round((remaining - fullUnits * perUnit) * 10) / 10;
-                              await supabase.from("food_items").update({ quantity: rem > 0 ? Math.max(1, fullUnits + 1) : fullUnits, grams: encodeStoredGrams(perUnit, rem > 0 ? rem : null) } as any).eq("id", matchingFi.id);
-                            } else { await supabase.from("food_items").update({ grams: formatNumeric(remaining) } as any).eq("id", matchingFi.id); }
+                              await withStockReason(supabase.from("food_items").update({ quantity: rem > 0 ? Math.max(1, fullUnits + 1) : fullUnits, grams: encodeStoredGrams(perUnit, rem > 0 ? rem : null) } as any).eq("id", matchingFi.id), "consume", origin);
+                            } else { await withStockReason(supabase.from("food_items").update({ grams: formatNumeric(remaining) } as any).eq("id", matchingFi.id), "consume", origin); }
                           }
                           qc.invalidateQueries({ queryKey: ["food_items"] });
-                        }
+                        }, { group });
                       }
                     }
                   }
-                  updateGrams.mutate({ id, grams: g });
-                }}
+                  await updateGrams.mutateAsync({ id, grams: g, undoGroup: group }).catch(() => {});
+                }, { silent: !possibleMeals.some(p => p.meal_id === id && unParUnSourcePmIds.has(p.id)) })}
                 onUpdateIngredients={(id, ing) => updateIngredients.mutate({ id, ingredients: ing })}
                 onUpdatePossibleIngredients={async (pmId, newIngredients) => {
                   const pm = possibleMeals.find(p => p.id === pmId);
                   if (!pm) return;
                   const oldIngredients = pm.ingredients_override ?? pm.meals?.ingredients;
-                  if (oldIngredients || newIngredients) await adjustStockForIngredientChange(oldIngredients, newIngredients);
-                  updatePossibleIngredients.mutate({ id: pmId, ingredients_override: newIngredients });
+                  await updatePossibleIngredientsWithStock(pmId, oldIngredients, newIngredients);
                 }}
-                onUpdateQuantity={async (id, qty) => {
+                onUpdateServings={async (pmId, servings) => {
+                  const pm = possibleMeals.find(p => p.id === pmId);
+                  if (!pm?.meals) return;
+                  const { cooked } = servingsFor(pm.meals, servings);
+                  await updatePossibleIngredientsWithStock(pmId, pm.ingredients_override ?? pm.meals.ingredients, cooked.ingredients,
+                    servings === recipeYield(pm.meals) ? null : servings);
+                }}
+                onUpdateQuantity={(id, qty) => groupUndo("Quantité", async (group) => {
                   if (unParUnSourcePmIds.has(id)) {
                     const pm = possibleMeals.find(p => p.id === id);
                     if (pm?.meals) {
@@ -793,30 +890,33 @@ const Index = () => {
                       const delta = oldQty - qty;
                       if (delta !== 0) {
                         const matchingFi = foodItems.find(fi => strictNameMatch(fi.name, pm.meals.name) && !fi.is_infinite);
+                        const origin = { mealId: pm.meal_id, possibleMealId: pm.id };
                         if (matchingFi) {
-                          if (delta > 0) {
-                            const newStockQty = (matchingFi.quantity ?? 0) + delta;
-                            const perUnit = parseQty(matchingFi.grams);
-                            const partial = parsePartialQty(matchingFi.grams);
-                            const hasPartial = partial > 0 && partial < perUnit;
-                            const updateData: any = { quantity: newStockQty };
-                            if (!hasPartial && matchingFi.counter_start_date) updateData.counter_start_date = null;
-                            await supabase.from("food_items").update(updateData).eq("id", matchingFi.id);
-                          } else {
-                            const toDeduct = -delta;
-                            const currentQty = matchingFi.quantity ?? 1;
-                            if (currentQty <= toDeduct) { await supabase.from("food_items").delete().eq("id", matchingFi.id); }
-                            else { await supabase.from("food_items").update({ quantity: currentQty - toDeduct } as any).eq("id", matchingFi.id); }
-                          }
-                          qc.invalidateQueries({ queryKey: ["food_items"] });
+                          await withUndo("Consommation", [rowsById("food_items", matchingFi.id)], async () => {
+                            if (delta > 0) {
+                              const newStockQty = (matchingFi.quantity ?? 0) + delta;
+                              const perUnit = parseQty(matchingFi.grams);
+                              const partial = parsePartialQty(matchingFi.grams);
+                              const hasPartial = partial > 0 && partial < perUnit;
+                              const updateData: any = { quantity: newStockQty };
+                              if (!hasPartial && matchingFi.counter_start_date) updateData.counter_start_date = null;
+                              await withStockReason(supabase.from("food_items").update(updateData).eq("id", matchingFi.id), "restore", origin);
+                            } else {
+                              const toDeduct = -delta;
+                              const currentQty = matchingFi.quantity ?? 1;
+                              if (currentQty <= toDeduct) { await withStockReason(supabase.from("food_items").delete().eq("id", matchingFi.id), "consume", origin); }
+                              else { await withStockReason(supabase.from("food_items").update({ quantity: currentQty - toDeduct } as any).eq("id", matchingFi.id), "consume", origin); }
+                            }
+                            qc.invalidateQueries({ queryKey: ["food_items"] });
+                          }, { group });
                         } else if (delta < 0) {
                           toast({ title: "⚠️ Stock insuffisant", description: `Plus de "${pm.meals.name}" en stock.` });
                         }
                       }
                     }
                   }
-                  updatePossibleQuantity.mutate({ id, quantity: qty });
-                }}
+                  await updatePossibleQuantity.mutateAsync({ id, quantity: qty, undoGroup: group }).catch(() => {});
+                }, { silent: !unParUnSourcePmIds.has(id) })}
                 onReorder={(from, to) => handleReorderPossible(cat.value, from, to)}
                 onExternalDrop={async (mealId, source) => {
                   const result = await moveToPossible.mutateAsync({ mealId });
@@ -848,38 +948,15 @@ const Index = () => {
                         });
                       }}
                       onMoveToPossible={async (fi, consumeQty, consumeGrams) => {
-                        const snapshot = [{ ...fi }];
-                        if (!fi.is_infinite) {
-                          if (consumeGrams && consumeGrams > 0) {
-                            const perUnit = parseQty(fi.grams);
-                            const totalAvail = getFoodItemTotalGrams(fi);
-                            const remaining = totalAvail - consumeGrams;
-                            if (remaining <= 0) { await supabase.from("food_items").delete().eq("id", fi.id); }
-                            else if (fi.quantity && fi.quantity >= 1 && perUnit > 0) {
-                              const fullUnits = Math.floor(remaining / perUnit);
-                              const rem = Math.round((remaining - fullUnits * perUnit) * 10) / 10;
-                              if (rem > 0) { await supabase.from("food_items").update({ quantity: Math.max(1, fullUnits + 1), grams: encodeStoredGrams(perUnit, rem) } as any).eq("id", fi.id); }
-                              else if (fullUnits > 0) { await supabase.from("food_items").update({ quantity: fullUnits, grams: formatNumeric(perUnit), counter_start_date: null } as any).eq("id", fi.id); }
-                              else { await supabase.from("food_items").delete().eq("id", fi.id); }
-                            } else { await supabase.from("food_items").update({ grams: formatNumeric(remaining) } as any).eq("id", fi.id); }
-                          } else {
-                            const deductQty = consumeQty ?? 1;
-                            const currentQty = fi.quantity ?? 1;
-                            if (currentQty <= deductQty) { await supabase.from("food_items").delete().eq("id", fi.id); }
-                            else { await supabase.from("food_items").update({ quantity: currentQty - deductQty } as any).eq("id", fi.id); }
-                          }
-                          qc.invalidateQueries({ queryKey: ["food_items"] });
-                        }
+                        const needs = fi.is_infinite ? []
+                          : consumeGrams && consumeGrams > 0
+                            ? [{ name: fi.name, grams: consumeGrams, count: 0, candidates: [fi.id] }]
+                            : [{ name: fi.name, grams: 0, count: consumeQty ?? 1, candidates: [fi.id] }];
                         const displayGrams = consumeGrams ? String(consumeGrams) : (fi.grams ? String(parseQty(fi.grams)) : null);
-                        const displayQty = consumeQty ?? 1;
-                        const pmResult = await addMealToPossibleDirectly.mutateAsync({
-                          name: fi.name, category: cat.value, colorSeed: fi.id, calories: fi.calories, grams: displayGrams,
-                          expiration_date: fi.expiration_date, possible_quantity: displayQty,
-                        });
-                        if (pmResult?.id) {
-                          updateSnapshots(prev => ({ ...prev, [pmResult.id]: snapshot }));
-                          setUnParUnSourcePmIds(prev => new Set([...prev, pmResult.id]));
-                        }
+                        await planWithDeduction({
+                          needs, expirationDate: fi.expiration_date, quantity: consumeQty ?? 1,
+                          newMeal: { name: fi.name, category: cat.value, colorSeed: fi.id, calories: fi.calories, grams: displayGrams },
+                        }, pmId => setUnParUnSourcePmIds(prev => new Set([...prev, pmId])));
                       }}
                     />
                   </div>
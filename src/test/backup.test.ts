@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { buildBackup, parseBackup, planRestore, BACKUP_FORMAT, type Backup } from "@/lib/backup";
+
+const sequentialIds = () => {
+  let n = 0;
+  return () => `new-${++n}`;
+};
+
+const backup = (tables: Backup["tables"]): Backup => ({ format: BACKUP_FORMAT, version: 1, exported_at: "2026-03-20T10:00:00.000Z", tables });
+
+describe("backup export", () => {
+  it("keeps known columns and drops the household and user ids", () => {
+    const out = buildBackup({ meals: [{ id: "m1", name: "Chili", household_id: "h1", user_id: "u1", extra: 1 }] }, new Date("2026-03-20T10:00:00Z"));
+    expect(out.format).toBe(BACKUP_FORMAT);
+    expect(out.exported_at).toBe("2026-03-20T10:00:00.000Z");
+    expect(out.tables.meals).toEqual([{ id: "m1", name: "Chili" }]);
+    expect(out.tables.food_items).toEqual([]);
+  });
+
+  it("rejects files that are not backups", () => {
+    expect(() => parseBackup("not json")).toThrow("illisible");
+    expect(() => parseBackup(JSON.stringify({ format: "other", version: 1, tables: {} }))).toThrow("pas une sauvegarde");
+    expect(() => parseBackup(JSON.stringify({ format: BACKUP_FORMAT, version: 99, tables: {} }))).toThrow("plus récente");
+    expect(() => parseBackup(JSON.stringify({ format: BACKUP_FORMAT, version: 1, tables: { meals: {} } }))).toThrow("meals");
+    expect(parseBackup(JSON.stringify(backup({ meals: [] }))).tables.meals).toEqual([]);
+  });
+});
+
+describe("restore plan", () => {
+  const data = backup({
+    meals: [{ id: "m1", name: "Chili", category: "plat" }],
+    possible_meals: [
+      { id: "p1", meal_id: "m1", planned_date: "2026-03-21", quantity: 1 },
+      { id: "p2", meal_id: "gone", quantity: 1 },
+    ],
+    shopping_groups: [{ id: "g1", name: "Frais" }],
+    shopping_items: [
+      { id: "i1", name: "Lait", group_id: "g1" },
+      { id: "i2", name: "Pain", group_id: "gone" },
+      { id: "i3", name: 42 },
+    ],
+    household_members: [{ id: "hm1", name: "Léa" }],
+    user_preferences: [{ id: "up1", key: "slot_members", value: { "2026-03-21|diner": ["hm1"] } }],
+    day_types: [{ id: "d1", label: "Sport", required_meal_ids: ["m1", "gone"] }],
+    unknown_table: [],
+  } as Backup["tables"]);
+
+  it("gives new ids and follows them through foreign keys and JSON values", () => {
+    const plan = planRestore(data, {}, "replace", sequentialIds());
+    const mealId = plan.inserts.meals[0].id;
+    const groupId = plan.inserts.shopping_groups[0].id;
+    const memberId = plan.inserts.household_members[0].id;
+    expect(mealId).not.toBe("m1");
+    expect(plan.inserts.possible_meals).toEqual([{ id: expect.any(String), meal_id: mealId, planned_date: "2026-03-21", quantity: 1 }]);
+    expect(plan.inserts.shopping_items.map((i) => [i.name, i.group_id])).toEqual([["Lait", groupId], ["Pain", null]]);
+    expect(plan.inserts.user_preferences[0].value).toEqual({ "2026-03-21|diner": [memberId] });
+    expect(plan.inserts.day_types[0].required_meal_ids).toEqual([mealId]);
+  });
+
+  it("reports invalid rows and unknown tables", () => {
+    const plan = planRestore(data, {}, "replace", sequentialIds());
+    const report = Object.fromEntries(plan.report.map((r) => [r.table, r]));
+    expect(report.possible_meals).toMatchObject({ total: 2, added: 1, invalid: 1 });
+    expect(report.shopping_items).toMatchObject({ total: 3, added: 2, invalid: 1 });
+    expect(plan.warnings).toContain("Tables inconnues ignorées : unknown_table");
+  });
+
+  it("merges onto existing rows and links children to them", () => {
+    const current = {
+      meals: [{ id: "existing-meal", name: "chili ", category: "plat" }],
+      shopping_groups: [{ id: "existing-group", name: "Frais" }],
+      shopping_items: [{ id: "existing-item", name: "Lait", group_id: "existing-group" }],
+    };
+    const plan = planRestore(data, current, "merge", sequentialIds());
+    expect(plan.inserts.meals).toEqual([]);
+    expect(plan.inserts.possible_meals[0].meal_id).toBe("existing-meal");
+    expect(plan.inserts.shopping_items.map((i) => i.name)).toEqual(["Pain"]);
+    const report = Object.fromEntries(plan.report.map((r) => [r.table, r]));
+    expect(report.meals).toMatchObject({ added: 0, kept: 1, removed: 0 });
+    expect(report.shopping_items).toMatchObject({ added: 1, kept: 1 });
+  });
+
+  it("counts the rows a replace removes", () => {
+    const plan = planRestore(data, { meals: [{ id: "a", name: "A" }, { id: "b", name: "B" }] }, "replace", sequentialIds());
+    expect(plan.report.find((r) => r.table === "meals")).toMatchObject({ added: 1, kept: 0, removed: 2 });
+  });
+});
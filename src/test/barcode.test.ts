@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { ean13CheckDigit, isValidEan13, normalizeBarcode } from "@/lib/barcode";
+
+describe("EAN-13 barcodes", () => {
+  it("computes the check digit", () => {
+    expect(ean13CheckDigit("400638133393")).toBe(1);
+    expect(isValidEan13("4006381333931")).toBe(true);
+    expect(isValidEan13("4006381333932")).toBe(false);
+  });
+
+  it("cleans typed codes and reads UPC-A as EAN-13", () => {
+    expect(normalizeBarcode("4 006381 333931")).toBe("4006381333931");
+    expect(normalizeBarcode("036000291452")).toBe("0036000291452");
+    expect(normalizeBarcode("12345")).toBeNull();
+    expect(normalizeBarcode("abc")).toBeNull();
+  });
+});
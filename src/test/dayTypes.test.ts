@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { averageWeekGoals, dayGoals, dayTypeOf, requiredWeekMeals, type DayType } from "@/lib/dayTypes";
+
+function makeType(id: string, overrides: Partial<DayType> = {}): DayType {
+  return {
+    id, label: id, emoji: null, sort_order: 0, calorie_target: null, protein_target: null,
+    days_per_week: 0, required_meal_ids: [], created_at: "", ...overrides,
+  };
+}
+
+const usual = { kcal: 2000, protein: 100 };
+
+describe("day types", () => {
+  it("resolves a date's type, dated choice first", () => {
+    const grimpe = makeType("grimpe", { calorie_target: 2600 });
+    const repos = makeType("repos");
+    // 2026-03-16 is a Monday
+    const assignments = { lundi: "grimpe", "2026-03-23": "repos" };
+    expect(dayTypeOf([grimpe, repos], assignments, "2026-03-16")).toBe(grimpe);
+    expect(dayTypeOf([grimpe, repos], assignments, "2026-03-23")).toBe(repos);
+    expect(dayTypeOf([grimpe, repos], assignments, "2026-03-17")).toBeNull();
+    expect(dayGoals(grimpe, usual)).toEqual({ kcal: 2600, protein: 100 });
+  });
+
+  it("averages goals and counts required meals over a week", () => {
+    const types = [
+      makeType("grimpe", { calorie_target: 2700, days_per_week: 2, required_meal_ids: ["avant", "gone"] }),
+      makeType("jeune", { calorie_target: 600, protein_target: 30, days_per_week: 1 }),
+    ];
+    expect(averageWeekGoals(types, usual)).toEqual({ kcal: (2700 * 2 + 600 + 2000 * 4) / 7, protein: (100 * 6 + 30) / 7 });
+    expect(requiredWeekMeals(types, ["avant"])).toEqual({ avant: 2 });
+  });
+});
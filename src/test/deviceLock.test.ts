@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { deviceLabel, PIN_PATTERN, sessionExpired } from "@/lib/deviceLock";
+import { base64urlToBuffer, bufferToBase64url } from "@/lib/webauthn";
+
+const HOUR = 3600_000;
+
+describe("session length", () => {
+  it("expires after the chosen number of hours", () => {
+    const signedInAt = Date.UTC(2026, 2, 1);
+    expect(sessionExpired(signedInAt, 24, signedInAt + 23 * HOUR)).toBe(false);
+    expect(sessionExpired(signedInAt, 24, signedInAt + 25 * HOUR)).toBe(true);
+  });
+
+  it("never expires tab-only or unknown sessions here", () => {
+    expect(sessionExpired(Date.UTC(2020, 0, 1), 0)).toBe(false);
+    expect(sessionExpired(null, 24)).toBe(false);
+  });
+});
+
+describe("device lock", () => {
+  it("accepts 4 to 8 digit PINs", () => {
+    expect(PIN_PATTERN.test("1234")).toBe(true);
+    expect(PIN_PATTERN.test("12345678")).toBe(true);
+    expect(PIN_PATTERN.test("123")).toBe(false);
+    expect(PIN_PATTERN.test("123456789")).toBe(false);
+    expect(PIN_PATTERN.test("12a4")).toBe(false);
+  });
+
+  it("labels devices by browser and system", () => {
+    expect(deviceLabel("Mozilla/5.0 (Linux; Android 14) AppleWebKit/537.36 Chrome/124.0 Mobile Safari/537.36")).toBe("Chrome · Android");
+    expect(deviceLabel("Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 Version/17.4 Mobile/15E148 Safari/604.1")).toBe("Safari · iOS");
+    expect(deviceLabel("Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:125.0) Gecko/20100101 Firefox/125.0")).toBe("Firefox · Windows");
+    expect(deviceLabel("curl/8.0")).toBe("Navigateur");
+  });
+
+  it("round-trips base64url buffers", () => {
+    const bytes = new Uint8Array([0, 250, 251, 252, 253, 254, 255, 62, 63]);
+    const encoded = bufferToBase64url(bytes.buffer);
+    expect(encoded).not.toMatch(/[+/=]/);
+    expect(Array.from(new Uint8Array(base64urlToBuffer(encoded)))).toEqual(Array.from(bytes));
+  });
+});
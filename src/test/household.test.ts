@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { formatPlateSplit, memberDayGoals, plateShares, slotEaters, splitDayTotals, type HouseholdMember } from "@/lib/household";
+
+const member = (id: string, name: string, portion_ratio = 1): HouseholdMember => ({
+  id, name, color: null, calorie_goal: 2000, protein_goal: 80, portion_ratio, sort_order: 0, created_at: "",
+});
+
+const lea = member("l", "Léa", 2);
+const tom = member("t", "Tom", 3);
+const members = [lea, tom];
+
+describe("slotEaters", () => {
+  it("is everyone unless the slot names its eaters", () => {
+    expect(slotEaters(members, undefined)).toEqual(members);
+    expect(slotEaters(members, ["t", "gone"])).toEqual([tom]);
+    expect(slotEaters(members, [])).toEqual([]);
+  });
+});
+
+describe("plate splitting", () => {
+  it("shares by portion ratio", () => {
+    const shares = plateShares(members);
+    expect(shares.get("l")).toBeCloseTo(0.4);
+    expect(shares.get("t")).toBeCloseTo(0.6);
+    expect(formatPlateSplit(450, members)).toBe("Léa 180g · Tom 270g");
+  });
+
+  it("shows nothing for a single eater or an unknown weight", () => {
+    expect(formatPlateSplit(450, [tom])).toBeNull();
+    expect(formatPlateSplit(0, members)).toBeNull();
+  });
+});
+
+describe("memberDayGoals", () => {
+  it("scales the member's goals like the day type scales the usual ones", () => {
+    expect(memberDayGoals(lea, { kcal: 2750, protein: 120 }, { kcal: 2750, protein: 120 })).toEqual({ kcal: 2000, protein: 80 });
+    expect(memberDayGoals(lea, { kcal: 3300, protein: 150 }, { kcal: 2750, protein: 120 })).toEqual({ kcal: 2400, protein: 100 });
+  });
+});
+
+describe("splitDayTotals", () => {
+  it("adds each slot's share to its eaters only", () => {
+    const totals = splitDayTotals(members, [
+      { kcal: 1000, protein: 50, eaters: members },
+      { kcal: 600, protein: 30, eaters: [tom] },
+      { kcal: 400, protein: 0, eaters: [] },
+    ]);
+    expect(totals.get("l")).toEqual({ kcal: 400, protein: 20 });
+    expect(totals.get("t")).toEqual({ kcal: 1200, protein: 60 });
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { canManageHousehold, formatInviteCode, isValidEmail, normalizeInviteCode, sortPeople } from "@/lib/householdAccounts";
+
+describe("invite codes", () => {
+  it("ignores case, spaces and dashes", () => {
+    expect(normalizeInviteCode(" abcd-efgh ")).toBe("ABCDEFGH");
+    expect(formatInviteCode("abcdefgh")).toBe("ABCD-EFGH");
+    expect(formatInviteCode("abc")).toBe("ABC");
+  });
+});
+
+describe("accounts", () => {
+  it("checks emails and roles", () => {
+    expect(isValidEmail(" lea@example.fr ")).toBe(true);
+    expect(isValidEmail("lea@example")).toBe(false);
+    expect(canManageHousehold("owner")).toBe(true);
+    expect(canManageHousehold("member")).toBe(false);
+    expect(canManageHousehold(null)).toBe(false);
+  });
+
+  it("lists owners first, by name, with the signed-in user as Moi", () => {
+    const people = sortPeople([
+      { user_id: "3", display_name: "Zoé", role: "member" },
+      { user_id: "2", display_name: null, role: "member" },
+      { user_id: "1", display_name: "Tom", role: "owner" },
+      { user_id: "4", display_name: "Ana", role: "member" },
+    ], "3");
+    expect(people.map(p => p.label)).toEqual(["Tom", "Ana", "Moi", "Sans nom"]);
+  });
+});
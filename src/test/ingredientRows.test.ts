@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { ingredientStringToRows, rowsToIngredientString, rowsToGroups, scaleIngredientRows } from "@/lib/ingredientRows";
+import { parseIngredientGroups } from "@/lib/ingredientUtils";
+import { getMealMultiple, buildStockMap, buildScaledMealForRatio } from "@/lib/stockUtils";
+import type { FoodItem } from "@/components/FoodItems";
+import type { Meal } from "@/hooks/useMeals";
+
+const RAW = "100g Poulet | 80g Dinde, ?50g Parmesan{400}, 2 c.à.s Huile, 3 Oeufs";
+
+describe("ingredientStringToRows", () => {
+  it("splits groups and alternatives into indexed rows", () => {
+    const rows = ingredientStringToRows(RAW);
+    expect(rows.map(r => [r.group_index, r.alt_index, r.name])).toEqual([
+      [0, 0, "Poulet"], [0, 1, "Dinde"], [1, 0, "Parmesan"], [2, 0, "Huile"], [3, 0, "Oeufs"],
+    ]);
+    expect(rows[2]).toMatchObject({ qty: 50, unit: "g", optional: true, kcal_per_100g: 400 });
+    expect(rows[3]).toMatchObject({ qty: 2, unit: "c.à.s", count: null });
+    expect(rows[4]).toMatchObject({ qty: null, unit: null, count: 3 });
+  });
+
+  it("returns no rows for empty input", () => {
+    expect(ingredientStringToRows(null)).toEqual([]);
+    expect(ingredientStringToRows("  ")).toEqual([]);
+  });
+});
+
+describe("rows ↔ string", () => {
+  it("round-trips through the export format", () => {
+    expect(rowsToIngredientString(ingredientStringToRows(RAW))).toBe(RAW);
+  });
+
+  it("gives the same groups as the string parser", () => {
+    expect(rowsToGroups(ingredientStringToRows(RAW))).toEqual(parseIngredientGroups(RAW));
+  });
+
+  it("scales rows in their written unit", () => {
+    const scaled = scaleIngredientRows(ingredientStringToRows("2 c.à.s Huile, 1kg Riz"), 0.5);
+    expect(rowsToIngredientString(scaled)).toBe("1 c.à.s Huile, 0.5kg Riz");
+  });
+});
+
+describe("stock helpers on structured rows", () => {
+  const meal: Meal = {
+    id: "m1", name: "Riz", category: "plat", color: "hsl(0,0%,50%)", sort_order: 0, created_at: "",
+    is_available: true, is_favorite: false, calories: null, protein: null, grams: null,
+    ingredients: null, ingredient_rows: ingredientStringToRows("250g Riz"), oven_temp: null, oven_minutes: null,
+  };
+
+  it("reads the rows rather than the legacy string", () => {
+    const fi = { id: "f1", name: "Riz", quantity: 1, grams: "500", is_infinite: false, is_indivisible: false } as FoodItem;
+    expect(getMealMultiple(meal, buildStockMap([fi]))).toBe(2);
+  });
+
+  it("scales rows when building a partial meal", () => {
+    const partial = buildScaledMealForRatio(meal, 0.5);
+    expect(partial.ingredient_rows?.[0].qty).toBe(125);
+    expect(partial.ingredients).toBe("125g Riz");
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatChrono, isExpired, parseOvenMinutes, pausePatch, startPatch, timerElapsed, timerEndsAt, timerRemaining,
+  type KitchenTimer,
+} from "@/lib/kitchenTimers";
+
+const T0 = Date.parse("2026-03-21T12:00:00Z");
+
+const timer = (overrides: Partial<KitchenTimer> = {}): KitchenTimer => ({
+  id: "t", name: "Gratin", kind: "countdown", duration_seconds: 600, running: false, started_at: null,
+  accumulated_ms: 0, meal_id: null, step_index: null, created_at: "", ...overrides,
+});
+
+describe("kitchen timers", () => {
+  it("counts from started_at on top of the accumulated time", () => {
+    const t = timer({ running: true, started_at: new Date(T0).toISOString(), accumulated_ms: 60_000 });
+    expect(timerElapsed(t, T0 + 30_000)).toBe(90_000);
+    expect(timerRemaining(t, T0 + 30_000)).toBe(510_000);
+    expect(timerEndsAt(t)).toBe(T0 + 540_000);
+  });
+
+  it("keeps the time while paused and resumes from it", () => {
+    const running = timer({ running: true, started_at: new Date(T0).toISOString() });
+    const paused = { ...running, ...pausePatch(running, T0 + 120_000) };
+    expect(paused).toMatchObject({ running: false, started_at: null, accumulated_ms: 120_000 });
+    expect(timerRemaining(paused, T0 + 999_999)).toBe(480_000);
+    expect(timerEndsAt(paused)).toBeNull();
+    const resumed = { ...paused, ...startPatch(paused, T0 + 200_000) };
+    expect(timerEndsAt(resumed)).toBe(T0 + 680_000);
+  });
+
+  it("expires countdowns only", () => {
+    const t = timer({ running: true, started_at: new Date(T0).toISOString() });
+    expect(isExpired(t, T0 + 599_000)).toBe(false);
+    expect(isExpired(t, T0 + 600_000)).toBe(true);
+    const up = timer({ kind: "countup", duration_seconds: null, running: true, started_at: new Date(T0).toISOString() });
+    expect(isExpired(up, T0 + 10_000_000)).toBe(false);
+    expect(timerRemaining(up)).toBeNull();
+  });
+
+  it("formats and parses times", () => {
+    expect(formatChrono(65_000)).toBe("01:05");
+    expect(formatChrono(3_723_000)).toBe("1:02:03");
+    expect(formatChrono(59_001, true)).toBe("01:00");
+    expect(formatChrono(-5_000)).toBe("00:00");
+    expect(parseOvenMinutes("25 min")).toBe(25);
+    expect(parseOvenMinutes("")).toBeNull();
+  });
+});
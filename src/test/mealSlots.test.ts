@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { slotIndex, slotKeyFromLabel } from "@/lib/mealSlots";
+
+describe("meal slots", () => {
+  it("derives a unique key from the label", () => {
+    expect(slotKeyFromLabel("Pré-entraînement", [])).toBe("pre_entrainement");
+    expect(slotKeyFromLabel("Goûter", ["gouter"])).toBe("gouter_2");
+    expect(slotKeyFromLabel("🍪", [])).toBe("creneau");
+  });
+
+  it("puts unknown slots last", () => {
+    const keys = ["petit_dejeuner", "midi", "soir"];
+    expect(slotIndex(keys, "midi")).toBe(1);
+    expect(slotIndex(keys, "supprime")).toBe(3);
+    expect(slotIndex(keys, null)).toBe(3);
+  });
+});
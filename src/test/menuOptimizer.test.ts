@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { optimizeMenu, createRng, mealKcal, type MenuInput } from "@/lib/menuOptimizer";
+import { platTargets } from "@/lib/planningGoals";
+import { buildStockMap } from "@/lib/stockUtils";
+import type { FoodItem } from "@/components/FoodItems";
+import type { Meal } from "@/hooks/useMeals";
+import type { MealSlot } from "@/lib/mealSlots";
+
+function makeMeal(id: string, calories: string, ingredients: string | null = null): Meal {
+  return {
+    id, name: id, category: "plat", calories, protein: null, grams: null, ingredients,
+    color: "#000", sort_order: 0, created_at: "", is_available: true, is_favorite: false,
+    oven_temp: null, oven_minutes: null,
+  };
+}
+
+function makeFoodItem(name: string, expiration_date: string | null): FoodItem {
+  return {
+    id: name, name, grams: "500", calories: null, protein: null, expiration_date, counter_start_date: null,
+    sort_order: 0, created_at: "", is_meal: false, is_infinite: false, is_dry: false, is_indivisible: false,
+    storage_type: "frigo", quantity: 1, food_type: null,
+  };
+}
+
+const meals = ["a", "b", "c", "d", "e", "f"].map((id, i) => makeMeal(id, String(500 + i * 100)));
+
+function input(overrides: Partial<MenuInput["constraints"]> = {}, seed = 42, foodItems: FoodItem[] = []): MenuInput {
+  return {
+    meals, foodItems, stockMap: buildStockMap(foodItems), inventory: new Map(), seed, today: "2026-03-16",
+    constraints: { size: 4, required: {}, excluded: [], maxRepeats: 1, kcalTarget: null, proteinTarget: null, ...overrides },
+  };
+}
+
+describe("menu optimizer", () => {
+  it("is deterministic for a seed", () => {
+    expect(optimizeMenu(input())).toEqual(optimizeMenu(input()));
+    const rng = createRng(7);
+    expect(rng()).toBe(createRng(7)());
+  });
+
+  it("honours required, excluded and max repeats", () => {
+    const picks = optimizeMenu(input({ size: 8, required: { a: 2 }, excluded: ["b"], maxRepeats: 1 }));
+    const ids = picks.map(p => p.mealId);
+    expect(ids.filter(id => id === "a")).toHaveLength(2);
+    expect(ids).not.toContain("b");
+    // a, c, d, e, f: nothing left to fill the 8 slots without repeating
+    expect(ids).toHaveLength(6);
+    expect(picks[0].reasons[0]).toBe("Imposé");
+  });
+
+  it("prefers meals close to the kcal target", () => {
+    const ids = optimizeMenu(input({ size: 2, kcalTarget: 1000 })).map(p => p.mealId);
+    expect(ids.sort()).toEqual(["e", "f"]);
+  });
+
+  it("uses expiring food first and explains why", () => {
+    const withIngredients = [...meals, makeMeal("poulet curry", "700", "200g poulet")];
+    const picks = optimizeMenu({ ...input({ size: 1 }, 1, [makeFoodItem("Poulet", "2026-03-17")]), meals: withIngredients });
+    expect(picks[0].mealId).toBe("poulet curry");
+    expect(picks[0].reasons).toContain("Utilise Poulet (périme dans 1 j)");
+    expect(picks[0].reasons).toContain("Tout est en stock");
+  });
+
+  it("prefers cheaper meals when prices are known", () => {
+    const costs = new Map([["a", 6], ["b", 6], ["c", 6], ["d", 1.5], ["e", 6]]);
+    const picks = optimizeMenu({ ...input({ size: 2 }), costs });
+    expect(picks.map(p => p.mealId)).toContain("d");
+    expect(picks.find(p => p.mealId === "d")?.reasons).toContain("Moins cher que la moyenne");
+  });
+
+  it("scores a portion of recipes that declare a yield", () => {
+    expect(mealKcal({ ...makeMeal("lasagnes", "2400"), yield_servings: 4 })).toBe(600);
+    expect(mealKcal({ ...makeMeal("poulet", "", "200g Poulet{165;p31}"), yield_servings: 2 })).toBe(165);
+  });
+
+  it("derives plat targets from slots", () => {
+    const slot = (key: string, default_category: string | null, calorie_target: number | null): MealSlot =>
+      ({ id: key, key, label: key, emoji: null, sort_order: 0, default_category, calorie_target, created_at: "" });
+    expect(platTargets(2000, 100, [slot("midi", "plat", null), slot("soir", "plat", null)])).toEqual({ kcal: 1000, protein: 50 });
+    expect(platTargets(2000, 100, [slot("midi", "plat", 800), slot("gouter", null, null)])).toEqual({ kcal: 800, protein: 40 });
+  });
+});
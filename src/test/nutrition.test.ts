@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseNutritionSuffix, formatNutritionSuffix, computeIngredientNutrition, computeIngredientCalories,
+  parseIngredientLine, parseIngredientsToLines, serializeIngredients,
+} from "@/lib/ingredientUtils";
+import { ingredientStringToRows, rowsToIngredientString } from "@/lib/ingredientRows";
+
+describe("nutrition suffix", () => {
+  it("parses kcal and tagged macros", () => {
+    expect(parseNutritionSuffix("165;p31;g0;l3,6;sel0.2")).toEqual({ kcal: 165, protein: 31, carbs: 0, fat: 3.6, salt: 0.2 });
+    expect(parseNutritionSuffix(";g12")).toEqual({ carbs: 12 });
+    expect(formatNutritionSuffix({ kcal: 165, fat: 3.6, salt: 0.2 })).toBe("165;l3.6;sel0.2");
+  });
+
+  it("is stripped from the ingredient name", () => {
+    expect(parseIngredientLine("150g Poulet{165;p31;l3.6}").name).toBe("poulet");
+    expect(serializeIngredients(parseIngredientsToLines("150g Poulet{165;p31;l3,6}"))).toBe("150g Poulet{165;p31;l3.6}");
+  });
+
+  it("sums macros per 100 g or per unit", () => {
+    const ing = "200g Riz{350;g78;f1.3}, 2 Oeuf{70;p6;l5}";
+    expect(computeIngredientNutrition(ing)).toEqual({ kcal: 840, carbs: 156, fibre: 2.6, protein: 12, fat: 10 });
+    expect(computeIngredientCalories(ing)).toBe(840);
+    expect(computeIngredientNutrition("200g Riz")).toBeNull();
+  });
+
+  it("round-trips through ingredient rows", () => {
+    const rows = ingredientStringToRows("150g Poulet{165;p31;sel0.2}");
+    expect(rows[0]).toMatchObject({ kcal_per_100g: 165, protein_per_100g: 31, salt_per_100g: 0.2 });
+    expect(rowsToIngredientString(rows)).toBe("150g Poulet{165;p31;sel0.2}");
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { entryNutrition, searchNutrition } from "@/lib/nutritionDb";
+import { computeIngredientNutrition, formatNutritionSuffix } from "@/lib/ingredientUtils";
+
+describe("nutrition table search", () => {
+  it("finds foods ignoring accents and case, best match first", () => {
+    expect(searchNutrition("creme fraiche")[0].name).toBe("Crème fraîche légère 15% MG");
+    expect(searchNutrition("Oeuf")[0].label).toBe("Oeuf entier");
+    expect(searchNutrition("pou").map(e => e.label)).toContain("Poulet");
+    expect(searchNutrition("p")).toEqual([]);
+  });
+
+  it("keeps compound names apart", () => {
+    expect(searchNutrition("pain").map(e => e.name)).toContain("Pain baguette");
+    expect(searchNutrition("pain de mie")[0].name).toBe("Pain de mie");
+  });
+
+  it("gives per-unit values that compute in an ingredient string", () => {
+    const egg = searchNutrition("oeuf entier")[0];
+    const suffix = formatNutritionSuffix(entryNutrition(egg, true));
+    expect(suffix).toBe("77;p6.9;g0.3;l5.2;s0.3;sel0.2");
+    expect(computeIngredientNutrition(`2 Oeuf{${suffix}}`)).toMatchObject({ kcal: 154, protein: 13.8 });
+    expect(formatNutritionSuffix(entryNutrition(egg))).toBe("140;p12.5;g0.5;l9.5;s0.5;sel0.4");
+  });
+});
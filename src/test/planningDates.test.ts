@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { getDayValue, setDayValue, weekDateKeys, weekStart, weekdayOf } from "@/lib/planningDates";
+
+describe("planning dates", () => {
+  it("starts weeks on Monday", () => {
+    const monday = weekStart(new Date(2026, 2, 15)); // dimanche 15 mars
+    expect(weekDateKeys(monday)).toEqual([
+      "2026-03-09", "2026-03-10", "2026-03-11", "2026-03-12", "2026-03-13", "2026-03-14", "2026-03-15",
+    ]);
+    expect(weekdayOf("2026-03-15")).toBe("dimanche");
+  });
+
+  it("prefers the dated value over the weekly one", () => {
+    const map = { "lundi-midi": 500, "2026-03-16-midi": 700 };
+    expect(getDayValue(map, "2026-03-16", "-midi")).toBe(700);
+    expect(getDayValue(map, "2026-03-09", "-midi")).toBe(500);
+    expect(getDayValue(map, "2026-03-10", "-midi")).toBeUndefined();
+  });
+
+  it("writes on the weekday key when weekly and clears with undefined", () => {
+    const weekly = setDayValue({}, "2026-03-11", 300, { weekly: true });
+    expect(weekly).toEqual({ mercredi: 300 });
+    expect(setDayValue(weekly, "2026-03-11", undefined, { weekly: true })).toEqual({});
+  });
+});
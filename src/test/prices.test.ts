@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { itemCost, latestPrice, listTotal, mealCost, type PriceEntry } from "@/lib/prices";
+import type { ShoppingItem } from "@/hooks/useShoppingList";
+
+function makePrice(name: string, price: number, bought_on: string, content_quantity: string | null = null, content_quantity_type: string | null = null): PriceEntry {
+  return { id: `${name}-${bought_on}`, name, price, store: null, bought_on, content_quantity, content_quantity_type, created_at: "" };
+}
+
+function makeItem(name: string, overrides: Partial<ShoppingItem> = {}): ShoppingItem {
+  return {
+    id: name, group_id: null, name, quantity: null, brand: null, checked: true, sort_order: 0, created_at: "",
+    content_quantity: null, secondary_checked: false, content_quantity_type: null, ...overrides,
+  };
+}
+
+const prices = [
+  makePrice("Riz", 2, "2026-03-01", "1000", "g"),
+  makePrice("riz", 2.5, "2026-03-10", "1000", "g"),
+  makePrice("Oeufs", 3, "2026-03-05", "6", "qty"),
+  makePrice("Pain", 1.2, "2026-03-05"),
+];
+
+describe("prices", () => {
+  it("uses the latest price of a product", () => {
+    expect(latestPrice(prices, "Riz")?.price).toBe(2.5);
+    expect(latestPrice(prices, "Beurre")).toBeNull();
+  });
+
+  it("prices list items by pack, rescaled to the item's pack size", () => {
+    expect(itemCost(makeItem("Riz", { quantity: "2", content_quantity: "500", content_quantity_type: "g" }), prices)).toBeCloseTo(2.5);
+    expect(itemCost(makeItem("Oeufs", { content_quantity: "12", content_quantity_type: "qty" }), prices)).toBeCloseTo(6);
+    expect(itemCost(makeItem("Pain", { quantity: "3" }), prices)).toBeCloseTo(3.6);
+
+    const { total, missing } = listTotal([makeItem("Pain"), makeItem("Beurre"), makeItem("Riz", { checked: false })], prices);
+    expect(total).toBeCloseTo(1.2);
+    expect(missing).toEqual(["Beurre"]);
+  });
+
+  it("costs a portion from its ingredients, ignoring optional and unmeasured ones", () => {
+    const cost = mealCost({ name: "Riz aux oeufs", grams: null, ingredients: "200g riz, 2 oeufs, sel, ?50g parmesan, 100g tomates" }, prices);
+    expect(cost?.cost).toBeCloseTo(0.5 + 1);
+    expect(cost?.missing).toEqual(["tomates"]);
+    expect(mealCost({ name: "Pain", grams: null, ingredients: null }, prices)?.cost).toBeCloseTo(1.2);
+    expect(mealCost({ name: "Soupe", grams: null, ingredients: "300g potiron" }, prices)).toBeNull();
+    expect(mealCost({ name: "Riz aux oeufs", grams: null, ingredients: "400g riz, 4 oeufs", yield_servings: 2 }, prices)?.cost).toBeCloseTo(0.5 + 1);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { parseSteps, totalMinutes, formatMinutes } from "@/lib/recipe";
+
+describe("parseSteps", () => {
+  it("keeps text and positive timers", () => {
+    expect(parseSteps([{ text: " Émincer ", timer_minutes: 0 }, { text: "Cuire", timer_minutes: 12 }])).toEqual([
+      { text: "Émincer", timer_minutes: null },
+      { text: "Cuire", timer_minutes: 12 },
+    ]);
+  });
+
+  it("drops malformed and empty steps", () => {
+    expect(parseSteps(null)).toEqual([]);
+    expect(parseSteps([null, "texte", { text: "  " }, { timer_minutes: 5 }])).toEqual([]);
+  });
+});
+
+describe("totalMinutes", () => {
+  it("sums the known times", () => {
+    expect(totalMinutes({ prep_minutes: 15, cook_minutes: 30, rest_minutes: null })).toBe(45);
+  });
+
+  it("is null without any time", () => {
+    expect(totalMinutes({})).toBeNull();
+    expect(totalMinutes({ prep_minutes: 0 })).toBeNull();
+  });
+});
+
+describe("formatMinutes", () => {
+  it("formats minutes and hours", () => {
+    expect(formatMinutes(45)).toBe("45 min");
+    expect(formatMinutes(60)).toBe("1 h");
+    expect(formatMinutes(75)).toBe("1 h 15");
+    expect(formatMinutes(125)).toBe("2 h 05");
+  });
+});
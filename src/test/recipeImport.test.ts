@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  findRecipes, guessStepTimer, ingredientLines, mealFieldsFromRecipe, normalizeIngredientText, parseIsoDuration,
+} from "@/lib/recipeImport";
+import { strictNameMatch } from "@/lib/ingredientUtils";
+
+const page = `<!doctype html><html><head>
+<script type="application/ld+json">{"@context":"https://schema.org","@type":"BreadcrumbList","itemListElement":[]}</script>
+<script type="application/ld+json">
+{"@context":"https://schema.org","@graph":[
+  {"@type":"WebPage","name":"Recettes"},
+  {"@type":["Recipe"],
+   "name":"Quiche lorraine &amp; salade",
+   "recipeCategory":"Plat principal",
+   "recipeYield":["4","4 personnes"],
+   "prepTime":"PT20M","cookTime":"PT35M","totalTime":"PT1H5M",
+   "recipeIngredient":["200 g de lardons","3 œufs","20 cl de crème fraîche","½ oignon, émincé","1 pâte brisée","sel, poivre"],
+   "recipeInstructions":[
+     {"@type":"HowToSection","name":"Préparation","itemListElement":[
+       {"@type":"HowToStep","text":"Préchauffer le four à 180°C."},
+       {"@type":"HowToStep","text":"Faire revenir les lardons 5 minutes."}]},
+     {"@type":"HowToStep","text":"Enfourner pendant 30 à 35 min."}],
+   "nutrition":{"@type":"NutritionInformation","calories":"450 kcal","proteinContent":"18,5 g","fatContent":"32 g","sodiumContent":"800 mg"}}
+]}
+</script></head><body></body></html>`;
+
+describe("recipe pages", () => {
+  it("finds the Recipe among the JSON-LD blocks", () => {
+    const [recipe, ...others] = findRecipes(page);
+    expect(others).toEqual([]);
+    expect(recipe.name).toBe("Quiche lorraine & salade");
+    expect(recipe.category).toBe("plat");
+    expect(recipe.yield_servings).toBe(4);
+    expect([recipe.prep_minutes, recipe.cook_minutes, recipe.rest_minutes]).toEqual([20, 35, 10]);
+    expect(recipe.steps).toEqual([
+      { text: "Préchauffer le four à 180°C.", timer_minutes: null },
+      { text: "Faire revenir les lardons 5 minutes.", timer_minutes: 5 },
+      { text: "Enfourner pendant 30 à 35 min.", timer_minutes: 35 },
+    ]);
+    expect(recipe.nutrition).toEqual({ kcal: 450, protein: 18.5, fat: 32, salt: 2 });
+  });
+
+  it("reads pasted JSON-LD and ignores pages without recipes", () => {
+    expect(findRecipes('{"@type":"Recipe","name":"Crêpes","recipeIngredient":["250 g farine"]}')[0].ingredients).toEqual(["250 g farine"]);
+    expect(findRecipes("<html><body>Pas de recette</body></html>")).toEqual([]);
+    expect(findRecipes('<script type="application/ld+json">{broken</script>')).toEqual([]);
+  });
+
+  it("gives meal values for the whole recipe", () => {
+    const fields = mealFieldsFromRecipe(findRecipes(page)[0]);
+    expect(fields.calories).toBe("1800");
+    expect(fields.protein).toBe("74");
+    expect(fields.fat).toBe(128);
+    expect(fields.salt).toBe(8);
+    expect(fields.carbs).toBeNull();
+  });
+});
+
+describe("ingredient lines", () => {
+  it("cleans up site lines for our parser", () => {
+    expect(normalizeIngredientText("200 g de lardons")).toBe("200 g lardons");
+    expect(normalizeIngredientText("20 cl de crème fraîche")).toBe("20 cl crème fraîche");
+    expect(normalizeIngredientText("½ oignon, émincé")).toBe("0.5 oignon");
+    expect(normalizeIngredientText("1,5 kg de pommes, pelées")).toBe("1,5 kg pommes");
+    expect(normalizeIngredientText("1 1/2 l d'eau")).toBe("1.5 l eau");
+    expect(normalizeIngredientText("une pincée de sel")).toBe("1 pincée sel");
+    expect(normalizeIngredientText("un peu de sel")).toBe("un peu de sel");
+    expect(normalizeIngredientText("? lait | eau {12}")).toBe("lait / eau 12");
+  });
+
+  it("maps them through the ingredient editor format", () => {
+    const lines = ingredientLines(findRecipes(page)[0].ingredients);
+    expect(lines.map(l => [l.qty, l.count, l.name])).toEqual([
+      ["200", "", "lardons"],
+      ["", "3", "œufs"],
+      ["20cl", "", "crème fraîche"],
+      ["", "0.5", "oignon"],
+      ["", "1", "pâte brisée"],
+      ["", "", "sel"],
+    ]);
+    expect(strictNameMatch(lines[3].name, "Oignon")).toBe(true);
+  });
+
+  it("reads durations and step timers", () => {
+    expect(parseIsoDuration("PT1H15M")).toBe(75);
+    expect(parseIsoDuration("P0DT45M")).toBe(45);
+    expect(parseIsoDuration("45 min")).toBeNull();
+    expect(guessStepTimer("Laisser reposer 1 h 30.")).toBe(90);
+    expect(guessStepTimer("Servir chaud.")).toBeNull();
+    expect(guessStepTimer("Ouvrir 4 huîtres par personne.")).toBeNull();
+    expect(guessStepTimer("Cuire 2 heures à feu doux.")).toBe(120);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  activeLockouts, attemptsByDay, clientIp, formatRemaining, isValidIp, parseIpList, summarizeByIp,
+  type SecurityAttempt, type SecurityLockout,
+} from "@/lib/securityDashboard";
+
+const attempt = (ip: string, success: boolean, created_at: string): SecurityAttempt => ({ ip, success, created_at });
+
+const attempts = [
+  attempt("1.2.3.4", false, "2026-03-10T08:00:00"),
+  attempt("1.2.3.4", false, "2026-03-10T08:01:00"),
+  attempt("5.6.7.8", true, "2026-03-11T09:00:00"),
+  attempt("5.6.7.8", false, "2026-03-12T09:00:00"),
+  attempt("1.2.3.4", true, "2026-03-12T10:00:00"),
+  attempt("9.9.9.9", false, "2026-02-01T10:00:00"),
+];
+
+describe("attempts", () => {
+  it("summarizes by IP, most failures first", () => {
+    expect(summarizeByIp(attempts)).toEqual([
+      { ip: "1.2.3.4", total: 3, failed: 2, lastAt: "2026-03-12T10:00:00" },
+      { ip: "5.6.7.8", total: 2, failed: 1, lastAt: "2026-03-12T09:00:00" },
+      { ip: "9.9.9.9", total: 1, failed: 1, lastAt: "2026-02-01T10:00:00" },
+    ]);
+  });
+
+  it("buckets the last days, oldest first, ignoring older attempts", () => {
+    const days = attemptsByDay(attempts, 3, new Date("2026-03-12T18:00:00"));
+    expect(days).toEqual([
+      { date: "2026-03-10", success: 0, failed: 2 },
+      { date: "2026-03-11", success: 1, failed: 0 },
+      { date: "2026-03-12", success: 1, failed: 1 },
+    ]);
+  });
+});
+
+describe("lockouts", () => {
+  it("keeps running lockouts, longest first", () => {
+    const lockout = (ip: string, remaining_minutes: number): SecurityLockout =>
+      ({ ip, failed_attempts: 0, lock_count: 1, current_lock_minutes: 15, lock_until: null, remaining_minutes });
+    expect(activeLockouts([lockout("a", 5), lockout("b", 0), lockout("c", 30)]).map((l) => l.ip)).toEqual(["c", "a"]);
+  });
+
+  it("formats the remaining time", () => {
+    expect(formatRemaining(12)).toBe("12 min");
+    expect(formatRemaining(125)).toBe("2 h 05");
+  });
+});
+
+describe("IP lists", () => {
+  it("splits on lines, commas and spaces without duplicates", () => {
+    expect(parseIpList("1.2.3.4\n5.6.7.8, 1.2.3.4  ::1\n")).toEqual(["1.2.3.4", "5.6.7.8", "::1"]);
+  });
+
+  it("validates addresses", () => {
+    expect(isValidIp("192.168.0.1")).toBe(true);
+    expect(isValidIp("2001:db8::1")).toBe(true);
+    expect(isValidIp("256.1.1.1")).toBe(false);
+    expect(isValidIp("example.fr")).toBe(false);
+  });
+
+  it("keys on the proxy's hop, not on a spoofed forwarded header", () => {
+    expect(clientIp("6.6.6.6, 203.0.113.7", null)).toBe("203.0.113.7");
+    expect(clientIp("203.0.113.7", "10.0.0.1")).toBe("203.0.113.7");
+    expect(clientIp(null, "203.0.113.7")).toBe("203.0.113.7");
+    expect(clientIp(" , ", null)).toBe("unknown");
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { buildScaledMealForServings, recipeYield, servingsRatio } from "@/lib/servings";
+import { buildStockMap } from "@/lib/stockUtils";
+import type { FoodItem } from "@/components/FoodItems";
+import type { Meal } from "@/hooks/useMeals";
+
+const makeMeal = (overrides: Partial<Meal>): Meal => ({
+  id: "m", name: "Curry", category: "plat", color: "", sort_order: 0, created_at: "", is_available: true, is_favorite: false,
+  calories: null, protein: null, grams: null, ingredients: null, oven_temp: null, oven_minutes: null, ...overrides,
+});
+
+const can = {
+  id: "fi", name: "Pois chiches", storage_type: "sec", is_meal: false, is_infinite: false, is_dry: false, is_indivisible: true,
+  quantity: 2, grams: "400", calories: null, protein: null, sort_order: 0, created_at: "", expiration_date: null,
+  counter_start_date: null, food_type: null,
+} as FoodItem;
+
+describe("recipeYield", () => {
+  it("reads servings, then total grams over the portion weight", () => {
+    expect(recipeYield(makeMeal({ yield_servings: 4 }))).toBe(4);
+    expect(recipeYield(makeMeal({ yield_grams: 1200, grams: "300g" }))).toBe(4);
+    expect(recipeYield(makeMeal({ yield_grams: 1200 }))).toBe(1);
+    expect(servingsRatio(makeMeal({ yield_servings: 4 }), 2)).toBe(0.5);
+  });
+});
+
+describe("buildScaledMealForServings", () => {
+  const meal = makeMeal({ yield_servings: 4, calories: "2000", ingredients: "300g riz, 3 oeufs, 400g pois chiches" });
+
+  it("keeps the recipe for its own yield", () => {
+    expect(buildScaledMealForServings(meal, 4, new Map())).toBe(meal);
+  });
+
+  it("rounds counts and indivisible items to whole units", () => {
+    const scaled = buildScaledMealForServings(meal, 3, buildStockMap([can]));
+    expect(scaled.ingredients).toBe("225g riz, 2 oeufs, 400g pois chiches");
+    expect(scaled.calories).toBe("1500");
+    const doubled = buildScaledMealForServings(meal, 6, buildStockMap([can]));
+    expect(doubled.ingredients).toBe("450g riz, 5 oeufs, 800g pois chiches");
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { checkoutLines, groupStorageType, planCheckout, purchaseOf } from "@/lib/shoppingCheckout";
+import type { FoodItem } from "@/components/FoodItems";
+import type { ShoppingGroup, ShoppingItem } from "@/hooks/useShoppingList";
+
+function makeFoodItem(name: string, grams: string | null, overrides: Partial<FoodItem> = {}): FoodItem {
+  return {
+    id: name, name, grams, calories: null, protein: null, expiration_date: null, counter_start_date: null, sort_order: 0,
+    created_at: "", is_meal: false, is_infinite: false, is_dry: false, is_indivisible: false, storage_type: "frigo", quantity: 1, food_type: null,
+    ...overrides,
+  };
+}
+
+function makeItem(name: string, overrides: Partial<ShoppingItem> = {}): ShoppingItem {
+  return {
+    id: name, group_id: null, name, quantity: null, brand: null, checked: true, sort_order: 0, created_at: "",
+    content_quantity: null, secondary_checked: false, content_quantity_type: null, ...overrides,
+  };
+}
+
+const group = (id: string, name: string): ShoppingGroup => ({ id, name, sort_order: 0, created_at: "" });
+
+describe("shopping checkout", () => {
+  it("detects storage from group names", () => {
+    expect(groupStorageType(group("a", "Surgelés"))).toBe("surgele");
+    expect(groupStorageType(group("b", "Toujours présents"))).toBe("toujours");
+    expect(groupStorageType(group("c", "Fruits"))).toBeNull();
+  });
+
+  it("converts pack contents into pieces and grams", () => {
+    expect(purchaseOf(makeItem("Riz", { quantity: "2", content_quantity: "500", content_quantity_type: "g" }))).toEqual({ quantity: 2, unitGrams: 500 });
+    expect(purchaseOf(makeItem("Oeufs", { quantity: "2", content_quantity: "6", content_quantity_type: "u" }))).toEqual({ quantity: 12, unitGrams: null });
+    expect(purchaseOf(makeItem("Sel"))).toEqual({ quantity: 1, unitGrams: null });
+  });
+
+  it("plans increments and new rows, keeping different expiry dates apart", () => {
+    const foodItems = [makeFoodItem("Riz", "500", { sort_order: 4 }), makeFoodItem("Yaourt", null, { quantity: 2, expiration_date: "2026-10-20" })];
+    const items = [
+      makeItem("riz", { quantity: "1", content_quantity: "500", content_quantity_type: "g" }),
+      makeItem("Yaourts", { quantity: "1", content_quantity: "4", content_quantity_type: "u" }),
+      makeItem("Petits pois", { group_id: "frozen", content_quantity: "1000", content_quantity_type: "g" }),
+      makeItem("Beurre", { checked: false }),
+    ];
+    const lines = planCheckout(items, [group("frozen", "Surgelés")], foodItems);
+    expect(lines.map(l => [l.name, l.storage_type, l.match?.id ?? null])).toEqual([
+      ["riz", "frigo", "Riz"], ["Yaourts", "frigo", "Yaourt"], ["Petits pois", "surgele", null],
+    ]);
+
+    const rpcLines = checkoutLines([
+      { ...lines[0], expiration_date: null },
+      { ...lines[1], expiration_date: "2026-11-01" },
+      { ...lines[2], expiration_date: null },
+    ]);
+    expect(rpcLines.map(l => [l.food_item_id, l.name, l.storage_type, l.quantity, l.unit_grams, l.expiration_date])).toEqual([
+      ["Riz", "riz", "frigo", 1, 500, null],
+      [null, "Yaourts", "frigo", 4, null, "2026-11-01"],
+      [null, "Petits pois", "surgele", 1, 1000, null],
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { aggregatePlannedNeeds, packsFor, planShoppingChanges } from "@/lib/shoppingPlan";
+import { buildStockMap } from "@/lib/stockUtils";
+import type { FoodItem } from "@/components/FoodItems";
+import type { Meal, PossibleMeal } from "@/hooks/useMeals";
+import type { ShoppingItem } from "@/hooks/useShoppingList";
+
+function makeCard(ingredients: string, overrides: Partial<PossibleMeal> = {}): PossibleMeal {
+  const meal: Meal = {
+    id: "m", name: "Plat", category: "plat", calories: null, protein: null, grams: null, ingredients,
+    color: "#000", sort_order: 0, created_at: "", is_available: true, is_favorite: false, oven_temp: null, oven_minutes: null,
+  };
+  return {
+    id: crypto.randomUUID(), meal_id: "m", quantity: 1, expiration_date: null, planned_date: "2026-03-16", meal_time: "midi",
+    counter_start_date: null, sort_order: 0, created_at: "", meals: meal, ingredients_override: null, ...overrides,
+  };
+}
+
+function makeFoodItem(name: string, grams: string, storage_type: FoodItem["storage_type"] = "frigo"): FoodItem {
+  return {
+    id: name, name, grams, calories: null, protein: null, expiration_date: null, counter_start_date: null, sort_order: 0,
+    created_at: "", is_meal: false, is_infinite: false, is_dry: false, is_indivisible: false, storage_type, quantity: 1, food_type: null,
+  };
+}
+
+function makeItem(name: string, overrides: Partial<ShoppingItem> = {}): ShoppingItem {
+  return {
+    id: name, group_id: null, name, quantity: null, brand: null, checked: false, sort_order: 0, created_at: "",
+    content_quantity: null, secondary_checked: false, content_quantity_type: null, ...overrides,
+  };
+}
+
+describe("shopping plan", () => {
+  it("sums planned cards minus stock, with overrides, OR groups and optional items", () => {
+    const cards = [
+      makeCard("200g riz, 150g poulet | 150g tofu, ?sauce soja"),
+      makeCard("200g riz", { quantity: 2 }),
+      makeCard("200g riz", { ingredients_override: "300g pâtes" }),
+    ];
+    const stock = buildStockMap([makeFoodItem("riz", "250"), makeFoodItem("tofu", "400")]);
+    const { needs, optional } = aggregatePlannedNeeds(cards, stock);
+    expect(needs).toEqual([
+      { key: "riz", name: "riz", grams: 350, count: 0 },
+      { key: "pate", name: "pâtes", grams: 300, count: 0 },
+    ]);
+    expect(optional).toEqual(["sauce soja"]);
+  });
+
+  it("rounds up to packs and diffs against the list", () => {
+    expect(packsFor({ grams: 350, count: 0 }, makeItem("Riz", { content_quantity: "500g" }))).toBe(1);
+    expect(packsFor({ grams: 0, count: 7 }, makeItem("Oeufs", { content_quantity: "6", content_quantity_type: "u" }))).toBe(2);
+    expect(packsFor({ grams: 0, count: 0 }, null)).toBe(1);
+
+    const items = [
+      makeItem("Riz", { content_quantity: "500g", checked: true, quantity: "1" }),
+      makeItem("Pâtes", { content_quantity: "250g" }),
+    ];
+    const groups = [{ id: "g", name: "Surgelés", sort_order: 0, created_at: "" }];
+    const foods = [makeFoodItem("Épinards", "0", "surgele"), makeFoodItem("sel", "0", "toujours")];
+    const changes = planShoppingChanges([
+      { key: "riz", name: "riz", grams: 350, count: 0 },
+      { key: "pate", name: "pâtes", grams: 300, count: 0 },
+      { key: "epinard", name: "épinards", grams: 400, count: 0 },
+      { key: "sel", name: "sel", grams: 0, count: 0 },
+    ], items, groups, foods);
+    expect(changes.map(c => [c.name, c.itemId, c.packs, c.groupId])).toEqual([
+      ["Épinards", null, 1, "g"],
+      ["pâtes", "Pâtes", 2, null],
+    ]);
+  });
+});
@@ -8,10 +8,12 @@ import {
   buildStockMap, findStockKey, pickBestAlternative,
   getMealMultiple, getMealFractionalRatio,
   getMissingIngredients, buildScaledMealForRatio, scaleIngredientStringExact,
+  buildDeductionNeeds, buildAdjustmentNeeds,
   type StockInfo,
 } from "@/lib/stockUtils";
 import type { FoodItem } from "@/components/FoodItems";
 import type { Meal } from "@/hooks/useMeals";
+import { formatDeductionReport } from "@/hooks/useMealTransfers";
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
@@ -61,22 +63,22 @@ function makeMeal(overrides: Partial<Meal> & { name: string }): Meal {
 
 describe("parseIngredientLine", () => {
   it("parses gram-based ingredients", () => {
-    expect(parseIngredientLine("200g Poulet")).toEqual({ qty: 200, count: 0, name: "poulet", optional: false });
-    expect(parseIngredientLine("50g Farine d'avoine")).toEqual({ qty: 50, count: 0, name: "farine davoine", optional: false });
+    expect(parseIngredientLine("200g Poulet")).toEqual({ qty: 200, count: 0, name: "poulet", optional: false, unit: "g" });
+    expect(parseIngredientLine("50g Farine d'avoine")).toEqual({ qty: 50, count: 0, name: "farine davoine", optional: false, unit: "g" });
   });
 
   it("parses count-based ingredients", () => {
-    expect(parseIngredientLine("3 Oeufs")).toEqual({ qty: 0, count: 3, name: "oeufs", optional: false });
-    expect(parseIngredientLine("1 Galette")).toEqual({ qty: 0, count: 1, name: "galette", optional: false });
+    expect(parseIngredientLine("3 Oeufs")).toEqual({ qty: 0, count: 3, name: "oeufs", optional: false, unit: "g" });
+    expect(parseIngredientLine("1 Galette")).toEqual({ qty: 0, count: 1, name: "galette", optional: false, unit: "g" });
   });
 
   it("parses both qty and count", () => {
-    expect(parseIngredientLine("200g 3 Poulet")).toEqual({ qty: 200, count: 3, name: "poulet", optional: false });
+    expect(parseIngredientLine("200g 3 Poulet")).toEqual({ qty: 200, count: 3, name: "poulet", optional: false, unit: "g" });
   });
 
   it("parses decimal values", () => {
-    expect(parseIngredientLine("12,5g Sucre")).toEqual({ qty: 12.5, count: 0, name: "sucre", optional: false });
-    expect(parseIngredientLine("0,5 Oeuf")).toEqual({ qty: 0, count: 0.5, name: "oeuf", optional: false });
+    expect(parseIngredientLine("12,5g Sucre")).toEqual({ qty: 12.5, count: 0, name: "sucre", optional: false, unit: "g" });
+    expect(parseIngredientLine("0,5 Oeuf")).toEqual({ qty: 0, count: 0.5, name: "oeuf", optional: false, unit: "g" });
   });
 });
 
@@ -85,8 +87,8 @@ describe("parseIngredientGroups", () => {
     const groups = parseIngredientGroups("200g Poulet, 100g Riz");
     expect(groups).toHaveLength(2);
     expect(groups[0]).toHaveLength(1);
-    expect(groups[0][0]).toEqual({ qty: 200, count: 0, name: "poulet", optional: false });
-    expect(groups[1][0]).toEqual({ qty: 100, count: 0, name: "riz", optional: false });
+    expect(groups[0][0]).toEqual({ qty: 200, count: 0, name: "poulet", optional: false, unit: "g" });
+    expect(groups[1][0]).toEqual({ qty: 100, count: 0, name: "riz", optional: false, unit: "g" });
   });
 
   it("parses OR alternatives with pipe", () => {
@@ -488,3 +490,41 @@ describe("percentage cards max validation", () => {
     expect(groups[0][0].qty).toBeLessThanOrEqual(90);
   });
 });
+
+// ─── DEDUCTION NEEDS (server-side deduction input) ──────────────────────────
+
+describe("buildDeductionNeeds", () => {
+  it("sends the best alternative with every matching food item", () => {
+    const a = makeFoodItem({ name: "Poulet", quantity: 1, grams: "100" });
+    const b = makeFoodItem({ name: "Poulet", quantity: 1, grams: "150" });
+    const needs = buildDeductionNeeds(makeMeal({ name: "Test", ingredients: "200g Poulet | 100g Dinde, 2 Oeufs" }), [a, b]);
+    expect(needs).toEqual([{ name: "Poulet", grams: 200, count: 0, candidates: [a.id, b.id] }]);
+  });
+
+  it("skips infinite stock", () => {
+    const sel = makeFoodItem({ name: "Sel", is_infinite: true });
+    expect(buildDeductionNeeds(makeMeal({ name: "Test", ingredients: "5g Sel" }), [sel])).toEqual([]);
+  });
+});
+
+describe("buildAdjustmentNeeds", () => {
+  it("emits signed deltas for grams and counts", () => {
+    const riz = makeFoodItem({ name: "Riz", grams: "500" });
+    const oeufs = makeFoodItem({ name: "Oeufs", quantity: 6 });
+    const needs = buildAdjustmentNeeds("100g Riz, 2 Oeufs", "150g Riz, 1 Oeufs", [riz, oeufs]);
+    expect(needs).toEqual([
+      { name: "Riz", grams: 50, count: 0, candidates: [riz.id] },
+      { name: "Oeufs", grams: 0, count: -1, candidates: [oeufs.id] },
+    ]);
+  });
+});
+
+describe("formatDeductionReport", () => {
+  it("summarizes deducted and missing amounts", () => {
+    const item = { food_item_id: "1", name: "Poulet", deducted: 150, deleted: true, before_quantity: 1, before_grams: "150", after_quantity: null, after_grams: null };
+    expect(formatDeductionReport([
+      { name: "Poulet", grams: 200, count: 0, missing: 50, items: [item] },
+      { name: "Oeufs", grams: 0, count: 2, missing: 0, items: [{ ...item, name: "Oeufs", deducted: 2 }] },
+    ])).toBe("Poulet −150g · Oeufs −2 · manque Poulet 50g");
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { withStockReason } from "@/lib/stockMovements";
+
+class FakeQuery {
+  headers: Record<string, string> = {};
+  setHeader(name: string, value: string) { this.headers[name] = value; return this; }
+}
+
+describe("withStockReason", () => {
+  it("tags the request with the reason and origin", () => {
+    const q = withStockReason(new FakeQuery(), "consume", { mealId: "m1", possibleMealId: "pm1" });
+    expect(q.headers).toEqual({ "x-stock-reason": "consume", "x-stock-meal-id": "m1", "x-stock-possible-meal-id": "pm1" });
+  });
+
+  it("omits missing origin ids", () => {
+    expect(withStockReason(new FakeQuery(), "restore", { mealId: undefined }).headers).toEqual({ "x-stock-reason": "restore" });
+  });
+});
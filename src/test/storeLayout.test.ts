@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { exportShoppingList, orderGroups, orderItems, storeLayout, type StoreGroup, type StoreItem } from "@/lib/storeLayout";
+import type { ShoppingGroup, ShoppingItem } from "@/hooks/useShoppingList";
+
+const group = (id: string, sort_order: number): ShoppingGroup => ({ id, name: id, sort_order, created_at: "" });
+
+function makeItem(name: string, group_id: string | null, sort_order: number, overrides: Partial<ShoppingItem> = {}): ShoppingItem {
+  return {
+    id: name, group_id, name, quantity: null, brand: null, checked: true, sort_order, created_at: "",
+    content_quantity: null, secondary_checked: false, content_quantity_type: null, ...overrides,
+  };
+}
+
+const groups = [group("Fruits", 0), group("Frais", 1), group("Surgelés", 2)];
+const storeGroups: StoreGroup[] = [
+  { id: "1", store_id: "lidl", group_id: "Surgelés", sort_order: 0 },
+  { id: "2", store_id: "lidl", group_id: "Fruits", sort_order: 1 },
+  { id: "3", store_id: "leclerc", group_id: "Frais", sort_order: 0 },
+];
+const storeItems: StoreItem[] = [
+  { id: "1", store_id: "lidl", item_id: "Poires", sort_order: 0, available: true },
+  { id: "2", store_id: "lidl", item_id: "Kiwis", sort_order: null, available: false },
+];
+
+describe("store layout", () => {
+  it("keeps the list order without a store", () => {
+    expect(storeLayout(null, storeGroups, storeItems)).toBeNull();
+    expect(orderGroups(groups, null).map(g => g.id)).toEqual(["Fruits", "Frais", "Surgelés"]);
+  });
+
+  it("orders groups and items by the store, unordered ones after, unavailable last", () => {
+    const layout = storeLayout("lidl", storeGroups, storeItems);
+    expect(orderGroups(groups, layout).map(g => g.id)).toEqual(["Surgelés", "Fruits", "Frais"]);
+    const fruits = [makeItem("Kiwis", "Fruits", 0), makeItem("Pommes", "Fruits", 1), makeItem("Poires", "Fruits", 2)];
+    expect(orderItems(fruits, layout).map(i => i.id)).toEqual(["Poires", "Pommes", "Kiwis"]);
+  });
+
+  it("exports checked, available items in walking order", () => {
+    const items = [
+      makeItem("Kiwis", "Fruits", 0), makeItem("Poires", "Fruits", 1, { quantity: "2" }),
+      makeItem("Glaces", "Surgelés", 0, { content_quantity: "500", content_quantity_type: "g" }),
+      makeItem("Yaourts", "Frais", 0, { checked: false }),
+    ];
+    expect(exportShoppingList(items, groups, storeLayout("lidl", storeGroups, storeItems), "Lidl")).toBe(
+      "Courses · Lidl\n\nSURGELÉS\n- Glaces (500 g)\n\nFRUITS\n- Poires ×2",
+    );
+  });
+});
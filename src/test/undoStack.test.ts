@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { createUndoStack, type UndoEntry } from "@/lib/undoStack";
+
+const counter = () => {
+  const state = { value: 0 };
+  const entry = (label: string, delta: number): UndoEntry => ({
+    label,
+    undo: async () => { state.value -= delta; },
+    redo: async () => { state.value += delta; },
+  });
+  return { state, entry };
+};
+
+describe("undoStack", () => {
+  it("undoes and redoes in order", async () => {
+    const stack = createUndoStack();
+    const { state, entry } = counter();
+    state.value = 3;
+    stack.push(entry("a", 1));
+    stack.push(entry("b", 2));
+    expect((await stack.undo())?.label).toBe("b");
+    expect(state.value).toBe(1);
+    expect((await stack.redo())?.label).toBe("b");
+    expect(state.value).toBe(3);
+    expect(stack.getSnapshot()).toMatchObject({ canUndo: true, canRedo: false, undoLabel: "b" });
+  });
+
+  it("drops the redo branch on a new entry", async () => {
+    const stack = createUndoStack();
+    const { entry } = counter();
+    stack.push(entry("a", 1));
+    await stack.undo();
+    stack.push(entry("b", 1));
+    expect(stack.getSnapshot().canRedo).toBe(false);
+  });
+
+  it("only undoes a given entry while it is the last one", async () => {
+    const stack = createUndoStack();
+    const { entry } = counter();
+    const first = entry("a", 1);
+    stack.push(first);
+    stack.push(entry("b", 1));
+    expect(await stack.undo(first)).toBeNull();
+  });
+
+  it("merges grouped entries into one step", async () => {
+    const stack = createUndoStack();
+    const { state, entry } = counter();
+    await stack.group("ab", async (group) => {
+      stack.push(entry("a", 1), group);
+      stack.push(entry("b", 2), group);
+    });
+    state.value = 3;
+    expect(stack.getSnapshot().undoLabel).toBe("ab");
+    await stack.undo();
+    expect(state.value).toBe(0);
+    expect(stack.getSnapshot().canUndo).toBe(false);
+  });
+
+  it("keeps entries pushed outside the group as their own step", async () => {
+    const stack = createUndoStack();
+    const { entry } = counter();
+    await stack.group("ab", async (group) => {
+      stack.push(entry("a", 1), group);
+      stack.push(entry("other", 5));
+      stack.push(entry("b", 2), group);
+    });
+    expect(stack.getSnapshot().undoLabel).toBe("ab");
+    await stack.undo();
+    expect(stack.getSnapshot().undoLabel).toBe("other");
+  });
+
+  it("keeps the entry when undo fails", async () => {
+    const stack = createUndoStack(2);
+    stack.push({ label: "x", undo: async () => { throw new Error("offline"); }, redo: async () => {} });
+    await expect(stack.undo()).rejects.toThrow("offline");
+    expect(stack.getSnapshot()).toMatchObject({ canUndo: true, busy: false });
+  });
+});
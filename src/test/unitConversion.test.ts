@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { toCanonical, getDensity, toGrams, quantityTextToGrams, unitLabel } from "@/lib/unitConversion";
+import {
+  parseIngredientLine, parseIngredientLineRaw, parseIngredientLineDisplay,
+  serializeIngredients, computeIngredientCalories, ingredientGrams,
+} from "@/lib/ingredientUtils";
+import { buildStockMap, getMealMultiple, getMissingIngredients, scaleIngredientStringExact } from "@/lib/stockUtils";
+import type { FoodItem } from "@/components/FoodItems";
+import type { Meal } from "@/hooks/useMeals";
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function makeFoodItem(overrides: Partial<FoodItem> & { name: string }): FoodItem {
+  return {
+    id: crypto.randomUUID(), storage_type: "frigo", is_meal: false, is_infinite: false, is_dry: false,
+    is_indivisible: false, quantity: 1, grams: null, calories: null, protein: null, sort_order: 0,
+    created_at: new Date().toISOString(), expiration_date: null, counter_start_date: null, food_type: null,
+    ...overrides,
+  };
+}
+
+function makeMeal(overrides: Partial<Meal> & { name: string }): Meal {
+  return {
+    id: crypto.randomUUID(), category: "plat", color: "hsl(0,0%,50%)", sort_order: 0,
+    created_at: new Date().toISOString(), is_available: true, is_favorite: false, calories: null,
+    protein: null, grams: null, ingredients: null, oven_temp: null, oven_minutes: null,
+    ...overrides,
+  };
+}
+
+// ─── CANONICAL UNITS ────────────────────────────────────────────────────────
+
+describe("toCanonical", () => {
+  it("converts masses to grams", () => {
+    expect(toCanonical(1, "kg")).toEqual({ qty: 1000, unit: "g", label: "kg" });
+    expect(toCanonical(250, "gr")).toEqual({ qty: 250, unit: "g", label: "g" });
+    expect(toCanonical(2, "pincées")?.qty).toBe(1);
+  });
+
+  it("converts volumes to millilitres", () => {
+    expect(toCanonical(1, "l")).toEqual({ qty: 1000, unit: "ml", label: "l" });
+    expect(toCanonical(20, "cl")?.qty).toBe(200);
+    expect(toCanonical(2, "c.à.s")).toEqual({ qty: 30, unit: "ml", label: "c.à.s" });
+    expect(toCanonical(1, "cuillère à café")?.qty).toBe(5);
+  });
+
+  it("defaults to grams without unit and returns null for pieces", () => {
+    expect(toCanonical(200, null)).toEqual({ qty: 200, unit: "g", label: "g" });
+    expect(toCanonical(3, "pièces")).toBeNull();
+  });
+
+  it("normalizes unit labels", () => {
+    expect(unitLabel("grammes")).toBe("g");
+    expect(unitLabel("cas")).toBe("c.à.s");
+    expect(unitLabel("Litres")).toBe("l");
+  });
+});
+
+describe("densities", () => {
+  it("uses per-food densities and prefers compound names", () => {
+    expect(getDensity("Huile d'olive")).toBe(0.92);
+    expect(getDensity("lait de coco")).toBe(0.97);
+    expect(getDensity("Lait demi-écrémé")).toBe(1.03);
+    expect(getDensity("poulet")).toBe(1);
+  });
+
+  it("converts volumes to grams", () => {
+    expect(toGrams(100, "ml", "farine")).toBe(55);
+    expect(toGrams(100, "g", "farine")).toBe(100);
+    expect(quantityTextToGrams("2 c.à.s", "huile")).toBe(27.6);
+    expect(quantityTextToGrams("1,5kg", "riz")).toBe(1500);
+    expect(quantityTextToGrams("80", "riz")).toBe(80);
+  });
+});
+
+// ─── INGREDIENT PARSING WITH UNITS ──────────────────────────────────────────
+
+describe("parseIngredientLine with units", () => {
+  it("keeps the canonical unit", () => {
+    expect(parseIngredientLine("1kg Riz")).toEqual({ qty: 1000, count: 0, name: "riz", optional: false, unit: "g" });
+    expect(parseIngredientLine("20cl Crème")).toEqual({ qty: 200, count: 0, name: "creme", optional: false, unit: "ml" });
+    expect(parseIngredientLine("2 c.à.s Huile")).toEqual({ qty: 30, count: 0, name: "huile", optional: false, unit: "ml" });
+  });
+
+  it("reads pieces as a count", () => {
+    expect(parseIngredientLine("3 pièces Avocat")).toEqual({ qty: 0, count: 3, name: "avocat", optional: false, unit: "g" });
+  });
+
+  it("does not mistake a name starting with a unit letter for a unit", () => {
+    expect(parseIngredientLine("2 lardons").count).toBe(2);
+    expect(parseIngredientLine("2 gousses ail").count).toBe(2);
+  });
+
+  it("computes grams through density", () => {
+    expect(ingredientGrams(parseIngredientLine("1l Lait"))).toBe(1030);
+  });
+});
+
+describe("display round-trip", () => {
+  it("keeps non-gram units in the qty text", () => {
+    expect(parseIngredientLineDisplay("1kg Riz").qty).toBe("1kg");
+    expect(parseIngredientLineDisplay("2 cas Huile").qty).toBe("2 c.à.s");
+    expect(parseIngredientLineDisplay("12,5g Sucre").qty).toBe("12,5");
+  });
+
+  it("serializes without losing the unit", () => {
+    const line = parseIngredientLineDisplay("1kg Riz");
+    expect(serializeIngredients([line])).toBe("1kg Riz");
+  });
+
+  it("computes calories on converted grams", () => {
+    expect(computeIngredientCalories("1kg Riz{350}")).toBe(3500);
+  });
+});
+
+// ─── STOCK COMPARISONS ──────────────────────────────────────────────────────
+
+describe("stock comparisons with units", () => {
+  it("compares kg recipes against gram stock", () => {
+    const map = buildStockMap([makeFoodItem({ name: "Riz", quantity: 1, grams: "500" })]);
+    expect(getMealMultiple(makeMeal({ name: "Riz", ingredients: "1kg Riz" }), map)).toBeNull();
+    expect(getMealMultiple(makeMeal({ name: "Riz", ingredients: "0,25kg Riz" }), map)).toBe(2);
+  });
+
+  it("reports volume ingredients missing when stock grams are short", () => {
+    const map = buildStockMap([makeFoodItem({ name: "Lait", quantity: 1, grams: "500" })]);
+    const missing = getMissingIngredients(makeMeal({ name: "Test", ingredients: "1l Lait" }), map);
+    expect(missing.has("lait")).toBe(true);
+  });
+
+  it("scales in the written unit", () => {
+    expect(scaleIngredientStringExact("2 c.à.s Huile, 1kg Riz", 0.5)).toBe("1 c.à.s Huile, 0.5kg Riz");
+    expect(parseIngredientLineRaw("1,5kg Riz").amount).toBe(1.5);
+  });
+});
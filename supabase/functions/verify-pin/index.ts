@@ -1,5 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from "https://esm.sh/@simplewebauthn/server@9.0.3";
+import { isoBase64URL } from "https://esm.sh/@simplewebauthn/server@9.0.3/helpers";
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from "https://esm.sh/@simplewebauthn/types@9.0.1";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -10,9 +18,17 @@ const INITIAL_MAX_ATTEMPTS = 3;
 const INITIAL_LOCK_MINUTES = 15;
 const ATTEMPT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
 
-const APP_USER_EMAIL = "app@internal.local";
 const BLOCKED_COUNT_KEY = "cumulative_blocked_count";
 const LOCKOUT_KEY_PREFIX = "lockout:";
+const SECURITY_CONFIG_KEY = "security_config";
+const MAX_LISTED_IPS = 200;
+const DASHBOARD_ATTEMPTS_LIMIT = 2000;
+const CHALLENGE_KEY_PREFIX = "webauthn:";
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+// Device PINs: 4 to 8 digits, salted PBKDF2-SHA256
+const PIN_PATTERN = /^\d{4,8}$/;
+const PIN_ITERATIONS = 100_000;
 
 interface LockoutState {
   failed_attempts: number;
@@ -21,27 +37,75 @@ interface LockoutState {
   lock_until: string | null;
 }
 
-const DEFAULT_LOCKOUT_STATE: LockoutState = {
+const defaultLockoutState = (lockMinutes: number): LockoutState => ({
   failed_attempts: 0,
   lock_count: 0,
-  current_lock_minutes: INITIAL_LOCK_MINUTES,
+  current_lock_minutes: lockMinutes,
   lock_until: null,
-};
+});
 
-const sanitizeLockoutState = (value: string | undefined): LockoutState => {
-  if (!value) return { ...DEFAULT_LOCKOUT_STATE };
+const sanitizeLockoutState = (value: string | undefined, lockMinutes = INITIAL_LOCK_MINUTES): LockoutState => {
+  if (!value) return defaultLockoutState(lockMinutes);
   try {
     const parsed = JSON.parse(value) as Partial<LockoutState>;
     return {
       failed_attempts: Number.isFinite(parsed.failed_attempts) ? Math.max(0, Number(parsed.failed_attempts)) : 0,
       lock_count: Number.isFinite(parsed.lock_count) ? Math.max(0, Number(parsed.lock_count)) : 0,
       current_lock_minutes: Number.isFinite(parsed.current_lock_minutes)
-        ? Math.max(INITIAL_LOCK_MINUTES, Number(parsed.current_lock_minutes))
-        : INITIAL_LOCK_MINUTES,
+        ? Math.max(lockMinutes, Number(parsed.current_lock_minutes))
+        : lockMinutes,
       lock_until: typeof parsed.lock_until === "string" ? parsed.lock_until : null,
     };
   } catch {
-    return { ...DEFAULT_LOCKOUT_STATE };
+    return defaultLockoutState(lockMinutes);
+  }
+};
+
+/** Thresholds and IP lists set from the security dashboard; allowed IPs are never locked, denied ones always are */
+interface SecurityConfig {
+  max_attempts: number;
+  lock_minutes: number;
+  allow_ips: string[];
+  deny_ips: string[];
+}
+
+const DEFAULT_SECURITY_CONFIG: SecurityConfig = {
+  max_attempts: INITIAL_MAX_ATTEMPTS,
+  lock_minutes: INITIAL_LOCK_MINUTES,
+  allow_ips: [],
+  deny_ips: [],
+};
+
+const clampInt = (value: unknown, min: number, max: number, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, Math.round(n))) : fallback;
+};
+
+const sanitizeIpList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? [...new Set(value.filter((v): v is string => typeof v === "string").map((v) => v.trim()).filter(Boolean))]
+      .slice(0, MAX_LISTED_IPS)
+    : [];
+
+const sanitizeSecurityConfig = (value: unknown): SecurityConfig => {
+  const parsed = (value && typeof value === "object" ? value : {}) as Partial<SecurityConfig>;
+  const allow_ips = sanitizeIpList(parsed.allow_ips);
+  return {
+    max_attempts: clampInt(parsed.max_attempts, 1, 20, INITIAL_MAX_ATTEMPTS),
+    lock_minutes: clampInt(parsed.lock_minutes, 1, 24 * 60, INITIAL_LOCK_MINUTES),
+    allow_ips,
+    // An IP on both lists stays allowed
+    deny_ips: sanitizeIpList(parsed.deny_ips).filter((ip) => !allow_ips.includes(ip)),
+  };
+};
+
+const getSecurityConfig = async (supabaseAdmin: ReturnType<typeof createClient>): Promise<SecurityConfig> => {
+  const raw = await getMetaValue(supabaseAdmin, SECURITY_CONFIG_KEY);
+  if (!raw) return { ...DEFAULT_SECURITY_CONFIG };
+  try {
+    return sanitizeSecurityConfig(JSON.parse(raw));
+  } catch {
+    return { ...DEFAULT_SECURITY_CONFIG };
   }
 };
 
@@ -56,8 +120,8 @@ const getRemainingMinutes = (lockUntil: string | null): number => {
   return Math.max(1, Math.ceil(diffMs / 60000));
 };
 
-const verifyAuth = async (authHeader: string | null) => {
-  if (!authHeader?.startsWith("Bearer ")) return false;
+const getAuthUserId = async (authHeader: string | null): Promise<string | null> => {
+  if (!authHeader?.startsWith("Bearer ")) return null;
   const token = authHeader.replace("Bearer ", "");
 
   const supabaseAnon = createClient(
@@ -70,7 +134,18 @@ const verifyAuth = async (authHeader: string | null) => {
   );
 
   const { data, error } = await supabaseAnon.auth.getClaims(token);
-  return !error && !!data?.claims;
+  if (error || !data?.claims?.sub) return null;
+  // The anon key is a JWT too, without a user
+  return data.claims.role === "authenticated" ? data.claims.sub : null;
+};
+
+const verifyAuth = async (authHeader: string | null) => !!(await getAuthUserId(authHeader));
+
+// The security tools are for users listed in security_admins; nobody else, even with no admin set up
+const isSecurityAdmin = async (supabaseAdmin: ReturnType<typeof createClient>, userId: string) => {
+  const { data, error } = await supabaseAdmin.from("security_admins").select("user_id").eq("user_id", userId).maybeSingle();
+  if (error) throw error;
+  return !!data;
 };
 
 const getMetaValue = async (
@@ -122,16 +197,237 @@ const incrementBlockedCount = async (supabaseAdmin: ReturnType<typeof createClie
   await setMetaValue(supabaseAdmin, BLOCKED_COUNT_KEY, String(next));
 };
 
+// Only the last X-Forwarded-For hop is added by the platform's proxy; earlier ones come from the caller.
+// Same rule as clientIp in src/lib/securityDashboard.ts
+const clientIpOf = (req: Request) => {
+  const hops = (req.headers.get("x-forwarded-for") ?? "").split(",").map((h) => h.trim()).filter(Boolean);
+  return hops[hops.length - 1] || req.headers.get("x-real-ip")?.trim() || "unknown";
+};
+
+const jsonResponse = (payload: unknown, status = 200) =>
+  new Response(JSON.stringify(payload), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+const hashPin = async (pin: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, key, 256);
+  return toBase64(new Uint8Array(bits));
+};
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+interface StoredPin {
+  pin_salt: string;
+  pin_hash: string;
+  iterations: number;
+}
+
+const pinMatches = async (pin: string, stored: StoredPin) =>
+  timingSafeEqual(await hashPin(pin, fromBase64(stored.pin_salt), stored.iterations), stored.pin_hash);
+
+// Passkeys are bound to the app's host; APP_ORIGINS (comma-separated) restricts which origins may use them
+const webauthnOrigin = (req: Request) => {
+  const origin = req.headers.get("origin");
+  if (!origin) return null;
+  const allowed = (Deno.env.get("APP_ORIGINS") ?? "").split(",").map((o) => o.trim()).filter(Boolean);
+  if (allowed.length > 0 && !allowed.includes(origin)) return null;
+  return { origin, rpID: new URL(origin).hostname };
+};
+
+const saveChallenge = (supabaseAdmin: ReturnType<typeof createClient>, userId: string, challenge: string) =>
+  setMetaValue(supabaseAdmin, `${CHALLENGE_KEY_PREFIX}${userId}`, JSON.stringify({ challenge, expires_at: Date.now() + CHALLENGE_TTL_MS }));
+
+/** The pending challenge, used once */
+const takeChallenge = async (supabaseAdmin: ReturnType<typeof createClient>, userId: string) => {
+  const key = `${CHALLENGE_KEY_PREFIX}${userId}`;
+  const raw = await getMetaValue(supabaseAdmin, key);
+  await supabaseAdmin.from("pin_attempts_meta").delete().eq("key", key);
+  try {
+    const parsed = JSON.parse(raw ?? "") as { challenge: string; expires_at: number };
+    return parsed.expires_at > Date.now() ? parsed.challenge : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Security dashboard: attempts by IP, lockouts, per-IP unlock, thresholds and allow/deny lists */
+const handleSecurityAction = async (
+  supabaseAdmin: ReturnType<typeof createClient>,
+  body: Record<string, unknown>,
+) => {
+  switch (body.action) {
+    case "security_overview": {
+      const days = clampInt(body.days, 1, 30, 14);
+      const [config, blockedRaw, attemptsResult, lockoutsResult] = await Promise.all([
+        getSecurityConfig(supabaseAdmin),
+        getMetaValue(supabaseAdmin, BLOCKED_COUNT_KEY),
+        supabaseAdmin.from("pin_attempts").select("ip, success, created_at")
+          .gte("created_at", new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString())
+          .order("created_at", { ascending: false })
+          .limit(DASHBOARD_ATTEMPTS_LIMIT),
+        supabaseAdmin.from("pin_attempts_meta").select("key, value").like("key", `${LOCKOUT_KEY_PREFIX}%`),
+      ]);
+      if (attemptsResult.error) throw attemptsResult.error;
+      if (lockoutsResult.error) throw lockoutsResult.error;
+
+      const lockouts = (lockoutsResult.data ?? []).map((row: { key: string; value: string }) => {
+        const state = sanitizeLockoutState(row.value, config.lock_minutes);
+        return {
+          ip: row.key.slice(LOCKOUT_KEY_PREFIX.length),
+          ...state,
+          remaining_minutes: getRemainingMinutes(state.lock_until),
+        };
+      }).filter((l) => l.remaining_minutes > 0 || l.failed_attempts > 0 || l.lock_count > 0);
+
+      return jsonResponse({
+        success: true,
+        config,
+        defaults: { max_attempts: INITIAL_MAX_ATTEMPTS, lock_minutes: INITIAL_LOCK_MINUTES },
+        blocked_count: Number.parseInt(blockedRaw ?? "0", 10) || 0,
+        attempts: attemptsResult.data ?? [],
+        lockouts,
+      });
+    }
+
+    case "security_unlock_ip": {
+      if (typeof body.ip !== "string" || !body.ip) return jsonResponse({ success: false, error: "Adresse IP requise" }, 400);
+      // Forgets the escalation too: the next failure starts from the first threshold
+      const { error } = await supabaseAdmin.from("pin_attempts_meta").delete().eq("key", lockoutKeyForIp(body.ip));
+      if (error) throw error;
+      return jsonResponse({ success: true });
+    }
+
+    case "security_save_config": {
+      const config = sanitizeSecurityConfig(body.config);
+      await setMetaValue(supabaseAdmin, SECURITY_CONFIG_KEY, JSON.stringify(config));
+      return jsonResponse({ success: true, config });
+    }
+
+    default:
+      return jsonResponse({ success: false, error: "Action inconnue" }, 400);
+  }
+};
+
+/** Signed-in actions on the user's own devices: listing, passkeys */
+const handleDeviceAction = async (
+  req: Request,
+  supabaseAdmin: ReturnType<typeof createClient>,
+  body: Record<string, unknown>,
+  userId: string,
+) => {
+  switch (body.action) {
+    case "devices": {
+      const [{ data: pins, error: pinsError }, { data: passkeys, error: passkeysError }] = await Promise.all([
+        supabaseAdmin.from("device_pins").select("device_id, label, created_at, last_used_at").eq("user_id", userId),
+        supabaseAdmin.from("passkeys").select("id, device_id, label, created_at, last_used_at").eq("user_id", userId),
+      ]);
+      if (pinsError) throw pinsError;
+      if (passkeysError) throw passkeysError;
+      return jsonResponse({ success: true, pins, passkeys });
+    }
+
+    case "remove_passkey": {
+      if (typeof body.id !== "string") return jsonResponse({ success: false, error: "Clé requise" }, 400);
+      const { error } = await supabaseAdmin.from("passkeys").delete().eq("user_id", userId).eq("id", body.id);
+      if (error) throw error;
+      return jsonResponse({ success: true });
+    }
+
+    case "passkey_register_options":
+    case "passkey_unlock_options": {
+      const rp = webauthnOrigin(req);
+      if (!rp) return jsonResponse({ success: false, error: "Origine non autorisée" }, 403);
+      const { data: existing, error } = await supabaseAdmin.from("passkeys").select("credential_id, transports").eq("user_id", userId);
+      if (error) throw error;
+      const credentials = (existing ?? []).map((c) => ({
+        id: isoBase64URL.toBuffer(c.credential_id),
+        type: "public-key" as const,
+        transports: c.transports ?? undefined,
+      }));
+      if (body.action === "passkey_unlock_options" && credentials.length === 0) {
+        return jsonResponse({ success: false, error: "Aucune clé d'accès" }, 400);
+      }
+      const options = body.action === "passkey_register_options"
+        ? await generateRegistrationOptions({
+          rpName: "Repas",
+          rpID: rp.rpID,
+          userID: userId,
+          userName: typeof body.user_name === "string" && body.user_name ? body.user_name : userId,
+          attestationType: "none",
+          excludeCredentials: credentials,
+          authenticatorSelection: { residentKey: "preferred", userVerification: "preferred" },
+        })
+        : await generateAuthenticationOptions({ rpID: rp.rpID, allowCredentials: credentials, userVerification: "preferred" });
+      await saveChallenge(supabaseAdmin, userId, options.challenge);
+      return jsonResponse({ success: true, options });
+    }
+
+    case "passkey_register": {
+      const rp = webauthnOrigin(req);
+      const expectedChallenge = await takeChallenge(supabaseAdmin, userId);
+      if (!rp || !expectedChallenge) return jsonResponse({ success: false, error: "Demande expirée, réessaie" }, 400);
+      const response = body.response as RegistrationResponseJSON;
+      const { verified, registrationInfo } = await verifyRegistrationResponse({
+        response, expectedChallenge, expectedOrigin: rp.origin, expectedRPID: rp.rpID,
+      });
+      if (!verified || !registrationInfo) return jsonResponse({ success: false, error: "Clé d'accès refusée" });
+      const { error } = await supabaseAdmin.from("passkeys").insert({
+        user_id: userId,
+        device_id: typeof body.device_id === "string" ? body.device_id : null,
+        label: typeof body.label === "string" ? body.label.slice(0, 80) : null,
+        credential_id: isoBase64URL.fromBuffer(registrationInfo.credentialID),
+        public_key: isoBase64URL.fromBuffer(registrationInfo.credentialPublicKey),
+        counter: registrationInfo.counter,
+        transports: Array.isArray(response?.response?.transports) ? response.response.transports : null,
+      });
+      if (error) throw error;
+      return jsonResponse({ success: true });
+    }
+
+    case "passkey_unlock": {
+      const rp = webauthnOrigin(req);
+      const expectedChallenge = await takeChallenge(supabaseAdmin, userId);
+      if (!rp || !expectedChallenge) return jsonResponse({ success: false, error: "Demande expirée, réessaie" }, 400);
+      const response = body.response as AuthenticationResponseJSON;
+      const { data: passkey, error } = await supabaseAdmin.from("passkeys").select("*")
+        .eq("user_id", userId).eq("credential_id", String(response?.id ?? "")).maybeSingle();
+      if (error) throw error;
+      if (!passkey) return jsonResponse({ success: false, error: "Clé d'accès inconnue" });
+      const { verified, authenticationInfo } = await verifyAuthenticationResponse({
+        response, expectedChallenge, expectedOrigin: rp.origin, expectedRPID: rp.rpID,
+        authenticator: {
+          credentialID: isoBase64URL.toBuffer(passkey.credential_id),
+          credentialPublicKey: isoBase64URL.toBuffer(passkey.public_key),
+          counter: Number(passkey.counter),
+          transports: passkey.transports ?? undefined,
+        },
+      });
+      if (!verified) return jsonResponse({ success: false, error: "Clé d'accès refusée" });
+      await supabaseAdmin.from("passkeys")
+        .update({ counter: authenticationInfo.newCounter, last_used_at: new Date().toISOString() })
+        .eq("id", passkey.id);
+      return jsonResponse({ success: true });
+    }
+
+    default:
+      return jsonResponse({ success: false, error: "Action inconnue" }, 400);
+  }
+};
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
   }
 
   try {
-    const clientIp =
-      req.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
-      req.headers.get("x-real-ip") ||
-      "unknown";
+    const clientIp = clientIpOf(req);
 
     const supabaseAdmin = createClient(
       Deno.env.get("SUPABASE_URL")!,
@@ -147,8 +443,8 @@ serve(async (req) => {
     }
 
     if (body.reset_blocked) {
-      const authed = await verifyAuth(req.headers.get("authorization"));
-      if (!authed) {
+      const resetUserId = await getAuthUserId(req.headers.get("authorization"));
+      if (!resetUserId || !(await isSecurityAdmin(supabaseAdmin, resetUserId))) {
         return new Response(JSON.stringify({ success: false, error: "Non autorisé" }), {
           status: 401,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -180,12 +476,56 @@ serve(async (req) => {
       });
     }
 
+    if (typeof body.action === "string" && body.action.startsWith("security_")) {
+      const userId = await getAuthUserId(req.headers.get("authorization"));
+      if (!userId) return jsonResponse({ success: false, error: "Non autorisé" }, 401);
+      if (!(await isSecurityAdmin(supabaseAdmin, userId))) {
+        return jsonResponse({ success: false, error: "Réservé aux administrateurs" }, 403);
+      }
+      return await handleSecurityAction(supabaseAdmin, body);
+    }
+
+    // unlock, set_pin and remove_pin check a device PIN (under the lockout below); the other actions need no secret
+    const pinAction = body.action === "unlock" || body.action === "set_pin" || body.action === "remove_pin";
+    if (typeof body.action === "string" && !pinAction) {
+      const userId = await getAuthUserId(req.headers.get("authorization"));
+      if (!userId) return jsonResponse({ success: false, error: "Non autorisé" }, 401);
+      return await handleDeviceAction(req, supabaseAdmin, body, userId);
+    }
+
+    let pinUserId: string | null = null;
+    let storedPin: StoredPin | null = null;
+    if (pinAction) {
+      pinUserId = await getAuthUserId(req.headers.get("authorization"));
+      if (!pinUserId) return jsonResponse({ success: false, error: "Non autorisé" }, 401);
+      if (typeof body.device_id !== "string" || !body.device_id) {
+        return jsonResponse({ success: false, error: "Appareil requis" }, 400);
+      }
+      if (body.action === "set_pin" && (typeof body.pin !== "string" || !PIN_PATTERN.test(body.pin))) {
+        return jsonResponse({ success: false, error: "Le code doit faire 4 à 8 chiffres" }, 400);
+      }
+      const { data, error } = await supabaseAdmin.from("device_pins").select("pin_salt, pin_hash, iterations")
+        .eq("user_id", pinUserId).eq("device_id", body.device_id).maybeSingle();
+      if (error) throw error;
+      storedPin = data;
+      if ((body.action === "unlock" || body.action === "remove_pin") && !storedPin) {
+        return jsonResponse({ success: false, error: "Aucun code sur cet appareil" });
+      }
+    }
+
+    const config = await getSecurityConfig(supabaseAdmin);
+    if (config.deny_ips.includes(clientIp)) {
+      await supabaseAdmin.from("pin_attempts").insert({ ip: clientIp, success: false });
+      return jsonResponse({ success: false, error: "Accès refusé" }, 401);
+    }
+    const allowed = config.allow_ips.includes(clientIp);
+
     const lockoutKey = lockoutKeyForIp(clientIp);
     const lockoutRaw = await getMetaValue(supabaseAdmin, lockoutKey);
 
-    let lockoutState = sanitizeLockoutState(lockoutRaw ?? undefined);
+    let lockoutState = sanitizeLockoutState(lockoutRaw ?? undefined, config.lock_minutes);
 
-    const remainingMinutes = getRemainingMinutes(lockoutState.lock_until);
+    const remainingMinutes = allowed ? 0 : getRemainingMinutes(lockoutState.lock_until);
     if (remainingMinutes > 0) {
       return new Response(
         JSON.stringify({ success: false, error: `Accès refusé. Réessaie dans ${remainingMinutes} min` }),
@@ -198,44 +538,63 @@ serve(async (req) => {
       await setMetaValue(supabaseAdmin, lockoutKey, JSON.stringify(lockoutState));
     }
 
-    const { pin } = body as { pin?: string };
-    if (!pin || typeof pin !== "string") {
-      return new Response(JSON.stringify({ success: false, error: "PIN requis" }), {
-        status: 400,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
+    let isValid: boolean;
+    let session: { access_token: string; refresh_token: string } | null = null;
+    if (pinAction) {
+      // Changing or removing a PIN needs the current one
+      const candidate = body.action === "unlock" ? body.pin : body.current_pin;
+      isValid = !storedPin || (typeof candidate === "string" && await pinMatches(candidate, storedPin));
+    } else {
+      // Each person signs in to their own account; the lockout still applies per IP
+      const { email, password } = body as { email?: string; password?: string };
+      if (!email || typeof email !== "string" || !password || typeof password !== "string") {
+        return new Response(JSON.stringify({ success: false, error: "Email et mot de passe requis" }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
 
-    const serverPin = Deno.env.get("VITE_APP_PIN");
-    if (!serverPin) {
-      return new Response(JSON.stringify({ success: false, error: "PIN non configuré" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
+      const supabaseAnon = createClient(
+        Deno.env.get("SUPABASE_URL")!,
+        Deno.env.get("SUPABASE_ANON_KEY")!,
+        { auth: { autoRefreshToken: false, persistSession: false } },
+      );
 
-    const isValid = pin === serverPin;
+      const signInResult = await supabaseAnon.auth.signInWithPassword({ email: email.trim().toLowerCase(), password });
+      if (signInResult.error?.code === "email_not_confirmed") {
+        return new Response(JSON.stringify({ success: false, error: "Confirme ton email avant de te connecter" }), {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      isValid = !signInResult.error && !!signInResult.data?.session;
+      session = signInResult.data.session;
+    }
 
     await supabaseAdmin.from("pin_attempts").insert({ ip: clientIp, success: isValid });
 
+    if (!isValid && allowed) {
+      return jsonResponse({ success: false, error: pinAction ? "Code incorrect" : "Identifiants incorrects" });
+    }
+
     if (!isValid) {
       let blockedForMinutes: number | null = null;
 
       if (lockoutState.lock_count === 0) {
         const attempts = lockoutState.failed_attempts + 1;
-        if (attempts >= INITIAL_MAX_ATTEMPTS) {
-          blockedForMinutes = INITIAL_LOCK_MINUTES;
+        if (attempts >= config.max_attempts) {
+          blockedForMinutes = config.lock_minutes;
           lockoutState = {
             failed_attempts: 0,
             lock_count: 1,
-            current_lock_minutes: INITIAL_LOCK_MINUTES,
-            lock_until: new Date(Date.now() + INITIAL_LOCK_MINUTES * 60000).toISOString(),
+            current_lock_minutes: config.lock_minutes,
+            lock_until: new Date(Date.now() + config.lock_minutes * 60000).toISOString(),
           };
         } else {
           lockoutState = { ...lockoutState, failed_attempts: attempts };
         }
       } else {
-        const nextLockMinutes = Math.max(INITIAL_LOCK_MINUTES, lockoutState.current_lock_minutes * 2);
+        const nextLockMinutes = Math.max(config.lock_minutes, lockoutState.current_lock_minutes * 2);
         blockedForMinutes = nextLockMinutes;
         lockoutState = {
           ...lockoutState,
@@ -256,7 +615,7 @@ serve(async (req) => {
         );
       }
 
-      return new Response(JSON.stringify({ success: false, error: "Code incorrect" }), {
+      return new Response(JSON.stringify({ success: false, error: pinAction ? "Code incorrect" : "Identifiants incorrects" }), {
         status: 200,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
@@ -275,49 +634,34 @@ serve(async (req) => {
       .delete()
       .lt("created_at", new Date(Date.now() - ATTEMPT_RETENTION_MS).toISOString());
 
-    const appUserPassword = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!.slice(0, 32);
-
-    const supabaseAnon = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_ANON_KEY")!,
-      { auth: { autoRefreshToken: false, persistSession: false } },
-    );
-
-    let signInResult = await supabaseAnon.auth.signInWithPassword({
-      email: APP_USER_EMAIL,
-      password: appUserPassword,
-    });
-
-    if (signInResult.error) {
-      const { error: createError } = await supabaseAdmin.auth.admin.createUser({
-        email: APP_USER_EMAIL,
-        password: appUserPassword,
-        email_confirm: true,
-      });
-
-      if (createError && !createError.message.includes("already been registered")) {
-        console.error("Failed to create app user:", createError);
-        return new Response(JSON.stringify({ success: false, error: "Erreur interne" }), {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
+    if (body.action === "set_pin") {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const { error } = await supabaseAdmin.from("device_pins").upsert({
+        user_id: pinUserId!,
+        device_id: body.device_id as string,
+        label: typeof body.label === "string" ? body.label.slice(0, 80) : null,
+        pin_salt: toBase64(salt),
+        pin_hash: await hashPin(body.pin as string, salt, PIN_ITERATIONS),
+        iterations: PIN_ITERATIONS,
+      }, { onConflict: "user_id,device_id" });
+      if (error) throw error;
+      return jsonResponse({ success: true });
+    }
 
-      signInResult = await supabaseAnon.auth.signInWithPassword({
-        email: APP_USER_EMAIL,
-        password: appUserPassword,
-      });
+    if (body.action === "remove_pin") {
+      const { error } = await supabaseAdmin.from("device_pins").delete()
+        .eq("user_id", pinUserId!).eq("device_id", body.device_id as string);
+      if (error) throw error;
+      return jsonResponse({ success: true });
     }
 
-    if (signInResult.error || !signInResult.data?.session) {
-      console.error("Sign-in failed:", signInResult.error);
-      return new Response(JSON.stringify({ success: false, error: "Erreur de session" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+    if (body.action === "unlock") {
+      await supabaseAdmin.from("device_pins").update({ last_used_at: new Date().toISOString() })
+        .eq("user_id", pinUserId!).eq("device_id", body.device_id as string);
+      return jsonResponse({ success: true });
     }
 
-    const { access_token, refresh_token } = signInResult.data.session;
+    const { access_token, refresh_token } = session!;
 
     return new Response(JSON.stringify({ success: true, access_token, refresh_token }), {
       status: 200,
@@ -0,0 +1,136 @@
+
+-- Structured ingredient storage: one row per ingredient alternative.
+-- A row belongs either to a meal (recipe) or to a possible meal (per-card override).
+CREATE TABLE public.meal_ingredients (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  meal_id UUID REFERENCES public.meals(id) ON DELETE CASCADE,
+  possible_meal_id UUID REFERENCES public.possible_meals(id) ON DELETE CASCADE,
+  group_index INTEGER NOT NULL,
+  alt_index INTEGER NOT NULL DEFAULT 0,
+  qty NUMERIC DEFAULT NULL,
+  unit TEXT DEFAULT NULL,
+  count NUMERIC DEFAULT NULL,
+  name TEXT NOT NULL,
+  optional BOOLEAN NOT NULL DEFAULT false,
+  kcal_per_100g NUMERIC DEFAULT NULL,
+  user_id UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT meal_ingredients_single_owner CHECK ((meal_id IS NULL) <> (possible_meal_id IS NULL))
+);
+
+CREATE INDEX meal_ingredients_meal_id_idx ON public.meal_ingredients (meal_id, group_index, alt_index);
+CREATE INDEX meal_ingredients_possible_meal_id_idx ON public.meal_ingredients (possible_meal_id, group_index, alt_index);
+
+ALTER TABLE public.meal_ingredients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Auth users can view meal_ingredients" ON public.meal_ingredients FOR SELECT TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can insert meal_ingredients" ON public.meal_ingredients FOR INSERT TO authenticated WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can update meal_ingredients" ON public.meal_ingredients FOR UPDATE TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can delete meal_ingredients" ON public.meal_ingredients FOR DELETE TO authenticated USING (auth.uid() IS NOT NULL);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.meal_ingredients;
+
+-- Parse one legacy ingredient token ("?200g 2 poulet{165}") into its structured parts
+CREATE OR REPLACE FUNCTION public.parse_ingredient_token(token text)
+RETURNS TABLE (qty numeric, unit text, count numeric, name text, optional boolean, kcal_per_100g numeric)
+LANGUAGE plpgsql IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  t text := btrim(regexp_replace(coalesce(token, ''), '\s+', ' ', 'g'));
+  m text[];
+  -- Same spellings as UNIT_DEFS in src/lib/unitConversion.ts
+  units text := '(c\.?\s?[àa]\.?\s?s\.?|cuill[eè]res?\s+[àa]\s+soupe|cas|cs|c\.?\s?[àa]\.?\s?c\.?|cuill[eè]res?\s+[àa]\s+caf[ée]|cac|cc|pinc[ée]es?|pi[eè]ces?|pcs?|kg|kilos?|kilogrammes?|mg|grammes?|gr|g|ml|cl|dl|litres?|l)';
+BEGIN
+  qty := NULL; unit := NULL; count := NULL; kcal_per_100g := NULL;
+  optional := left(t, 1) = '?';
+  IF optional THEN t := btrim(substr(t, 2)); END IF;
+
+  m := regexp_match(t, '\{(\d+(?:[.,]\d+)?)\}\s*$');
+  IF m IS NOT NULL THEN
+    kcal_per_100g := replace(m[1], ',', '.')::numeric;
+    t := btrim(regexp_replace(t, '\{\d+(?:[.,]\d+)?\}\s*$', ''));
+  END IF;
+
+  m := regexp_match(t, '^(\d+(?:[.,]\d+)?)\s*' || units || '\s+(\d+(?:[.,]\d+)?)\s+(.+)$', 'i');
+  IF m IS NOT NULL THEN
+    qty := replace(m[1], ',', '.')::numeric; unit := lower(m[2]); count := replace(m[3], ',', '.')::numeric; name := btrim(m[4]);
+  ELSE
+    m := regexp_match(t, '^(\d+(?:[.,]\d+)?)\s*' || units || '\s+(.+)$', 'i');
+    IF m IS NOT NULL THEN
+      qty := replace(m[1], ',', '.')::numeric; unit := lower(m[2]); name := btrim(m[3]);
+    ELSE
+      m := regexp_match(t, '^(\d+(?:[.,]\d+)?)\s+(.+)$');
+      IF m IS NOT NULL THEN
+        count := replace(m[1], ',', '.')::numeric; name := btrim(m[2]);
+      ELSE
+        name := t;
+      END IF;
+    END IF;
+  END IF;
+
+  -- "3 pièces avocat" is a count, not a quantity
+  IF unit ~ '^(pi[eè]ces?|pcs?)$' THEN
+    count := coalesce(count, qty); qty := NULL; unit := NULL;
+  ELSIF unit IN ('gr', 'gramme', 'grammes') THEN
+    unit := 'g';
+  END IF;
+  RETURN NEXT;
+END;
+$$;
+
+-- Convert a legacy ingredient string ("100g poulet | 80g dinde, ?50g parmesan") into rows
+CREATE OR REPLACE FUNCTION public.parse_ingredient_string(raw text)
+RETURNS TABLE (group_index integer, alt_index integer, qty numeric, unit text, count numeric, name text, optional boolean, kcal_per_100g numeric)
+LANGUAGE sql IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT (g.ord - 1)::integer, (a.ord - 1)::integer, p.qty, p.unit, p.count, p.name, p.optional, p.kcal_per_100g
+  FROM regexp_split_to_table(coalesce(raw, ''), '\n|,(?!\d)') WITH ORDINALITY AS g(grp, ord)
+  CROSS JOIN LATERAL regexp_split_to_table(g.grp, '\|') WITH ORDINALITY AS a(alt, ord)
+  CROSS JOIN LATERAL public.parse_ingredient_token(a.alt) AS p
+  WHERE btrim(g.grp) <> '' AND btrim(a.alt) <> '' AND p.name <> '';
+$$;
+
+-- Atomically replace the ingredient rows of a meal or of a possible meal override
+CREATE OR REPLACE FUNCTION public.replace_meal_ingredients(p_meal_id uuid, p_possible_meal_id uuid, p_rows jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (p_meal_id IS NULL) = (p_possible_meal_id IS NULL) THEN
+    RAISE EXCEPTION 'replace_meal_ingredients: exactly one of p_meal_id / p_possible_meal_id is required';
+  END IF;
+
+  IF p_meal_id IS NOT NULL THEN
+    DELETE FROM public.meal_ingredients WHERE meal_id = p_meal_id;
+  ELSE
+    DELETE FROM public.meal_ingredients WHERE possible_meal_id = p_possible_meal_id;
+  END IF;
+
+  INSERT INTO public.meal_ingredients (meal_id, possible_meal_id, group_index, alt_index, qty, unit, count, name, optional, kcal_per_100g)
+  SELECT p_meal_id, p_possible_meal_id,
+    (r->>'group_index')::integer, coalesce((r->>'alt_index')::integer, 0),
+    (r->>'qty')::numeric, nullif(r->>'unit', ''), (r->>'count')::numeric, r->>'name',
+    coalesce((r->>'optional')::boolean, false), (r->>'kcal_per_100g')::numeric
+  FROM jsonb_array_elements(coalesce(p_rows, '[]'::jsonb)) AS r
+  WHERE coalesce(btrim(r->>'name'), '') <> '';
+END;
+$$;
+
+-- Migrate existing strings
+INSERT INTO public.meal_ingredients (meal_id, group_index, alt_index, qty, unit, count, name, optional, kcal_per_100g, user_id)
+SELECT m.id, p.group_index, p.alt_index, p.qty, p.unit, p.count, p.name, p.optional, p.kcal_per_100g, m.user_id
+FROM public.meals m
+CROSS JOIN LATERAL public.parse_ingredient_string(m.ingredients) AS p
+WHERE m.ingredients IS NOT NULL AND btrim(m.ingredients) <> '';
+
+INSERT INTO public.meal_ingredients (possible_meal_id, group_index, alt_index, qty, unit, count, name, optional, kcal_per_100g, user_id)
+SELECT pm.id, p.group_index, p.alt_index, p.qty, p.unit, p.count, p.name, p.optional, p.kcal_per_100g, pm.user_id
+FROM public.possible_meals pm
+CROSS JOIN LATERAL public.parse_ingredient_string(pm.ingredients_override) AS p
+WHERE pm.ingredients_override IS NOT NULL AND btrim(pm.ingredients_override) <> '';
+
+COMMENT ON COLUMN public.meals.ingredients IS 'Deprecated: legacy string format, migrated to meal_ingredients. Kept read-only for rollback.';
+COMMENT ON COLUMN public.possible_meals.ingredients_override IS 'Deprecated: legacy string format, migrated to meal_ingredients. Kept read-only for rollback.';
@@ -0,0 +1,315 @@
+
+-- Server-side stock deduction: one transaction per "move to Possible", with a report and an undo snapshot
+CREATE TABLE public.stock_deductions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  meal_id UUID REFERENCES public.meals(id) ON DELETE SET NULL,
+  possible_meal_id UUID REFERENCES public.possible_meals(id) ON DELETE SET NULL,
+  snapshot JSONB NOT NULL DEFAULT '[]'::jsonb,
+  report JSONB NOT NULL DEFAULT '[]'::jsonb,
+  undone_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  user_id UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX stock_deductions_possible_meal_id_idx ON public.stock_deductions (possible_meal_id);
+
+ALTER TABLE public.stock_deductions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Auth users can view stock_deductions" ON public.stock_deductions FOR SELECT TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can insert stock_deductions" ON public.stock_deductions FOR INSERT TO authenticated WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can update stock_deductions" ON public.stock_deductions FOR UPDATE TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can delete stock_deductions" ON public.stock_deductions FOR DELETE TO authenticated USING (auth.uid() IS NOT NULL);
+
+-- ─── Stored grams helpers (mirror parseQty / parsePartialQty / formatNumeric / encodeStoredGrams) ───
+
+CREATE OR REPLACE FUNCTION public.stock_unit_grams(grams text)
+RETURNS numeric
+LANGUAGE sql IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(substring(replace(split_part(coalesce(grams, ''), '|', 1), ',', '.') FROM '-?\d+(?:\.\d+)?')::numeric, 0);
+$$;
+
+CREATE OR REPLACE FUNCTION public.stock_partial_grams(grams text)
+RETURNS numeric
+LANGUAGE sql IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(substring(replace(split_part(coalesce(grams, ''), '|', 2), ',', '.') FROM '-?\d+(?:\.\d+)?')::numeric, 0);
+$$;
+
+CREATE OR REPLACE FUNCTION public.format_stock_number(n numeric)
+RETURNS text
+LANGUAGE sql IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN round(n, 1) = trunc(round(n, 1)) THEN trunc(round(n, 1))::text ELSE round(n, 1)::text END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.encode_stock_grams(unit numeric, partial numeric)
+RETURNS text
+LANGUAGE sql IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT public.format_stock_number(unit)
+    || CASE WHEN partial > 0 AND partial < unit THEN '|' || public.format_stock_number(partial) ELSE '' END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.stock_total_grams(grams text, quantity integer)
+RETURNS numeric
+LANGUAGE sql IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN public.stock_unit_grams(grams) <= 0 THEN 0
+    WHEN quantity IS NULL OR quantity < 1 THEN public.stock_unit_grams(grams)
+    WHEN public.stock_partial_grams(grams) > 0 AND public.stock_partial_grams(grams) < public.stock_unit_grams(grams)
+      THEN public.stock_unit_grams(grams) * greatest(0, quantity - 1) + public.stock_partial_grams(grams)
+    ELSE public.stock_unit_grams(grams) * quantity
+  END;
+$$;
+
+-- ─── Core: apply a list of needs to food_items ──────────────────────────────
+-- p_needs: [{ name, grams, count, candidates: [food_item ids] }]
+-- Positive amounts are deducted across candidates in sortStockDeductionPriority order
+-- (oldest counter first, then earliest expiration); negative amounts are added back to the first candidate.
+-- Returns { report: [...], snapshot: [food_items rows before change] }.
+CREATE OR REPLACE FUNCTION public.apply_stock_needs(p_needs jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  need jsonb;
+  fi public.food_items%ROWTYPE;
+  snapshots jsonb := '{}'::jsonb;
+  report jsonb := '[]'::jsonb;
+  items jsonb;
+  candidate_ids uuid[];
+  need_grams numeric;
+  need_count numeric;
+  to_deduct numeric;
+  per_unit numeric;
+  total numeric;
+  deduct numeric;
+  remaining numeric;
+  full_units numeric;
+  remainder numeric;
+  new_quantity integer;
+  new_grams text;
+  new_counter timestamptz;
+  deleted boolean;
+BEGIN
+  FOR need IN SELECT * FROM jsonb_array_elements(coalesce(p_needs, '[]'::jsonb)) LOOP
+    need_grams := coalesce((need->>'grams')::numeric, 0);
+    need_count := coalesce((need->>'count')::numeric, 0);
+    SELECT coalesce(array_agg(value::uuid), '{}') INTO candidate_ids FROM jsonb_array_elements_text(coalesce(need->'candidates', '[]'::jsonb));
+    items := '[]'::jsonb;
+    to_deduct := CASE WHEN need_count > 0 THEN need_count WHEN need_grams > 0 THEN need_grams ELSE 0 END;
+
+    IF need_count > 0 OR (need_count = 0 AND need_grams > 0) THEN
+      FOR fi IN
+        SELECT * FROM public.food_items
+        WHERE id = ANY(candidate_ids) AND NOT is_infinite
+        ORDER BY (counter_start_date IS NULL),
+          floor(extract(epoch FROM now() - counter_start_date) / 86400) DESC NULLS LAST,
+          expiration_date ASC NULLS LAST,
+          sort_order
+        FOR UPDATE
+      LOOP
+        EXIT WHEN to_deduct <= 0;
+        deleted := false; new_quantity := fi.quantity; new_grams := fi.grams; new_counter := fi.counter_start_date;
+
+        IF need_count > 0 THEN
+          deduct := least(coalesce(fi.quantity, 1), to_deduct);
+          remaining := coalesce(fi.quantity, 1) - deduct;
+          to_deduct := to_deduct - deduct;
+          IF remaining <= 0 THEN deleted := true; ELSE new_quantity := ceil(remaining); END IF;
+        ELSE
+          per_unit := public.stock_unit_grams(fi.grams);
+          CONTINUE WHEN per_unit <= 0;
+          total := public.stock_total_grams(fi.grams, fi.quantity);
+          deduct := least(total, to_deduct);
+          remaining := total - deduct;
+          to_deduct := to_deduct - deduct;
+          IF remaining <= 0 THEN
+            deleted := true;
+          ELSIF fi.quantity IS NOT NULL AND fi.quantity >= 1 THEN
+            full_units := floor(remaining / per_unit);
+            remainder := round(remaining - full_units * per_unit, 1);
+            IF remainder > 0 THEN
+              new_quantity := greatest(1, full_units + 1);
+              new_grams := public.encode_stock_grams(per_unit, remainder);
+              IF fi.counter_start_date IS NULL AND fi.storage_type <> 'surgele' THEN new_counter := now(); END IF;
+            ELSIF full_units > 0 THEN
+              new_quantity := full_units;
+              new_grams := public.format_stock_number(per_unit);
+              new_counter := NULL;
+            ELSE
+              deleted := true;
+            END IF;
+          ELSE
+            new_grams := public.format_stock_number(remaining);
+            IF fi.counter_start_date IS NULL AND fi.storage_type <> 'surgele' THEN new_counter := now(); END IF;
+          END IF;
+        END IF;
+
+        IF NOT snapshots ? fi.id::text THEN snapshots := snapshots || jsonb_build_object(fi.id::text, to_jsonb(fi)); END IF;
+        IF deleted THEN
+          DELETE FROM public.food_items WHERE id = fi.id;
+        ELSE
+          UPDATE public.food_items SET quantity = new_quantity, grams = new_grams, counter_start_date = new_counter WHERE id = fi.id;
+        END IF;
+        items := items || jsonb_build_object(
+          'food_item_id', fi.id, 'name', fi.name, 'deducted', deduct, 'deleted', deleted,
+          'before_quantity', fi.quantity, 'before_grams', fi.grams,
+          'after_quantity', CASE WHEN deleted THEN NULL ELSE new_quantity END,
+          'after_grams', CASE WHEN deleted THEN NULL ELSE new_grams END
+        );
+      END LOOP;
+    ELSIF need_grams < 0 OR need_count < 0 THEN
+      -- Give back to the highest-priority candidate
+      SELECT * INTO fi FROM public.food_items
+      WHERE id = ANY(candidate_ids) AND NOT is_infinite
+      ORDER BY (counter_start_date IS NULL),
+        floor(extract(epoch FROM now() - counter_start_date) / 86400) DESC NULLS LAST,
+        expiration_date ASC NULLS LAST,
+        sort_order
+      LIMIT 1
+      FOR UPDATE;
+      IF FOUND THEN
+        new_quantity := fi.quantity; new_grams := fi.grams;
+        IF need_count < 0 THEN
+          new_quantity := coalesce(fi.quantity, 1) - need_count;
+        ELSE
+          per_unit := public.stock_unit_grams(fi.grams);
+          IF fi.quantity IS NOT NULL AND fi.quantity >= 1 AND per_unit > 0 THEN
+            total := public.stock_total_grams(fi.grams, fi.quantity) - need_grams;
+            full_units := floor(total / per_unit);
+            remainder := round(total - full_units * per_unit, 1);
+            new_quantity := CASE WHEN remainder > 0 THEN full_units + 1 ELSE full_units END;
+            new_grams := public.encode_stock_grams(per_unit, CASE WHEN remainder > 0 THEN remainder ELSE NULL END);
+          ELSE
+            new_grams := public.format_stock_number(per_unit - need_grams);
+          END IF;
+        END IF;
+        IF NOT snapshots ? fi.id::text THEN snapshots := snapshots || jsonb_build_object(fi.id::text, to_jsonb(fi)); END IF;
+        UPDATE public.food_items SET quantity = new_quantity, grams = new_grams WHERE id = fi.id;
+        items := items || jsonb_build_object(
+          'food_item_id', fi.id, 'name', fi.name, 'deducted', CASE WHEN need_count < 0 THEN need_count ELSE need_grams END, 'deleted', false,
+          'before_quantity', fi.quantity, 'before_grams', fi.grams, 'after_quantity', new_quantity, 'after_grams', new_grams
+        );
+      END IF;
+      to_deduct := 0;
+    END IF;
+
+    report := report || jsonb_build_object(
+      'name', need->>'name', 'grams', need_grams, 'count', need_count,
+      'missing', greatest(to_deduct, 0), 'items', items
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('report', report, 'snapshot', coalesce((SELECT jsonb_agg(value) FROM jsonb_each(snapshots)), '[]'::jsonb));
+END;
+$$;
+
+-- ─── Move a meal to Possible in one transaction ─────────────────────────────
+-- p_new_meal (optional): { name, category, color, calories, grams, rows } — creates a hidden meal
+-- (partial portion) instead of planning p_meal_id.
+CREATE OR REPLACE FUNCTION public.move_meal_to_possible(
+  p_meal_id uuid,
+  p_needs jsonb,
+  p_expiration_date date DEFAULT NULL,
+  p_counter_start_date timestamptz DEFAULT NULL,
+  p_quantity integer DEFAULT 1,
+  p_new_meal jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_meal_id uuid := p_meal_id;
+  v_possible_id uuid;
+  v_deduction_id uuid;
+  v_result jsonb;
+BEGIN
+  IF p_new_meal IS NOT NULL THEN
+    INSERT INTO public.meals (name, category, color, sort_order, is_available, calories, grams)
+    VALUES (p_new_meal->>'name', coalesce(p_new_meal->>'category', 'plat'), p_new_meal->>'color', 0, false,
+      p_new_meal->>'calories', p_new_meal->>'grams')
+    RETURNING id INTO v_meal_id;
+    PERFORM public.replace_meal_ingredients(v_meal_id, NULL, coalesce(p_new_meal->'rows', '[]'::jsonb));
+  END IF;
+  IF v_meal_id IS NULL THEN
+    RAISE EXCEPTION 'move_meal_to_possible: p_meal_id or p_new_meal is required';
+  END IF;
+
+  v_result := public.apply_stock_needs(p_needs);
+
+  INSERT INTO public.possible_meals (meal_id, sort_order, quantity, expiration_date, counter_start_date)
+  VALUES (v_meal_id, (SELECT count(*) FROM public.possible_meals), greatest(1, coalesce(p_quantity, 1)), p_expiration_date, p_counter_start_date)
+  RETURNING id INTO v_possible_id;
+
+  INSERT INTO public.stock_deductions (meal_id, possible_meal_id, snapshot, report)
+  VALUES (v_meal_id, v_possible_id, v_result->'snapshot', v_result->'report')
+  RETURNING id INTO v_deduction_id;
+
+  RETURN jsonb_build_object(
+    'deduction_id', v_deduction_id, 'possible_meal_id', v_possible_id, 'meal_id', v_meal_id,
+    'report', v_result->'report', 'snapshot', v_result->'snapshot'
+  );
+END;
+$$;
+
+-- ─── Edit possible meal ingredients and adjust stock by the delta, atomically ───
+CREATE OR REPLACE FUNCTION public.update_possible_ingredients_with_stock(p_possible_meal_id uuid, p_needs jsonb, p_rows jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  v_result := public.apply_stock_needs(p_needs);
+  PERFORM public.replace_meal_ingredients(NULL, p_possible_meal_id, p_rows);
+  RETURN jsonb_build_object('report', v_result->'report', 'snapshot', v_result->'snapshot');
+END;
+$$;
+
+-- ─── Undo a deduction: restore the snapshot and drop the planned card ───────
+CREATE OR REPLACE FUNCTION public.undo_stock_deduction(p_deduction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  d public.stock_deductions%ROWTYPE;
+  v_meal_id uuid;
+BEGIN
+  SELECT * INTO d FROM public.stock_deductions WHERE id = p_deduction_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Déduction introuvable'; END IF;
+  IF d.undone_at IS NOT NULL THEN RAISE EXCEPTION 'Déduction déjà annulée'; END IF;
+
+  INSERT INTO public.food_items
+  SELECT * FROM jsonb_populate_recordset(NULL::public.food_items, d.snapshot)
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name, grams = EXCLUDED.grams, quantity = EXCLUDED.quantity,
+    calories = EXCLUDED.calories, protein = EXCLUDED.protein,
+    expiration_date = EXCLUDED.expiration_date, counter_start_date = EXCLUDED.counter_start_date,
+    is_indivisible = EXCLUDED.is_indivisible, is_infinite = EXCLUDED.is_infinite, is_dry = EXCLUDED.is_dry,
+    is_meal = EXCLUDED.is_meal, storage_type = EXCLUDED.storage_type, food_type = EXCLUDED.food_type,
+    sort_order = EXCLUDED.sort_order;
+
+  IF d.possible_meal_id IS NOT NULL THEN
+    SELECT meal_id INTO v_meal_id FROM public.possible_meals WHERE id = d.possible_meal_id;
+    DELETE FROM public.possible_meals WHERE id = d.possible_meal_id;
+    -- Hidden meals only exist for their card
+    DELETE FROM public.meals m
+    WHERE m.id = v_meal_id AND NOT m.is_available
+      AND NOT EXISTS (SELECT 1 FROM public.possible_meals pm WHERE pm.meal_id = v_meal_id);
+  END IF;
+
+  UPDATE public.stock_deductions SET undone_at = now() WHERE id = p_deduction_id;
+END;
+$$;
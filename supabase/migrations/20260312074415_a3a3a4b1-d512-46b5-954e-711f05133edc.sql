@@ -0,0 +1,210 @@
+
+-- Append-only ledger of every stock change, filled by a trigger on food_items
+CREATE TABLE public.stock_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  food_item_id UUID NOT NULL,
+  food_name TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('add', 'consume', 'deduct_meal', 'restore', 'adjust', 'expire', 'discard', 'edit')),
+  quantity_delta NUMERIC NOT NULL DEFAULT 0,
+  grams_delta NUMERIC NOT NULL DEFAULT 0,
+  quantity_before INTEGER,
+  quantity_after INTEGER,
+  grams_before TEXT,
+  grams_after TEXT,
+  -- Origin of the change; no foreign keys so history survives deleted meals
+  meal_id UUID,
+  possible_meal_id UUID,
+  user_id UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX stock_movements_created_at_idx ON public.stock_movements (created_at DESC);
+CREATE INDEX stock_movements_food_item_id_idx ON public.stock_movements (food_item_id);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients: only the trigger below (security definer) writes the ledger
+CREATE POLICY "Auth users can view stock_movements" ON public.stock_movements FOR SELECT TO authenticated USING (auth.uid() IS NOT NULL);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.stock_movements;
+
+-- Reason and origin come from app.stock_* settings (set by RPCs) or x-stock-* request headers (direct writes).
+-- Without either, inserts are "add", updates "edit", and deletes "expire" or "discard" depending on the date.
+CREATE OR REPLACE FUNCTION public.log_stock_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  headers json := nullif(current_setting('request.headers', true), '')::json;
+  v_reason text := coalesce(nullif(current_setting('app.stock_reason', true), ''), headers->>'x-stock-reason');
+  v_meal_id text := coalesce(nullif(current_setting('app.stock_meal_id', true), ''), headers->>'x-stock-meal-id');
+  v_possible_id text := coalesce(nullif(current_setting('app.stock_possible_meal_id', true), ''), headers->>'x-stock-possible-meal-id');
+  v_item public.food_items%ROWTYPE;
+  qty_before integer;
+  qty_after integer;
+  grams_before numeric := 0;
+  grams_after numeric := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.quantity IS NOT DISTINCT FROM NEW.quantity AND OLD.grams IS NOT DISTINCT FROM NEW.grams THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN v_item := OLD; ELSE v_item := NEW; END IF;
+  IF TG_OP <> 'INSERT' THEN
+    qty_before := OLD.quantity;
+    grams_before := public.stock_total_grams(OLD.grams, OLD.quantity);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    qty_after := NEW.quantity;
+    grams_after := public.stock_total_grams(NEW.grams, NEW.quantity);
+  END IF;
+
+  IF v_reason IS NULL OR v_reason NOT IN ('add', 'consume', 'deduct_meal', 'restore', 'adjust', 'expire', 'discard', 'edit') THEN
+    v_reason := CASE
+      WHEN TG_OP = 'INSERT' THEN 'add'
+      WHEN TG_OP = 'UPDATE' THEN 'edit'
+      WHEN OLD.expiration_date < current_date THEN 'expire'
+      ELSE 'discard'
+    END;
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    food_item_id, food_name, reason, quantity_delta, grams_delta,
+    quantity_before, quantity_after, grams_before, grams_after,
+    meal_id, possible_meal_id, user_id
+  ) VALUES (
+    v_item.id, v_item.name, v_reason,
+    CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE -coalesce(OLD.quantity, 1) END + CASE WHEN TG_OP = 'DELETE' THEN 0 ELSE coalesce(NEW.quantity, 1) END,
+    grams_after - grams_before,
+    qty_before, qty_after,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.grams END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE NEW.grams END,
+    CASE WHEN v_meal_id ~ '^[0-9a-f-]{36}$' THEN v_meal_id::uuid END,
+    CASE WHEN v_possible_id ~ '^[0-9a-f-]{36}$' THEN v_possible_id::uuid END,
+    coalesce(auth.uid(), v_item.user_id)
+  );
+
+  IF TG_OP = 'DELETE' THEN RETURN OLD; END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER food_items_stock_movement
+AFTER INSERT OR UPDATE OR DELETE ON public.food_items
+FOR EACH ROW EXECUTE FUNCTION public.log_stock_movement();
+
+-- Tag the changes made inside a stock RPC (transaction-local)
+CREATE OR REPLACE FUNCTION public.set_stock_context(p_reason text, p_meal_id uuid DEFAULT NULL, p_possible_meal_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  SELECT set_config('app.stock_reason', coalesce(p_reason, ''), true),
+    set_config('app.stock_meal_id', coalesce(p_meal_id::text, ''), true),
+    set_config('app.stock_possible_meal_id', coalesce(p_possible_meal_id::text, ''), true);
+$$;
+
+-- The card is now inserted before the deduction so movements can point at it
+CREATE OR REPLACE FUNCTION public.move_meal_to_possible(
+  p_meal_id uuid,
+  p_needs jsonb,
+  p_expiration_date date DEFAULT NULL,
+  p_counter_start_date timestamptz DEFAULT NULL,
+  p_quantity integer DEFAULT 1,
+  p_new_meal jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_meal_id uuid := p_meal_id;
+  v_possible_id uuid;
+  v_deduction_id uuid;
+  v_result jsonb;
+BEGIN
+  IF p_new_meal IS NOT NULL THEN
+    INSERT INTO public.meals (name, category, color, sort_order, is_available, calories, grams)
+    VALUES (p_new_meal->>'name', coalesce(p_new_meal->>'category', 'plat'), p_new_meal->>'color', 0, false,
+      p_new_meal->>'calories', p_new_meal->>'grams')
+    RETURNING id INTO v_meal_id;
+    PERFORM public.replace_meal_ingredients(v_meal_id, NULL, coalesce(p_new_meal->'rows', '[]'::jsonb));
+  END IF;
+  IF v_meal_id IS NULL THEN
+    RAISE EXCEPTION 'move_meal_to_possible: p_meal_id or p_new_meal is required';
+  END IF;
+
+  INSERT INTO public.possible_meals (meal_id, sort_order, quantity, expiration_date, counter_start_date)
+  VALUES (v_meal_id, (SELECT count(*) FROM public.possible_meals), greatest(1, coalesce(p_quantity, 1)), p_expiration_date, p_counter_start_date)
+  RETURNING id INTO v_possible_id;
+
+  PERFORM public.set_stock_context('deduct_meal', v_meal_id, v_possible_id);
+  v_result := public.apply_stock_needs(p_needs);
+  PERFORM public.set_stock_context(NULL);
+
+  INSERT INTO public.stock_deductions (meal_id, possible_meal_id, snapshot, report)
+  VALUES (v_meal_id, v_possible_id, v_result->'snapshot', v_result->'report')
+  RETURNING id INTO v_deduction_id;
+
+  RETURN jsonb_build_object(
+    'deduction_id', v_deduction_id, 'possible_meal_id', v_possible_id, 'meal_id', v_meal_id,
+    'report', v_result->'report', 'snapshot', v_result->'snapshot'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_possible_ingredients_with_stock(p_possible_meal_id uuid, p_needs jsonb, p_rows jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  PERFORM public.set_stock_context('adjust', (SELECT meal_id FROM public.possible_meals WHERE id = p_possible_meal_id), p_possible_meal_id);
+  v_result := public.apply_stock_needs(p_needs);
+  PERFORM public.set_stock_context(NULL);
+  PERFORM public.replace_meal_ingredients(NULL, p_possible_meal_id, p_rows);
+  RETURN jsonb_build_object('report', v_result->'report', 'snapshot', v_result->'snapshot');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.undo_stock_deduction(p_deduction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  d public.stock_deductions%ROWTYPE;
+  v_meal_id uuid;
+BEGIN
+  SELECT * INTO d FROM public.stock_deductions WHERE id = p_deduction_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Déduction introuvable'; END IF;
+  IF d.undone_at IS NOT NULL THEN RAISE EXCEPTION 'Déduction déjà annulée'; END IF;
+
+  PERFORM public.set_stock_context('restore', d.meal_id, d.possible_meal_id);
+  INSERT INTO public.food_items
+  SELECT * FROM jsonb_populate_recordset(NULL::public.food_items, d.snapshot)
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name, grams = EXCLUDED.grams, quantity = EXCLUDED.quantity,
+    calories = EXCLUDED.calories, protein = EXCLUDED.protein,
+    expiration_date = EXCLUDED.expiration_date, counter_start_date = EXCLUDED.counter_start_date,
+    is_indivisible = EXCLUDED.is_indivisible, is_infinite = EXCLUDED.is_infinite, is_dry = EXCLUDED.is_dry,
+    is_meal = EXCLUDED.is_meal, storage_type = EXCLUDED.storage_type, food_type = EXCLUDED.food_type,
+    sort_order = EXCLUDED.sort_order;
+  PERFORM public.set_stock_context(NULL);
+
+  IF d.possible_meal_id IS NOT NULL THEN
+    SELECT meal_id INTO v_meal_id FROM public.possible_meals WHERE id = d.possible_meal_id;
+    DELETE FROM public.possible_meals WHERE id = d.possible_meal_id;
+    -- Hidden meals only exist for their card
+    DELETE FROM public.meals m
+    WHERE m.id = v_meal_id AND NOT m.is_available
+      AND NOT EXISTS (SELECT 1 FROM public.possible_meals pm WHERE pm.meal_id = v_meal_id);
+  END IF;
+
+  UPDATE public.stock_deductions SET undone_at = now() WHERE id = p_deduction_id;
+END;
+$$;
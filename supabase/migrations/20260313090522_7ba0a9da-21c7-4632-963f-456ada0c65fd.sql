@@ -0,0 +1,55 @@
+
+-- Dated planning: a possible meal is planned on a calendar date instead of a weekday
+ALTER TABLE public.possible_meals ADD COLUMN planned_date DATE DEFAULT NULL;
+
+CREATE INDEX possible_meals_planned_date_idx ON public.possible_meals (planned_date);
+
+-- Weekday keys of the current week (Monday first), used to migrate existing plans
+CREATE TEMP TABLE planning_week_days AS
+SELECT day, to_char(date_trunc('week', current_date)::date + (ord::integer - 1), 'YYYY-MM-DD') AS date_key
+FROM unnest(ARRAY['lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi', 'dimanche']) WITH ORDINALITY AS w(day, ord);
+
+UPDATE public.possible_meals pm
+SET planned_date = w.date_key::date
+FROM planning_week_days w
+WHERE pm.day_of_week = w.day;
+
+COMMENT ON COLUMN public.possible_meals.day_of_week IS 'Deprecated: weekday of the old weekly planning, migrated to planned_date. Kept read-only for rollback.';
+
+-- Per-day planning preferences move to date keys ("lundi-midi" → "2026-03-09-midi").
+-- Values flagged in planning_keep_on_reset survived the weekly reset: they stay on the weekday key and now repeat every week.
+CREATE OR REPLACE FUNCTION pg_temp.date_planning_keys(p_value jsonb, p_keep jsonb, p_keep_prefix text)
+RETURNS jsonb
+LANGUAGE sql
+AS $$
+  SELECT coalesce(jsonb_object_agg(
+    CASE
+      WHEN w.day IS NULL THEN e.key
+      WHEN p_keep_prefix IS NOT NULL AND coalesce((p_keep->>(p_keep_prefix || e.key))::boolean, false) THEN e.key
+      ELSE w.date_key || substr(e.key, length(w.day) + 1)
+    END, e.value), '{}'::jsonb)
+  FROM jsonb_each(coalesce(p_value, '{}'::jsonb)) AS e
+  LEFT JOIN planning_week_days w ON e.key = w.day OR e.key LIKE w.day || '-%';
+$$;
+
+UPDATE public.user_preferences p
+SET value = pg_temp.date_planning_keys(p.value, k.value, CASE p.key
+    WHEN 'planning_breakfast' THEN 'breakfast-'
+    WHEN 'planning_manual_calories' THEN 'manual-'
+    WHEN 'planning_extra_calories' THEN 'extra-'
+  END),
+  updated_at = now()
+FROM (
+  SELECT p2.id, (SELECT kp.value FROM public.user_preferences kp
+                 WHERE kp.key = 'planning_keep_on_reset' AND kp.user_id IS NOT DISTINCT FROM p2.user_id LIMIT 1) AS value
+  FROM public.user_preferences p2
+) k
+WHERE k.id = p.id
+  AND p.key IN ('planning_breakfast', 'planning_manual_calories', 'planning_extra_calories', 'planning_drink_checks')
+  AND jsonb_typeof(p.value) = 'object';
+
+-- planning_breakfast_manual_calories was never reset: it stays on weekday keys (weekly values)
+
+DELETE FROM public.user_preferences WHERE key = 'last_weekly_reset';
+
+DROP TABLE planning_week_days;
@@ -0,0 +1,69 @@
+
+-- User-defined meal slots (possible_meals.meal_time holds the slot key)
+CREATE TABLE public.meal_slots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  key TEXT NOT NULL UNIQUE,
+  label TEXT NOT NULL,
+  emoji TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  -- Meal category offered first when filling the slot
+  default_category TEXT,
+  calorie_target INTEGER,
+  user_id UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.meal_slots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Auth users can view meal_slots" ON public.meal_slots FOR SELECT TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can insert meal_slots" ON public.meal_slots FOR INSERT TO authenticated WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can update meal_slots" ON public.meal_slots FOR UPDATE TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can delete meal_slots" ON public.meal_slots FOR DELETE TO authenticated USING (auth.uid() IS NOT NULL);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.meal_slots;
+
+INSERT INTO public.meal_slots (key, label, emoji, sort_order, default_category) VALUES
+  ('petit_dejeuner', 'Petit déj', '🥐', 0, 'petit_dejeuner'),
+  ('midi', 'Midi', NULL, 1, 'plat'),
+  ('soir', 'Soir', NULL, 2, 'plat');
+
+-- Breakfast becomes a regular slot: dated selections turn into planned possible_meals cards,
+-- weekly ones (weekday keys) into the slot's recurring meal, shown every week while the slot has no card
+INSERT INTO public.possible_meals (meal_id, planned_date, meal_time, quantity, sort_order, user_id)
+SELECT (e.value #>> '{}')::uuid, e.key::date, 'petit_dejeuner', 1,
+  (SELECT count(*) FROM public.possible_meals) + row_number() OVER (ORDER BY e.key::date), p.user_id
+FROM public.user_preferences p
+CROSS JOIN LATERAL jsonb_each(p.value) AS e
+WHERE p.key = 'planning_breakfast' AND jsonb_typeof(p.value) = 'object'
+  AND e.key ~ '^\d{4}-\d{2}-\d{2}$' AND e.value #>> '{}' ~ '^[0-9a-f-]{36}$'
+  AND EXISTS (SELECT 1 FROM public.meals m WHERE m.id = (e.value #>> '{}')::uuid);
+
+INSERT INTO public.user_preferences (user_id, key, value)
+SELECT p.user_id, 'planning_recurring_meals', jsonb_object_agg(e.key || '-petit_dejeuner', e.value)
+FROM public.user_preferences p
+CROSS JOIN LATERAL jsonb_each(p.value) AS e
+WHERE p.key = 'planning_breakfast' AND jsonb_typeof(p.value) = 'object'
+  AND e.key IN ('lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi', 'dimanche')
+  AND e.value #>> '{}' ~ '^[0-9a-f-]{36}$'
+  AND EXISTS (SELECT 1 FROM public.meals m WHERE m.id = (e.value #>> '{}')::uuid)
+GROUP BY p.user_id
+ON CONFLICT (user_id, key) DO UPDATE SET value = public.user_preferences.value || EXCLUDED.value, updated_at = now();
+
+-- Breakfast manual calories were never reset: they join the per-slot manual calories as weekly values
+INSERT INTO public.user_preferences (user_id, key, value)
+SELECT b.user_id, k.key, k.value
+FROM public.user_preferences b
+CROSS JOIN LATERAL (VALUES
+  ('planning_manual_calories', (SELECT jsonb_object_agg(e.key || '-petit_dejeuner', e.value) FROM jsonb_each(b.value) AS e)),
+  ('planning_keep_on_reset', (SELECT jsonb_object_agg('manual-' || e.key || '-petit_dejeuner', true) FROM jsonb_each(b.value) AS e))
+) AS k(key, value)
+WHERE b.key = 'planning_breakfast_manual_calories' AND jsonb_typeof(b.value) = 'object' AND b.value <> '{}'::jsonb
+ON CONFLICT (user_id, key) DO UPDATE SET value = public.user_preferences.value || EXCLUDED.value, updated_at = now();
+
+-- Weekly breakfast selection flags ("breakfast-lundi") no longer apply: recurring meals are always weekly
+UPDATE public.user_preferences
+SET value = value - coalesce((SELECT array_agg(k) FROM jsonb_object_keys(value) AS k WHERE k LIKE 'breakfast-%'), '{}'::text[]),
+  updated_at = now()
+WHERE key = 'planning_keep_on_reset' AND jsonb_typeof(value) = 'object';
+
+DELETE FROM public.user_preferences WHERE key IN ('planning_breakfast', 'planning_breakfast_manual_calories');
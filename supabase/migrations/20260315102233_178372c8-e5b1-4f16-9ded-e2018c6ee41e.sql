@@ -0,0 +1,54 @@
+
+-- Macronutrients as typed numeric columns (grams).
+-- meals: for the whole meal, like calories. food_items: per 100 g.
+ALTER TABLE public.meals
+  ADD COLUMN carbs NUMERIC DEFAULT NULL,
+  ADD COLUMN fat NUMERIC DEFAULT NULL,
+  ADD COLUMN fibre NUMERIC DEFAULT NULL,
+  ADD COLUMN sugar NUMERIC DEFAULT NULL,
+  ADD COLUMN salt NUMERIC DEFAULT NULL;
+
+ALTER TABLE public.food_items
+  ADD COLUMN carbs NUMERIC DEFAULT NULL,
+  ADD COLUMN fat NUMERIC DEFAULT NULL,
+  ADD COLUMN fibre NUMERIC DEFAULT NULL,
+  ADD COLUMN sugar NUMERIC DEFAULT NULL,
+  ADD COLUMN salt NUMERIC DEFAULT NULL;
+
+-- Ingredient nutrition suffix "{165;p31;g0;l3.6;f0;s0;sel0.2}", per 100 g (or per unit for counts)
+ALTER TABLE public.meal_ingredients
+  ADD COLUMN protein_per_100g NUMERIC DEFAULT NULL,
+  ADD COLUMN carbs_per_100g NUMERIC DEFAULT NULL,
+  ADD COLUMN fat_per_100g NUMERIC DEFAULT NULL,
+  ADD COLUMN fibre_per_100g NUMERIC DEFAULT NULL,
+  ADD COLUMN sugar_per_100g NUMERIC DEFAULT NULL,
+  ADD COLUMN salt_per_100g NUMERIC DEFAULT NULL;
+
+CREATE OR REPLACE FUNCTION public.replace_meal_ingredients(p_meal_id uuid, p_possible_meal_id uuid, p_rows jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (p_meal_id IS NULL) = (p_possible_meal_id IS NULL) THEN
+    RAISE EXCEPTION 'replace_meal_ingredients: exactly one of p_meal_id / p_possible_meal_id is required';
+  END IF;
+
+  IF p_meal_id IS NOT NULL THEN
+    DELETE FROM public.meal_ingredients WHERE meal_id = p_meal_id;
+  ELSE
+    DELETE FROM public.meal_ingredients WHERE possible_meal_id = p_possible_meal_id;
+  END IF;
+
+  INSERT INTO public.meal_ingredients (meal_id, possible_meal_id, group_index, alt_index, qty, unit, count, name, optional,
+    kcal_per_100g, protein_per_100g, carbs_per_100g, fat_per_100g, fibre_per_100g, sugar_per_100g, salt_per_100g)
+  SELECT p_meal_id, p_possible_meal_id,
+    (r->>'group_index')::integer, coalesce((r->>'alt_index')::integer, 0),
+    (r->>'qty')::numeric, nullif(r->>'unit', ''), (r->>'count')::numeric, r->>'name',
+    coalesce((r->>'optional')::boolean, false), (r->>'kcal_per_100g')::numeric,
+    (r->>'protein_per_100g')::numeric, (r->>'carbs_per_100g')::numeric, (r->>'fat_per_100g')::numeric,
+    (r->>'fibre_per_100g')::numeric, (r->>'sugar_per_100g')::numeric, (r->>'salt_per_100g')::numeric
+  FROM jsonb_array_elements(coalesce(p_rows, '[]'::jsonb)) AS r
+  WHERE coalesce(btrim(r->>'name'), '') <> '';
+END;
+$$;
@@ -0,0 +1,29 @@
+-- Local product catalog looked up by barcode (EAN-13). Unknown codes are learned on first entry.
+-- Nutrition is per 100 g; storage_type is the default section when the product is added to stock.
+CREATE TABLE public.product_catalog (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ean TEXT NOT NULL UNIQUE CHECK (ean ~ '^[0-9]{13}$'),
+  name TEXT NOT NULL,
+  brand TEXT,
+  net_grams NUMERIC,
+  kcal NUMERIC,
+  protein NUMERIC,
+  carbs NUMERIC,
+  fat NUMERIC,
+  fibre NUMERIC,
+  sugar NUMERIC,
+  salt NUMERIC,
+  storage_type TEXT,
+  user_id UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.product_catalog ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Auth users can view product_catalog" ON public.product_catalog FOR SELECT TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can insert product_catalog" ON public.product_catalog FOR INSERT TO authenticated WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can update product_catalog" ON public.product_catalog FOR UPDATE TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can delete product_catalog" ON public.product_catalog FOR DELETE TO authenticated USING (auth.uid() IS NOT NULL);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.product_catalog;
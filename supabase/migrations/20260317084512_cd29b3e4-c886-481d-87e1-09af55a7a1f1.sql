@@ -0,0 +1,55 @@
+
+-- Recurring day types (training, rest, guests…): daily goals and meals required on each such day
+CREATE TABLE public.day_types (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  label TEXT NOT NULL,
+  emoji TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  -- Daily goals on these days; NULL = the planning's usual goal
+  calorie_target INTEGER,
+  protein_target INTEGER,
+  -- Number of such days in a week, used by the menu generator
+  days_per_week INTEGER NOT NULL DEFAULT 0 CHECK (days_per_week BETWEEN 0 AND 7),
+  -- Plats to put in the menu once per day of this type
+  required_meal_ids UUID[] NOT NULL DEFAULT '{}',
+  user_id UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.day_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Auth users can view day_types" ON public.day_types FOR SELECT TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can insert day_types" ON public.day_types FOR INSERT TO authenticated WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can update day_types" ON public.day_types FOR UPDATE TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can delete day_types" ON public.day_types FOR DELETE TO authenticated USING (auth.uid() IS NOT NULL);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.day_types;
+
+-- The menu generator's "avant grimpe" special case becomes a "Grimpe" day type
+INSERT INTO public.day_types (label, emoji, sort_order, days_per_week, required_meal_ids, user_id)
+SELECT 'Grimpe', '🧗', 0,
+  coalesce((
+    SELECT least(greatest((p.value #>> '{}')::integer, 0), 7)
+    FROM public.user_preferences p
+    WHERE p.key = 'menu_generator_grimpe_count_v1' AND jsonb_typeof(p.value) = 'number'
+    LIMIT 1
+  ), 4),
+  (array_agg(m.id ORDER BY m.sort_order))[1:1],
+  (array_agg(m.user_id ORDER BY m.sort_order))[1]
+FROM public.meals m
+WHERE m.category = 'plat' AND lower(m.name) LIKE '%avant grimpe%'
+HAVING count(*) > 0;
+
+-- "Pain + fuet" was always left out of the generated menu: it becomes an excluded meal
+INSERT INTO public.user_preferences (user_id, key, value)
+SELECT m.user_id, 'menu_generator_constraints_v1', jsonb_build_object('excluded', jsonb_agg(m.id))
+FROM public.meals m
+WHERE m.category = 'plat' AND regexp_replace(lower(m.name), '\s+', ' ', 'g') ~ 'pain ?\+ ?fuet'
+GROUP BY m.user_id
+ON CONFLICT (user_id, key) DO UPDATE
+SET value = public.user_preferences.value || jsonb_build_object(
+    'excluded', coalesce(public.user_preferences.value -> 'excluded', '[]'::jsonb) || (EXCLUDED.value -> 'excluded')
+  ),
+  updated_at = now();
+
+DELETE FROM public.user_preferences WHERE key = 'menu_generator_grimpe_count_v1';
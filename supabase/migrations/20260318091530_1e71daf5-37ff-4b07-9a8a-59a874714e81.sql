@@ -0,0 +1,25 @@
+-- Price history: what a product cost, where and when, for which pack size
+CREATE TABLE public.price_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Product name as written on the shopping list, matched by name like the stock
+  name TEXT NOT NULL,
+  -- Price of one pack, in euros
+  price NUMERIC NOT NULL CHECK (price >= 0),
+  store TEXT,
+  bought_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  content_quantity TEXT,
+  content_quantity_type TEXT,
+  user_id UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX price_history_bought_on_idx ON public.price_history (bought_on DESC);
+
+ALTER TABLE public.price_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Auth users can view price_history" ON public.price_history FOR SELECT TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can insert price_history" ON public.price_history FOR INSERT TO authenticated WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can update price_history" ON public.price_history FOR UPDATE TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can delete price_history" ON public.price_history FOR DELETE TO authenticated USING (auth.uid() IS NOT NULL);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.price_history;
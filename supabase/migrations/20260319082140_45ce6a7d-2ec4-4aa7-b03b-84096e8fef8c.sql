@@ -0,0 +1,64 @@
+-- Stores: each supermarket has its own walking order for the shopping groups and items,
+-- and items it does not sell. Without a store the list keeps its own order.
+CREATE TABLE public.stores (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  user_id UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Aisle order of the groups in a store
+CREATE TABLE public.store_groups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  group_id UUID NOT NULL REFERENCES public.shopping_groups(id) ON DELETE CASCADE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  user_id UUID DEFAULT auth.uid(),
+  UNIQUE (store_id, group_id)
+);
+
+-- Order of the items within their group in a store, and whether the store sells them
+CREATE TABLE public.store_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.shopping_items(id) ON DELETE CASCADE,
+  -- NULL = the list's own order
+  sort_order INTEGER,
+  available BOOLEAN NOT NULL DEFAULT true,
+  user_id UUID DEFAULT auth.uid(),
+  UNIQUE (store_id, item_id)
+);
+
+ALTER TABLE public.stores ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.store_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.store_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Auth users can view stores" ON public.stores FOR SELECT TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can insert stores" ON public.stores FOR INSERT TO authenticated WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can update stores" ON public.stores FOR UPDATE TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can delete stores" ON public.stores FOR DELETE TO authenticated USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Auth users can view store_groups" ON public.store_groups FOR SELECT TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can insert store_groups" ON public.store_groups FOR INSERT TO authenticated WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can update store_groups" ON public.store_groups FOR UPDATE TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can delete store_groups" ON public.store_groups FOR DELETE TO authenticated USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Auth users can view store_items" ON public.store_items FOR SELECT TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can insert store_items" ON public.store_items FOR INSERT TO authenticated WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can update store_items" ON public.store_items FOR UPDATE TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can delete store_items" ON public.store_items FOR DELETE TO authenticated USING (auth.uid() IS NOT NULL);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.stores;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.store_groups;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.store_items;
+
+-- Stores already named in the price history
+INSERT INTO public.stores (name, sort_order, user_id)
+SELECT s.store, (row_number() OVER (ORDER BY s.store))::integer - 1, s.user_id
+FROM (
+  SELECT DISTINCT ON (lower(btrim(store))) btrim(store) AS store, user_id
+  FROM public.price_history
+  WHERE coalesce(btrim(store), '') <> ''
+  ORDER BY lower(btrim(store)), created_at
+) s;
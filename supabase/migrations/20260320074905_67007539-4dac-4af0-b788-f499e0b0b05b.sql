@@ -0,0 +1,7 @@
+-- Recipe: ordered preparation steps with an optional timer, and prep / cook / rest times (minutes)
+-- steps: [{ "text": "Faire revenir les oignons", "timer_minutes": 5 }, …]
+ALTER TABLE public.meals
+  ADD COLUMN steps JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(steps) = 'array'),
+  ADD COLUMN prep_minutes INTEGER CHECK (prep_minutes >= 0),
+  ADD COLUMN cook_minutes INTEGER CHECK (cook_minutes >= 0),
+  ADD COLUMN rest_minutes INTEGER CHECK (rest_minutes >= 0);
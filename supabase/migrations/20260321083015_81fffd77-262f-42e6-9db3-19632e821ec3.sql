@@ -0,0 +1,41 @@
+-- Kitchen timers: several named countdowns (with a duration) and count-ups running at once,
+-- optionally linked to a meal (oven time, or a recipe step). Synced through realtime.
+CREATE TABLE public.kitchen_timers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'countdown' CHECK (kind IN ('countdown', 'countup')),
+  -- Countdowns only
+  duration_seconds INTEGER CHECK (duration_seconds > 0),
+  running BOOLEAN NOT NULL DEFAULT false,
+  started_at TIMESTAMP WITH TIME ZONE,
+  -- Time counted before the last start
+  accumulated_ms BIGINT NOT NULL DEFAULT 0,
+  meal_id UUID REFERENCES public.meals(id) ON DELETE CASCADE,
+  -- Recipe step of the meal this timer belongs to (cooking mode)
+  step_index INTEGER,
+  user_id UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (kind = 'countup' OR duration_seconds IS NOT NULL)
+);
+
+ALTER TABLE public.kitchen_timers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Auth users can view kitchen_timers" ON public.kitchen_timers FOR SELECT TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can insert kitchen_timers" ON public.kitchen_timers FOR INSERT TO authenticated WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can update kitchen_timers" ON public.kitchen_timers FOR UPDATE TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can delete kitchen_timers" ON public.kitchen_timers FOR DELETE TO authenticated USING (auth.uid() IS NOT NULL);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.kitchen_timers;
+
+-- The old single chronometer becomes a count-up timer
+INSERT INTO public.kitchen_timers (name, kind, running, started_at, accumulated_ms, user_id)
+SELECT 'Chrono', 'countup',
+  COALESCE((value->>'running')::boolean, false) AND value->>'startedAt' IS NOT NULL,
+  CASE WHEN COALESCE((value->>'running')::boolean, false) THEN (value->>'startedAt')::timestamptz END,
+  COALESCE((value->>'accumulated')::numeric, 0)::bigint,
+  user_id
+FROM public.user_preferences
+WHERE key = 'chronometer_state'
+  AND (COALESCE((value->>'running')::boolean, false) OR COALESCE((value->>'accumulated')::numeric, 0) > 0);
+
+DELETE FROM public.user_preferences WHERE key = 'chronometer_state' OR key LIKE 'cooking\_timer\_%';
@@ -0,0 +1,65 @@
+-- Servings: a recipe declares what its ingredient list makes (a number of servings, or a total weight),
+-- and a possible meal how many servings are cooked. NULL yield = one serving; NULL servings = the recipe as written.
+ALTER TABLE public.meals
+  ADD COLUMN yield_servings NUMERIC CHECK (yield_servings > 0),
+  ADD COLUMN yield_grams NUMERIC CHECK (yield_grams > 0);
+
+ALTER TABLE public.possible_meals
+  ADD COLUMN servings NUMERIC CHECK (servings > 0);
+
+-- Moving to Possible can now record the servings and their scaled ingredients (override rows)
+DROP FUNCTION IF EXISTS public.move_meal_to_possible(uuid, jsonb, date, timestamptz, integer, jsonb);
+
+CREATE OR REPLACE FUNCTION public.move_meal_to_possible(
+  p_meal_id uuid,
+  p_needs jsonb,
+  p_expiration_date date DEFAULT NULL,
+  p_counter_start_date timestamptz DEFAULT NULL,
+  p_quantity integer DEFAULT 1,
+  p_new_meal jsonb DEFAULT NULL,
+  p_servings numeric DEFAULT NULL,
+  p_override_rows jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_meal_id uuid := p_meal_id;
+  v_possible_id uuid;
+  v_deduction_id uuid;
+  v_result jsonb;
+BEGIN
+  IF p_new_meal IS NOT NULL THEN
+    INSERT INTO public.meals (name, category, color, sort_order, is_available, calories, grams)
+    VALUES (p_new_meal->>'name', coalesce(p_new_meal->>'category', 'plat'), p_new_meal->>'color', 0, false,
+      p_new_meal->>'calories', p_new_meal->>'grams')
+    RETURNING id INTO v_meal_id;
+    PERFORM public.replace_meal_ingredients(v_meal_id, NULL, coalesce(p_new_meal->'rows', '[]'::jsonb));
+  END IF;
+  IF v_meal_id IS NULL THEN
+    RAISE EXCEPTION 'move_meal_to_possible: p_meal_id or p_new_meal is required';
+  END IF;
+
+  INSERT INTO public.possible_meals (meal_id, sort_order, quantity, expiration_date, counter_start_date, servings)
+  VALUES (v_meal_id, (SELECT count(*) FROM public.possible_meals), greatest(1, coalesce(p_quantity, 1)), p_expiration_date, p_counter_start_date, p_servings)
+  RETURNING id INTO v_possible_id;
+
+  IF p_override_rows IS NOT NULL THEN
+    PERFORM public.replace_meal_ingredients(NULL, v_possible_id, p_override_rows);
+  END IF;
+
+  PERFORM public.set_stock_context('deduct_meal', v_meal_id, v_possible_id);
+  v_result := public.apply_stock_needs(p_needs);
+  PERFORM public.set_stock_context(NULL);
+
+  INSERT INTO public.stock_deductions (meal_id, possible_meal_id, snapshot, report)
+  VALUES (v_meal_id, v_possible_id, v_result->'snapshot', v_result->'report')
+  RETURNING id INTO v_deduction_id;
+
+  RETURN jsonb_build_object(
+    'deduction_id', v_deduction_id, 'possible_meal_id', v_possible_id, 'meal_id', v_meal_id,
+    'report', v_result->'report', 'snapshot', v_result->'snapshot'
+  );
+END;
+$$;
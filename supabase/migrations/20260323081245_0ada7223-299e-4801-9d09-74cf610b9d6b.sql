@@ -0,0 +1,23 @@
+-- Household members: who eats at home, with their own daily goals and their share of a shared plate.
+-- Without members the planning keeps its single goal (planning_daily_goal / planning_protein_goal).
+CREATE TABLE public.household_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  color TEXT,
+  calorie_goal INTEGER NOT NULL DEFAULT 2000 CHECK (calorie_goal > 0),
+  protein_goal INTEGER NOT NULL DEFAULT 80 CHECK (protein_goal > 0),
+  -- Relative size of this member's plate when a meal is split (1 = equal parts)
+  portion_ratio NUMERIC NOT NULL DEFAULT 1 CHECK (portion_ratio > 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  user_id UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.household_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Auth users can view household_members" ON public.household_members FOR SELECT TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can insert household_members" ON public.household_members FOR INSERT TO authenticated WITH CHECK (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can update household_members" ON public.household_members FOR UPDATE TO authenticated USING (auth.uid() IS NOT NULL);
+CREATE POLICY "Auth users can delete household_members" ON public.household_members FOR DELETE TO authenticated USING (auth.uid() IS NOT NULL);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.household_members;
@@ -0,0 +1,352 @@
+-- Households own the data. Everyone signs in with their own account and sees the data of their
+-- active household (profiles.active_household_id); a household's owners manage who belongs to it.
+CREATE TABLE public.households (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.household_memberships (
+  household_id UUID NOT NULL REFERENCES public.households(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- owner: manages members, invites and the household's name; member: reads and writes the data
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (household_id, user_id)
+);
+
+CREATE INDEX idx_household_memberships_user ON public.household_memberships(user_id);
+
+CREATE TABLE public.profiles (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT,
+  active_household_id UUID REFERENCES public.households(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Single-use codes to join a household, at sign-up or from the household settings
+CREATE TABLE public.household_invites (
+  code TEXT NOT NULL PRIMARY KEY,
+  household_id UUID NOT NULL REFERENCES public.households(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_by UUID DEFAULT auth.uid(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Membership checks bypass RLS so policies on household_memberships can use them without recursing
+CREATE OR REPLACE FUNCTION public.household_role(p_household_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.household_memberships WHERE household_id = p_household_id AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_household_member(p_household_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.household_role(p_household_id) IS NOT NULL;
+$$;
+
+-- The active household, or the oldest membership when none is active (or it was left)
+CREATE OR REPLACE FUNCTION public.current_household_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.household_id
+  FROM public.household_memberships m
+  LEFT JOIN public.profiles p ON p.user_id = m.user_id
+  WHERE m.user_id = auth.uid()
+  ORDER BY (m.household_id = p.active_household_id) DESC NULLS LAST, m.created_at
+  LIMIT 1;
+$$;
+
+-- New household with its owner and the default meal slots; becomes the owner's active household
+CREATE OR REPLACE FUNCTION public.create_household_for(p_user_id uuid, p_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_household_id uuid;
+BEGIN
+  INSERT INTO public.households (name) VALUES (coalesce(nullif(trim(p_name), ''), 'Maison')) RETURNING id INTO v_household_id;
+  INSERT INTO public.household_memberships (household_id, user_id, role) VALUES (v_household_id, p_user_id, 'owner');
+  INSERT INTO public.meal_slots (key, label, emoji, sort_order, default_category, household_id, user_id) VALUES
+    ('petit_dejeuner', 'Petit déj', '🥐', 0, 'petit_dejeuner', v_household_id, p_user_id),
+    ('midi', 'Midi', NULL, 1, 'plat', v_household_id, p_user_id),
+    ('soir', 'Soir', NULL, 2, 'plat', v_household_id, p_user_id);
+  UPDATE public.profiles SET active_household_id = v_household_id WHERE user_id = p_user_id;
+  RETURN v_household_id;
+END;
+$$;
+
+-- Joins with a valid invite code (then used up); returns the household, NULL for an unknown or expired code
+CREATE OR REPLACE FUNCTION public.join_household_for(p_user_id uuid, p_code text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.household_invites%ROWTYPE;
+BEGIN
+  DELETE FROM public.household_invites
+  WHERE code = upper(trim(p_code)) AND expires_at > now()
+  RETURNING * INTO v_invite;
+  IF v_invite.code IS NULL THEN RETURN NULL; END IF;
+
+  INSERT INTO public.household_memberships (household_id, user_id, role)
+  VALUES (v_invite.household_id, p_user_id, v_invite.role)
+  ON CONFLICT (household_id, user_id) DO NOTHING;
+  UPDATE public.profiles SET active_household_id = v_invite.household_id WHERE user_id = p_user_id;
+  RETURN v_invite.household_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_household_for(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.join_household_for(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Sign-up: a profile, then the household of the invite code given at sign-up, or a new one
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_name text := nullif(trim(NEW.raw_user_meta_data->>'display_name'), '');
+BEGIN
+  INSERT INTO public.profiles (user_id, display_name) VALUES (NEW.id, v_name) ON CONFLICT (user_id) DO NOTHING;
+  IF coalesce(NEW.raw_user_meta_data->>'invite_code', '') = ''
+     OR public.join_household_for(NEW.id, NEW.raw_user_meta_data->>'invite_code') IS NULL THEN
+    PERFORM public.create_household_for(NEW.id, CASE WHEN v_name IS NULL THEN 'Maison' ELSE 'Maison de ' || v_name END);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+AFTER INSERT ON auth.users
+FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+CREATE OR REPLACE FUNCTION public.create_household(p_name text)
+RETURNS uuid
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.create_household_for(auth.uid(), p_name);
+$$;
+
+CREATE OR REPLACE FUNCTION public.join_household(p_code text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_household_id uuid := public.join_household_for(auth.uid(), p_code);
+BEGIN
+  IF v_household_id IS NULL THEN RAISE EXCEPTION 'Code d''invitation invalide ou expiré'; END IF;
+  RETURN v_household_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.switch_household(p_household_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_household_member(p_household_id) THEN RAISE EXCEPTION 'Foyer introuvable'; END IF;
+  UPDATE public.profiles SET active_household_id = p_household_id WHERE user_id = auth.uid();
+END;
+$$;
+
+-- Owners only; 8 characters without the look-alikes (0/O, 1/I)
+CREATE OR REPLACE FUNCTION public.create_household_invite(p_role text DEFAULT 'member')
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_household_id uuid := public.current_household_id();
+  v_code text;
+BEGIN
+  IF public.household_role(v_household_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Seul un propriétaire peut inviter';
+  END IF;
+  SELECT string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 1 + floor(random() * 32)::integer, 1), '')
+  INTO v_code FROM generate_series(1, 8);
+  INSERT INTO public.household_invites (code, household_id, role) VALUES (v_code, v_household_id, p_role);
+  RETURN v_code;
+END;
+$$;
+
+-- The last owner can only leave once nobody else is left; the household then goes with its data
+CREATE OR REPLACE FUNCTION public.leave_household(p_household_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.household_role(p_household_id) = 'owner'
+     AND NOT EXISTS (SELECT 1 FROM public.household_memberships WHERE household_id = p_household_id AND role = 'owner' AND user_id <> auth.uid())
+     AND EXISTS (SELECT 1 FROM public.household_memberships WHERE household_id = p_household_id AND user_id <> auth.uid()) THEN
+    RAISE EXCEPTION 'Nomme un autre propriétaire avant de quitter le foyer';
+  END IF;
+  DELETE FROM public.household_memberships WHERE household_id = p_household_id AND user_id = auth.uid();
+  DELETE FROM public.households h
+  WHERE h.id = p_household_id AND NOT EXISTS (SELECT 1 FROM public.household_memberships m WHERE m.household_id = h.id);
+END;
+$$;
+
+ALTER TABLE public.households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.household_memberships ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.household_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their households" ON public.households FOR SELECT TO authenticated USING (public.is_household_member(id));
+CREATE POLICY "Owners can update their households" ON public.households FOR UPDATE TO authenticated USING (public.household_role(id) = 'owner');
+
+-- Owners manage the others; their own membership changes only through leave_household
+CREATE POLICY "Members can view memberships" ON public.household_memberships FOR SELECT TO authenticated USING (public.is_household_member(household_id));
+CREATE POLICY "Owners can update memberships" ON public.household_memberships FOR UPDATE TO authenticated USING (public.household_role(household_id) = 'owner' AND user_id <> auth.uid());
+CREATE POLICY "Owners can delete memberships" ON public.household_memberships FOR DELETE TO authenticated USING (public.household_role(household_id) = 'owner' AND user_id <> auth.uid());
+
+CREATE POLICY "Users can view profiles of their households" ON public.profiles FOR SELECT TO authenticated USING (
+  user_id = auth.uid() OR EXISTS (
+    SELECT 1 FROM public.household_memberships m WHERE m.user_id = profiles.user_id AND public.is_household_member(m.household_id)
+  )
+);
+CREATE POLICY "Users can update own profile" ON public.profiles FOR UPDATE TO authenticated USING (user_id = auth.uid());
+
+CREATE POLICY "Owners can view invites" ON public.household_invites FOR SELECT TO authenticated USING (public.household_role(household_id) = 'owner');
+CREATE POLICY "Owners can delete invites" ON public.household_invites FOR DELETE TO authenticated USING (public.household_role(household_id) = 'owner');
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.household_memberships;
+
+-- Existing data and accounts move into a default household
+DO $$
+DECLARE
+  v_household_id uuid;
+  v_table text;
+  v_policy record;
+BEGIN
+  INSERT INTO public.households (name) VALUES ('Maison') RETURNING id INTO v_household_id;
+  INSERT INTO public.profiles (user_id, active_household_id) SELECT id, v_household_id FROM auth.users;
+  INSERT INTO public.household_memberships (household_id, user_id, role) SELECT v_household_id, id, 'owner' FROM auth.users;
+
+  FOREACH v_table IN ARRAY ARRAY[
+    'meals', 'possible_meals', 'meal_ingredients', 'food_items', 'stock_deductions', 'stock_movements',
+    'shopping_groups', 'shopping_items', 'product_catalog', 'price_history', 'stores', 'store_groups', 'store_items',
+    'meal_slots', 'day_types', 'kitchen_timers', 'household_members', 'user_preferences'
+  ] LOOP
+    EXECUTE format('ALTER TABLE public.%I ADD COLUMN household_id UUID REFERENCES public.households(id) ON DELETE CASCADE', v_table);
+    EXECUTE format('UPDATE public.%I SET household_id = %L', v_table, v_household_id);
+    EXECUTE format('ALTER TABLE public.%I ALTER COLUMN household_id SET NOT NULL, ALTER COLUMN household_id SET DEFAULT public.current_household_id()', v_table);
+    EXECUTE format('CREATE INDEX idx_%s_household ON public.%I(household_id)', v_table, v_table);
+
+    -- Replaces the "any signed-in user" and "own user_id" policies
+    FOR v_policy IN SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = v_table LOOP
+      EXECUTE format('DROP POLICY %I ON public.%I', v_policy.policyname, v_table);
+    END LOOP;
+    EXECUTE format('CREATE POLICY %I ON public.%I FOR SELECT TO authenticated USING (household_id = (SELECT public.current_household_id()))', 'Household can view ' || v_table, v_table);
+    -- The ledger stays read-only: only the food_items trigger writes it
+    CONTINUE WHEN v_table = 'stock_movements';
+    EXECUTE format('CREATE POLICY %I ON public.%I FOR INSERT TO authenticated WITH CHECK (household_id = (SELECT public.current_household_id()))', 'Household can insert ' || v_table, v_table);
+    EXECUTE format('CREATE POLICY %I ON public.%I FOR UPDATE TO authenticated USING (household_id = (SELECT public.current_household_id())) WITH CHECK (household_id = (SELECT public.current_household_id()))', 'Household can update ' || v_table, v_table);
+    EXECUTE format('CREATE POLICY %I ON public.%I FOR DELETE TO authenticated USING (household_id = (SELECT public.current_household_id()))', 'Household can delete ' || v_table, v_table);
+  END LOOP;
+END;
+$$;
+
+-- Keys that were unique for the single account are unique per household
+DELETE FROM public.user_preferences p
+USING public.user_preferences newer
+WHERE newer.household_id = p.household_id AND newer.key = p.key
+  AND (newer.updated_at, newer.id) > (p.updated_at, p.id);
+ALTER TABLE public.user_preferences DROP CONSTRAINT IF EXISTS user_preferences_user_id_key_key;
+ALTER TABLE public.user_preferences ADD CONSTRAINT user_preferences_household_id_key_key UNIQUE (household_id, key);
+ALTER TABLE public.meal_slots DROP CONSTRAINT IF EXISTS meal_slots_key_key;
+ALTER TABLE public.meal_slots ADD CONSTRAINT meal_slots_household_id_key_key UNIQUE (household_id, key);
+ALTER TABLE public.product_catalog DROP CONSTRAINT IF EXISTS product_catalog_ean_key;
+ALTER TABLE public.product_catalog ADD CONSTRAINT product_catalog_household_id_ean_key UNIQUE (household_id, ean);
+
+-- Movements belong to their item's household, whoever (or whichever service) changed it
+CREATE OR REPLACE FUNCTION public.log_stock_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  headers json := nullif(current_setting('request.headers', true), '')::json;
+  v_reason text := coalesce(nullif(current_setting('app.stock_reason', true), ''), headers->>'x-stock-reason');
+  v_meal_id text := coalesce(nullif(current_setting('app.stock_meal_id', true), ''), headers->>'x-stock-meal-id');
+  v_possible_id text := coalesce(nullif(current_setting('app.stock_possible_meal_id', true), ''), headers->>'x-stock-possible-meal-id');
+  v_item public.food_items%ROWTYPE;
+  qty_before integer;
+  qty_after integer;
+  grams_before numeric := 0;
+  grams_after numeric := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.quantity IS NOT DISTINCT FROM NEW.quantity AND OLD.grams IS NOT DISTINCT FROM NEW.grams THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN v_item := OLD; ELSE v_item := NEW; END IF;
+  IF TG_OP <> 'INSERT' THEN
+    qty_before := OLD.quantity;
+    grams_before := public.stock_total_grams(OLD.grams, OLD.quantity);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    qty_after := NEW.quantity;
+    grams_after := public.stock_total_grams(NEW.grams, NEW.quantity);
+  END IF;
+
+  IF v_reason IS NULL OR v_reason NOT IN ('add', 'consume', 'deduct_meal', 'restore', 'adjust', 'expire', 'discard', 'edit') THEN
+    v_reason := CASE
+      WHEN TG_OP = 'INSERT' THEN 'add'
+      WHEN TG_OP = 'UPDATE' THEN 'edit'
+      WHEN OLD.expiration_date < current_date THEN 'expire'
+      ELSE 'discard'
+    END;
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    food_item_id, food_name, reason, quantity_delta, grams_delta,
+    quantity_before, quantity_after, grams_before, grams_after,
+    meal_id, possible_meal_id, user_id, household_id
+  ) VALUES (
+    v_item.id, v_item.name, v_reason,
+    CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE -coalesce(OLD.quantity, 1) END + CASE WHEN TG_OP = 'DELETE' THEN 0 ELSE coalesce(NEW.quantity, 1) END,
+    grams_after - grams_before,
+    qty_before, qty_after,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.grams END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE NEW.grams END,
+    CASE WHEN v_meal_id ~ '^[0-9a-f-]{36}$' THEN v_meal_id::uuid END,
+    CASE WHEN v_possible_id ~ '^[0-9a-f-]{36}$' THEN v_possible_id::uuid END,
+    coalesce(auth.uid(), v_item.user_id),
+    v_item.household_id
+  );
+
+  IF TG_OP = 'DELETE' THEN RETURN OLD; END IF;
+  RETURN NEW;
+END;
+$$;
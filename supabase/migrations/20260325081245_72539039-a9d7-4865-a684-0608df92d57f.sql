@@ -0,0 +1,37 @@
+-- Quick unlock of a signed-in device: a PIN per user and device, stored as a salted PBKDF2 hash,
+-- and passkeys (WebAuthn credentials). Only the verify-pin edge function reads or writes them.
+CREATE TABLE public.device_pins (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Random id kept in the device's local storage
+  device_id TEXT NOT NULL,
+  label TEXT,
+  pin_salt TEXT NOT NULL,
+  pin_hash TEXT NOT NULL,
+  iterations INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (user_id, device_id)
+);
+
+CREATE TABLE public.passkeys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  device_id TEXT,
+  label TEXT,
+  -- base64url
+  credential_id TEXT NOT NULL UNIQUE,
+  public_key TEXT NOT NULL,
+  counter BIGINT NOT NULL DEFAULT 0,
+  transports TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_passkeys_user ON public.passkeys(user_id);
+
+ALTER TABLE public.device_pins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.passkeys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "No direct access to device_pins" ON public.device_pins FOR ALL USING (false);
+CREATE POLICY "No direct access to passkeys" ON public.passkeys FOR ALL USING (false);
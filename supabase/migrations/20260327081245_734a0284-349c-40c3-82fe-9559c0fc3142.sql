@@ -0,0 +1,66 @@
+-- Undo / redo restores food_items rows directly and tags them "undo"
+ALTER TABLE public.stock_movements DROP CONSTRAINT IF EXISTS stock_movements_reason_check;
+ALTER TABLE public.stock_movements ADD CONSTRAINT stock_movements_reason_check
+  CHECK (reason IN ('add', 'consume', 'deduct_meal', 'restore', 'adjust', 'expire', 'discard', 'edit', 'undo'));
+
+CREATE OR REPLACE FUNCTION public.log_stock_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  headers json := nullif(current_setting('request.headers', true), '')::json;
+  v_reason text := coalesce(nullif(current_setting('app.stock_reason', true), ''), headers->>'x-stock-reason');
+  v_meal_id text := coalesce(nullif(current_setting('app.stock_meal_id', true), ''), headers->>'x-stock-meal-id');
+  v_possible_id text := coalesce(nullif(current_setting('app.stock_possible_meal_id', true), ''), headers->>'x-stock-possible-meal-id');
+  v_item public.food_items%ROWTYPE;
+  qty_before integer;
+  qty_after integer;
+  grams_before numeric := 0;
+  grams_after numeric := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.quantity IS NOT DISTINCT FROM NEW.quantity AND OLD.grams IS NOT DISTINCT FROM NEW.grams THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN v_item := OLD; ELSE v_item := NEW; END IF;
+  IF TG_OP <> 'INSERT' THEN
+    qty_before := OLD.quantity;
+    grams_before := public.stock_total_grams(OLD.grams, OLD.quantity);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    qty_after := NEW.quantity;
+    grams_after := public.stock_total_grams(NEW.grams, NEW.quantity);
+  END IF;
+
+  IF v_reason IS NULL OR v_reason NOT IN ('add', 'consume', 'deduct_meal', 'restore', 'adjust', 'expire', 'discard', 'edit', 'undo') THEN
+    v_reason := CASE
+      WHEN TG_OP = 'INSERT' THEN 'add'
+      WHEN TG_OP = 'UPDATE' THEN 'edit'
+      WHEN OLD.expiration_date < current_date THEN 'expire'
+      ELSE 'discard'
+    END;
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    food_item_id, food_name, reason, quantity_delta, grams_delta,
+    quantity_before, quantity_after, grams_before, grams_after,
+    meal_id, possible_meal_id, user_id, household_id
+  ) VALUES (
+    v_item.id, v_item.name, v_reason,
+    CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE -coalesce(OLD.quantity, 1) END + CASE WHEN TG_OP = 'DELETE' THEN 0 ELSE coalesce(NEW.quantity, 1) END,
+    grams_after - grams_before,
+    qty_before, qty_after,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.grams END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE NEW.grams END,
+    CASE WHEN v_meal_id ~ '^[0-9a-f-]{36}$' THEN v_meal_id::uuid END,
+    CASE WHEN v_possible_id ~ '^[0-9a-f-]{36}$' THEN v_possible_id::uuid END,
+    coalesce(auth.uid(), v_item.user_id),
+    v_item.household_id
+  );
+
+  IF TG_OP = 'DELETE' THEN RETURN OLD; END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,28 @@
+-- Servings are saved in the same transaction as the ingredients they scale.
+-- p_update_servings tells "leave servings alone" from "back to the recipe as written" (NULL).
+DROP FUNCTION IF EXISTS public.update_possible_ingredients_with_stock(uuid, jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION public.update_possible_ingredients_with_stock(
+  p_possible_meal_id uuid,
+  p_needs jsonb,
+  p_rows jsonb,
+  p_servings numeric DEFAULT NULL,
+  p_update_servings boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  PERFORM public.set_stock_context('adjust', (SELECT meal_id FROM public.possible_meals WHERE id = p_possible_meal_id), p_possible_meal_id);
+  v_result := public.apply_stock_needs(p_needs);
+  PERFORM public.set_stock_context(NULL);
+  PERFORM public.replace_meal_ingredients(NULL, p_possible_meal_id, p_rows);
+  IF p_update_servings THEN
+    UPDATE public.possible_meals SET servings = p_servings WHERE id = p_possible_meal_id;
+  END IF;
+  RETURN jsonb_build_object('report', v_result->'report', 'snapshot', v_result->'snapshot');
+END;
+$$;
@@ -0,0 +1,15 @@
+-- Who may use the security dashboard (attempts, lockouts, IP lists, thresholds). The settings are shared by
+-- every household, so the role is granted by hand, never by sign-up: only the verify-pin edge function reads it.
+CREATE TABLE public.security_admins (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.security_admins ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "No direct access to security_admins" ON public.security_admins FOR ALL USING (false);
+
+-- The owners of the first household (the accounts that existed before households) keep the tools
+INSERT INTO public.security_admins (user_id)
+SELECT m.user_id FROM public.household_memberships m
+WHERE m.role = 'owner' AND m.household_id = (SELECT id FROM public.households ORDER BY created_at LIMIT 1)
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,129 @@
+-- Restoring a backup in one transaction: the rows come from planRestore (new ids, references remapped),
+-- replace mode first empties the household's tables. Security definer so the ledger can be restored too,
+-- hence every statement is scoped to the caller's active household.
+CREATE OR REPLACE FUNCTION public.log_stock_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  headers json := nullif(current_setting('request.headers', true), '')::json;
+  v_reason text := coalesce(nullif(current_setting('app.stock_reason', true), ''), headers->>'x-stock-reason');
+  v_meal_id text := coalesce(nullif(current_setting('app.stock_meal_id', true), ''), headers->>'x-stock-meal-id');
+  v_possible_id text := coalesce(nullif(current_setting('app.stock_possible_meal_id', true), ''), headers->>'x-stock-possible-meal-id');
+  v_item public.food_items%ROWTYPE;
+  qty_before integer;
+  qty_after integer;
+  grams_before numeric := 0;
+  grams_after numeric := 0;
+BEGIN
+  -- Set by restore_backup: restored rows are not stock changes, the backup brings its own ledger
+  IF current_setting('app.stock_log', true) = 'off' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.quantity IS NOT DISTINCT FROM NEW.quantity AND OLD.grams IS NOT DISTINCT FROM NEW.grams THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN v_item := OLD; ELSE v_item := NEW; END IF;
+  IF TG_OP <> 'INSERT' THEN
+    qty_before := OLD.quantity;
+    grams_before := public.stock_total_grams(OLD.grams, OLD.quantity);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    qty_after := NEW.quantity;
+    grams_after := public.stock_total_grams(NEW.grams, NEW.quantity);
+  END IF;
+
+  IF v_reason IS NULL OR v_reason NOT IN ('add', 'consume', 'deduct_meal', 'restore', 'adjust', 'expire', 'discard', 'edit', 'undo') THEN
+    v_reason := CASE
+      WHEN TG_OP = 'INSERT' THEN 'add'
+      WHEN TG_OP = 'UPDATE' THEN 'edit'
+      WHEN OLD.expiration_date < current_date THEN 'expire'
+      ELSE 'discard'
+    END;
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    food_item_id, food_name, reason, quantity_delta, grams_delta,
+    quantity_before, quantity_after, grams_before, grams_after,
+    meal_id, possible_meal_id, user_id, household_id
+  ) VALUES (
+    v_item.id, v_item.name, v_reason,
+    CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE -coalesce(OLD.quantity, 1) END + CASE WHEN TG_OP = 'DELETE' THEN 0 ELSE coalesce(NEW.quantity, 1) END,
+    grams_after - grams_before,
+    qty_before, qty_after,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.grams END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE NEW.grams END,
+    CASE WHEN v_meal_id ~ '^[0-9a-f-]{36}$' THEN v_meal_id::uuid END,
+    CASE WHEN v_possible_id ~ '^[0-9a-f-]{36}$' THEN v_possible_id::uuid END,
+    coalesce(auth.uid(), v_item.user_id),
+    v_item.household_id
+  );
+
+  IF TG_OP = 'DELETE' THEN RETURN OLD; END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_backup(p_mode text, p_tables jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Parents before children, as BACKUP_TABLES in src/lib/backup.ts
+  v_tables text[] := ARRAY[
+    'meals', 'food_items', 'shopping_groups', 'stores', 'household_members', 'meal_slots', 'day_types',
+    'user_preferences', 'product_catalog', 'price_history', 'possible_meals', 'meal_ingredients', 'shopping_items',
+    'store_groups', 'store_items', 'kitchen_timers', 'stock_deductions', 'stock_movements'
+  ];
+  v_household_id uuid := public.current_household_id();
+  v_table text;
+  v_row jsonb;
+  v_columns text[];
+  v_insert text;
+BEGIN
+  IF v_household_id IS NULL THEN RAISE EXCEPTION 'Aucun foyer actif'; END IF;
+  IF p_mode IS NULL OR p_mode NOT IN ('merge', 'replace') THEN RAISE EXCEPTION 'Mode de restauration inconnu'; END IF;
+
+  PERFORM set_config('app.stock_log', 'off', true);
+
+  IF p_mode = 'replace' THEN
+    FOR i IN REVERSE array_length(v_tables, 1)..1 LOOP
+      EXECUTE format('DELETE FROM public.%I WHERE household_id = $1', v_tables[i]) USING v_household_id;
+    END LOOP;
+  END IF;
+
+  FOREACH v_table IN ARRAY v_tables LOOP
+    -- household_id and user_id always come from the caller, never from the file
+    SELECT array_agg(attname::text) INTO v_columns
+    FROM pg_attribute
+    WHERE attrelid = format('public.%I', v_table)::regclass AND attnum > 0 AND NOT attisdropped
+      AND attname NOT IN ('household_id', 'user_id');
+
+    FOR v_row IN SELECT value FROM jsonb_array_elements(coalesce(p_tables->v_table, '[]'::jsonb)) LOOP
+      CONTINUE WHEN jsonb_typeof(v_row) <> 'object';
+      -- Snapshots are food_items rows that undo_stock_deduction inserts back as they are
+      IF v_table = 'stock_deductions' AND jsonb_typeof(v_row->'snapshot') = 'array' THEN
+        v_row := jsonb_set(v_row, '{snapshot}', (
+          SELECT coalesce(jsonb_agg(CASE WHEN jsonb_typeof(s) = 'object' THEN s || jsonb_build_object('household_id', v_household_id) ELSE s END), '[]'::jsonb)
+          FROM jsonb_array_elements(v_row->'snapshot') s
+        ));
+      END IF;
+      -- Only the columns present, so the others get their defaults
+      SELECT string_agg(quote_ident(k), ', ') INTO v_insert FROM jsonb_object_keys(v_row) k WHERE k = ANY (v_columns);
+      CONTINUE WHEN v_insert IS NULL;
+      EXECUTE format(
+        'INSERT INTO public.%1$I (household_id, %2$s) SELECT $2, %2$s FROM jsonb_populate_record(NULL::public.%1$I, $1)',
+        v_table, v_insert
+      ) USING v_row, v_household_id;
+    END LOOP;
+  END LOOP;
+
+  PERFORM set_config('app.stock_log', '', true);
+END;
+$$;
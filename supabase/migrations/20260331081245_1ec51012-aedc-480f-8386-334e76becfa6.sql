@@ -0,0 +1,101 @@
+-- Restoring a backup runs with the caller's rights, so the household policies check every row.
+-- Only the ledger, read-only for clients, goes through restore_stock_movements, which refuses to run outside a restore.
+CREATE OR REPLACE FUNCTION public.restore_stock_movements(p_replace boolean, p_rows jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_household_id uuid := public.current_household_id();
+BEGIN
+  IF current_setting('app.restoring_backup', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Réservé à la restauration d''une sauvegarde';
+  END IF;
+  IF v_household_id IS NULL THEN RAISE EXCEPTION 'Aucun foyer actif'; END IF;
+
+  IF p_replace THEN
+    DELETE FROM public.stock_movements WHERE household_id = v_household_id;
+  END IF;
+
+  -- household_id and user_id come from the caller, as for the other tables
+  INSERT INTO public.stock_movements (
+    id, food_item_id, food_name, reason, quantity_delta, grams_delta,
+    quantity_before, quantity_after, grams_before, grams_after,
+    meal_id, possible_meal_id, created_at, user_id, household_id
+  )
+  SELECT
+    coalesce(r.id, gen_random_uuid()), r.food_item_id, r.food_name, r.reason,
+    coalesce(r.quantity_delta, 0), coalesce(r.grams_delta, 0),
+    r.quantity_before, r.quantity_after, r.grams_before, r.grams_after,
+    r.meal_id, r.possible_meal_id, coalesce(r.created_at, now()), auth.uid(), v_household_id
+  FROM (
+    SELECT value FROM jsonb_array_elements(coalesce(p_rows, '[]'::jsonb)) WHERE jsonb_typeof(value) = 'object'
+  ) e
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::public.stock_movements, e.value) r;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_backup(p_mode text, p_tables jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  -- Parents before children, as BACKUP_TABLES in src/lib/backup.ts; stock_movements is restored apart
+  v_tables text[] := ARRAY[
+    'meals', 'food_items', 'shopping_groups', 'stores', 'household_members', 'meal_slots', 'day_types',
+    'user_preferences', 'product_catalog', 'price_history', 'possible_meals', 'meal_ingredients', 'shopping_items',
+    'store_groups', 'store_items', 'kitchen_timers', 'stock_deductions'
+  ];
+  v_household_id uuid := public.current_household_id();
+  v_table text;
+  v_row jsonb;
+  v_columns text[];
+  v_insert text;
+BEGIN
+  IF v_household_id IS NULL THEN RAISE EXCEPTION 'Aucun foyer actif'; END IF;
+  IF p_mode IS NULL OR p_mode NOT IN ('merge', 'replace') THEN RAISE EXCEPTION 'Mode de restauration inconnu'; END IF;
+
+  PERFORM set_config('app.stock_log', 'off', true);
+  PERFORM set_config('app.restoring_backup', 'on', true);
+
+  IF p_mode = 'replace' THEN
+    FOR i IN REVERSE array_length(v_tables, 1)..1 LOOP
+      EXECUTE format('DELETE FROM public.%I WHERE household_id = $1', v_tables[i]) USING v_household_id;
+    END LOOP;
+  END IF;
+
+  FOREACH v_table IN ARRAY v_tables LOOP
+    -- household_id and user_id always come from the caller, never from the file
+    SELECT array_agg(attname::text) INTO v_columns
+    FROM pg_attribute
+    WHERE attrelid = format('public.%I', v_table)::regclass AND attnum > 0 AND NOT attisdropped
+      AND attname NOT IN ('household_id', 'user_id');
+
+    FOR v_row IN SELECT value FROM jsonb_array_elements(coalesce(p_tables->v_table, '[]'::jsonb)) LOOP
+      CONTINUE WHEN jsonb_typeof(v_row) <> 'object';
+      -- Snapshots are food_items rows that undo_stock_deduction inserts back as they are
+      IF v_table = 'stock_deductions' AND jsonb_typeof(v_row->'snapshot') = 'array' THEN
+        v_row := jsonb_set(v_row, '{snapshot}', (
+          SELECT coalesce(jsonb_agg(CASE WHEN jsonb_typeof(s) = 'object' THEN s || jsonb_build_object('household_id', v_household_id) ELSE s END), '[]'::jsonb)
+          FROM jsonb_array_elements(v_row->'snapshot') s
+        ));
+      END IF;
+      -- Only the columns present, so the others get their defaults
+      SELECT string_agg(quote_ident(k), ', ') INTO v_insert FROM jsonb_object_keys(v_row) k WHERE k = ANY (v_columns);
+      CONTINUE WHEN v_insert IS NULL;
+      EXECUTE format(
+        'INSERT INTO public.%1$I (household_id, %2$s) SELECT $2, %2$s FROM jsonb_populate_record(NULL::public.%1$I, $1)',
+        v_table, v_insert
+      ) USING v_row, v_household_id;
+    END LOOP;
+  END LOOP;
+
+  PERFORM public.restore_stock_movements(p_mode = 'replace', p_tables->'stock_movements');
+
+  PERFORM set_config('app.restoring_backup', '', true);
+  PERFORM set_config('app.stock_log', '', true);
+END;
+$$;
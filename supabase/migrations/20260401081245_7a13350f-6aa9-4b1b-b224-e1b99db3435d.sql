@@ -0,0 +1,77 @@
+-- "Ranger les courses" in one transaction, against the stock as it is now.
+-- p_lines: [{ food_item_id, name, quantity, unit_grams, storage_type, expiration_date }] from checkoutLines.
+-- A line increments its stock row (same rules as a restore) or becomes a new food item;
+-- then the bought shopping items are unchecked. Returns the ids of the created food items.
+CREATE OR REPLACE FUNCTION public.checkout_shopping(p_lines jsonb, p_item_ids uuid[])
+RETURNS uuid[]
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  line jsonb;
+  fi public.food_items%ROWTYPE;
+  v_quantity integer;
+  v_unit_grams numeric;
+  v_expiration date;
+  v_order integer;
+  v_id uuid;
+  v_created uuid[] := '{}';
+  per_unit numeric;
+  total numeric;
+  full_units numeric;
+  remainder numeric;
+BEGIN
+  PERFORM public.set_stock_context('add');
+  -- New rows go after the current stock
+  SELECT coalesce(max(sort_order), -1) + 1 INTO v_order FROM public.food_items;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) LOOP
+    v_quantity := greatest(1, coalesce((line->>'quantity')::integer, 1));
+    v_unit_grams := nullif((line->>'unit_grams')::numeric, 0);
+    v_expiration := nullif(line->>'expiration_date', '')::date;
+    fi := NULL;
+    IF line->>'food_item_id' IS NOT NULL THEN
+      SELECT * INTO fi FROM public.food_items
+      WHERE id = (line->>'food_item_id')::uuid AND NOT is_infinite
+      FOR UPDATE;
+    END IF;
+
+    -- An expiry date different from the stock row's keeps the purchase on its own row
+    IF fi.id IS NOT NULL AND (v_expiration IS NULL OR fi.expiration_date IS NULL OR fi.expiration_date = v_expiration) THEN
+      per_unit := public.stock_unit_grams(fi.grams);
+      IF v_unit_grams IS NOT NULL AND per_unit > 0 THEN
+        IF fi.quantity IS NOT NULL AND fi.quantity >= 1 THEN
+          total := public.stock_total_grams(fi.grams, fi.quantity) + v_quantity * v_unit_grams;
+          full_units := floor(total / per_unit);
+          remainder := round(total - full_units * per_unit, 1);
+          fi.quantity := CASE WHEN remainder > 0 THEN full_units + 1 ELSE full_units END;
+          fi.grams := public.encode_stock_grams(per_unit, CASE WHEN remainder > 0 THEN remainder ELSE NULL END);
+        ELSE
+          fi.grams := public.format_stock_number(per_unit + v_quantity * v_unit_grams);
+        END IF;
+      ELSE
+        -- Without a pack weight, bought pieces are taken to be the size of the stock's unit
+        fi.quantity := coalesce(fi.quantity, 1) + v_quantity;
+      END IF;
+      UPDATE public.food_items
+      SET quantity = fi.quantity, grams = fi.grams, expiration_date = coalesce(fi.expiration_date, v_expiration)
+      WHERE id = fi.id;
+    ELSE
+      INSERT INTO public.food_items (name, storage_type, quantity, grams, expiration_date, sort_order, is_dry)
+      VALUES (
+        line->>'name', coalesce(line->>'storage_type', 'frigo'), v_quantity, public.format_stock_number(v_unit_grams),
+        v_expiration, v_order, coalesce(line->>'storage_type', 'frigo') = 'sec'
+      )
+      RETURNING id INTO v_id;
+      v_order := v_order + 1;
+      v_created := v_created || v_id;
+    END IF;
+  END LOOP;
+
+  UPDATE public.shopping_items SET checked = false, secondary_checked = false, quantity = NULL
+  WHERE id = ANY(coalesce(p_item_ids, '{}'));
+
+  PERFORM public.set_stock_context(NULL);
+  RETURN v_created;
+END;
+$$;